@@ -2,12 +2,15 @@ import { useState, useEffect } from 'react';
 import { AdminDashboard } from './components/AdminDashboard';
 import { StaffDashboard } from './components/StaffDashboard';
 import { LoginScreen } from './components/LoginScreen';
+import { PasswordSetup } from './components/PasswordSetup';
 import { Toaster } from './components/ui/sonner';
 import { toast } from 'sonner@2.0.3';
 import { api } from './utils/api';
-import { formatDate } from './utils/dateUtils';
+import { formatDate, getEventTimes, getShiftTimes } from './utils/dateUtils';
+import { isOnWaitlist } from './utils/eventUtils';
+import { hasPermission, usesAdminDashboard } from './utils/permissions';
 
-export type UserRole = 'admin' | 'staff';
+export type UserRole = 'admin' | 'coordinator' | 'viewer' | 'staff';
 
 export interface User {
   id: string;
@@ -18,38 +21,132 @@ export interface User {
   level?: string;
 }
 
+export interface EventShift {
+  id: string;
+  name: string; // Role or shift name, e.g. "Setup" or "Bar"
+  startTime: string;
+  endTime: string;
+  headcount: number; // Number of staff needed, unlimited if 0
+  requiredLevel?: string; // Overrides the event level when set
+  points: number;
+  signedUpStaff: string[];
+  waitlistedStaff?: string[];
+  signUpTimestamps?: { [staffId: string]: string };
+  confirmedStaff?: string[];
+  pointsAwarded?: string[];
+  noShowStaff?: string[]; // Selected staff marked as not attending this shift
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface EventRecurrence {
+  frequency: RecurrenceFrequency;
+  until?: string; // Last possible occurrence date (YYYY-MM-DD)
+  count?: number; // Number of occurrences
+}
+
+// Which occurrences of a series an edit or cancellation applies to
+export type SeriesScope = 'this' | 'following' | 'series';
+
+export interface EventCheckIn {
+  checkedInAt: string;
+  checkedOutAt?: string;
+  method: 'qr' | 'pin';
+}
+
 export interface Event {
   id: string;
   name: string;
   date: string;
   endDate?: string; // Optional end date, defaults to same as date
-  time: string;
-  duration: string;
+  time: string; // Start time (HH:MM) in the event's time zone
+  endTime?: string; // End time (HH:MM) in the event's time zone, past midnight if before the start time
+  timeZone?: string; // IANA time zone, e.g. "Europe/London" - missing on events created before time zones
+  startsAt?: string; // Start instant (ISO, UTC) derived by the server from date/time/timeZone
+  endsAt?: string; // End instant (ISO, UTC) derived by the server from endDate/endTime/timeZone
+  duration: string; // Readable daily length, derived from time and endTime
   location: string;
   description?: string;
   notes?: string;
   points: number;
   requiredLevel: string;
   signedUpStaff: string[];
+  waitlistedStaff?: string[]; // Staff who signed up after the event was full, in sign-up order
+  capacity?: number; // Maximum number of participants, unlimited if not set or 0
   signUpTimestamps?: { [staffId: string]: string }; // Track when each staff member signed up
   confirmedStaff?: string[]; // Staff selected to participate (approved)
   pointsAwarded?: string[]; // Staff who have actually received points
+  shifts?: EventShift[]; // Optional shifts/roles - event-level staff lists are the union of all shifts
+  seriesId?: string; // Shared by all occurrences of a recurring event
+  seriesIndex?: number; // 1-based position within the series
+  recurrence?: EventRecurrence;
+  checkIns?: { [staffId: string]: EventCheckIn }; // On-site attendance recorded with the event check-in code
+  awardCheckedInOnly?: boolean; // Only staff who checked in can receive points
+  noShowStaff?: string[]; // Selected staff marked as not attending
   createdAt: string;
   status?: 'draft' | 'open' | 'closed' | 'cancelled';
 }
 
+// Reusable event defaults - shifts are stored without staff lists
+export interface EventTemplate {
+  id: string;
+  name: string; // Template name shown in the picker
+  eventName: string; // Default name for events created from the template
+  time: string;
+  endTime: string;
+  timeZone: string;
+  duration: string;
+  location: string;
+  description: string;
+  notes: string;
+  points: number;
+  capacity: number;
+  requiredLevel: string;
+  awardCheckedInOnly: boolean;
+  shifts: Pick<EventShift, 'name' | 'startTime' | 'endTime' | 'headcount' | 'requiredLevel' | 'points'>[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EventTemplateData = Omit<EventTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
 export interface StaffMember {
   id: string;
   email: string;
   name: string;
   phone?: string;
   telegramUsername?: string;
+  telegramAccount?: TelegramAccount | null; // Set when the staff member linked Telegram themselves
   points: number;
   level: string;
   status: 'active' | 'pending';
+  role?: UserRole;
+  invitation?: StaffInvitation | null; // The latest invitation or password reset link
   createdAt: string;
 }
 
+export type InvitationPurpose = 'invite' | 'reset';
+
+export type InvitationStatus = 'sent' | 'opened' | 'accepted' | 'expired' | 'revoked';
+
+export interface StaffInvitation {
+  purpose: InvitationPurpose;
+  status: InvitationStatus;
+  sentAt: string;
+  expiresAt: string;
+  openedAt: string | null;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+}
+
+// What an invitation or password reset link shows before a password is chosen
+export interface InvitationDetails {
+  purpose: InvitationPurpose;
+  email: string;
+  name: string;
+  expiresAt: string;
+}
+
 export interface Level {
   id: string;
   name: string;
@@ -66,6 +163,220 @@ export interface PointAdjustment {
   adminId: string;
 }
 
+export interface ReliabilityRecord {
+  id: string;
+  staffId: string;
+  eventId: string;
+  eventName: string;
+  shiftId?: string;
+  type: 'no-show' | 'late-cancel';
+  penalty: number; // Points deducted, 0 if no penalty was configured
+  adjustmentId: string | null;
+  recordedBy: string;
+  timestamp: string;
+}
+
+// Another event (or shift) a staff member holds a spot in at the same time
+export interface EventOverlap {
+  eventId: string;
+  eventName: string;
+  shiftId?: string;
+  shiftName?: string;
+  start: string;
+  end: string;
+}
+
+export interface OverlapConflict {
+  staffId: string;
+  staffName: string;
+  shiftId?: string; // Shift being signed up for or selected, on events with shifts
+  overlaps: EventOverlap[];
+}
+
+// A time window a staff member is usually available, repeating every week
+export interface AvailabilityWindow {
+  day: number; // 0 = Sunday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+// Whole days a staff member cannot work
+export interface BlackoutDate {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+export interface StaffAvailability {
+  staffId: string;
+  weekly: AvailabilityWindow[]; // Empty when the staff member has not declared a weekly pattern
+  blackoutDates: BlackoutDate[];
+  timeZone: string; // Weekly windows and blackout days are in this time zone
+  updatedAt?: string;
+}
+
+export type NotificationChannel = 'email' | 'telegram' | 'whatsapp';
+
+export type NotificationStatus = 'queued' | 'sending' | 'held' | 'sent' | 'failed' | 'gave-up';
+
+// One outgoing message in the notification outbox (the delivery log)
+export interface DeliveryLogEntry {
+  id: string;
+  type: string; // e.g. "event-created" or "points-earned"
+  channel: NotificationChannel;
+  staffId: string;
+  staffName: string;
+  address: string;
+  eventName?: string;
+  status: NotificationStatus;
+  attempts: number;
+  lastError: string | null;
+  nextRetryAt: string | null;
+  fellBackTo?: NotificationChannel | null; // Channel the message was handed to after this one gave up
+  heldUntil?: string; // Set while (and after) the message was held back for quiet hours
+  deliveryStatus?: 'delivered' | 'read' | 'failed'; // From WhatsApp delivery receipts
+  deliveredAt?: string;
+  readAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+}
+
+// The text of one notification type on one channel - email templates also have a subject and heading
+export interface NotificationTemplateContent {
+  subject?: string;
+  heading?: string;
+  body: string;
+}
+
+export interface NotificationTemplate extends NotificationTemplateContent {
+  type: string;
+  channel: NotificationChannel;
+  label: string; // e.g. "Event cancelled"
+  variables: string[]; // Placeholders the template can use, e.g. "event.name"
+  isCustom: boolean; // False while the built-in default is used
+  defaultTemplate: NotificationTemplateContent;
+  updatedAt?: string;
+}
+
+// A group of notification types staff pick their channels for, e.g. "Selection"
+export interface NotificationCategory {
+  category: string;
+  label: string;
+  description: string;
+  channels: NotificationChannel[]; // Channels the category can be sent on
+  defaultChannels: NotificationChannel[];
+}
+
+export type DigestMode = 'immediate' | 'daily' | 'weekly';
+
+// Hours during which Telegram and WhatsApp messages are held back, overnight when end is before start
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:MM in timeZone
+  end: string; // HH:MM in timeZone
+  timeZone: string;
+}
+
+export interface NotificationPreferences {
+  staffId: string;
+  // Channels to use for each category, most preferred first - empty turns the category off
+  categories: Record<string, NotificationChannel[]>;
+  // Channels of each category only tried, in order, when the first of the others fails
+  backupChannels: Record<string, NotificationChannel[]>;
+  digestMode: DigestMode; // New events one message each, or batched into a daily or weekly summary
+  quietHours: QuietHours | null; // Own quiet hours, null to follow the organization's
+  updatedAt?: string;
+}
+
+// When the daily and weekly digests of new events are sent
+export interface DigestSettings {
+  sendTime: string; // HH:MM in timeZone
+  weeklyDay: number; // 0 = Sunday
+  timeZone: string;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  hoursBefore: number[]; // Selected staff are reminded this many hours before the start, e.g. [24, 2]
+  adminNudgeEnabled: boolean;
+  adminNudgeHoursBefore: number; // Admins hear about open events without a selection this close to the start
+}
+
+// Outcome of the last run of the scheduled jobs
+export interface ScheduledJobRun {
+  ranAt: string;
+  remindersQueued: number;
+  nudgesQueued: number;
+  digestsQueued: number;
+  recordsPruned: number;
+  dueNotifications: number;
+}
+
+export type EmailTransport = 'resend' | 'smtp' | 'capture';
+
+// How emails are sent - the SMTP password is write-only and only reported as set
+export interface EmailSettings {
+  transport: EmailTransport;
+  fromEmail: string;
+  fromName: string; // Shown as the sender name, e.g. "Nahky Araby Event Hub"
+  replyTo: string; // Empty sends replies to the sender address
+  smtp: { host: string; port: number; username: string; passwordSet: boolean };
+}
+
+// An email kept by the local mailbox transport instead of being sent
+export interface CapturedEmail {
+  id: string;
+  from: string;
+  replyTo: string;
+  to: string;
+  subject: string;
+  html: string;
+  capturedAt: string;
+}
+
+// A WhatsApp message template registered with Meta, used for one notification type
+export interface WhatsAppTemplateMapping {
+  name: string; // e.g. "new_event"
+  language: string; // e.g. "en_US"
+  parameters: string[]; // Notification variables filling {{1}}, {{2}}, ... in order
+}
+
+export interface WhatsAppSettings {
+  templates: Record<string, WhatsAppTemplateMapping>; // Keyed by notification type - unmapped types are sent as text
+  types: { type: string; label: string; variables: string[] }[];
+  webhookUrl: string;
+  verifyToken: string;
+  appSecretSet: boolean; // Updates are only accepted once the app secret is saved
+}
+
+// A message a staff member (or anyone else) sent to the WhatsApp number
+export interface WhatsAppReply {
+  id: string;
+  from: string;
+  staffId: string | null;
+  staffName: string;
+  text: string;
+  receivedAt: string;
+}
+
+// The Telegram account a staff member linked through the bot
+export interface TelegramAccount {
+  username: string; // "@name", empty if the account has none
+  firstName: string;
+  lastName: string;
+  linkedAt: string;
+}
+
+export interface TelegramLinkStatus {
+  available: boolean; // False until an admin connects a Telegram bot
+  linked: boolean;
+  chatId: string;
+  account: TelegramAccount | null; // Null when the chat ID was entered by an admin
+  pendingLink: { url: string; expiresAt: string } | null; // One-time t.me link waiting to be opened
+}
+
 export interface PointTransaction {
   id: string;
   staffId: string;
@@ -83,6 +394,8 @@ function App() {
   const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [pointAdjustments, setPointAdjustments] = useState<PointAdjustment[]>([]);
   const [pointTransactions, setPointTransactions] = useState<PointTransaction[]>([]);
+  const [reliabilityRecords, setReliabilityRecords] = useState<ReliabilityRecord[]>([]);
+  const [eventTemplates, setEventTemplates] = useState<EventTemplate[]>([]);
   const [levels, setLevels] = useState<Level[]>([]);
   const [adminEmail, setAdminEmail] = useState('');
   const [adminPhone, setAdminPhone] = useState('');
@@ -92,6 +405,19 @@ function App() {
   const [telegramBotName, setTelegramBotName] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isInitialized, setIsInitialized] = useState(false);
+  // Check-in link opened from a scanned QR code, handled once a staff member is logged in
+  const [pendingCheckIn, setPendingCheckIn] = useState<{ eventId: string; code: string } | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    const eventId = params.get('checkin');
+    const code = params.get('code');
+    return eventId && code ? { eventId, code } : null;
+  });
+  // Invitation or password reset link opened from an email
+  const [invitationToken, setInvitationToken] = useState<string | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    return params.get('invite') || params.get('reset');
+  });
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
 
   // Check if user is already logged in and load data
   useEffect(() => {
@@ -206,7 +532,7 @@ function App() {
         return err;
       };
 
-      const [eventsRes, staffRes, adjustmentsRes, levelsRes, settingsRes, whatsAppRes, telegramRes] = await Promise.all([
+      const [eventsRes, staffRes, adjustmentsRes, levelsRes, settingsRes, whatsAppRes, telegramRes, reliabilityRes, templatesRes] = await Promise.all([
         api.getEvents().catch((err) => { 
           handle401(err);
           console.error('Events fetch failed:', err.message || err); 
@@ -217,7 +543,7 @@ function App() {
           console.error('Staff fetch failed:', err.message || err); 
           return { staff: [] }; 
         }),
-        userToCheck.role === 'admin' 
+        hasPermission(userToCheck.role, 'points:view')
           ? api.getAdjustments().catch((err) => { 
               handle401(err);
               console.error('Adjustments fetch failed:', err.message || err); 
@@ -229,27 +555,41 @@ function App() {
           console.error('Levels fetch failed in App.tsx:', err.message || err); 
           return { levels: [] }; 
         }),
-        userToCheck.role === 'admin'
+        hasPermission(userToCheck.role, 'settings:manage')
           ? api.getAdminSettings().catch((err) => { 
               handle401(err);
               console.error('Admin settings fetch failed:', err.message || err); 
               return { email: '', phone: '' }; 
             })
           : Promise.resolve({ email: '', phone: '' }),
-        userToCheck.role === 'admin'
+        hasPermission(userToCheck.role, 'settings:manage')
           ? api.getWhatsAppStatus().catch((err) => { 
               handle401(err);
               console.error('WhatsApp status fetch failed:', err.message || err); 
               return { connected: false }; 
             })
           : Promise.resolve({ connected: false }),
-        userToCheck.role === 'admin'
+        hasPermission(userToCheck.role, 'settings:manage')
           ? api.getTelegramStatus().catch((err) => { 
               handle401(err);
               console.error('Telegram status fetch failed:', err.message || err); 
               return { connected: false }; 
             })
-          : Promise.resolve({ connected: false })
+          : Promise.resolve({ connected: false }),
+        hasPermission(userToCheck.role, 'reports:view')
+          ? api.getReliability().catch((err) => { 
+              handle401(err);
+              console.error('Reliability fetch failed:', err.message || err); 
+              return { records: [] }; 
+            })
+          : Promise.resolve({ records: [] }),
+        hasPermission(userToCheck.role, 'events:manage')
+          ? api.getTemplates().catch((err) => { 
+              handle401(err);
+              console.error('Templates fetch failed:', err.message || err); 
+              return { templates: [] }; 
+            })
+          : Promise.resolve({ templates: [] })
       ]);
       
       // If we got 401 errors, the token is invalid - log out the user
@@ -266,8 +606,10 @@ function App() {
       setStaffMembers(staffRes.staff || []);
       setPointAdjustments(adjustmentsRes.adjustments || []);
       setPointTransactions(adjustmentsRes.transactions || []);
+      setReliabilityRecords(reliabilityRes.records || []);
+      setEventTemplates(templatesRes.templates || []);
       setLevels(levelsRes.levels || []);
-      if (userToCheck?.role === 'admin') {
+      if (hasPermission(userToCheck?.role, 'settings:manage')) {
         setAdminEmail(settingsRes.email || '');
         setAdminPhone(settingsRes.phone || '');
         setWhatsAppConnected(whatsAppRes.connected || false);
@@ -303,22 +645,7 @@ function App() {
     try {
       const result = await api.login(email, password);
       
-      // Check if user needs to set up password (from server response)
-      if (result.success && result.needsPasswordSetup) {
-        return { 
-          needsPasswordSetup: true, 
-          email: result.email || email, 
-          tempPassword: result.tempPassword || password 
-        };
-      }
-      
       if (result.success && result.user) {
-        // Check if user needs to set up password (status is 'pending')
-        if (result.user.status === 'pending') {
-          // User needs to change password - return special status
-          return { needsPasswordSetup: true, email, tempPassword: password };
-        }
-        
         const user: User = {
           id: result.user.id,
           email: result.user.email,
@@ -364,9 +691,30 @@ function App() {
     }
   };
 
-  const handlePasswordSetup = async (email: string, tempPassword: string, newPassword: string): Promise<boolean> => {
+  const closeInvitation = () => {
+    // Remove the token from the address bar so a reload doesn't open the link again
+    window.history.replaceState({}, '', window.location.pathname);
+    setInvitationToken(null);
+    setInvitation(null);
+  };
+
+  // Look up the invitation or password reset link the page was opened with
+  useEffect(() => {
+    if (!invitationToken) return;
+
+    api.getInvitation(invitationToken)
+      .then(setInvitation)
+      .catch((error: any) => {
+        toast.error(error.message || 'This link is not valid', { duration: 8000 });
+        closeInvitation();
+      });
+  }, [invitationToken]);
+
+  const handlePasswordSetup = async (newPassword: string): Promise<boolean> => {
+    if (!invitationToken) return false;
+
     try {
-      const result = await api.setupPassword(email, tempPassword, newPassword);
+      const result = await api.acceptInvitation(invitationToken, newPassword);
       
       if (result.success && result.user) {
         const user: User = {
@@ -378,6 +726,7 @@ function App() {
           level: result.user.level
         };
         
+        closeInvitation();
         setCurrentUser(user);
         localStorage.setItem('staff_mgmt_current_user', JSON.stringify(user));
         
@@ -398,6 +747,19 @@ function App() {
     }
   };
 
+  // Complete a check-in link once a staff member is logged in
+  useEffect(() => {
+    if (!pendingCheckIn || !currentUser) return;
+
+    // Remove the code from the address bar so a reload doesn't check in again
+    window.history.replaceState({}, '', window.location.pathname);
+    setPendingCheckIn(null);
+
+    if (currentUser.role === 'staff') {
+      checkIn(pendingCheckIn.code, 'qr', pendingCheckIn.eventId);
+    }
+  }, [pendingCheckIn, currentUser]);
+
   const handleLogout = () => {
     api.logout();
     setCurrentUser(null);
@@ -413,11 +775,17 @@ function App() {
       const result = await api.createEvent(event);
       
       if (result.success && result.event) {
-        setEvents(prev => [...prev, result.event]);
+        // Recurring events come back with all their occurrences
+        const createdEvents = result.events || [result.event];
+        setEvents(prev => [...prev, ...createdEvents]);
         
-        if (result.event.status === 'open') {
+        if (createdEvents.length > 1) {
+          toast.success(`Created ${createdEvents.length} occurrences of "${event.name}"`, {
+            description: `${formatDate(createdEvents[0].date)} - ${formatDate(createdEvents[createdEvents.length - 1].date)}`
+          });
+        } else if (result.event.status === 'open') {
           toast.success(`Event "${event.name}" created and published`, {
-            description: 'Email notifications sent to eligible staff members'
+            description: 'Eligible staff members are being notified'
           });
         } else if (result.event.status === 'draft') {
           toast.success(`Event "${event.name}" saved as draft`, {
@@ -435,13 +803,17 @@ function App() {
     }
   };
 
-  const updateEvent = async (eventId: string, event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>) => {
+  const updateEvent = async (eventId: string, event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>, scope?: SeriesScope) => {
     try {
-      const result = await api.updateEvent(eventId, event);
+      const result = await api.updateEvent(eventId, event, scope);
       
       if (result.success && result.event) {
-        setEvents(prev => prev.map(e => e.id === eventId ? result.event : e));
-        toast.success(`Event "${event.name}" updated successfully`);
+        // Series edits come back with every occurrence that changed
+        const updatedEvents = new Map<string, Event>((result.events || [result.event]).map(e => [e.id, e]));
+        setEvents(prev => prev.map(e => updatedEvents.get(e.id) || e));
+        toast.success(updatedEvents.size > 1
+          ? `Updated ${updatedEvents.size} occurrences of "${event.name}"`
+          : `Event "${event.name}" updated successfully`);
       }
     } catch (error: any) {
       console.error('Error updating event:', error);
@@ -449,15 +821,18 @@ function App() {
     }
   };
 
-  const cancelEvent = async (eventId: string) => {
+  const cancelEvent = async (eventId: string, scope?: SeriesScope) => {
     try {
       const event = events.find(e => e.id === eventId);
-      const result = await api.cancelEvent(eventId);
+      const result = await api.cancelEvent(eventId, scope);
       
       if (result.success && result.event) {
-        setEvents(prev => prev.map(e => e.id === eventId ? result.event : e));
-        toast.success(`Event "${event?.name}" has been cancelled`, {
-          description: 'Notifications sent to all participating staff members'
+        const cancelledEvents = new Map<string, Event>((result.events || [result.event]).map(e => [e.id, e]));
+        setEvents(prev => prev.map(e => cancelledEvents.get(e.id) || e));
+        toast.success(cancelledEvents.size > 1
+          ? `Cancelled ${cancelledEvents.size} occurrences of "${event?.name}"`
+          : `Event "${event?.name}" has been cancelled`, {
+          description: 'Participating staff members are being notified'
         });
       }
     } catch (error: any) {
@@ -504,20 +879,20 @@ function App() {
         setStaffMembers(prev => [...prev, result.staff]);
         
         // Store invitation details for display
-        if (!result.emailSent && result.tempPassword) {
-          // Email didn't send (testing mode), show manual credentials
+        if (!result.emailSent && result.invitationLink) {
+          // Email didn't send (testing mode), show the link to share by hand
           const manualInviteData = {
             staff: result.staff,
-            tempPassword: result.tempPassword,
+            invitationLink: result.invitationLink,
             isTestingMode: result.isTestingMode
           };
           // Store in session storage to display in UI
           sessionStorage.setItem('lastFailedInvite', JSON.stringify(manualInviteData));
-          console.log('📧 Staff member created successfully. Email in testing mode - manual credentials will be provided.');
+          console.log('📧 Staff member created successfully. Email in testing mode - invitation link will be provided.');
         } else {
           // Email sent successfully
           toast.success(`Invitation sent to ${name}`, {
-            description: `An invitation email with login credentials has been sent to ${email}`
+            description: `An invitation link has been emailed to ${email}`
           });
         }
         
@@ -556,7 +931,8 @@ function App() {
       // Also update events to remove this staff member
       setEvents(prev => prev.map(event => ({
         ...event,
-        signedUpStaff: event.signedUpStaff.filter(id => id !== staffId)
+        signedUpStaff: event.signedUpStaff.filter(id => id !== staffId),
+        waitlistedStaff: event.waitlistedStaff?.filter(id => id !== staffId)
       })));
       
       toast.success(`${staff?.name} has been removed`);
@@ -598,6 +974,9 @@ function App() {
       if (result.success) {
         setTelegramConnected(true);
         setTelegramBotName(result.botName || '');
+        if (result.webhookError) {
+          toast.error(result.webhookError);
+        }
       }
     } catch (error: any) {
       console.error('Error connecting Telegram:', error);
@@ -605,6 +984,54 @@ function App() {
     }
   };
 
+  const migrateEventTimes = async (timeZone: string) => {
+    try {
+      const result = await api.migrateEventTimes(timeZone);
+      
+      if (result.success) {
+        setEvents(result.events);
+        toast.success(`Updated ${result.migratedCount} event${result.migratedCount !== 1 ? 's' : ''} to ${timeZone}`);
+      }
+    } catch (error: any) {
+      console.error('Error migrating event times:', error);
+      toast.error(error.message || 'Failed to migrate event times');
+    }
+  };
+
+  const saveEventTemplate = async (template: EventTemplateData, templateId?: string) => {
+    try {
+      const result = templateId
+        ? await api.updateTemplate(templateId, template)
+        : await api.createTemplate(template);
+      
+      if (result.success && result.template) {
+        setEventTemplates(prev => templateId
+          ? prev.map(t => t.id === templateId ? result.template : t)
+          : [...prev, result.template].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        toast.success(`Template "${result.template.name}" ${templateId ? 'updated' : 'saved'}`);
+      }
+    } catch (error: any) {
+      console.error('Error saving template:', error);
+      toast.error(error.message || 'Failed to save template');
+    }
+  };
+
+  const deleteEventTemplate = async (templateId: string) => {
+    try {
+      const template = eventTemplates.find(t => t.id === templateId);
+      const result = await api.deleteTemplate(templateId);
+      
+      if (result.success) {
+        setEventTemplates(prev => prev.filter(t => t.id !== templateId));
+        toast.success(`Template "${template?.name}" deleted`);
+      }
+    } catch (error: any) {
+      console.error('Error deleting template:', error);
+      toast.error(error.message || 'Failed to delete template');
+    }
+  };
+
   const addLevel = async (name: string, minPoints: number) => {
     try {
       const result = await api.addLevel(name, minPoints);
@@ -670,19 +1097,21 @@ function App() {
       const result = await api.sendPasswordReset(staffId);
       
       if (result.success) {
-        if (!result.emailSent && result.tempPassword) {
-          // Email didn't send (testing mode), store temp password for manual sharing
+        setStaffMembers(prev => prev.map(s => s.id === staffId ? result.staff : s));
+
+        if (!result.emailSent && result.resetLink) {
+          // Email didn't send (testing mode), store the link for manual sharing
           const resetData = {
             staff,
-            tempPassword: result.tempPassword,
+            resetLink: result.resetLink,
             isTestingMode: result.isTestingMode
           };
           sessionStorage.setItem('lastFailedReset', JSON.stringify(resetData));
-          console.log('🔑 Temporary password generated successfully. Email in testing mode - manual credentials will be provided.');
+          console.log('🔑 Password reset link created successfully. Email in testing mode - the link will be provided.');
           
-          // Show toast to indicate password was generated
-          toast.success(`Password reset generated for ${staff.name}`, {
-            description: 'Temporary password is ready to share manually'
+          // Show toast to indicate the link was created
+          toast.success(`Password reset link created for ${staff.name}`, {
+            description: 'The link is ready to share manually'
           });
         } else {
           // Email sent successfully
@@ -697,6 +1126,46 @@ function App() {
     }
   };
 
+  const resendInvitation = async (staffId: string) => {
+    try {
+      const result = await api.resendInvitation(staffId);
+      
+      if (result.success && result.staff) {
+        setStaffMembers(prev => prev.map(s => s.id === staffId ? result.staff : s));
+
+        if (!result.emailSent && result.invitationLink) {
+          // Email didn't send (testing mode), show the link to share by hand
+          sessionStorage.setItem('lastFailedInvite', JSON.stringify({
+            staff: result.staff,
+            invitationLink: result.invitationLink,
+            isTestingMode: result.isTestingMode
+          }));
+        } else {
+          toast.success(`Invitation resent to ${result.staff.name}`, {
+            description: 'The previous invitation link no longer works'
+          });
+        }
+      }
+    } catch (error: any) {
+      console.error('Error resending invitation:', error);
+      toast.error(error.message || 'Failed to resend invitation');
+    }
+  };
+
+  const revokeInvitation = async (staffId: string) => {
+    try {
+      const result = await api.revokeInvitation(staffId);
+      
+      if (result.success && result.staff) {
+        setStaffMembers(prev => prev.map(s => s.id === staffId ? result.staff : s));
+        toast.success(`Link revoked for ${result.staff.name}`);
+      }
+    } catch (error: any) {
+      console.error('Error revoking invitation:', error);
+      toast.error(error.message || 'Failed to revoke link');
+    }
+  };
+
   const sendTelegramTest = async (staffId: string) => {
     try {
       const staff = staffMembers.find(s => s.id === staffId);
@@ -795,7 +1264,7 @@ function App() {
     }
   };
 
-  const signUpForEvent = async (eventId: string, staffId: string) => {
+  const signUpForEvent = async (eventId: string, staffId: string, shiftId?: string) => {
     try {
       const event = events.find(e => e.id === eventId);
       if (!event) {
@@ -803,25 +1272,52 @@ function App() {
         return;
       }
 
-      if (event.signedUpStaff.includes(staffId)) {
-        toast.info('You are already signed up for this event');
+      const shift = shiftId ? event.shifts?.find(s => s.id === shiftId) : undefined;
+      if (shiftId && !shift) {
+        toast.error('Shift not found');
+        return;
+      }
+
+      // For events with shifts, the shift is the slot being signed up for
+      const slot = shift || event;
+      const slotLabel = shift ? 'shift' : 'event';
+
+      if (slot.signedUpStaff.includes(staffId)) {
+        toast.info(`You are already signed up for this ${slotLabel}`);
         return;
       }
 
-      // Check if event is in the past
-      const eventDate = new Date(`${event.date}T${event.time}`);
-      if (eventDate < new Date()) {
+      if (isOnWaitlist(slot, staffId)) {
+        toast.info(`You are already on the waitlist for this ${slotLabel}`);
+        return;
+      }
+
+      // Check if event (or shift) is in the past - times are resolved in the event's time zone
+      const slotStart = shift ? getShiftTimes(event, shift).start : getEventTimes(event).start;
+      if (slotStart < new Date()) {
         toast.error('Cannot sign up for past events');
         return;
       }
 
-      const result = await api.signUpForEvent(eventId);
+      const result = await api.signUpForEvent(eventId, shiftId);
+      const displayName = shift ? `${event.name} - ${shift.name}` : event.name;
       
       if (result.success && result.event) {
         setEvents(prev => prev.map(e => e.id === eventId ? result.event : e));
-        toast.success(`Successfully signed up for "${event.name}"`, {
-          description: `${formatDate(event.date)} at ${event.time}`
-        });
+        if (result.waitlisted) {
+          toast.info(`"${displayName}" is full - you are #${result.waitlistPosition} on the waitlist`, {
+            description: `You will be moved into the ${slotLabel} automatically if a spot opens up`
+          });
+        } else {
+          toast.success(`Successfully signed up for "${displayName}"`, {
+            description: `${formatDate(event.date)} at ${shift ? shift.startTime : event.time}`
+          });
+        }
+        if (result.overlaps && result.overlaps.length > 0) {
+          toast.warning('This overlaps with another booking', {
+            description: result.overlaps.map(overlap => overlap.shiftName ? `${overlap.eventName} - ${overlap.shiftName}` : overlap.eventName).join(', ')
+          });
+        }
       }
     } catch (error: any) {
       console.error('Error signing up for event:', error);
@@ -829,14 +1325,23 @@ function App() {
     }
   };
 
-  const cancelSignUp = async (eventId: string, staffId: string) => {
+  const cancelSignUp = async (eventId: string, staffId: string, shiftId?: string) => {
     try {
       const event = events.find(e => e.id === eventId);
-      const result = await api.cancelSignUp(eventId);
+      const shift = shiftId ? event?.shifts?.find(s => s.id === shiftId) : undefined;
+      const result = await api.cancelSignUp(eventId, shiftId);
       
       if (result.success && result.event) {
         setEvents(prev => prev.map(e => e.id === eventId ? result.event : e));
-        toast.info(`Cancelled sign-up for "${event?.name}"`);
+        if (result.lateCancellation) {
+          toast.warning(`Cancelled sign-up for "${event?.name}${shift ? ` - ${shift.name}` : ''}"`, {
+            description: result.lateCancellation.penalty > 0
+              ? `Late cancellation recorded, ${result.lateCancellation.penalty} points deducted`
+              : 'Recorded as a late cancellation'
+          });
+        } else {
+          toast.info(`Cancelled sign-up for "${event?.name}${shift ? ` - ${shift.name}` : ''}"`);
+        }
       }
     } catch (error: any) {
       console.error('Error cancelling sign-up:', error);
@@ -844,7 +1349,31 @@ function App() {
     }
   };
 
-  const adminSignUpStaff = async (eventId: string, staffIds: string[]) => {
+  // Warn the admin about staff who were signed up or selected despite being unavailable
+  const showAvailabilityConflicts = (conflicts: { staffId: string; reason: string }[] = []) => {
+    if (conflicts.length === 0) return;
+    const names = conflicts.map(conflict => {
+      const staff = staffMembers.find(s => s.id === conflict.staffId);
+      return `${staff?.name || 'Unknown'}: ${conflict.reason}`;
+    });
+    toast.warning(`${conflicts.length} staff member${conflicts.length !== 1 ? 's are' : ' is'} unavailable`, {
+      description: names.join('; '),
+      duration: 8000
+    });
+  };
+
+  // Warn the admin about staff who now hold spots in overlapping events (or shifts)
+  const showOverlapConflicts = (conflicts: OverlapConflict[] = []) => {
+    if (conflicts.length === 0) return;
+    toast.warning(`${conflicts.length} staff member${conflicts.length !== 1 ? 's are' : ' is'} double-booked`, {
+      description: conflicts.map(conflict =>
+        `${conflict.staffName}: ${conflict.overlaps.map(overlap => overlap.shiftName ? `${overlap.eventName} - ${overlap.shiftName}` : overlap.eventName).join(', ')}`
+      ).join('; '),
+      duration: 8000
+    });
+  };
+
+  const adminSignUpStaff = async (eventId: string, staffIds: string[], shiftId?: string) => {
     try {
       const event = events.find(e => e.id === eventId);
       if (!event) {
@@ -852,12 +1381,19 @@ function App() {
         return;
       }
 
-      const result = await api.adminSignUpStaff(eventId, staffIds);
+      const result = await api.adminSignUpStaff(eventId, staffIds, shiftId);
       
       if (result.success && result.event) {
         setEvents(prev => prev.map(e => e.id === eventId ? result.event : e));
-        const staffCount = result.addedCount || staffIds.length;
-        toast.success(`Successfully signed up ${staffCount} staff member${staffCount !== 1 ? 's' : ''} for "${event.name}"`);
+        const staffCount = result.addedCount ?? staffIds.length;
+        const waitlistedCount = result.waitlistedCount || 0;
+        toast.success(`Successfully signed up ${staffCount} staff member${staffCount !== 1 ? 's' : ''} for "${event.name}"`, {
+          description: waitlistedCount > 0
+            ? `${waitlistedCount} added to the waitlist because the event is full`
+            : undefined
+        });
+        showAvailabilityConflicts(result.availabilityConflicts);
+        showOverlapConflicts(result.overlapConflicts);
       }
     } catch (error: any) {
       console.error('Error admin signing up staff:', error);
@@ -865,7 +1401,7 @@ function App() {
     }
   };
 
-  const confirmParticipation = async (eventId: string, staffId: string) => {
+  const confirmParticipation = async (eventId: string, staffId: string, shiftId?: string) => {
     try {
       const event = events.find(e => e.id === eventId);
       const staff = staffMembers.find(s => s.id === staffId);
@@ -875,7 +1411,8 @@ function App() {
         return;
       }
 
-      const result = await api.confirmParticipation(eventId, staffId);
+      const shift = shiftId ? event.shifts?.find(s => s.id === shiftId) : undefined;
+      const result = await api.confirmParticipation(eventId, staffId, shiftId);
       
       if (result.success) {
         // Update staff member
@@ -891,8 +1428,8 @@ function App() {
           setPointAdjustments(prev => [...prev, result.adjustment]);
         }
         
-        toast.success(`Confirmed participation for ${staff.name}`, {
-          description: `Awarded ${event.points} points`
+        toast.success(`Confirmed participation for ${staff.name}${shift ? ` (${shift.name})` : ''}`, {
+          description: `Awarded ${shift ? shift.points : event.points} points`
         });
         
         if (result.leveledUp) {
@@ -907,7 +1444,7 @@ function App() {
     }
   };
 
-  const confirmAllParticipants = async (eventId: string) => {
+  const confirmAllParticipants = async (eventId: string, shiftId?: string) => {
     try {
       const event = events.find(e => e.id === eventId);
       
@@ -916,7 +1453,7 @@ function App() {
         return;
       }
 
-      const result = await api.confirmAllParticipants(eventId);
+      const result = await api.confirmAllParticipants(eventId, shiftId);
       
       if (result.success) {
         // Update all staff members
@@ -934,8 +1471,14 @@ function App() {
         setPointAdjustments(prev => [...prev, ...result.adjustments]);
         
         toast.success(`Confirmed ${result.confirmedCount} participant${result.confirmedCount !== 1 ? 's' : ''}`, {
-          description: `Awarded ${event.points} points to each participant`
+          description: event.shifts && event.shifts.length > 0
+            ? 'Awarded the points of each shift worked'
+            : `Awarded ${event.points} points to each participant`
         });
+
+        if (result.skippedCount) {
+          toast.info(`Skipped ${result.skippedCount} participant${result.skippedCount !== 1 ? 's' : ''} without a check-in`);
+        }
         
         // Show level up notifications
         if (result.levelUps && result.levelUps.length > 0) {
@@ -952,7 +1495,69 @@ function App() {
     }
   };
 
-  const closeEvent = async (eventId: string, approvedStaffIds: string[]) => {
+  const markNoShow = async (eventId: string, staffId: string, shiftId?: string) => {
+    try {
+      const result = await api.markNoShow(eventId, staffId, shiftId);
+      
+      if (result.success) {
+        setEvents(prev => prev.map(e => 
+          e.id === eventId ? result.event : e
+        ));
+        setReliabilityRecords(prev => [...prev, result.record]);
+        
+        if (result.staff) {
+          setStaffMembers(prev => prev.map(s => s.id === staffId ? result.staff : s));
+        }
+        if (result.adjustment) {
+          setPointAdjustments(prev => [...prev, result.adjustment]);
+        }
+        
+        const staff = staffMembers.find(s => s.id === staffId);
+        toast.warning(`Marked ${staff?.name || 'staff member'} as a no-show`, {
+          description: result.record.penalty > 0 ? `${result.record.penalty} points deducted` : undefined
+        });
+      }
+    } catch (error: any) {
+      console.error('Error marking no-show:', error);
+      toast.error(error.message || 'Failed to mark no-show');
+    }
+  };
+
+  const checkIn = async (code: string, method: 'qr' | 'pin', eventId?: string) => {
+    try {
+      const result = await api.checkIn(code, method, eventId);
+      
+      if (result.success) {
+        setEvents(prev => prev.map(e => 
+          e.id === result.event.id ? result.event : e
+        ));
+        toast.success(`Checked in to ${result.event.name}`);
+        return true;
+      }
+    } catch (error: any) {
+      console.error('Error checking in:', error);
+      toast.error(error.message || 'Failed to check in');
+    }
+    return false;
+  };
+
+  const checkOut = async (eventId: string) => {
+    try {
+      const result = await api.checkOut(eventId);
+      
+      if (result.success) {
+        setEvents(prev => prev.map(e => 
+          e.id === eventId ? result.event : e
+        ));
+        toast.success(`Checked out of ${result.event.name}`);
+      }
+    } catch (error: any) {
+      console.error('Error checking out:', error);
+      toast.error(error.message || 'Failed to check out');
+    }
+  };
+
+  const closeEvent = async (eventId: string, approvedStaffIds: string[], shiftSelections?: { [shiftId: string]: string[] }) => {
     try {
       const event = events.find(e => e.id === eventId);
       
@@ -961,7 +1566,7 @@ function App() {
         return;
       }
 
-      const result = await api.closeEvent(eventId, approvedStaffIds);
+      const result = await api.closeEvent(eventId, approvedStaffIds, shiftSelections);
       
       if (result.success) {
         // Update the event
@@ -975,6 +1580,8 @@ function App() {
         toast.success(`Event closed successfully`, {
           description: `${approvedCount} staff marked as selected`
         });
+        showAvailabilityConflicts(result.availabilityConflicts);
+        showOverlapConflicts(result.overlapConflicts);
         
         // Show level up notifications
         if (result.levelUps && result.levelUps.length > 0) {
@@ -1078,10 +1685,24 @@ function App() {
     );
   }
 
+  if (invitation) {
+    return (
+      <>
+        <PasswordSetup
+          email={invitation.email}
+          purpose={invitation.purpose}
+          onPasswordSet={handlePasswordSetup}
+          onCancel={closeInvitation}
+        />
+        <Toaster richColors position="top-center" />
+      </>
+    );
+  }
+
   if (!currentUser) {
     return (
       <>
-        <LoginScreen onLogin={handleLogin} onPasswordSetup={handlePasswordSetup} />
+        <LoginScreen onLogin={handleLogin} />
         <Toaster richColors position="top-center" />
       </>
     );
@@ -1089,7 +1710,7 @@ function App() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      {currentUser.role === 'admin' ? (
+      {usesAdminDashboard(currentUser.role) ? (
         <AdminDashboard
           events={events}
           staffMembers={staffMembers}
@@ -1108,9 +1729,17 @@ function App() {
           onDeleteStaff={deleteStaffMember}
           onAdjustPoints={adjustPoints}
           onSendPasswordReset={sendPasswordReset}
+          onResendInvitation={resendInvitation}
+          onRevokeInvitation={revokeInvitation}
           onSendTelegramTest={sendTelegramTest}
           onConfirmParticipation={confirmParticipation}
           onConfirmAllParticipants={confirmAllParticipants}
+          onMarkNoShow={markNoShow}
+          reliabilityRecords={reliabilityRecords}
+          eventTemplates={eventTemplates}
+          onSaveEventTemplate={saveEventTemplate}
+          onMigrateEventTimes={migrateEventTimes}
+          onDeleteEventTemplate={deleteEventTemplate}
           onCloseEvent={closeEvent}
           onAdminSignUpStaff={adminSignUpStaff}
           onSaveAdminSettings={saveAdminSettings}
@@ -1138,6 +1767,8 @@ function App() {
           staffMembers={staffMembers}
           onSignUp={signUpForEvent}
           onCancelSignUp={cancelSignUp}
+          onCheckIn={checkIn}
+          onCheckOut={checkOut}
           onLogout={handleLogout}
         />
       )}
@@ -6,10 +6,14 @@ import { EventManagement } from './EventManagement';
 import { StaffManagement } from './StaffManagement';
 import { StaffingOverview } from './StaffingOverview';
 import { AdminSettings, Level } from './AdminSettings';
-import { NotificationDebug } from './NotificationDebug';
+import { DeliveryLog } from './DeliveryLog';
+import { CalendarFeedCard } from './CalendarFeedCard';
 import { PointsLog, PointTransaction } from './PointsLog';
 import { InstructionsTab } from './InstructionsTab';
-import { Event, StaffMember, User, PointAdjustment } from '../App';
+import { TeamAccessCard } from './TeamAccessCard';
+import { Event, StaffMember, User, PointAdjustment, SeriesScope, ReliabilityRecord, EventTemplate, EventTemplateData } from '../App';
+import { getEventTiming } from '../utils/dateUtils';
+import { Permission, ROLE_LABELS, hasPermission } from '../utils/permissions';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,8 +41,8 @@ interface AdminDashboardProps {
   adminEmail: string;
   adminPhone: string;
   onAddEvent: (event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>) => void;
-  onUpdateEvent: (eventId: string, event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>) => void;
-  onCancelEvent: (eventId: string) => void;
+  onUpdateEvent: (eventId: string, event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>, scope?: SeriesScope) => void;
+  onCancelEvent: (eventId: string, scope?: SeriesScope) => void;
   onReinstateEvent: (eventId: string) => void;
   onDeleteEvent: (eventId: string) => void;
   onAddStaff: (email: string, name: string, phone: string) => StaffMember | null;
@@ -46,11 +50,19 @@ interface AdminDashboardProps {
   onDeleteStaff: (staffId: string) => void;
   onAdjustPoints: (staffId: string, pointsChange: number, reason: string) => void;
   onSendPasswordReset: (staffId: string) => void;
+  onResendInvitation: (staffId: string) => void;
+  onRevokeInvitation: (staffId: string) => void;
   onSendTelegramTest: (staffId: string) => void;
-  onConfirmParticipation: (eventId: string, staffId: string) => void;
-  onConfirmAllParticipants: (eventId: string) => void;
-  onCloseEvent: (eventId: string, approvedStaffIds: string[]) => void;
-  onAdminSignUpStaff: (eventId: string, staffIds: string[]) => void;
+  onConfirmParticipation: (eventId: string, staffId: string, shiftId?: string) => void;
+  onConfirmAllParticipants: (eventId: string, shiftId?: string) => void;
+  onMarkNoShow: (eventId: string, staffId: string, shiftId?: string) => void;
+  reliabilityRecords: ReliabilityRecord[];
+  eventTemplates: EventTemplate[];
+  onSaveEventTemplate: (template: EventTemplateData, templateId?: string) => Promise<void>;
+  onMigrateEventTimes: (timeZone: string) => Promise<void>;
+  onDeleteEventTemplate: (templateId: string) => Promise<void>;
+  onCloseEvent: (eventId: string, approvedStaffIds: string[], shiftSelections?: { [shiftId: string]: string[] }) => void;
+  onAdminSignUpStaff: (eventId: string, staffIds: string[], shiftId?: string) => void;
   onSaveAdminSettings: (email: string, phone: string) => Promise<void>;
   onAddLevel: (name: string, minPoints: number) => Promise<void>;
   onUpdateLevel: (levelId: string, name: string, minPoints: number) => Promise<void>;
@@ -67,6 +79,16 @@ interface AdminDashboardProps {
   currentUser: User;
 }
 
+// Tabs in display order, each shown to roles with any of its permissions (or to everyone when none are listed)
+const DASHBOARD_TABS: { value: string; label: string; permissions: Permission[] }[] = [
+  { value: 'events', label: 'Events', permissions: ['events:manage'] },
+  { value: 'staff', label: 'Staff', permissions: ['staff:manage', 'points:manage', 'reports:view'] },
+  { value: 'overview', label: 'Overview', permissions: ['staffing:manage'] },
+  { value: 'points', label: 'Points Log', permissions: ['points:view'] },
+  { value: 'settings', label: 'Settings', permissions: ['settings:manage'] },
+  { value: 'instructions', label: 'Instructions', permissions: [] },
+];
+
 export function AdminDashboard({
   events,
   staffMembers,
@@ -85,9 +107,17 @@ export function AdminDashboard({
   onDeleteStaff,
   onAdjustPoints,
   onSendPasswordReset,
+  onResendInvitation,
+  onRevokeInvitation,
   onSendTelegramTest,
   onConfirmParticipation,
   onConfirmAllParticipants,
+  onMarkNoShow,
+  reliabilityRecords,
+  eventTemplates,
+  onSaveEventTemplate,
+  onMigrateEventTimes,
+  onDeleteEventTemplate,
   onCloseEvent,
   onAdminSignUpStaff,
   onSaveAdminSettings,
@@ -105,12 +135,15 @@ export function AdminDashboard({
   onResetData,
   currentUser
 }: AdminDashboardProps) {
-  const [activeTab, setActiveTab] = useState('events');
+  const can = (permission: Permission) => hasPermission(currentUser.role, permission);
+  const visibleTabs = DASHBOARD_TABS.filter(tab => tab.permissions.length === 0 || tab.permissions.some(can));
+
+  const [activeTab, setActiveTab] = useState(visibleTabs[0].value);
   const [showResetDialog, setShowResetDialog] = useState(false);
 
   const totalStaff = staffMembers.length;
   const activeStaff = staffMembers.filter(s => s.status === 'active').length;
-  const upcomingEvents = events.filter(e => new Date(e.date) >= new Date()).length;
+  const upcomingEvents = events.filter(e => getEventTiming(e) !== 'past').length;
   const totalSignups = events.reduce((acc, event) => acc + event.signedUpStaff.length, 0);
 
   return (
@@ -121,22 +154,24 @@ export function AdminDashboard({
           <div className="flex justify-between items-center py-4">
             <div>
               <h1 className="text-gray-900">Admin Dashboard</h1>
-              <p className="text-gray-500">{currentUser.name}</p>
+              <p className="text-gray-500">{currentUser.name} · {ROLE_LABELS[currentUser.role]}</p>
             </div>
             <div className="flex gap-2">
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="outline" size="icon">
-                    <Settings className="h-4 w-4" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => setShowResetDialog(true)} className="text-red-600">
-                    <RotateCcw className="h-4 w-4 mr-2" />
-                    Reset All Data
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+              {can('settings:manage') && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="icon">
+                      <Settings className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setShowResetDialog(true)} className="text-red-600">
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Reset All Data
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               <Button variant="outline" onClick={onLogout}>
                 <LogOut className="h-4 w-4 mr-2" />
                 Logout
@@ -172,13 +207,10 @@ export function AdminDashboard({
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-6 mb-6">
-            <TabsTrigger value="events">Events</TabsTrigger>
-            <TabsTrigger value="staff">Staff</TabsTrigger>
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="points">Points Log</TabsTrigger>
-            <TabsTrigger value="settings">Settings</TabsTrigger>
-            <TabsTrigger value="instructions">Instructions</TabsTrigger>
+          <TabsList className="w-full mb-6">
+            {visibleTabs.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
           </TabsList>
           
           <TabsContent value="events">
@@ -193,19 +225,30 @@ export function AdminDashboard({
               onDeleteEvent={onDeleteEvent}
               onCloseEvent={onCloseEvent}
               onAdminSignUpStaff={onAdminSignUpStaff}
+              reliabilityRecords={reliabilityRecords}
+              eventTemplates={eventTemplates}
+              onSaveEventTemplate={onSaveEventTemplate}
+              onMigrateEventTimes={onMigrateEventTimes}
+              onDeleteEventTemplate={onDeleteEventTemplate}
             />
           </TabsContent>
           
           <TabsContent value="staff">
             <StaffManagement
               staffMembers={staffMembers}
+              events={events}
+              reliabilityRecords={reliabilityRecords}
               levels={levels}
               onAddStaff={onAddStaff}
               onUpdateStaff={onUpdateStaff}
               onDeleteStaff={onDeleteStaff}
               onAdjustPoints={onAdjustPoints}
               onSendPasswordReset={onSendPasswordReset}
+              onResendInvitation={onResendInvitation}
+              onRevokeInvitation={onRevokeInvitation}
               onSendTelegramTest={onSendTelegramTest}
+              canManageStaff={can('staff:manage')}
+              canAdjustPoints={can('points:manage')}
             />
           </TabsContent>
           
@@ -227,7 +270,9 @@ export function AdminDashboard({
               telegramConnected={telegramConnected}
               telegramBotName={telegramBotName}
               />
-              <NotificationDebug />
+              {can('roles:manage') && <TeamAccessCard currentUserId={currentUser.id} />}
+              <CalendarFeedCard isAdmin />
+              <DeliveryLog />
             </div>
           </TabsContent>
           
@@ -237,6 +282,7 @@ export function AdminDashboard({
               staffMembers={staffMembers}
               onConfirmParticipation={onConfirmParticipation}
               onConfirmAllParticipants={onConfirmAllParticipants}
+              onMarkNoShow={onMarkNoShow}
               onCloseEvent={onCloseEvent}
               onAdminSignUpStaff={onAdminSignUpStaff}
             />
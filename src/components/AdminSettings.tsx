@@ -1,11 +1,19 @@
 import { useState, useEffect } from 'react';
-import { Save, Mail, Phone, Plus, Trash2, Edit2, Check, X, GripVertical, AlertCircle, ArrowUp, ArrowDown, MessageCircle, Link as LinkIcon, Send as SendIcon } from 'lucide-react';
+import { Save, Phone, Plus, Trash2, Edit2, Check, X, GripVertical, AlertCircle, ArrowUp, ArrowDown, MessageCircle, Link as LinkIcon, Send as SendIcon, ShieldCheck, CalendarClock } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { NotificationTemplatesCard } from './NotificationTemplatesCard';
+import { ReminderSettingsCard } from './ReminderSettingsCard';
+import { DigestSettingsCard } from './DigestSettingsCard';
+import { QuietHoursCard } from './QuietHoursCard';
+import { TelegramBotCommands } from './TelegramBotCommands';
+import { WhatsAppMessaging } from './WhatsAppMessaging';
+import { EmailSettingsCard } from './EmailSettingsCard';
 import { toast } from 'sonner@2.0.3';
 import { api } from '../utils/api';
 import {
@@ -70,15 +78,13 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
   const [telegramBotToken, setTelegramBotToken] = useState('');
   const [isConnectingTelegram, setIsConnectingTelegram] = useState(false);
 
-  // Debug state
-  const [showDebugDialog, setShowDebugDialog] = useState(false);
-  const [debugData, setDebugData] = useState<any>(null);
-  const [isLoadingDebug, setIsLoadingDebug] = useState(false);
+  // Reliability state
+  const [reliabilitySettings, setReliabilitySettings] = useState({ lateCancelHours: '24', lateCancelPenalty: '0', noShowPenalty: '0' });
+  const [isSavingReliability, setIsSavingReliability] = useState(false);
 
-  // Email config state
-  const [fromEmail, setFromEmail] = useState('onboarding@resend.dev');
-  const [isTestMode, setIsTestMode] = useState(true);
-  const [isLoadingEmailConfig, setIsLoadingEmailConfig] = useState(true);
+  // Overlapping bookings state
+  const [overlapMode, setOverlapMode] = useState<'warn' | 'block'>('warn');
+  const [isSavingOverlap, setIsSavingOverlap] = useState(false);
 
   useEffect(() => {
     setEmail(initialEmail);
@@ -86,21 +92,35 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
   }, [initialEmail, initialPhone]);
 
   useEffect(() => {
-    // Fetch the current email configuration from the server
-    const fetchEmailConfig = async () => {
+    // Fetch the no-show and late cancellation penalties
+    const fetchReliabilitySettings = async () => {
       try {
-        const config = await api.getEmailConfig();
-        setFromEmail(config.fromEmail);
-        setIsTestMode(config.isTestMode);
+        const { settings } = await api.getReliability();
+        setReliabilitySettings({
+          lateCancelHours: settings.lateCancelHours.toString(),
+          lateCancelPenalty: settings.lateCancelPenalty.toString(),
+          noShowPenalty: settings.noShowPenalty.toString()
+        });
       } catch (error) {
-        console.error('Failed to fetch email config:', error);
-        toast.error('Failed to load email configuration');
-      } finally {
-        setIsLoadingEmailConfig(false);
+        console.error('Failed to fetch reliability settings:', error);
       }
     };
 
-    fetchEmailConfig();
+    fetchReliabilitySettings();
+  }, []);
+
+  useEffect(() => {
+    // Fetch how overlapping bookings are handled
+    const fetchOverlapSettings = async () => {
+      try {
+        const { settings } = await api.getOverlapSettings();
+        setOverlapMode(settings.mode);
+      } catch (error) {
+        console.error('Failed to fetch overlap settings:', error);
+      }
+    };
+
+    fetchOverlapSettings();
   }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -197,16 +217,35 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
     }
   };
 
-  const handleLoadDebug = async () => {
-    setIsLoadingDebug(true);
+  const handleSaveReliability = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingReliability(true);
+    
+    try {
+      await api.saveReliabilitySettings(
+        parseInt(reliabilitySettings.lateCancelHours) || 0,
+        parseInt(reliabilitySettings.lateCancelPenalty) || 0,
+        parseInt(reliabilitySettings.noShowPenalty) || 0
+      );
+      toast.success('Reliability settings saved successfully');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save reliability settings');
+    } finally {
+      setIsSavingReliability(false);
+    }
+  };
+
+  const handleSaveOverlap = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingOverlap(true);
+
     try {
-      const data = await api.getNotificationDebug();
-      setDebugData(data);
-      setShowDebugDialog(true);
+      await api.saveOverlapSettings(overlapMode);
+      toast.success('Overlap settings saved successfully');
     } catch (error: any) {
-      toast.error(error.message || 'Failed to load debug information');
+      toast.error(error.message || 'Failed to save overlap settings');
     } finally {
-      setIsLoadingDebug(false);
+      setIsSavingOverlap(false);
     }
   };
 
@@ -217,96 +256,7 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
         <p className="text-gray-500">Configure email settings and staff levels</p>
       </div>
 
-      {/* Email Sender Configuration */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Mail className="h-5 w-5" />
-            Email Sender Configuration
-          </CardTitle>
-          <CardDescription>
-            Current email address used to send invitations and password resets
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-              <Label className="text-sm text-gray-600 mb-2 block">Current Sender Email:</Label>
-              {isLoadingEmailConfig ? (
-                <div className="flex items-center gap-2">
-                  <div className="bg-white px-3 py-2 rounded border border-gray-300 flex-1">
-                    <span className="text-gray-400">Loading...</span>
-                  </div>
-                </div>
-              ) : (
-                <div className="flex items-center gap-2">
-                  <code className="bg-white px-3 py-2 rounded border border-gray-300 font-mono text-sm flex-1">
-                    {fromEmail}
-                  </code>
-                  {isTestMode ? (
-                    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
-                      Test Mode
-                    </Badge>
-                  ) : (
-                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
-                      Production
-                    </Badge>
-                  )}
-                </div>
-              )}
-            </div>
-
-            <Alert className="bg-blue-50 border-blue-200">
-              <AlertCircle className="h-4 w-4 text-blue-600" />
-              <AlertTitle className="text-blue-900">How to Change the Sender Email</AlertTitle>
-              <AlertDescription>
-                <div className="space-y-3 text-blue-800 text-sm mt-2">
-                  <p>To use your own domain email (e.g., noreply@yourdomain.com):</p>
-                  <ol className="list-decimal list-inside space-y-2 ml-2">
-                    <li>
-                      <strong>Verify your domain:</strong> Go to{' '}
-                      <a 
-                        href="https://resend.com/domains" 
-                        target="_blank" 
-                        rel="noopener noreferrer" 
-                        className="text-blue-600 hover:underline font-medium"
-                      >
-                        resend.com/domains
-                      </a>{' '}
-                      and add your domain
-                    </li>
-                    <li>
-                      <strong>Add DNS records:</strong> Add the DNS records shown in Resend to your domain's DNS settings
-                    </li>
-                    <li>
-                      <strong>Wait for verification:</strong> This usually takes a few minutes to complete
-                    </li>
-                    <li>
-                      <strong>Update the code:</strong> Once verified, open{' '}
-                      <code className="bg-white px-1.5 py-0.5 rounded text-xs border border-blue-300">
-                        /supabase/functions/server/index.tsx
-                      </code>
-                      <div className="mt-2 ml-4 space-y-1">
-                        <div className="text-xs">
-                          • Find <strong>line 10</strong>: <code className="bg-white px-1.5 py-0.5 rounded border border-blue-300">const FROM_EMAIL = 'onboarding@resend.dev';</code>
-                        </div>
-                        <div className="text-xs">
-                          • Change to: <code className="bg-white px-1.5 py-0.5 rounded border border-blue-300">const FROM_EMAIL = 'noreply@yourdomain.com';</code>
-                        </div>
-                      </div>
-                    </li>
-                  </ol>
-                  <p className="mt-3 pt-3 border-t border-blue-200">
-                    <strong>Note:</strong> While using <code className="bg-white px-1 py-0.5 rounded">onboarding@resend.dev</code>, 
-                    emails can only be sent to <code className="bg-white px-1 py-0.5 rounded">delivered@resend.dev</code> in test mode. 
-                    After domain verification, you can send to any email address.
-                  </p>
-                </div>
-              </AlertDescription>
-            </Alert>
-          </div>
-        </CardContent>
-      </Card>
+      <EmailSettingsCard />
 
       {/* WhatsApp Integration */}
       <Card>
@@ -342,6 +292,7 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
                 <MessageCircle className="h-4 w-4 mr-2" />
                 Update Connection
               </Button>
+              <WhatsAppMessaging />
             </div>
           ) : (
             <div className="space-y-4">
@@ -395,6 +346,7 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
                 <SendIcon className="h-4 w-4 mr-2" />
                 Update Connection
               </Button>
+              <TelegramBotCommands />
             </div>
           ) : (
             <div className="space-y-4">
@@ -414,6 +366,112 @@ export function AdminSettings({ onSave, initialEmail = '', initialPhone = '', le
         </CardContent>
       </Card>
 
+      {/* Reliability */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            No-shows & Late Cancellations
+          </CardTitle>
+          <CardDescription>
+            Penalties are deducted from the staff member's points and shown in the points log. Use 0 for no penalty.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveReliability} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="lateCancelHours">Late Cancellation Window (hours)</Label>
+                <Input
+                  id="lateCancelHours"
+                  type="number"
+                  min="0"
+                  value={reliabilitySettings.lateCancelHours}
+                  onChange={(e) => setReliabilitySettings({ ...reliabilitySettings, lateCancelHours: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lateCancelPenalty">Late Cancellation Penalty</Label>
+                <Input
+                  id="lateCancelPenalty"
+                  type="number"
+                  min="0"
+                  value={reliabilitySettings.lateCancelPenalty}
+                  onChange={(e) => setReliabilitySettings({ ...reliabilitySettings, lateCancelPenalty: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="noShowPenalty">No-show Penalty</Label>
+                <Input
+                  id="noShowPenalty"
+                  type="number"
+                  min="0"
+                  value={reliabilitySettings.noShowPenalty}
+                  onChange={(e) => setReliabilitySettings({ ...reliabilitySettings, noShowPenalty: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Staff who cancel a spot within the window before the start are recorded as a late cancellation. 
+              No-shows are marked from the Staffing Overview.
+            </p>
+            <Button type="submit" disabled={isSavingReliability}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSavingReliability ? 'Saving...' : 'Save Reliability Settings'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Overlapping Bookings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Overlapping Bookings
+          </CardTitle>
+          <CardDescription>
+            Choose what happens when staff sign up for, or are selected for, events that run at the same time
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveOverlap} className="space-y-4">
+            <RadioGroup value={overlapMode} onValueChange={(value) => setOverlapMode(value as 'warn' | 'block')}>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="warn" id="overlapWarn" className="mt-1" />
+                <div>
+                  <Label htmlFor="overlapWarn">Warn</Label>
+                  <p className="text-sm text-gray-500">Allow the booking and show a warning</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="block" id="overlapBlock" className="mt-1" />
+                <div>
+                  <Label htmlFor="overlapBlock">Block</Label>
+                  <p className="text-sm text-gray-500">Refuse sign-ups and selections that overlap another booking</p>
+                </div>
+              </div>
+            </RadioGroup>
+            <Button type="submit" disabled={isSavingOverlap}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSavingOverlap ? 'Saving...' : 'Save Overlap Settings'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Reminders */}
+      <ReminderSettingsCard />
+
+      {/* New Events Digest */}
+      <DigestSettingsCard />
+
+      {/* Quiet Hours */}
+      <QuietHoursCard />
+
+      {/* Notification Templates */}
+      <NotificationTemplatesCard />
+
       {/* Levels Management */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { CalendarOff, Clock, Plus, Trash2, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { DateInput } from './DateInput';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { AvailabilityWindow, BlackoutDate } from '../App';
+import { formatDate, getBrowserTimeZone, toDateString } from '../utils/dateUtils';
+
+// Monday first, as staff usually think about their week
+const WEEKDAYS = [
+  { day: 1, name: 'Monday' },
+  { day: 2, name: 'Tuesday' },
+  { day: 3, name: 'Wednesday' },
+  { day: 4, name: 'Thursday' },
+  { day: 5, name: 'Friday' },
+  { day: 6, name: 'Saturday' },
+  { day: 0, name: 'Sunday' },
+];
+
+const DEFAULT_WINDOW = { startTime: '09:00', endTime: '17:00' };
+
+export function AvailabilityCard() {
+  const [weekly, setWeekly] = useState<AvailabilityWindow[]>([]);
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([]);
+  const [newBlackout, setNewBlackout] = useState({ startDate: '', endDate: '', reason: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAvailability = async () => {
+      try {
+        const { availability } = await api.getAvailability();
+        setWeekly(availability.weekly || []);
+        setBlackoutDates(availability.blackoutDates || []);
+      } catch (error) {
+        console.error('Failed to fetch availability:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAvailability();
+  }, []);
+
+  const getWindow = (day: number) => weekly.find(w => w.day === day);
+
+  const toggleDay = (day: number, available: boolean) => {
+    setWeekly(prev => available
+      ? [...prev.filter(w => w.day !== day), { day, ...DEFAULT_WINDOW }]
+      : prev.filter(w => w.day !== day));
+  };
+
+  const updateWindow = (day: number, field: 'startTime' | 'endTime', value: string) => {
+    setWeekly(prev => prev.map(w => w.day === day ? { ...w, [field]: value } : w));
+  };
+
+  const addBlackout = () => {
+    if (!newBlackout.startDate) return;
+    setBlackoutDates(prev => [...prev, {
+      id: `${Date.now()}`,
+      startDate: newBlackout.startDate,
+      endDate: newBlackout.endDate || newBlackout.startDate,
+      reason: newBlackout.reason.trim()
+    }].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setNewBlackout({ startDate: '', endDate: '', reason: '' });
+  };
+
+  const handleSave = async () => {
+    const invalidDay = WEEKDAYS.find(({ day }) => {
+      const dayWindow = getWindow(day);
+      return dayWindow && dayWindow.startTime >= dayWindow.endTime;
+    });
+    if (invalidDay) {
+      toast.error(`${invalidDay.name}: the end time must be after the start time`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await api.saveAvailability({ weekly, blackoutDates, timeZone: getBrowserTimeZone() });
+      if (result.success) {
+        setWeekly(result.availability.weekly);
+        setBlackoutDates(result.availability.blackoutDates);
+        toast.success('Availability saved');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save availability');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Past blackout periods are hidden - they no longer affect anything
+  const today = toDateString(new Date());
+  const upcomingBlackouts = blackoutDates.filter(b => b.endDate >= today);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Availability
+        </CardTitle>
+        <CardDescription>
+          Let admins know when you can usually work. Leave every day off if you have no regular pattern.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {WEEKDAYS.map(({ day, name }) => {
+                const dayWindow = getWindow(day);
+                return (
+                  <div key={day} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <div className="flex items-center gap-3 sm:w-40">
+                      <Switch
+                        id={`available-${day}`}
+                        checked={!!dayWindow}
+                        onCheckedChange={(checked) => toggleDay(day, checked)}
+                      />
+                      <Label htmlFor={`available-${day}`}>{name}</Label>
+                    </div>
+                    {dayWindow ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          value={dayWindow.startTime}
+                          onChange={(e) => updateWindow(day, 'startTime', e.target.value)}
+                          className="w-32"
+                        />
+                        <span className="text-gray-500">to</span>
+                        <Input
+                          type="time"
+                          value={dayWindow.endTime}
+                          onChange={(e) => updateWindow(day, 'endTime', e.target.value)}
+                          className="w-32"
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-400">Not available</span>
+                    )}
+                  </div>
+                );
+              })}
+              <p className="text-xs text-gray-500">Times are in your time zone ({getBrowserTimeZone()}).</p>
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex items-center gap-2">
+                <CalendarOff className="h-4 w-4 text-gray-500" />
+                <span className="text-gray-900">Unavailable Dates</span>
+              </div>
+
+              {upcomingBlackouts.length > 0 ? (
+                <div className="space-y-2">
+                  {upcomingBlackouts.map(blackout => (
+                    <div key={blackout.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                      <div>
+                        <p className="text-sm">
+                          {formatDate(blackout.startDate)}
+                          {blackout.endDate !== blackout.startDate && ` – ${formatDate(blackout.endDate)}`}
+                        </p>
+                        {blackout.reason && <p className="text-xs text-gray-500">{blackout.reason}</p>}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setBlackoutDates(prev => prev.filter(b => b.id !== blackout.id))}
+                        aria-label="Remove unavailable dates"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No upcoming unavailable dates.</p>
+              )}
+
+              <div className="grid gap-2 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="blackoutStart">From</Label>
+                  <DateInput
+                    id="blackoutStart"
+                    value={newBlackout.startDate}
+                    onChange={(value) => setNewBlackout(prev => ({
+                      ...prev,
+                      startDate: value,
+                      endDate: prev.endDate && prev.endDate < value ? '' : prev.endDate
+                    }))}
+                    minDate={today}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="blackoutEnd">To (Optional)</Label>
+                  <DateInput
+                    id="blackoutEnd"
+                    value={newBlackout.endDate}
+                    onChange={(value) => setNewBlackout(prev => ({ ...prev, endDate: value }))}
+                    minDate={newBlackout.startDate || today}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={newBlackout.reason}
+                  onChange={(e) => setNewBlackout(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="Reason (optional), e.g. Holiday"
+                />
+                <Button variant="outline" onClick={addBlackout} disabled={!newBlackout.startDate}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            <Button className="w-full bg-[#5D2972] hover:bg-[#4a1f5a]" onClick={handleSave} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Availability'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
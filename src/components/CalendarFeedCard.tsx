@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { CalendarPlus, Copy, RefreshCw, Check } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+
+interface CalendarFeedCardProps {
+  isAdmin?: boolean;
+}
+
+export function CalendarFeedCard({ isAdmin = false }: CalendarFeedCardProps) {
+  const [feedUrl, setFeedUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [showRegenerateConfirm, setShowRegenerateConfirm] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchFeedUrl = async () => {
+      try {
+        const { token } = await api.getCalendarToken();
+        setFeedUrl(api.getCalendarFeedUrl(token));
+      } catch (error) {
+        console.error('Failed to fetch calendar feed:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFeedUrl();
+  }, []);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      toast.success('Feed URL copied to clipboard');
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      toast.error('Failed to copy feed URL');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      const { token } = await api.regenerateCalendarToken();
+      setFeedUrl(api.getCalendarFeedUrl(token));
+      toast.success('New feed URL created', {
+        description: 'Calendars subscribed to the old URL will stop updating'
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to regenerate feed URL');
+    } finally {
+      setIsRegenerating(false);
+      setShowRegenerateConfirm(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          {isAdmin
+            ? 'Subscribe in Google or Apple Calendar to see all published events'
+            : 'Subscribe in Google or Apple Calendar to see the events you were selected for'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={isLoading ? 'Loading...' : feedUrl}
+            onFocus={(e) => e.target.select()}
+            className="font-mono text-xs"
+          />
+          <Button variant="outline" size="icon" onClick={handleCopy} disabled={!feedUrl}>
+            {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button asChild variant="outline" size="sm" disabled={!feedUrl}>
+            <a href={feedUrl.replace(/^https?:/, 'webcal:')}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Subscribe
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowRegenerateConfirm(true)}
+            disabled={!feedUrl || isRegenerating}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRegenerating ? 'animate-spin' : ''}`} />
+            Regenerate URL
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Keep this URL private - anyone with it can see your calendar.
+        </p>
+      </CardContent>
+
+      <AlertDialog open={showRegenerateConfirm} onOpenChange={setShowRegenerateConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Regenerate Feed URL?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current URL stops working immediately. You will need to subscribe again with the new URL.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRegenerate}>Regenerate</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
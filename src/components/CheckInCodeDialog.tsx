@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw, Users } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Event } from '../App';
+import { api } from '../utils/api';
+import { getExpectedStaff } from '../utils/eventUtils';
+
+interface CheckInCodeDialogProps {
+  event: Event | null;
+  onClose: () => void;
+}
+
+export function CheckInCodeDialog({ event, onClose }: CheckInCodeDialogProps) {
+  const [checkInCode, setCheckInCode] = useState<{ code: string; expiresAt: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const eventId = event?.id;
+
+  // Fetch the current code and keep it fresh - the server rotates it every minute
+  useEffect(() => {
+    if (!eventId) {
+      setCheckInCode(null);
+      setError(null);
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout>;
+    let stopped = false;
+
+    const loadCode = async () => {
+      try {
+        const result = await api.getCheckInCode(eventId);
+        if (stopped) return;
+        setCheckInCode(result);
+        setError(null);
+        const refreshIn = Math.max(new Date(result.expiresAt).getTime() - Date.now(), 0) + 500;
+        timeout = setTimeout(loadCode, refreshIn);
+      } catch (err: any) {
+        if (stopped) return;
+        setError(err.message || 'Failed to load check-in code');
+        timeout = setTimeout(loadCode, 10000);
+      }
+    };
+
+    loadCode();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timeout);
+    };
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!checkInCode) return;
+
+    const updateSecondsLeft = () => {
+      setSecondsLeft(Math.max(0, Math.round((new Date(checkInCode.expiresAt).getTime() - Date.now()) / 1000)));
+    };
+    updateSecondsLeft();
+    const interval = setInterval(updateSecondsLeft, 1000);
+    return () => clearInterval(interval);
+  }, [checkInCode]);
+
+  const checkInLink = event && checkInCode
+    ? `${window.location.origin}/?checkin=${encodeURIComponent(event.id)}&code=${checkInCode.code}`
+    : '';
+  const expectedCount = event ? getExpectedStaff(event).length : 0;
+  const checkedInCount = event ? Object.keys(event.checkIns || {}).length : 0;
+
+  return (
+    <Dialog open={!!event} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        {event && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Check-in for {event.name}</DialogTitle>
+              <DialogDescription>
+                Staff scan the QR code or enter the PIN from their dashboard
+              </DialogDescription>
+            </DialogHeader>
+
+            {error ? (
+              <p className="text-sm text-red-600 text-center py-6">{error}</p>
+            ) : !checkInCode ? (
+              <div className="flex justify-center py-12">
+                <RefreshCw className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              <div className="space-y-4 py-2 text-center">
+                <img
+                  src={`https://api.qrserver.com/v1/create-qr-code/?size=240x240&data=${encodeURIComponent(checkInLink)}`}
+                  alt="Check-in QR code"
+                  className="mx-auto h-60 w-60 rounded-lg border"
+                />
+                <div>
+                  <p className="text-gray-500 text-sm">PIN</p>
+                  <p className="text-4xl tracking-[0.3em] text-[#5D2972]">{checkInCode.code}</p>
+                  <p className="text-gray-400 text-xs mt-1">New code in {secondsLeft}s</p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-600 border-t pt-3">
+              <Users className="h-4 w-4" />
+              <span>{checkedInCount} of {expectedCount} checked in</span>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
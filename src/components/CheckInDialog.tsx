@@ -0,0 +1,170 @@
+import { useState, useEffect, useRef } from 'react';
+import { QrCode, KeyRound, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { Event } from '../App';
+
+interface CheckInDialogProps {
+  event: Event | null;
+  onClose: () => void;
+  onCheckIn: (code: string, method: 'qr' | 'pin', eventId?: string) => Promise<boolean>;
+}
+
+// The QR code shown by the admin is a check-in link: /?checkin=<eventId>&code=<code>
+const parseCheckInLink = (value: string) => {
+  try {
+    const url = new URL(value);
+    const eventId = url.searchParams.get('checkin');
+    const code = url.searchParams.get('code');
+    return eventId && code ? { eventId, code } : null;
+  } catch {
+    return null;
+  }
+};
+
+export function CheckInDialog({ event, onClose, onCheckIn }: CheckInDialogProps) {
+  const [pin, setPin] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState('');
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // In-app scanning needs the browser's barcode detector - otherwise the phone camera app opens the link
+  const canScan = typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+  useEffect(() => {
+    if (!event) {
+      setPin('');
+      setIsScanning(false);
+      setScanError('');
+    }
+  }, [event]);
+
+  useEffect(() => {
+    if (!isScanning) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scan = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+        const detect = async () => {
+          if (stopped || !videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          const link = codes.map((code: any) => parseCheckInLink(code.rawValue)).find(Boolean);
+          if (link) {
+            setIsScanning(false);
+            await submit(link.code, 'qr', link.eventId);
+            return;
+          }
+          frame = requestAnimationFrame(detect);
+        };
+        detect();
+      } catch (error) {
+        console.error('Error starting QR scanner:', error);
+        setScanError('Could not access the camera. Enter the PIN instead.');
+        setIsScanning(false);
+      }
+    };
+
+    scan();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning]);
+
+  const submit = async (code: string, method: 'qr' | 'pin', eventId?: string) => {
+    setIsSubmitting(true);
+    const success = await onCheckIn(code, method, eventId);
+    setIsSubmitting(false);
+    if (success) {
+      onClose();
+    } else {
+      setPin('');
+    }
+  };
+
+  return (
+    <Dialog open={!!event} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        {event && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Check In</DialogTitle>
+              <DialogDescription>
+                Scan the QR code or enter the PIN shown at {event.name}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6 py-2">
+              {isScanning ? (
+                <div className="space-y-3">
+                  <video ref={videoRef} className="w-full rounded-lg bg-black aspect-square object-cover" muted playsInline />
+                  <Button variant="outline" className="w-full" onClick={() => setIsScanning(false)}>
+                    Stop Scanning
+                  </Button>
+                </div>
+              ) : canScan ? (
+                <Button
+                  className="w-full bg-[#5D2972] hover:bg-[#4a1f5a]"
+                  onClick={() => { setScanError(''); setIsScanning(true); }}
+                  disabled={isSubmitting}
+                >
+                  <QrCode className="h-4 w-4 mr-2" />
+                  Scan QR Code
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-500 text-center">
+                  Scan the QR code with your phone's camera, or enter the PIN below.
+                </p>
+              )}
+
+              {scanError && (
+                <p className="text-sm text-red-600 text-center">{scanError}</p>
+              )}
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <KeyRound className="h-4 w-4" />
+                  <span>Check-in PIN</span>
+                </div>
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={pin}
+                    onChange={setPin}
+                    onComplete={(value: string) => submit(value, 'pin', event.id)}
+                    disabled={isSubmitting}
+                  >
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map(index => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                {isSubmitting && (
+                  <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Checking in...
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
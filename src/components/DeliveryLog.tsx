@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { Inbox, RefreshCw, RotateCcw, Send } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { DeliveryLogEntry, NotificationChannel, NotificationStatus } from '../App';
+
+const STATUS_STYLES: Record<NotificationStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-blue-50 text-blue-700 border-blue-300' },
+  sending: { label: 'Sending', className: 'bg-yellow-50 text-yellow-700 border-yellow-300' },
+  held: { label: 'Quiet hours', className: 'bg-purple-50 text-purple-700 border-purple-300' },
+  sent: { label: 'Sent', className: 'bg-green-50 text-green-700 border-green-300' },
+  failed: { label: 'Retrying', className: 'bg-orange-50 text-orange-700 border-orange-300' },
+  'gave-up': { label: 'Gave up', className: 'bg-red-50 text-red-700 border-red-300' },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  telegram: 'Telegram',
+  whatsapp: 'WhatsApp',
+};
+
+// Notification types are stored as e.g. "event-created" - shown as "Event created"
+const formatType = (type: string) => {
+  const words = type.replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+export function DeliveryLog() {
+  const [notifications, setNotifications] = useState<DeliveryLogEntry[]>([]);
+  const [counts, setCounts] = useState<Record<NotificationStatus, number> | null>(null);
+  const [statusFilter, setStatusFilter] = useState<NotificationStatus | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchDeliveryLog = async () => {
+    setIsLoading(true);
+    try {
+      const result = await api.getDeliveryLog(statusFilter === 'all' ? undefined : statusFilter);
+      setNotifications(result.notifications);
+      setCounts(result.counts);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load delivery log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeliveryLog();
+  }, [statusFilter]);
+
+  const handleRetry = async (notificationId: string) => {
+    setRetryingId(notificationId);
+    try {
+      const result = await api.retryNotification(notificationId);
+      setNotifications(prev => prev.map(n => n.id === notificationId ? result.notification : n));
+      if (result.success) {
+        toast.success('Notification sent');
+      } else {
+        toast.error('Notification failed again', { description: result.notification.lastError || undefined });
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to retry notification');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleProcess = async () => {
+    setIsProcessing(true);
+    try {
+      const result = await api.processNotifications();
+      toast.success(result.dueCount > 0
+        ? `Sending ${result.dueCount} queued notification${result.dueCount !== 1 ? 's' : ''}`
+        : 'No notifications are due');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send queued notifications');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Delivery Log
+        </CardTitle>
+        <CardDescription>
+          Every email, Telegram and WhatsApp message sent to staff. Failed messages are retried automatically, up to 5 attempts, before moving on to the staff member's next preferred channel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={statusFilter}
+            onValueChange={(value) => value && setStatusFilter(value as NotificationStatus | 'all')}
+          >
+            <ToggleGroupItem value="all">All</ToggleGroupItem>
+            {(Object.keys(STATUS_STYLES) as NotificationStatus[]).map(status => (
+              <ToggleGroupItem key={status} value={status}>
+                {STATUS_STYLES[status].label}{counts ? ` (${counts[status]})` : ''}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleProcess} disabled={isProcessing}>
+              <Send className="h-4 w-4 mr-2" />
+              Send Due Now
+            </Button>
+            <Button variant="outline" size="sm" onClick={fetchDeliveryLog} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {!isLoading && notifications.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No notifications to show
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Update</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {notifications.map(notification => (
+                  <TableRow key={notification.id}>
+                    <TableCell>
+                      <div className="text-gray-900">{notification.staffName}</div>
+                      <div className="text-xs text-gray-500">
+                        {CHANNEL_LABELS[notification.channel]} · {notification.address}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatType(notification.type)}</div>
+                      {notification.eventName && (
+                        <div className="text-xs text-gray-500">{notification.eventName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[notification.status].className}>
+                        {STATUS_STYLES[notification.status].label}
+                      </Badge>
+                      {notification.attempts > 1 && (
+                        <div className="text-xs text-gray-500 mt-1">{notification.attempts} attempts</div>
+                      )}
+                      {notification.lastError && notification.status !== 'sent' && (
+                        <div className="text-xs text-red-600 mt-1 max-w-xs">{notification.lastError}</div>
+                      )}
+                      {notification.fellBackTo && (
+                        <div className="text-xs text-gray-500 mt-1">Handed over to {CHANNEL_LABELS[notification.fellBackTo]}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-gray-600">{formatDateTime(notification.updatedAt)}</div>
+                      {notification.status === 'failed' && notification.nextRetryAt && (
+                        <div className="text-xs text-gray-500">Next retry {formatDateTime(notification.nextRetryAt)}</div>
+                      )}
+                      {notification.status === 'held' && notification.heldUntil && (
+                        <div className="text-xs text-gray-500">Sends {formatDateTime(notification.heldUntil)}</div>
+                      )}
+                      {notification.readAt ? (
+                        <div className="text-xs text-gray-500">Read {formatDateTime(notification.readAt)}</div>
+                      ) : notification.deliveredAt && (
+                        <div className="text-xs text-gray-500">Delivered {formatDateTime(notification.deliveredAt)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(notification.status === 'failed' || notification.status === 'gave-up') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRetry(notification.id)}
+                          disabled={retryingId === notification.id}
+                        >
+                          <RotateCcw className={`h-4 w-4 mr-1 ${retryingId === notification.id ? 'animate-spin' : ''}`} />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { Newspaper, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { DigestSettings } from '../App';
+import { getBrowserTimeZone, getTimeZoneOptions } from '../utils/dateUtils';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function DigestSettingsCard() {
+  const [settings, setSettings] = useState<DigestSettings>({ sendTime: '08:00', weeklyDay: 1, timeZone: getBrowserTimeZone() });
+  const [subscriberCounts, setSubscriberCounts] = useState({ daily: 0, weekly: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const timeZoneOptions = getTimeZoneOptions();
+
+  useEffect(() => {
+    const fetchDigestSettings = async () => {
+      try {
+        const result = await api.getDigestSettings();
+        setSettings(result.settings);
+        setSubscriberCounts(result.subscriberCounts);
+      } catch (error) {
+        console.error('Failed to fetch digest settings:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDigestSettings();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await api.saveDigestSettings(settings);
+      toast.success('Digest schedule saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save digest schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Newspaper className="h-5 w-5" />
+          New Events Digest
+        </CardTitle>
+        <CardDescription>
+          Staff can get one summary of new events a day or a week instead of a message per event. Choose when the summaries are sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="digestSendTime">Send Time</Label>
+                <Input
+                  id="digestSendTime"
+                  type="time"
+                  value={settings.sendTime}
+                  onChange={(e) => setSettings({ ...settings, sendTime: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="digestWeeklyDay">Weekly Digest On</Label>
+                <Select
+                  value={String(settings.weeklyDay)}
+                  onValueChange={(value) => setSettings({ ...settings, weeklyDay: Number(value) })}
+                >
+                  <SelectTrigger id="digestWeeklyDay">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((name, day) => (
+                      <SelectItem key={day} value={String(day)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="digestTimeZone">Time Zone</Label>
+                <Select
+                  value={settings.timeZone}
+                  onValueChange={(timeZone) => setSettings({ ...settings, timeZone })}
+                >
+                  <SelectTrigger id="digestTimeZone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeZoneOptions.map(zone => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              {subscriberCounts.daily} staff member{subscriberCounts.daily !== 1 ? 's' : ''} on the daily digest,{' '}
+              {subscriberCounts.weekly} on the weekly digest. Digests are sent by the scheduled jobs, in the first run after the send time.
+            </p>
+            <Button type="submit" disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Digest Schedule'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
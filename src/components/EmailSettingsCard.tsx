@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import { Inbox, Mail, Save, Send, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { CapturedEmail, EmailSettings, EmailTransport } from '../App';
+
+const TRANSPORT_DESCRIPTIONS: Record<EmailTransport, string> = {
+  resend: 'Send through the Resend API. The API key is read from the RESEND_API_KEY environment variable.',
+  smtp: 'Send through any mail server, e.g. your email provider or Amazon SES. Use port 465 - the hosting platform blocks ports 25 and 587.',
+  capture: 'Keep emails in a mailbox here instead of sending them. Invitations and password resets show the link to share by hand.',
+};
+
+const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+export function EmailSettingsCard() {
+  const [settings, setSettings] = useState<EmailSettings | null>(null);
+  const [transports, setTransports] = useState<{ transport: EmailTransport; label: string }[]>([]);
+  const [resendConfigured, setResendConfigured] = useState(true);
+  const [smtpPassword, setSmtpPassword] = useState('');
+  const [capturedEmails, setCapturedEmails] = useState<CapturedEmail[]>([]);
+  const [openEmail, setOpenEmail] = useState<CapturedEmail | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const fetchCapturedEmails = async () => {
+    try {
+      const { emails } = await api.getCapturedEmails();
+      setCapturedEmails(emails);
+    } catch (error) {
+      console.error('Failed to fetch captured emails:', error);
+    }
+  };
+
+  useEffect(() => {
+    const fetchEmailSettings = async () => {
+      try {
+        const result = await api.getEmailSettings();
+        setSettings(result.settings);
+        setTransports(result.transports);
+        setResendConfigured(result.resendConfigured);
+        if (result.settings.transport === 'capture' || result.capturedCount > 0) {
+          fetchCapturedEmails();
+        }
+      } catch (error) {
+        console.error('Failed to fetch email settings:', error);
+        toast.error('Failed to load email configuration');
+      }
+    };
+
+    fetchEmailSettings();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      const { smtp } = settings;
+      const result = await api.saveEmailSettings({
+        ...settings,
+        smtp: { host: smtp.host, port: smtp.port, username: smtp.username, password: smtpPassword || undefined }
+      });
+      setSettings(result.settings);
+      setSmtpPassword('');
+      toast.success('Email settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save email settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    setIsTesting(true);
+    try {
+      const result = await api.sendTestEmail();
+      if (result.captured) {
+        toast.success('Test email added to the mailbox');
+        fetchCapturedEmails();
+      } else {
+        toast.success(`Test email sent to ${result.to}`);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send test email');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleClearMailbox = async () => {
+    try {
+      await api.clearCapturedEmails();
+      setCapturedEmails([]);
+      toast.success('Mailbox emptied');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to empty the mailbox');
+    }
+  };
+
+  const updateSmtp = (changes: Partial<EmailSettings['smtp']>) => {
+    setSettings(prev => prev && { ...prev, smtp: { ...prev.smtp, ...changes } });
+  };
+
+  const isResendTestMode = settings?.transport === 'resend' && settings.fromEmail === 'onboarding@resend.dev';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Sending
+        </CardTitle>
+        <CardDescription>
+          How invitations, password resets and email notifications are sent, and who they come from
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!settings ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <RadioGroup
+              value={settings.transport}
+              onValueChange={(value) => setSettings({ ...settings, transport: value as EmailTransport })}
+              className="space-y-2"
+            >
+              {transports.map(({ transport, label }) => (
+                <div key={transport} className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg">
+                  <RadioGroupItem value={transport} id={`email-transport-${transport}`} className="mt-1" />
+                  <div>
+                    <Label htmlFor={`email-transport-${transport}`}>{label}</Label>
+                    <p className="text-xs text-gray-500">{TRANSPORT_DESCRIPTIONS[transport]}</p>
+                  </div>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {settings.transport === 'resend' && !resendConfigured && (
+              <Alert>
+                <AlertDescription>
+                  RESEND_API_KEY is not set, so emails can't be sent. Add it to the edge function's environment variables.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {settings.transport === 'smtp' && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="smtpHost">SMTP Host</Label>
+                  <Input
+                    id="smtpHost"
+                    value={settings.smtp.host}
+                    onChange={(e) => updateSmtp({ host: e.target.value })}
+                    placeholder="smtp.example.com"
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="smtpPort">Port</Label>
+                  <Input
+                    id="smtpPort"
+                    type="number"
+                    min="1"
+                    max="65535"
+                    value={settings.smtp.port}
+                    onChange={(e) => updateSmtp({ port: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="smtpUsername">Username</Label>
+                  <Input
+                    id="smtpUsername"
+                    value={settings.smtp.username}
+                    onChange={(e) => updateSmtp({ username: e.target.value })}
+                    autoComplete="off"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="smtpPassword">Password</Label>
+                  <Input
+                    id="smtpPassword"
+                    type="password"
+                    value={smtpPassword}
+                    onChange={(e) => setSmtpPassword(e.target.value)}
+                    placeholder={settings.smtp.passwordSet ? 'Saved - enter a new one to replace it' : ''}
+                    autoComplete="new-password"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="emailFromName">Sender Name</Label>
+                <Input
+                  id="emailFromName"
+                  value={settings.fromName}
+                  onChange={(e) => setSettings({ ...settings, fromName: e.target.value })}
+                  placeholder="Nahky Araby Event Hub"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="emailFromEmail">Sender Email</Label>
+                <Input
+                  id="emailFromEmail"
+                  type="email"
+                  value={settings.fromEmail}
+                  onChange={(e) => setSettings({ ...settings, fromEmail: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="emailReplyTo">Reply-To</Label>
+                <Input
+                  id="emailReplyTo"
+                  type="email"
+                  value={settings.replyTo}
+                  onChange={(e) => setSettings({ ...settings, replyTo: e.target.value })}
+                  placeholder="Same as sender"
+                />
+              </div>
+            </div>
+
+            {isResendTestMode && (
+              <div className="flex items-start gap-2 text-sm text-amber-700">
+                <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">Test Mode</Badge>
+                <span>
+                  While sending as onboarding@resend.dev, Resend only delivers to its test inbox. Verify your domain at{' '}
+                  <a href="https://resend.com/domains" target="_blank" rel="noopener noreferrer" className="underline">
+                    resend.com/domains
+                  </a>{' '}
+                  and use an address on it as the sender email.
+                </span>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button type="submit" disabled={isSaving}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save Email Settings'}
+              </Button>
+              <Button type="button" variant="outline" onClick={handleSendTest} disabled={isTesting}>
+                <Send className="h-4 w-4 mr-2" />
+                {isTesting ? 'Sending...' : 'Send Test Email'}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">The test email goes to your own address using the saved settings.</p>
+
+            {(settings.transport === 'capture' || capturedEmails.length > 0) && (
+              <div className="space-y-2 border-t pt-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Inbox className="h-4 w-4" />
+                    <span className="text-gray-900">Mailbox ({capturedEmails.length})</span>
+                  </div>
+                  {capturedEmails.length > 0 && (
+                    <Button type="button" variant="ghost" size="sm" onClick={handleClearMailbox}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Empty
+                    </Button>
+                  )}
+                </div>
+                {capturedEmails.length === 0 ? (
+                  <p className="text-sm text-gray-500">No emails yet.</p>
+                ) : (
+                  <div className="space-y-1 max-h-72 overflow-y-auto">
+                    {capturedEmails.map(email => (
+                      <button
+                        key={email.id}
+                        type="button"
+                        onClick={() => setOpenEmail(email)}
+                        className="w-full text-left p-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm"
+                      >
+                        <div className="flex justify-between gap-2">
+                          <span className="text-gray-900 truncate">{email.subject}</span>
+                          <span className="text-xs text-gray-500 shrink-0">{formatDateTime(email.capturedAt)}</span>
+                        </div>
+                        <div className="text-xs text-gray-500 truncate">To {email.to}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </form>
+        )}
+      </CardContent>
+
+      <Dialog open={!!openEmail} onOpenChange={(open) => !open && setOpenEmail(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{openEmail?.subject}</DialogTitle>
+            <DialogDescription>
+              From {openEmail?.from} to {openEmail?.to}
+              {openEmail?.replyTo && `, replies to ${openEmail.replyTo}`}
+            </DialogDescription>
+          </DialogHeader>
+          {openEmail && (
+            <iframe
+              title="Email preview"
+              srcDoc={openEmail.html}
+              sandbox=""
+              className="w-full h-[60vh] border rounded-lg bg-white"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, LayoutGrid, CalendarDays, CalendarRange, List, MapPin, Clock } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Calendar } from './ui/calendar';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { Event } from '../App';
+import { Level } from './AdminSettings';
+import { addDays, formatDateWithDay, formatEventTimeRange, getEventTimes, getEventTiming, toDateString } from '../utils/dateUtils';
+import { getLevelColor } from '../utils/eventUtils';
+
+export type EventViewMode = 'list' | 'month' | 'week' | 'agenda';
+
+interface EventViewToggleProps {
+  value: EventViewMode;
+  onChange: (value: EventViewMode) => void;
+}
+
+// Switches between the card list and the calendar views
+export function EventViewToggle({ value, onChange }: EventViewToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      value={value}
+      onValueChange={(mode) => mode && onChange(mode as EventViewMode)}
+    >
+      <ToggleGroupItem value="list" aria-label="List view" className="px-3">
+        <LayoutGrid className="h-4 w-4 sm:mr-1" />
+        <span className="hidden sm:inline">List</span>
+      </ToggleGroupItem>
+      <ToggleGroupItem value="month" aria-label="Month view" className="px-3">
+        <CalendarDays className="h-4 w-4 sm:mr-1" />
+        <span className="hidden sm:inline">Month</span>
+      </ToggleGroupItem>
+      <ToggleGroupItem value="week" aria-label="Week view" className="px-3">
+        <CalendarRange className="h-4 w-4 sm:mr-1" />
+        <span className="hidden sm:inline">Week</span>
+      </ToggleGroupItem>
+      <ToggleGroupItem value="agenda" aria-label="Agenda view" className="px-3">
+        <List className="h-4 w-4 sm:mr-1" />
+        <span className="hidden sm:inline">Agenda</span>
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
+
+interface EventCalendarProps {
+  events: Event[];
+  levels: Level[];
+  view: Exclude<EventViewMode, 'list'>;
+  onViewChange: (view: EventViewMode) => void;
+  onSelectEvent: (event: Event) => void;
+  onReschedule?: (event: Event, date: string) => void; // Enables drag-to-reschedule when provided
+}
+
+const getStartOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+const addDaysToDay = (date: Date, days: number) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+export function EventCalendar({ events, levels, view, onViewChange, onSelectEvent, onReschedule }: EventCalendarProps) {
+  const [focusDate, setFocusDate] = useState(() => new Date());
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+
+  const sortedLevels = [...levels].sort((a, b) => a.order - b.order);
+  const today = toDateString(new Date());
+
+  // Multi-day events show on every day from their start date to their end date
+  const getEventsOnDay = (day: string) => {
+    return events
+      .filter(e => e.date <= day && (e.endDate || e.date) >= day)
+      .sort((a, b) => getEventTimes(a).start.getTime() - getEventTimes(b).start.getTime());
+  };
+
+  // Only upcoming events can be moved, and only to today or later
+  const canDrag = (event: Event) => !!onReschedule && event.status !== 'cancelled' && getEventTiming(event) === 'upcoming';
+
+  const handleDrop = (e: React.DragEvent, day: string) => {
+    e.preventDefault();
+    setDragOverDay(null);
+    const event = events.find(ev => ev.id === e.dataTransfer.getData('text/plain'));
+    if (event && onReschedule && day !== event.date && day >= today) {
+      onReschedule(event, day);
+    }
+  };
+
+  const getDropProps = (day: string) => onReschedule && day >= today ? {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dragOverDay !== day) setDragOverDay(day);
+    },
+    onDragLeave: () => setDragOverDay(prev => prev === day ? null : prev),
+    onDrop: (e: React.DragEvent) => handleDrop(e, day)
+  } : {};
+
+  const getStatusClass = (event: Event) => {
+    if (event.status === 'cancelled') return 'line-through opacity-60 bg-red-50 text-red-700 border-red-300';
+    if (event.status === 'draft') return 'border-dashed opacity-80';
+    if (event.status === 'closed' || getEventTiming(event) === 'past') return 'opacity-60';
+    return '';
+  };
+
+  const renderEventChip = (event: Event, showDetails = false) => (
+    <div
+      key={event.id}
+      role="button"
+      tabIndex={0}
+      draggable={canDrag(event)}
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', event.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragEnd={() => setDragOverDay(null)}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelectEvent(event);
+      }}
+      onKeyDown={(e) => e.key === 'Enter' && onSelectEvent(event)}
+      title={`${event.name} · ${formatEventTimeRange(event)} · ${event.requiredLevel}${event.status ? ` · ${event.status}` : ''}`}
+      className={`rounded border px-1.5 py-0.5 text-left text-xs cursor-pointer hover:shadow-sm ${getLevelColor(event.requiredLevel, sortedLevels)} ${getStatusClass(event)} ${canDrag(event) ? 'active:cursor-grabbing' : ''}`}
+    >
+      <div className="truncate">
+        <span className="font-medium">{event.time}</span> {event.name}
+      </div>
+      {showDetails && (
+        <div className="truncate text-[11px] opacity-80">{event.location}</div>
+      )}
+    </div>
+  );
+
+  const renderMonthDay = (date: Date) => {
+    const day = toDateString(date);
+    const dayEvents = getEventsOnDay(day);
+
+    return (
+      <div
+        className={`h-full min-h-24 p-1 space-y-1 text-left ${dragOverDay === day ? 'bg-purple-50 ring-2 ring-inset ring-[#5D2972]' : ''}`}
+        {...getDropProps(day)}
+      >
+        <div className={`text-xs ${day === today ? 'inline-flex h-5 w-5 items-center justify-center rounded-full bg-[#5D2972] text-white' : 'text-gray-500'}`}>
+          {date.getDate()}
+        </div>
+        {dayEvents.slice(0, 3).map(event => renderEventChip(event))}
+        {/* Busy days open in the week view, where every event is listed */}
+        {dayEvents.length > 3 && (
+          <button
+            type="button"
+            className="text-[11px] text-gray-500 hover:text-gray-900"
+            onClick={() => {
+              setFocusDate(date);
+              onViewChange('week');
+            }}
+          >
+            +{dayEvents.length - 3} more
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const weekStart = getStartOfWeek(focusDate);
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDaysToDay(weekStart, i));
+
+  const monthStart = toDateString(new Date(focusDate.getFullYear(), focusDate.getMonth(), 1));
+  const monthEnd = toDateString(new Date(focusDate.getFullYear(), focusDate.getMonth() + 1, 0));
+  // The agenda lists every day of the focused month that has at least one event
+  const agendaDays: string[] = [];
+  for (let day = monthStart; day <= monthEnd; day = addDays(day, 1)) {
+    if (getEventsOnDay(day).length > 0) agendaDays.push(day);
+  }
+
+  const navigate = (direction: -1 | 1) => {
+    setFocusDate(prev => view === 'week'
+      ? addDaysToDay(prev, direction * 7)
+      : new Date(prev.getFullYear(), prev.getMonth() + direction, 1));
+  };
+
+  const title = view === 'week'
+    ? `${weekDays[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${weekDays[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : focusDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setFocusDate(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="text-gray-900 ml-2">{title}</h3>
+        </div>
+
+        {view === 'month' && (
+          <Calendar
+            month={focusDate}
+            onMonthChange={setFocusDate}
+            disableNavigation
+            className="p-0"
+            classNames={{
+              months: 'w-full',
+              month: 'w-full',
+              caption: 'hidden',
+              table: 'w-full border-collapse border rounded-md',
+              head_row: 'grid grid-cols-7 border-b bg-gray-50',
+              head_cell: 'text-muted-foreground font-normal text-xs py-2 text-center',
+              row: 'grid grid-cols-7 border-b last:border-b-0',
+              cell: 'relative p-0 border-r last:border-r-0 align-top',
+              day: 'h-full w-full p-0 font-normal',
+              day_today: '',
+              day_outside: 'bg-gray-50/60 text-muted-foreground'
+            }}
+            components={{
+              DayContent: ({ date }) => renderMonthDay(date)
+            }}
+          />
+        )}
+
+        {view === 'week' && (
+          <div className="grid grid-cols-1 sm:grid-cols-7 border rounded-md">
+            {weekDays.map(date => {
+              const day = toDateString(date);
+              const dayEvents = getEventsOnDay(day);
+              return (
+                <div
+                  key={day}
+                  className={`min-h-40 p-2 space-y-2 border-b sm:border-b-0 sm:border-r last:border-r-0 ${dragOverDay === day ? 'bg-purple-50 ring-2 ring-inset ring-[#5D2972]' : ''}`}
+                  {...getDropProps(day)}
+                >
+                  <div className={`text-xs ${day === today ? 'text-[#5D2972] font-medium' : 'text-gray-500'}`}>
+                    {date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                  </div>
+                  {dayEvents.map(event => renderEventChip(event, true))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {view === 'agenda' && (
+          agendaDays.length === 0 ? (
+            <p className="py-8 text-center text-gray-500">No events this month.</p>
+          ) : (
+            <div className="space-y-4">
+              {agendaDays.map(day => (
+                <div key={day} className="space-y-2">
+                  <p className={`text-sm ${day === today ? 'text-[#5D2972] font-medium' : 'text-gray-500'}`}>
+                    {formatDateWithDay(day)}{day === today ? ' · Today' : ''}
+                  </p>
+                  {getEventsOnDay(day).map(event => (
+                    <div
+                      key={event.id}
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => onSelectEvent(event)}
+                      onKeyDown={(e) => e.key === 'Enter' && onSelectEvent(event)}
+                      className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border p-3 cursor-pointer hover:shadow-sm ${getStatusClass(event)}`}
+                    >
+                      <div className="space-y-1">
+                        <p className="text-gray-900">{event.name}</p>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                          <span className="flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {formatEventTimeRange(event)}
+                          </span>
+                          <span className="flex items-center">
+                            <MapPin className="h-3 w-3 mr-1" />
+                            {event.location}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {event.status && event.status !== 'open' && (
+                          <Badge variant="outline" className="capitalize">{event.status}</Badge>
+                        )}
+                        <Badge variant="outline" className={getLevelColor(event.requiredLevel, sortedLevels)}>
+                          {event.requiredLevel}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          {sortedLevels.map(level => (
+            <Badge key={level.id} variant="outline" className={getLevelColor(level.name, sortedLevels)}>
+              {level.name}
+            </Badge>
+          ))}
+          <span className="ml-2">Dashed: draft · Struck through: cancelled · Faded: closed or past</span>
+          {onReschedule && view !== 'agenda' && (
+            <span className="ml-2">Drag an upcoming event to another day to reschedule it</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,24 @@
 import { useState } from 'react';
-import { Calendar, MapPin, Clock, Award, CheckCircle, Lock, Users, X, Filter } from 'lucide-react';
+import { Calendar, MapPin, Clock, Award, CheckCircle, Lock, Users, X, Filter, Hourglass } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Event, StaffMember } from '../App';
+import { Event, EventShift, StaffMember } from '../App';
 import { Level } from './AdminSettings';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
-import { formatDateWithDay } from '../utils/dateUtils';
+import { formatDateWithDay, formatEventTimeRange, getEventTimes, getEventTiming, getShiftTimes } from '../utils/dateUtils';
+import { getLevelColor, getOrderedWaitlist, getWaitlistPosition, hasShifts, isEventFull, isShiftFull } from '../utils/eventUtils';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Checkbox } from './ui/checkbox';
 import { Label } from './ui/label';
+import { EventCalendar, EventViewMode, EventViewToggle } from './EventCalendar';
 
 interface EventListProps {
   events: Event[];
   levels: Level[];
   staffMembers: StaffMember[];
-  onSignUp: (eventId: string) => void;
-  onCancelSignUp?: (eventId: string) => void;
+  onSignUp: (eventId: string, shiftId?: string) => void;
+  onCancelSignUp?: (eventId: string, shiftId?: string) => void;
   currentLevel: string;
   isSignedUp: boolean;
   currentStaffId?: string;
@@ -25,6 +27,7 @@ interface EventListProps {
 export function EventList({ events, levels, staffMembers, onSignUp, onCancelSignUp, currentLevel, isSignedUp, currentStaffId }: EventListProps) {
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [selectedLevelFilters, setSelectedLevelFilters] = useState<string[]>([]);
+  const [viewMode, setViewMode] = useState<EventViewMode>('list');
 
   // Sort levels by order (top is lowest, bottom is highest)
   const sortedLevels = levels ? [...levels].sort((a, b) => a.order - b.order) : [];
@@ -41,22 +44,23 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
     return eventList.filter(e => selectedLevelFilters.includes(e.requiredLevel));
   };
 
+  // Events stay under Upcoming until they end - start and end are resolved in each event's time zone
   const upcomingEvents = filterEventsByLevel(
     events
-      .filter(e => new Date(e.date) >= new Date())
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .filter(e => getEventTiming(e) !== 'past')
+      .sort((a, b) => getEventTimes(a).start.getTime() - getEventTimes(b).start.getTime())
   );
 
   const pastEvents = filterEventsByLevel(
     events
-      .filter(e => new Date(e.date) < new Date())
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .filter(e => getEventTiming(e) === 'past')
+      .sort((a, b) => getEventTimes(b).start.getTime() - getEventTimes(a).start.getTime())
   );
 
-  const canAccessEvent = (event: Event) => {
-    // Find the current user's level and the event's required level
+  const canAccessLevel = (requiredLevel: string) => {
+    // Find the current user's level and the required level
     const currentLevelObj = sortedLevels.find(l => l.name === currentLevel);
-    const requiredLevelObj = sortedLevels.find(l => l.name === event.requiredLevel);
+    const requiredLevelObj = sortedLevels.find(l => l.name === requiredLevel);
     
     // Staff with no level cannot access any events
     if (!currentLevelObj) return false;
@@ -68,18 +72,10 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
     return requiredLevelObj.order <= currentLevelObj.order;
   };
 
-  // Generate color for level badge based on level index
-  const getLevelColor = (levelName: string) => {
-    const levelIndex = sortedLevels.findIndex(l => l.name === levelName);
-    const colors = [
-      'bg-blue-50 text-blue-700 border-blue-300',
-      'bg-purple-50 text-purple-700 border-purple-300',
-      'bg-green-50 text-green-700 border-green-300',
-      'bg-orange-50 text-orange-700 border-orange-300',
-      'bg-pink-50 text-pink-700 border-pink-300',
-    ];
-    return colors[levelIndex % colors.length] || colors[0];
-  };
+  const canAccessEvent = (event: Event) => canAccessLevel(event.requiredLevel);
+
+  // Shifts can require a different level than the event itself
+  const canAccessShift = (event: Event, shift: EventShift) => canAccessLevel(shift.requiredLevel || event.requiredLevel);
 
   const renderEventCard = (event: Event, isPast: boolean = false) => {
     const hasAccess = canAccessEvent(event);
@@ -89,7 +85,10 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
     // Check if current user signed up and their selection status
     const userSignedUp = currentStaffId && event.signedUpStaff.includes(currentStaffId);
     const userWasSelected = currentStaffId && event.confirmedStaff?.includes(currentStaffId);
-    const showSelectionStatus = isClosed && userSignedUp;
+    const waitlistPosition = currentStaffId ? getWaitlistPosition(event, currentStaffId) : 0;
+    const isFull = isEventFull(event);
+    const eventHasShifts = hasShifts(event);
+    const showSelectionStatus = isClosed && (userSignedUp || waitlistPosition > 0);
 
     return (
       <Card 
@@ -106,10 +105,17 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                   Closed
                 </Badge>
               )}
-              <Badge variant="secondary">
-                <Award className="h-3 w-3 mr-1" />
-                {event.points} pts
-              </Badge>
+              {eventHasShifts ? (
+                <Badge variant="secondary">
+                  <Users className="h-3 w-3 mr-1" />
+                  {event.shifts!.length} shifts
+                </Badge>
+              ) : (
+                <Badge variant="secondary">
+                  <Award className="h-3 w-3 mr-1" />
+                  {event.points} pts
+                </Badge>
+              )}
             </div>
           </CardTitle>
         </CardHeader>
@@ -121,7 +127,7 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
           
           <div className="flex items-center text-gray-600">
             <Clock className="h-4 w-4 mr-2" />
-            {event.time} ({event.duration})
+            {formatEventTimeRange(event)} ({event.duration})
           </div>
           
           <div className="flex items-center text-gray-600">
@@ -133,16 +139,35 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
             <div>
               <Badge
                 variant="outline"
-                className={getLevelColor(event.requiredLevel)}
+                className={getLevelColor(event.requiredLevel, sortedLevels)}
               >
                 {event.requiredLevel}
               </Badge>
             </div>
-            {isEventSignedUp && (
+            {eventHasShifts ? (
+              <span className="text-gray-500">
+                {event.shifts!.reduce((sum, shift) => sum + shift.signedUpStaff.length, 0)} / {event.shifts!.reduce((sum, shift) => sum + shift.headcount, 0) || '∞'} spots filled
+              </span>
+            ) : event.capacity ? (
+              <span className={isFull ? 'text-orange-600' : 'text-gray-500'}>
+                {event.signedUpStaff.length} / {event.capacity} spots
+                {(event.waitlistedStaff?.length || 0) > 0 && ` · ${event.waitlistedStaff?.length} waiting`}
+              </span>
+            ) : isEventSignedUp && (
               <span className="text-gray-500">{event.signedUpStaff.length} signed up</span>
             )}
           </div>
 
+          {/* Show waitlist position for staff waiting for a spot */}
+          {waitlistPosition > 0 && !isClosed && (
+            <div className="pt-2">
+              <Badge variant="outline" className="w-full justify-center bg-amber-50 text-amber-700 border-amber-300">
+                <Hourglass className="h-3 w-3 mr-1" />
+                Waitlist position #{waitlistPosition}
+              </Badge>
+            </div>
+          )}
+
           {/* Show selection status for closed events where user signed up */}
           {showSelectionStatus && (
             <div className="pt-2">
@@ -166,6 +191,18 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                 <Button variant="outline" className="w-full" disabled>
                   Event Closed
                 </Button>
+              ) : eventHasShifts ? (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelectedEvent(event);
+                  }}
+                >
+                  <Users className="h-4 w-4 mr-2" />
+                  {userSignedUp || waitlistPosition > 0 ? 'Manage Your Shifts' : 'Choose a Shift'}
+                </Button>
               ) : isSignedUp ? (
                 onCancelSignUp ? (
                   <Button 
@@ -177,7 +214,7 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                     }}
                   >
                     <X className="h-4 w-4 mr-2" />
-                    Cancel Attendance
+                    {waitlistPosition > 0 ? 'Leave Waitlist' : 'Cancel Attendance'}
                   </Button>
                 ) : (
                   <Button variant="outline" className="w-full" disabled>
@@ -188,12 +225,13 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
               ) : hasAccess ? (
                 <Button
                   className="w-full"
+                  variant={isFull ? 'outline' : 'default'}
                   onClick={(e) => {
                     e.stopPropagation();
                     onSignUp(event.id);
                   }}
                 >
-                  Sign Up for Event
+                  {isFull ? 'Event Full - Join Waitlist' : 'Sign Up for Event'}
                 </Button>
               ) : (
                 <Button variant="outline" className="w-full" disabled>
@@ -214,6 +252,93 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
     );
   };
 
+  // Render a shift with its own sign-up button in the event details dialog
+  const renderShiftRow = (event: Event, shift: EventShift) => {
+    const isShiftSignedUp = !!currentStaffId && shift.signedUpStaff.includes(currentStaffId);
+    const shiftWaitlistPosition = currentStaffId ? getWaitlistPosition(shift, currentStaffId) : 0;
+    const isShiftSelected = !!currentStaffId && !!shift.confirmedStaff?.includes(currentStaffId);
+    const isShiftPast = getShiftTimes(event, shift).start < new Date();
+    const shiftFull = isShiftFull(shift);
+
+    return (
+      <div key={shift.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="font-medium">{shift.name}</p>
+            <p className="text-sm text-gray-500">
+              {shift.startTime} - {shift.endTime} · {shift.signedUpStaff.length}{shift.headcount ? ` / ${shift.headcount}` : ''} signed up
+              {(shift.waitlistedStaff?.length || 0) > 0 && ` · ${shift.waitlistedStaff?.length} waiting`}
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            {shift.requiredLevel && shift.requiredLevel !== event.requiredLevel && (
+              <Badge variant="outline" className={getLevelColor(shift.requiredLevel, sortedLevels)}>
+                {shift.requiredLevel}
+              </Badge>
+            )}
+            <Badge variant="secondary">
+              <Award className="h-3 w-3 mr-1" />
+              {shift.points} pts
+            </Badge>
+          </div>
+        </div>
+
+        {event.status === 'closed' ? (
+          (isShiftSignedUp || shiftWaitlistPosition > 0) && (
+            isShiftSelected ? (
+              <Badge className="w-full justify-center bg-green-50 text-green-700 border-green-300">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                You Were Selected
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="w-full justify-center bg-red-50 text-red-700 border-red-300">
+                <X className="h-3 w-3 mr-1" />
+                Not Selected
+              </Badge>
+            )
+          )
+        ) : isShiftPast ? null : isShiftSignedUp || shiftWaitlistPosition > 0 ? (
+          onCancelSignUp ? (
+            <Button
+              variant="destructive"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                onCancelSignUp(event.id, shift.id);
+                setSelectedEvent(null);
+              }}
+            >
+              <X className="h-4 w-4 mr-2" />
+              {shiftWaitlistPosition > 0 ? `Leave Waitlist (#${shiftWaitlistPosition})` : 'Cancel Shift'}
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" className="w-full" disabled>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Signed Up
+            </Button>
+          )
+        ) : canAccessShift(event, shift) ? (
+          <Button
+            size="sm"
+            className="w-full"
+            variant={shiftFull ? 'outline' : 'default'}
+            onClick={() => {
+              onSignUp(event.id, shift.id);
+              setSelectedEvent(null);
+            }}
+          >
+            {shiftFull ? 'Shift Full - Join Waitlist' : 'Sign Up for Shift'}
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" disabled>
+            <Lock className="h-4 w-4 mr-2" />
+            Requires {shift.requiredLevel || event.requiredLevel}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
   // Get staff members who signed up for the selected event
   const getSignedUpStaffDetails = (event: Event | null) => {
     if (!event) return [];
@@ -236,6 +361,10 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
 
   return (
     <div className="space-y-6 mt-4">
+      <div className="flex justify-end">
+        <EventViewToggle value={viewMode} onChange={setViewMode} />
+      </div>
+
       {/* Level Filter */}
       {accessibleLevels.length > 1 && (
         <Card>
@@ -271,7 +400,7 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                     >
                       <Badge 
                         variant="outline" 
-                        className={getLevelColor(level.name)}
+                        className={getLevelColor(level.name, sortedLevels)}
                       >
                         {level.name}
                       </Badge>
@@ -300,6 +429,14 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                 : 'No events available at the moment. Check back later!'}
           </CardContent>
         </Card>
+      ) : viewMode !== 'list' ? (
+        <EventCalendar
+          events={[...upcomingEvents, ...pastEvents]}
+          levels={sortedLevels}
+          view={viewMode}
+          onViewChange={setViewMode}
+          onSelectEvent={setSelectedEvent}
+        />
       ) : (
         <>
           {upcomingEvents.length > 0 && (
@@ -338,13 +475,20 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                 {/* Event Details */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <Badge variant="secondary" className="text-base py-1 px-3">
-                      <Award className="h-4 w-4 mr-2" />
-                      {selectedEvent.points} Points
-                    </Badge>
+                    {hasShifts(selectedEvent) ? (
+                      <Badge variant="secondary" className="text-base py-1 px-3">
+                        <Users className="h-4 w-4 mr-2" />
+                        {selectedEvent.shifts!.length} Shifts
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-base py-1 px-3">
+                        <Award className="h-4 w-4 mr-2" />
+                        {selectedEvent.points} Points
+                      </Badge>
+                    )}
                     <Badge
                       variant="outline"
-                      className={getLevelColor(selectedEvent.requiredLevel)}
+                      className={getLevelColor(selectedEvent.requiredLevel, sortedLevels)}
                     >
                       Level: {selectedEvent.requiredLevel}
                     </Badge>
@@ -363,7 +507,7 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                       <Clock className="h-5 w-5 mr-3 text-gray-500" />
                       <div>
                         <p className="text-sm text-gray-500">Time & Duration</p>
-                        <p>{selectedEvent.time} ({selectedEvent.duration})</p>
+                        <p>{formatEventTimeRange(selectedEvent)} ({selectedEvent.duration})</p>
                       </div>
                     </div>
 
@@ -377,13 +521,26 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                   </div>
                 </div>
 
+                {/* Shifts - each shift is signed up for separately */}
+                {hasShifts(selectedEvent) && (
+                  <div className="border-t pt-4">
+                    <div className="flex items-center mb-4">
+                      <Clock className="h-5 w-5 mr-2 text-gray-500" />
+                      <h4 className="text-gray-900">Shifts</h4>
+                    </div>
+                    <div className="space-y-2">
+                      {selectedEvent.shifts!.map(shift => renderShiftRow(selectedEvent, shift))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Signed Up Staff - Only show if event is not closed */}
                 {selectedEvent.status !== 'closed' && (
                   <div className="border-t pt-4">
                     <div className="flex items-center mb-4">
                       <Users className="h-5 w-5 mr-2 text-gray-500" />
                       <h4 className="text-gray-900">
-                        Signed Up Staff ({selectedEvent.signedUpStaff.length})
+                        Signed Up Staff ({selectedEvent.signedUpStaff.length}{selectedEvent.capacity ? ` / ${selectedEvent.capacity}` : ''})
                       </h4>
                     </div>
                     
@@ -419,11 +576,37 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                         No staff members signed up yet
                       </p>
                     )}
+
+                    {getOrderedWaitlist(selectedEvent).length > 0 && (
+                      <div className="mt-4">
+                        <div className="flex items-center mb-2">
+                          <Hourglass className="h-4 w-4 mr-2 text-amber-600" />
+                          <p className="text-sm text-gray-700">
+                            Waitlist ({getOrderedWaitlist(selectedEvent).length})
+                          </p>
+                        </div>
+                        <div className="space-y-1">
+                          {getOrderedWaitlist(selectedEvent).map((staffId, index) => {
+                            const staff = staffMembers.find(s => s.id === staffId);
+                            if (!staff) return null;
+                            return (
+                              <div
+                                key={staffId}
+                                className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${staffId === currentStaffId ? 'bg-amber-50 text-amber-800' : 'bg-gray-50 text-gray-700'}`}
+                              >
+                                <span>#{index + 1} {staff.name}</span>
+                                {staffId === currentStaffId && <span>You</span>}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
 
-                {/* Action Buttons */}
-                {new Date(selectedEvent.date) >= new Date() && (
+                {/* Action Buttons - events with shifts are signed up for per shift above */}
+                {getEventTiming(selectedEvent) === 'upcoming' && !hasShifts(selectedEvent) && (
                   <div className="border-t pt-4">
                     {selectedEvent.status === 'closed' ? (
                       <Button variant="outline" className="w-full" disabled>
@@ -441,7 +624,7 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                           }}
                         >
                           <X className="h-4 w-4 mr-2" />
-                          Cancel Attendance
+                          {currentStaffId && getWaitlistPosition(selectedEvent, currentStaffId) > 0 ? 'Leave Waitlist' : 'Cancel Attendance'}
                         </Button>
                       ) : (
                         <Button variant="outline" className="w-full" disabled>
@@ -458,7 +641,7 @@ export function EventList({ events, levels, staffMembers, onSignUp, onCancelSign
                           setSelectedEvent(null);
                         }}
                       >
-                        Sign Up for Event
+                        {isEventFull(selectedEvent) ? 'Event Full - Join Waitlist' : 'Sign Up for Event'}
                       </Button>
                     ) : (
                       <Button variant="outline" className="w-full" disabled>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Plus, Calendar, MapPin, Clock, Award, Trash2, Search, Filter, Pencil, Users, XCircle, RotateCcw } from 'lucide-react';
+import { Plus, Calendar, MapPin, Clock, Award, Trash2, Search, Filter, Pencil, Users, XCircle, RotateCcw, X, Repeat, QrCode, Copy, Save, Globe, CalendarOff } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
@@ -8,10 +8,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Badge } from './ui/badge';
 import { Textarea } from './ui/textarea';
-import { Event, StaffMember } from '../App';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Event, EventShift, EventRecurrence, EventTemplate, EventTemplateData, RecurrenceFrequency, ReliabilityRecord, SeriesScope, StaffMember } from '../App';
 import { Level } from './AdminSettings';
 import { DateInput } from './DateInput';
-import { formatDateWithDay, formatDate } from '../utils/dateUtils';
+import { addDays, daysBetween, formatDateWithDay, formatDate, formatDuration, formatEventTimeRange, formatTimeInTimeZone, getBrowserTimeZone, getEventTimes, getEventTiming, getTimeZoneOptions, DEFAULT_TIME_ZONE } from '../utils/dateUtils';
+import { getExpectedStaff, getOrderedWaitlist, getReliability, hasShifts, isEventToday } from '../utils/eventUtils';
+import { CheckInCodeDialog } from './CheckInCodeDialog';
+import { EventCalendar, EventViewMode, EventViewToggle } from './EventCalendar';
+import { api } from '../utils/api';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Checkbox } from './ui/checkbox';
 import {
@@ -30,15 +35,39 @@ interface EventManagementProps {
   levels: Level[];
   staffMembers: StaffMember[];
   onAddEvent: (event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>) => void;
-  onUpdateEvent: (eventId: string, event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>) => void;
-  onCancelEvent: (eventId: string) => void;
+  onUpdateEvent: (eventId: string, event: Omit<Event, 'id' | 'signedUpStaff' | 'createdAt'>, scope?: SeriesScope) => void;
+  onCancelEvent: (eventId: string, scope?: SeriesScope) => void;
   onReinstateEvent: (eventId: string) => void;
   onDeleteEvent: (eventId: string) => void;
-  onCloseEvent: (eventId: string, approvedStaffIds: string[]) => void;
-  onAdminSignUpStaff: (eventId: string, staffIds: string[]) => void;
+  onCloseEvent: (eventId: string, approvedStaffIds: string[], shiftSelections?: { [shiftId: string]: string[] }) => void;
+  onAdminSignUpStaff: (eventId: string, staffIds: string[], shiftId?: string) => void;
+  reliabilityRecords: ReliabilityRecord[];
+  eventTemplates: EventTemplate[];
+  onSaveEventTemplate: (template: EventTemplateData, templateId?: string) => Promise<void>;
+  onMigrateEventTimes: (timeZone: string) => Promise<void>;
+  onDeleteEventTemplate: (templateId: string) => Promise<void>;
 }
 
-export function EventManagement({ events, levels, staffMembers, onAddEvent, onUpdateEvent, onCancelEvent, onReinstateEvent, onDeleteEvent, onCloseEvent, onAdminSignUpStaff }: EventManagementProps) {
+// Recurrence as edited in the event form - only used when creating events
+const emptyRecurrenceForm = {
+  frequency: 'none' as RecurrenceFrequency | 'none',
+  endType: 'count' as 'count' | 'until',
+  count: '',
+  until: ''
+};
+
+// Shift as edited in the event form - numbers stay strings until submit
+interface ShiftFormData {
+  id?: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  headcount: string;
+  requiredLevel: string;
+  points: string;
+}
+
+export function EventManagement({ events, levels, staffMembers, onAddEvent, onUpdateEvent, onCancelEvent, onReinstateEvent, onDeleteEvent, onCloseEvent, onAdminSignUpStaff, reliabilityRecords, eventTemplates, onSaveEventTemplate, onDeleteEventTemplate, onMigrateEventTimes }: EventManagementProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterLevel, setFilterLevel] = useState<string>('all');
@@ -52,38 +81,237 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
   const [showManualSignUpDialog, setShowManualSignUpDialog] = useState(false);
   const [selectedStaffForSignUp, setSelectedStaffForSignUp] = useState<string[]>([]);
   const [staffSearchQuery, setStaffSearchQuery] = useState('');
+  const [approvedShiftStaff, setApprovedShiftStaff] = useState<{ [shiftId: string]: string[] }>({});
+  const [signUpShiftId, setSignUpShiftId] = useState('');
+  const [recurrenceForm, setRecurrenceForm] = useState(emptyRecurrenceForm);
+  const [editScope, setEditScope] = useState<SeriesScope>('this');
+  const [cancelScope, setCancelScope] = useState<SeriesScope>('this');
+  const [checkInCodeEventId, setCheckInCodeEventId] = useState<string | null>(null);
+  const [selectionSort, setSelectionSort] = useState<'signup' | 'reliability'>('signup');
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [viewMode, setViewMode] = useState<EventViewMode>('list');
+  const [availabilityConflicts, setAvailabilityConflicts] = useState<{
+    conflicts: { [staffId: string]: string };
+    shiftConflicts: { [shiftId: string]: { [staffId: string]: string } };
+  }>({ conflicts: {}, shiftConflicts: {} });
+  const [migrationTimeZone, setMigrationTimeZone] = useState(getBrowserTimeZone);
+  const [isMigrating, setIsMigrating] = useState(false);
   
   // Initialize approved staff IDs when selectedEvent changes
+  // Events with a capacity pre-select the staff holding a spot so the admin only has to confirm
+  // Events with shifts are selected per shift, using each shift's headcount the same way
   useEffect(() => {
     if (selectedEvent && selectedEvent.confirmedStaff) {
       setApprovedStaffIds(selectedEvent.confirmedStaff);
+    } else if (selectedEvent && selectedEvent.capacity) {
+      setApprovedStaffIds(selectedEvent.signedUpStaff);
     } else {
       setApprovedStaffIds([]);
     }
+
+    const shiftSelections: { [shiftId: string]: string[] } = {};
+    (selectedEvent?.shifts || []).forEach(shift => {
+      shiftSelections[shift.id] = shift.confirmedStaff || (shift.headcount ? shift.signedUpStaff : []);
+    });
+    setApprovedShiftStaff(shiftSelections);
   }, [selectedEvent]);
+
+  // Load who is unavailable for the opened event - shown when signing up and selecting staff
+  const selectedEventId = selectedEvent?.id;
+  useEffect(() => {
+    setAvailabilityConflicts({ conflicts: {}, shiftConflicts: {} });
+    if (!selectedEventId) return;
+
+    let stale = false;
+    api.getEventAvailability(selectedEventId)
+      .then(result => {
+        if (!stale) setAvailabilityConflicts(result);
+      })
+      .catch(error => console.error('Error loading availability conflicts:', error));
+
+    return () => {
+      stale = true;
+    };
+  }, [selectedEventId]);
+
+  const getAvailabilityConflict = (staffId: string, shiftId?: string) => {
+    return shiftId
+      ? availabilityConflicts.shiftConflicts[shiftId]?.[staffId]
+      : availabilityConflicts.conflicts[staffId];
+  };
+
+  const renderAvailabilityBadge = (staffId: string, shiftId?: string) => {
+    const conflict = getAvailabilityConflict(staffId, shiftId);
+    if (!conflict) return null;
+    return (
+      <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-300" title={conflict}>
+        <CalendarOff className="h-3 w-3 mr-1" />
+        Unavailable
+      </Badge>
+    );
+  };
+
+  const toggleShiftApproval = (shiftId: string, staffId: string, approved: boolean) => {
+    setApprovedShiftStaff(prev => ({
+      ...prev,
+      [shiftId]: approved
+        ? [...(prev[shiftId] || []), staffId]
+        : (prev[shiftId] || []).filter(id => id !== staffId)
+    }));
+  };
+
+  // Staff selected for at least one shift
+  const getApprovedShiftStaffIds = () => Array.from(new Set(Object.values(approvedShiftStaff).flat()));
+
+  const getReliabilityScore = (staffId: string) => getReliability(staffId, events, reliabilityRecords).score;
+
+  // Order candidates for selection - by sign-up time, or most reliable first (staff without history last)
+  const sortForSelection = (staffIds: string[], timestamps: { [staffId: string]: string } = {}) => {
+    return [...staffIds].sort((a, b) => {
+      if (selectionSort === 'reliability') {
+        const difference = (getReliabilityScore(b) ?? -1) - (getReliabilityScore(a) ?? -1);
+        if (difference !== 0) return difference;
+      }
+      return (timestamps[a] || '').localeCompare(timestamps[b] || '');
+    });
+  };
+
+  const renderReliabilityBadge = (staffId: string) => {
+    const score = getReliabilityScore(staffId);
+    if (score === null) return null;
+    return (
+      <Badge
+        variant="outline"
+        className={`text-xs ${score >= 90 ? 'text-green-700 border-green-300' : score >= 70 ? 'text-amber-700 border-amber-300' : 'text-red-700 border-red-300'}`}
+      >
+        {score}% reliable
+      </Badge>
+    );
+  };
+
+  const renderSelectionSort = () => (
+    <Select value={selectionSort} onValueChange={(value) => setSelectionSort(value as 'signup' | 'reliability')}>
+      <SelectTrigger className="w-40 h-8 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="signup">Sign-up order</SelectItem>
+        <SelectItem value="reliability">Reliability</SelectItem>
+      </SelectContent>
+    </Select>
+  );
   
   // Sort levels by order (top is lowest, bottom is highest)
   const sortedLevels = levels ? [...levels].sort((a, b) => a.order - b.order) : [];
   const defaultLevel = sortedLevels.length > 0 ? sortedLevels[0].name : '';
   
-  // Get today's date for event categorization
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const timeZoneOptions = getTimeZoneOptions();
   
   const [formData, setFormData] = useState({
     name: '',
     date: '',
     endDate: '',
     time: '',
-    duration: '',
+    endTime: '',
+    timeZone: getBrowserTimeZone(),
     location: '',
     description: '',
     notes: '',
     points: '',
+    capacity: '',
     requiredLevel: defaultLevel,
-    status: 'draft' as 'draft' | 'open' | 'closed'
+    status: 'draft' as 'draft' | 'open' | 'closed',
+    shifts: [] as ShiftFormData[],
+    awardCheckedInOnly: false
   });
 
+  const updateShiftField = (index: number, field: keyof ShiftFormData, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      shifts: prev.shifts.map((shift, i) => i === index ? { ...shift, [field]: value } : shift)
+    }));
+  };
+
+  const addShift = () => {
+    setFormData(prev => ({
+      ...prev,
+      shifts: [
+        ...prev.shifts,
+        { name: '', startTime: prev.time, endTime: '', headcount: '', requiredLevel: '', points: prev.points }
+      ]
+    }));
+  };
+
+  const removeShift = (index: number) => {
+    setFormData(prev => ({ ...prev, shifts: prev.shifts.filter((_, i) => i !== index) }));
+  };
+
+  // Fill the form with a template's defaults - the date is left for the admin to pick
+  const applyTemplate = (templateId: string) => {
+    const template = eventTemplates.find(t => t.id === templateId);
+    if (!template) return;
+
+    setSelectedTemplateId(templateId);
+    setFormData(prev => ({
+      ...prev,
+      name: template.eventName || prev.name,
+      time: template.time,
+      endTime: template.endTime || prev.endTime,
+      timeZone: template.timeZone || prev.timeZone,
+      location: template.location,
+      description: template.description,
+      notes: template.notes,
+      points: template.points.toString(),
+      capacity: template.capacity ? template.capacity.toString() : '',
+      requiredLevel: sortedLevels.some(l => l.name === template.requiredLevel) ? template.requiredLevel : prev.requiredLevel,
+      awardCheckedInOnly: template.awardCheckedInOnly,
+      shifts: template.shifts.map(shift => ({
+        name: shift.name,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        headcount: shift.headcount ? shift.headcount.toString() : '',
+        requiredLevel: shift.requiredLevel || '',
+        points: shift.points.toString()
+      }))
+    }));
+  };
+
+  const getTemplateData = (name: string): EventTemplateData => ({
+    name,
+    eventName: formData.name,
+    time: formData.time,
+    endTime: formData.endTime,
+    timeZone: formData.timeZone,
+    duration: formatDuration(formData.time, formData.endTime),
+    location: formData.location,
+    description: formData.description,
+    notes: formData.notes,
+    points: parseInt(formData.points) || 0,
+    capacity: formData.capacity ? parseInt(formData.capacity) : 0,
+    requiredLevel: formData.requiredLevel,
+    awardCheckedInOnly: formData.awardCheckedInOnly,
+    shifts: formData.shifts.map(shift => ({
+      name: shift.name,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      headcount: shift.headcount ? parseInt(shift.headcount) : 0,
+      requiredLevel: shift.requiredLevel,
+      points: shift.points ? parseInt(shift.points) : 0
+    }))
+  });
+
+  // Saving under the name of an existing template replaces it
+  const templateToReplace = eventTemplates.find(t => t.name.toLowerCase() === templateName.trim().toLowerCase());
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    await onSaveEventTemplate(getTemplateData(templateName.trim()), templateToReplace?.id);
+    setShowSaveTemplateDialog(false);
+    setTemplateName('');
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const eventData = {
@@ -91,17 +319,36 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
       date: formData.date,
       endDate: formData.endDate || formData.date, // If end date is empty, use start date
       time: formData.time,
-      duration: formData.duration,
+      endTime: formData.endTime,
+      timeZone: formData.timeZone,
+      duration: formatDuration(formData.time, formData.endTime),
       location: formData.location,
       description: formData.description,
       notes: formData.notes,
       points: parseInt(formData.points),
+      capacity: formData.capacity ? parseInt(formData.capacity) : 0, // 0 = unlimited
       requiredLevel: formData.requiredLevel,
-      status: formData.status
+      status: formData.status,
+      awardCheckedInOnly: formData.awardCheckedInOnly,
+      shifts: formData.shifts.map(shift => ({
+        id: shift.id || '',
+        name: shift.name,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        headcount: shift.headcount ? parseInt(shift.headcount) : 0, // 0 = unlimited
+        requiredLevel: shift.requiredLevel,
+        points: shift.points ? parseInt(shift.points) : 0,
+        signedUpStaff: []
+      })) as EventShift[]
     };
 
     if (eventToEdit) {
-      onUpdateEvent(eventToEdit.id, eventData);
+      onUpdateEvent(eventToEdit.id, eventData, eventToEdit.seriesId ? editScope : undefined);
+    } else if (recurrenceForm.frequency !== 'none') {
+      const recurrence: EventRecurrence = recurrenceForm.endType === 'until'
+        ? { frequency: recurrenceForm.frequency, until: recurrenceForm.until }
+        : { frequency: recurrenceForm.frequency, count: parseInt(recurrenceForm.count) };
+      onAddEvent({ ...eventData, recurrence });
     } else {
       onAddEvent(eventData);
     }
@@ -111,18 +358,49 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
       date: '',
       endDate: '',
       time: '',
-      duration: '',
+      endTime: '',
+      timeZone: getBrowserTimeZone(),
       location: '',
       description: '',
       notes: '',
       points: '',
+      capacity: '',
       requiredLevel: defaultLevel,
-      status: 'draft'
+      status: 'draft',
+      shifts: [],
+      awardCheckedInOnly: false
     });
+    setRecurrenceForm(emptyRecurrenceForm);
+    setEditScope('this');
+    setSelectedTemplateId('');
     setIsDialogOpen(false);
     setEventToEdit(null);
   };
 
+  // Dragging an event in the calendar moves it to another day, keeping its times and length
+  // Series occurrences are moved on their own
+  const handleReschedule = (event: Event, date: string) => {
+    const endDateSpan = event.endDate ? daysBetween(event.date, event.endDate) : 0;
+    onUpdateEvent(event.id, {
+      name: event.name,
+      date,
+      endDate: addDays(date, endDateSpan),
+      time: event.time,
+      endTime: event.endTime,
+      timeZone: event.timeZone,
+      duration: event.duration,
+      location: event.location,
+      description: event.description,
+      notes: event.notes,
+      points: event.points,
+      capacity: event.capacity || 0,
+      requiredLevel: event.requiredLevel,
+      status: event.status,
+      awardCheckedInOnly: event.awardCheckedInOnly,
+      shifts: event.shifts
+    }, event.seriesId ? 'this' : undefined);
+  };
+
   const handleEditEvent = (event: Event) => {
     setEventToEdit(event);
     setFormData({
@@ -130,15 +408,28 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
       date: event.date,
       endDate: event.endDate || event.date, // If end date is empty, use start date
       time: event.time,
-      duration: event.duration,
+      // Events saved before end times existed get one from their duration, shown in the event's own time zone
+      endTime: event.endTime || formatTimeInTimeZone(getEventTimes(event).end, event.timeZone || DEFAULT_TIME_ZONE),
+      timeZone: event.timeZone || DEFAULT_TIME_ZONE,
       location: event.location,
       description: event.description,
       notes: event.notes,
       points: event.points.toString(),
+      capacity: event.capacity ? event.capacity.toString() : '',
       requiredLevel: event.requiredLevel,
       status: (event.status === 'cancelled' || !event.status || event.status === 'draft' || event.status === 'open' || event.status === 'closed') 
         ? (event.status === 'cancelled' ? 'draft' : (event.status || 'draft')) as 'draft' | 'open' | 'closed'
-        : 'draft'
+        : 'draft',
+      shifts: (event.shifts || []).map(shift => ({
+        id: shift.id,
+        name: shift.name,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        headcount: shift.headcount ? shift.headcount.toString() : '',
+        requiredLevel: shift.requiredLevel || '',
+        points: shift.points.toString()
+      })),
+      awardCheckedInOnly: !!event.awardCheckedInOnly
     });
     setIsDialogOpen(true);
   };
@@ -147,24 +438,31 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
     setIsDialogOpen(open);
     if (!open) {
       setEventToEdit(null);
+      setRecurrenceForm(emptyRecurrenceForm);
+      setEditScope('this');
+      setSelectedTemplateId('');
       setFormData({
         name: '',
         date: '',
         endDate: '',
         time: '',
-        duration: '',
+        endTime: '',
+        timeZone: getBrowserTimeZone(),
         location: '',
         description: '',
         notes: '',
         points: '',
+        capacity: '',
         requiredLevel: defaultLevel,
-        status: 'draft'
+        status: 'draft',
+        shifts: [],
+        awardCheckedInOnly: false
       });
     }
   };
 
   const sortedEvents = [...events].sort((a, b) => 
-    new Date(a.date).getTime() - new Date(b.date).getTime()
+    getEventTimes(a).start.getTime() - getEventTimes(b).start.getTime()
   );
 
   // Filter events based on search and level filter
@@ -175,43 +473,35 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
     return matchesSearch && matchesLevel;
   });
 
-  // Categorize events based on Start Date and End Date
-  const currentEvents = filteredEvents.filter(e => {
-    // Parse start date as local to avoid timezone issues
-    const [startYear, startMonth, startDay] = e.date.split('-').map(Number);
-    const startDate = new Date(startYear, startMonth - 1, startDay);
-    startDate.setHours(0, 0, 0, 0);
-    
-    // Parse end date (or use start date if not provided)
-    const endDateStr = e.endDate || e.date;
-    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
-    const endDate = new Date(endYear, endMonth - 1, endDay);
-    endDate.setHours(0, 0, 0, 0);
-    
-    // Current: Today is equal or between Start Date and End Date
-    return today >= startDate && today <= endDate && e.status !== 'cancelled';
-  });
+  // Categorize events by their start and end in the event's own time zone
+  const currentEvents = filteredEvents.filter(e => getEventTiming(e) === 'current' && e.status !== 'cancelled');
+  const upcomingEvents = filteredEvents.filter(e => getEventTiming(e) === 'upcoming' && e.status !== 'cancelled');
+  const pastEvents = filteredEvents.filter(e => getEventTiming(e) === 'past' || e.status === 'cancelled');
 
-  const upcomingEvents = filteredEvents.filter(e => {
-    // Parse start date as local to avoid timezone issues
-    const [startYear, startMonth, startDay] = e.date.split('-').map(Number);
-    const startDate = new Date(startYear, startMonth - 1, startDay);
-    startDate.setHours(0, 0, 0, 0);
-    
-    // Upcoming: Today is before the Start Date
-    return today < startDate && e.status !== 'cancelled';
-  });
+  // Events saved before events carried a time zone are read as UTC until migrated
+  const unmigratedEvents = events.filter(e => !e.timeZone || !e.startsAt || !e.endsAt);
 
-  const pastEvents = filteredEvents.filter(e => {
-    // Parse end date (or use start date if not provided)
-    const endDateStr = e.endDate || e.date;
-    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
-    const endDate = new Date(endYear, endMonth - 1, endDay);
-    endDate.setHours(0, 0, 0, 0);
-    
-    // Past: Today is after the End Date
-    return (today > endDate && e.status !== 'cancelled') || e.status === 'cancelled';
-  });
+  const handleMigrateTimes = async () => {
+    setIsMigrating(true);
+    await onMigrateEventTimes(migrationTimeZone);
+    setIsMigrating(false);
+  };
+
+  // Get the number of occurrences in an event's series
+  const getSeriesLength = (event: Event) => events.filter(e => e.seriesId && e.seriesId === event.seriesId).length;
+
+  const renderScopeSelect = (id: string, value: SeriesScope, onChange: (scope: SeriesScope) => void) => (
+    <Select value={value} onValueChange={(scope: SeriesScope) => onChange(scope)}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="this">This occurrence only</SelectItem>
+        <SelectItem value="following">This and following occurrences</SelectItem>
+        <SelectItem value="series">Whole series</SelectItem>
+      </SelectContent>
+    </Select>
+  );
 
   const EventCard = ({ event, isPast = false }: { event: Event; isPast?: boolean }) => {
     const isCancelled = event.status === 'cancelled';
@@ -258,11 +548,18 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
             {formatDateWithDay(event.date)}
           </div>
           
+          {event.seriesId && (
+            <div className="flex items-center text-gray-600">
+              <Repeat className="h-4 w-4 mr-2" />
+              Recurring ({event.seriesIndex} of {getSeriesLength(event)})
+            </div>
+          )}
+          
           {!isPast && (
             <>
               <div className="flex items-center text-gray-600">
                 <Clock className="h-4 w-4 mr-2" />
-                {event.time} ({event.duration})
+                {formatEventTimeRange(event)} ({event.duration})
               </div>
               
               <div className="flex items-center text-gray-600">
@@ -275,7 +572,15 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
           <div className="pt-2 border-t flex items-center justify-between">
             <div>
               {!isPast && <p className="text-gray-500">Level: {event.requiredLevel}</p>}
-              <p className="text-gray-500">{isPast ? 'Participants' : 'Sign-ups'}: {event.signedUpStaff.length}</p>
+              <p className="text-gray-500">
+                {isPast ? 'Participants' : 'Sign-ups'}: {event.signedUpStaff.length}{event.capacity ? ` / ${event.capacity}` : ''}
+              </p>
+              {!isPast && (event.waitlistedStaff?.length || 0) > 0 && (
+                <p className="text-amber-600">Waitlist: {event.waitlistedStaff?.length}</p>
+              )}
+              {!isPast && hasShifts(event) && (
+                <p className="text-gray-500">Shifts: {event.shifts!.length}</p>
+              )}
             </div>
             <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
               {isCancelled ? (
@@ -360,6 +665,49 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {eventToEdit?.seriesId && (
+                <div className="space-y-2 p-3 bg-blue-50 rounded-lg">
+                  <Label htmlFor="editScope">Apply Changes To</Label>
+                  {renderScopeSelect('editScope', editScope, setEditScope)}
+                  <p className="text-xs text-gray-500">Past and cancelled occurrences are never changed. Date changes move each occurrence by the same number of days.</p>
+                </div>
+              )}
+
+              {!eventToEdit && eventTemplates.length > 0 && (
+                <div className="space-y-2 p-3 bg-gray-50 rounded-lg">
+                  <Label htmlFor="template">Create from Template</Label>
+                  <div className="flex gap-2">
+                    <Select value={selectedTemplateId} onValueChange={applyTemplate}>
+                      <SelectTrigger id="template" className="flex-1">
+                        <SelectValue placeholder="Start from scratch" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {eventTemplates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedTemplateId && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={async () => {
+                          await onDeleteEventTemplate(selectedTemplateId);
+                          setSelectedTemplateId('');
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">Fills in everything except the date, including shifts and capacity.</p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="name">Event Name</Label>
                 <Input
@@ -390,7 +738,7 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="time">Time</Label>
+                  <Label htmlFor="time">Start Time</Label>
                   <Input
                     id="time"
                     type="time"
@@ -413,16 +761,95 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                 <p className="text-xs text-gray-500">If left empty, will default to Start Date</p>
               </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="duration">Duration</Label>
-                <Input
-                  id="duration"
-                  value={formData.duration}
-                  onChange={(e) => setFormData({ ...formData, duration: e.target.value })}
-                  placeholder="e.g., 4 hours"
-                  required
-                />
+              {!eventToEdit && (
+                <div className="space-y-2">
+                  <Label htmlFor="repeat">Repeat</Label>
+                  <Select
+                    value={recurrenceForm.frequency}
+                    onValueChange={(value: RecurrenceFrequency | 'none') => setRecurrenceForm({ ...recurrenceForm, frequency: value })}
+                  >
+                    <SelectTrigger id="repeat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {recurrenceForm.frequency !== 'none' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={recurrenceForm.endType}
+                        onValueChange={(value: 'count' | 'until') => setRecurrenceForm({ ...recurrenceForm, endType: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="count">Number of times</SelectItem>
+                          <SelectItem value="until">Until date</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {recurrenceForm.endType === 'count' ? (
+                        <Input
+                          type="number"
+                          value={recurrenceForm.count}
+                          onChange={(e) => setRecurrenceForm({ ...recurrenceForm, count: e.target.value })}
+                          placeholder="e.g., 8"
+                          min="2"
+                          max="52"
+                          required
+                        />
+                      ) : (
+                        <DateInput
+                          id="repeatUntil"
+                          value={recurrenceForm.until}
+                          onChange={(value) => setRecurrenceForm({ ...recurrenceForm, until: value })}
+                          required
+                          minDate={formData.date}
+                        />
+                      )}
+                    </div>
+                  )}
+                  {recurrenceForm.frequency !== 'none' && (
+                    <p className="text-xs text-gray-500">Each occurrence is created as its own event (up to 52) and can be edited or cancelled separately.</p>
+                  )}
+                </div>
+              )}
+              
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="endTime">End Time</Label>
+                  <Input
+                    id="endTime"
+                    type="time"
+                    value={formData.endTime}
+                    onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="timeZone">Time Zone</Label>
+                  <Select value={formData.timeZone} onValueChange={(value) => setFormData({ ...formData, timeZone: value })}>
+                    <SelectTrigger id="timeZone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZoneOptions.map(zone => (
+                        <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
+              {formData.time && formData.endTime && (
+                <p className="text-xs text-gray-500 -mt-2">
+                  {formatDuration(formData.time, formData.endTime)} each day{formData.endTime <= formData.time ? ', ending after midnight' : ''}
+                </p>
+              )}
               
               <div className="space-y-2">
                 <Label htmlFor="location">Location</Label>
@@ -468,6 +895,125 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                 />
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="capacity">Capacity (Optional)</Label>
+                <Input
+                  id="capacity"
+                  type="number"
+                  value={formData.capacity}
+                  onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                  placeholder="e.g., 10"
+                  min="1"
+                />
+                <p className="text-xs text-gray-500">Sign-ups beyond this number go onto a waitlist. Leave empty for unlimited.</p>
+              </div>
+
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="awardCheckedInOnly"
+                  checked={formData.awardCheckedInOnly}
+                  onCheckedChange={(checked) => setFormData({ ...formData, awardCheckedInOnly: checked === true })}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="awardCheckedInOnly" className="cursor-pointer">Only award points to checked-in staff</Label>
+                  <p className="text-xs text-gray-500">Staff who didn't check in on site with the event code are skipped when confirming points.</p>
+                </div>
+              </div>
+              
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Shifts / Roles (Optional)</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addShift}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Shift
+                  </Button>
+                </div>
+                {formData.shifts.length > 0 ? (
+                  <div className="space-y-3">
+                    {formData.shifts.map((shift, index) => (
+                      <div key={shift.id || index} className="p-3 border rounded-lg space-y-2 bg-gray-50">
+                        <div className="flex gap-2">
+                          <Input
+                            value={shift.name}
+                            onChange={(e) => updateShiftField(index, 'name', e.target.value)}
+                            placeholder="e.g., Setup, Bar, Cleanup"
+                            required
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50 flex-shrink-0"
+                            onClick={() => removeShift(index)}
+                            title="Remove Shift"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="space-y-1">
+                            <Label className="text-xs text-gray-500">Start</Label>
+                            <Input
+                              type="time"
+                              value={shift.startTime}
+                              onChange={(e) => updateShiftField(index, 'startTime', e.target.value)}
+                              required
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs text-gray-500">End</Label>
+                            <Input
+                              type="time"
+                              value={shift.endTime}
+                              onChange={(e) => updateShiftField(index, 'endTime', e.target.value)}
+                              required
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs text-gray-500">Headcount</Label>
+                            <Input
+                              type="number"
+                              value={shift.headcount}
+                              onChange={(e) => updateShiftField(index, 'headcount', e.target.value)}
+                              placeholder="Unlimited"
+                              min="1"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs text-gray-500">Points</Label>
+                            <Input
+                              type="number"
+                              value={shift.points}
+                              onChange={(e) => updateShiftField(index, 'points', e.target.value)}
+                              required
+                              min="0"
+                            />
+                          </div>
+                        </div>
+                        <Select
+                          value={shift.requiredLevel || 'event'}
+                          onValueChange={(value) => updateShiftField(index, 'requiredLevel', value === 'event' ? '' : value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Required level" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="event">Same as event level</SelectItem>
+                            {sortedLevels.map((level) => (
+                              <SelectItem key={level.id} value={level.name}>
+                                {level.name} ({level.minPoints}+ pts)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">Split the event into shifts or roles with their own times, headcount, level and points. Staff then sign up per shift.</p>
+                )}
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="level">Required Level</Label>
                 <Select
@@ -508,14 +1054,85 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                 </Select>
               </div>
 
-              <Button type="submit" className="w-full">
-                {eventToEdit ? 'Update Event' : 'Create Event'}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setTemplateName(eventTemplates.find(t => t.id === selectedTemplateId)?.name || formData.name);
+                    setShowSaveTemplateDialog(true);
+                  }}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Save as Template
+                </Button>
+                <Button type="submit" className="flex-1">
+                  {eventToEdit ? 'Update Event' : 'Create Event'}
+                </Button>
+              </div>
             </form>
           </DialogContent>
         </Dialog>
+
+        {/* Save as Template Dialog */}
+        <Dialog open={showSaveTemplateDialog} onOpenChange={setShowSaveTemplateDialog}>
+          <DialogContent className="max-w-sm">
+            <DialogHeader>
+              <DialogTitle>Save as Template</DialogTitle>
+              <DialogDescription>
+                Saves the event details, shifts and capacity for reuse. Dates are not saved.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Template Name</Label>
+              <Input
+                id="templateName"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="e.g., Friday Night Market"
+              />
+              {templateToReplace && (
+                <p className="text-xs text-amber-700">This replaces the existing template "{templateToReplace.name}".</p>
+              )}
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setShowSaveTemplateDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                {templateToReplace ? 'Replace Template' : 'Save Template'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
 
+      {unmigratedEvents.length > 0 && (
+        <Alert className="bg-amber-50 border-amber-200">
+          <Globe className="h-4 w-4" />
+          <AlertTitle>{unmigratedEvents.length} event{unmigratedEvents.length !== 1 ? 's have' : ' has'} no time zone</AlertTitle>
+          <AlertDescription>
+            <p>These events were created before time zones and are treated as UTC. Choose the time zone their dates and times were entered in.</p>
+            <div className="flex flex-col sm:flex-row gap-2 mt-3">
+              <Select value={migrationTimeZone} onValueChange={setMigrationTimeZone}>
+                <SelectTrigger className="sm:w-64 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleMigrateTimes} disabled={isMigrating}>
+                {isMigrating ? 'Updating...' : 'Update Events'}
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Search and Filter */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="flex-1 relative">
@@ -541,48 +1158,62 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
             ))}
           </SelectContent>
         </Select>
+        <EventViewToggle value={viewMode} onChange={setViewMode} />
       </div>
 
-      {/* Current Events (Today) */}
-      {currentEvents.length > 0 && (
-        <div>
-          <h3 className="text-gray-900 mb-4">Current Events - Today ({currentEvents.length})</h3>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {currentEvents.map(event => (
-              <EventCard key={event.id} event={event} />
-            ))}
-          </div>
-        </div>
-      )}
-
-      {/* Upcoming Events */}
-      <div>
-        <h3 className="text-gray-900 mb-4">Upcoming Events ({upcomingEvents.length})</h3>
-        {upcomingEvents.length === 0 ? (
-          <Card>
-            <CardContent className="py-8 text-center text-gray-500">
-              {currentEvents.length > 0 ? 'No future events scheduled.' : 'No upcoming events. Create one to get started!'}
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {upcomingEvents.map(event => (
-              <EventCard key={event.id} event={event} />
-            ))}
+      {viewMode === 'list' ? (
+        <>
+        {/* Current Events (Today) */}
+        {currentEvents.length > 0 && (
+          <div>
+            <h3 className="text-gray-900 mb-4">Current Events - Today ({currentEvents.length})</h3>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {currentEvents.map(event => (
+                <EventCard key={event.id} event={event} />
+              ))}
+            </div>
           </div>
         )}
-      </div>
 
-      {/* Past Events */}
-      {pastEvents.length > 0 && (
+        {/* Upcoming Events */}
         <div>
-          <h3 className="text-gray-900 mb-4">Past Events ({pastEvents.length})</h3>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {pastEvents.map(event => (
-              <EventCard key={event.id} event={event} isPast={true} />
-            ))}
-          </div>
+          <h3 className="text-gray-900 mb-4">Upcoming Events ({upcomingEvents.length})</h3>
+          {upcomingEvents.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-gray-500">
+                {currentEvents.length > 0 ? 'No future events scheduled.' : 'No upcoming events. Create one to get started!'}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {upcomingEvents.map(event => (
+                <EventCard key={event.id} event={event} />
+              ))}
+            </div>
+          )}
         </div>
+
+        {/* Past Events */}
+        {pastEvents.length > 0 && (
+          <div>
+            <h3 className="text-gray-900 mb-4">Past Events ({pastEvents.length})</h3>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {pastEvents.map(event => (
+                <EventCard key={event.id} event={event} isPast={true} />
+              ))}
+            </div>
+          </div>
+        )}
+        </>
+      ) : (
+        <EventCalendar
+          events={filteredEvents}
+          levels={sortedLevels}
+          view={viewMode}
+          onViewChange={setViewMode}
+          onSelectEvent={setSelectedEvent}
+          onReschedule={handleReschedule}
+        />
       )}
 
       {/* Reinstate Event Confirmation Dialog */}
@@ -614,7 +1245,10 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
       </AlertDialog>
 
       {/* Cancel Event Confirmation Dialog */}
-      <AlertDialog open={!!eventToCancel} onOpenChange={() => setEventToCancel(null)}>
+      <AlertDialog open={!!eventToCancel} onOpenChange={() => {
+        setEventToCancel(null);
+        setCancelScope('this');
+      }}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Cancel Event?</AlertDialogTitle>
@@ -624,13 +1258,20 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
               The event will remain visible but marked as cancelled.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {eventToCancel?.seriesId && (
+            <div className="space-y-2">
+              <Label htmlFor="cancelScope">This event is part of a series. Cancel:</Label>
+              {renderScopeSelect('cancelScope', cancelScope, setCancelScope)}
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>No, Keep Event</AlertDialogCancel>
             <AlertDialogAction
               onClick={() => {
                 if (eventToCancel) {
-                  onCancelEvent(eventToCancel.id);
+                  onCancelEvent(eventToCancel.id, eventToCancel.seriesId ? cancelScope : undefined);
                   setEventToCancel(null);
+                  setCancelScope('this');
                 }
               }}
               className="bg-orange-600 hover:bg-orange-700"
@@ -673,24 +1314,13 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           {selectedEvent && (() => {
             // Get staff members who signed up for the selected event
-            const signedUpStaffDetails = selectedEvent.signedUpStaff
+            // Sorted by sign-up time (first come first served) or by reliability
+            const signedUpStaffDetails = sortForSelection(selectedEvent.signedUpStaff, selectedEvent.signUpTimestamps)
               .map(staffId => staffMembers.find(s => s.id === staffId))
               .filter(Boolean) as StaffMember[];
-            
-            // Sort by sign-up time (first come first served)
-            signedUpStaffDetails.sort((a, b) => {
-              const timestampA = selectedEvent.signUpTimestamps?.[a.id] || '';
-              const timestampB = selectedEvent.signUpTimestamps?.[b.id] || '';
-              return timestampA.localeCompare(timestampB);
-            });
 
             const isCancelled = selectedEvent.status === 'cancelled';
-            // Check if event is past based on end date (or start date if no end date)
-            const endDateStr = selectedEvent.endDate || selectedEvent.date;
-            const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
-            const endDate = new Date(endYear, endMonth - 1, endDay);
-            endDate.setHours(0, 0, 0, 0);
-            const isPast = today > endDate;
+            const isPast = getEventTiming(selectedEvent) === 'past';
             const isClosed = selectedEvent.status === 'closed';
 
             return (
@@ -734,7 +1364,7 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                         <Clock className="h-5 w-5 mr-3 text-gray-500" />
                         <div>
                           <p className="text-sm text-gray-500">Time & Duration</p>
-                          <p>{selectedEvent.time} ({selectedEvent.duration})</p>
+                          <p>{formatEventTimeRange(selectedEvent)} ({selectedEvent.duration})</p>
                         </div>
                       </div>
 
@@ -776,13 +1406,124 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                     </div>
                   </div>
 
-                  {/* Signed Up Staff */}
+                  {/* Check-in - shown on the day of the event */}
+                  {!isCancelled && (isEventToday(selectedEvent) || selectedEvent.checkIns) && (
+                    <div className="border-t pt-4 flex items-center justify-between gap-3">
+                      <div>
+                        <h4 className="text-gray-900">Check-in</h4>
+                        <p className="text-sm text-gray-500">
+                          {Object.keys(selectedEvent.checkIns || {}).length} of {getExpectedStaff(selectedEvent).length} staff checked in
+                          {selectedEvent.awardCheckedInOnly ? ' · points only for checked-in staff' : ''}
+                        </p>
+                      </div>
+                      {isEventToday(selectedEvent) && (
+                        <Button variant="outline" size="sm" onClick={() => setCheckInCodeEventId(selectedEvent.id)}>
+                          <QrCode className="h-4 w-4 mr-1" />
+                          Show Check-in Code
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Shifts - staff sign up and are selected per shift */}
+                  {hasShifts(selectedEvent) && (
+                    <div className="border-t pt-4 space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center">
+                          <Clock className="h-5 w-5 mr-2 text-gray-500" />
+                          <h4 className="text-gray-900">Shifts ({selectedEvent.shifts!.length})</h4>
+                        </div>
+                        {!isCancelled && !isPast && !isClosed && renderSelectionSort()}
+                      </div>
+                      {selectedEvent.shifts!.map(shift => {
+                        const canSelect = !isCancelled && !isPast && !isClosed;
+                        const shiftWaitlist = getOrderedWaitlist(shift);
+                        const renderShiftStaff = (staffId: string, waitlistIndex?: number) => {
+                          const staff = staffMembers.find(s => s.id === staffId);
+                          if (!staff) return null;
+                          const isApproved = (approvedShiftStaff[shift.id] || []).includes(staffId);
+                          return (
+                            <div
+                              key={staffId}
+                              className={`flex items-center justify-between px-3 py-2 rounded-lg ${waitlistIndex !== undefined ? 'bg-amber-50' : 'bg-white'}`}
+                            >
+                              <div className="flex items-center gap-3">
+                                {canSelect && (
+                                  <Checkbox
+                                    checked={isApproved}
+                                    onCheckedChange={(checked) => toggleShiftApproval(shift.id, staffId, !!checked)}
+                                  />
+                                )}
+                                {waitlistIndex !== undefined && (
+                                  <Badge variant="outline" className="border-amber-300 text-amber-700">
+                                    #{waitlistIndex + 1}
+                                  </Badge>
+                                )}
+                                <span>{staff.name}</span>
+                              </div>
+                              <div className="flex gap-1">
+                                {renderAvailabilityBadge(staffId, shift.id)}
+                                {renderReliabilityBadge(staffId)}
+                                <Badge variant="outline" className="text-xs">
+                                  {staff.level || 'No Level'}
+                                </Badge>
+                                {shift.confirmedStaff?.includes(staffId) && (
+                                  <Badge variant="default" className="bg-green-600 text-xs">
+                                    Selected
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        };
+
+                        return (
+                          <div key={shift.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                            <div className="flex items-start justify-between gap-2">
+                              <div>
+                                <p className="font-medium">{shift.name}</p>
+                                <p className="text-sm text-gray-500">
+                                  {shift.startTime} - {shift.endTime} · {shift.signedUpStaff.length}{shift.headcount ? ` / ${shift.headcount}` : ''} signed up
+                                </p>
+                              </div>
+                              <div className="flex gap-1 flex-shrink-0">
+                                <Badge variant="outline">{shift.requiredLevel || selectedEvent.requiredLevel}</Badge>
+                                <Badge variant="secondary">
+                                  <Award className="h-3 w-3 mr-1" />
+                                  {shift.points} pts
+                                </Badge>
+                              </div>
+                            </div>
+                            {shift.signedUpStaff.length > 0 ? (
+                              <div className="space-y-1">
+                                {sortForSelection(shift.signedUpStaff, shift.signUpTimestamps).map(staffId => renderShiftStaff(staffId))}
+                              </div>
+                            ) : (
+                              <p className="text-sm text-gray-500">No staff signed up for this shift yet</p>
+                            )}
+                            {shiftWaitlist.length > 0 && (
+                              <div className="space-y-1">
+                                <p className="text-sm text-amber-700">Waitlist ({shiftWaitlist.length})</p>
+                                {shiftWaitlist.map((staffId, index) => renderShiftStaff(staffId, index))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Signed Up Staff - events with shifts are managed per shift above */}
+                  {!hasShifts(selectedEvent) && (
                   <div className="border-t pt-4">
-                    <div className="flex items-center mb-4">
-                      <Users className="h-5 w-5 mr-2 text-gray-500" />
-                      <h4 className="text-gray-900">
-                        {isPast ? 'Participants' : 'Signed Up Staff'} ({selectedEvent.signedUpStaff.length})
-                      </h4>
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center">
+                        <Users className="h-5 w-5 mr-2 text-gray-500" />
+                        <h4 className="text-gray-900">
+                          {isPast ? 'Participants' : 'Signed Up Staff'} ({selectedEvent.signedUpStaff.length}{selectedEvent.capacity ? ` / ${selectedEvent.capacity}` : ''})
+                        </h4>
+                      </div>
+                      {!isCancelled && !isPast && !isClosed && renderSelectionSort()}
                     </div>
                     
                     {signedUpStaffDetails.length > 0 ? (
@@ -842,6 +1583,10 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                                 <Badge variant="outline" className="text-xs">
                                   {staff.level || 'No Level'}
                                 </Badge>
+                                <div className="mt-1">{renderReliabilityBadge(staff.id)}</div>
+                                {getAvailabilityConflict(staff.id) && (
+                                  <div className="mt-1">{renderAvailabilityBadge(staff.id)}</div>
+                                )}
                                 {isConfirmed && (
                                   <Badge variant="default" className="bg-green-600 text-xs mt-1">
                                     Selected
@@ -857,7 +1602,56 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                         No staff members signed up yet
                       </p>
                     )}
+
+                    {/* Waitlist - ordered by sign-up time, first in line is promoted when a spot opens */}
+                    {getOrderedWaitlist(selectedEvent).length > 0 && (
+                      <div className="mt-4">
+                        <h4 className="text-gray-900 mb-2">
+                          Waitlist ({getOrderedWaitlist(selectedEvent).length})
+                        </h4>
+                        <div className="space-y-2">
+                          {getOrderedWaitlist(selectedEvent).map((staffId, index) => {
+                            const staff = staffMembers.find(s => s.id === staffId);
+                            if (!staff) return null;
+                            const isApproved = approvedStaffIds.includes(staff.id);
+
+                            return (
+                              <div
+                                key={staff.id}
+                                className="flex items-center justify-between p-3 bg-amber-50 rounded-lg"
+                              >
+                                <div className="flex items-center gap-3 flex-1">
+                                  {!isCancelled && !isPast && !isClosed && (
+                                    <Checkbox
+                                      checked={isApproved}
+                                      onCheckedChange={(checked) => {
+                                        if (checked) {
+                                          setApprovedStaffIds(prev => [...prev, staff.id]);
+                                        } else {
+                                          setApprovedStaffIds(prev => prev.filter(id => id !== staff.id));
+                                        }
+                                      }}
+                                    />
+                                  )}
+                                  <Badge variant="outline" className="border-amber-300 text-amber-700">
+                                    #{index + 1}
+                                  </Badge>
+                                  <div className="flex-1">
+                                    <p className="font-medium">{staff.name}</p>
+                                    <p className="text-sm text-gray-500">{staff.email}</p>
+                                  </div>
+                                </div>
+                                <Badge variant="outline" className="text-xs">
+                                  {staff.level || 'No Level'}
+                                </Badge>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
                   </div>
+                  )}
 
                   {/* Action Buttons */}
                   {isCancelled ? (
@@ -897,6 +1691,7 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                           onClick={(e) => {
                             e.stopPropagation();
                             setSelectedStaffForSignUp([]);
+                            setSignUpShiftId(selectedEvent.shifts?.[0]?.id || '');
                             setShowManualSignUpDialog(true);
                           }}
                         >
@@ -972,8 +1767,11 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
             <AlertDialogTitle>Close Event?</AlertDialogTitle>
             <AlertDialogDescription asChild>
               {selectedEvent && (() => {
-                const approvedCount = approvedStaffIds.length;
-                const rejectedCount = selectedEvent.signedUpStaff.length - approvedCount;
+                const approvedCount = hasShifts(selectedEvent) ? getApprovedShiftStaffIds().length : approvedStaffIds.length;
+                const rejectedCount = selectedEvent.signedUpStaff.length + (selectedEvent.waitlistedStaff?.length || 0) - approvedCount;
+                const unavailableCount = hasShifts(selectedEvent)
+                  ? Object.entries(approvedShiftStaff).reduce((sum, [shiftId, staffIds]) => sum + staffIds.filter(id => getAvailabilityConflict(id, shiftId)).length, 0)
+                  : approvedStaffIds.filter(id => getAvailabilityConflict(id)).length;
                 
                 return (
                   <div className="space-y-2">
@@ -995,6 +1793,11 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                         ⚠️ No staff members selected.
                       </p>
                     )}
+                    {unavailableCount > 0 && (
+                      <p className="text-amber-700 mt-2">
+                        ⚠️ {unavailableCount} selected staff member{unavailableCount !== 1 ? 's have' : ' has'} said they are unavailable at this time.
+                      </p>
+                    )}
                   </div>
                 );
               })()}
@@ -1005,7 +1808,11 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
             <AlertDialogAction
               onClick={() => {
                 if (selectedEvent) {
-                  onCloseEvent(selectedEvent.id, approvedStaffIds);
+                  if (hasShifts(selectedEvent)) {
+                    onCloseEvent(selectedEvent.id, getApprovedShiftStaffIds(), approvedShiftStaff);
+                  } else {
+                    onCloseEvent(selectedEvent.id, approvedStaffIds);
+                  }
                   setShowCloseConfirm(false);
                   setSelectedEvent(null);
                   setApprovedStaffIds([]);
@@ -1039,6 +1846,10 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
               return matchesSearch;
             });
 
+            // Events with shifts are signed up for per shift
+            const signUpShift = selectedEvent.shifts?.find(shift => shift.id === signUpShiftId);
+            const signUpSlot = signUpShift || selectedEvent;
+
             return (
               <>
                 <DialogHeader>
@@ -1063,6 +1874,30 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                     </div>
                   </div>
 
+                  {hasShifts(selectedEvent) && (
+                    <div className="space-y-2">
+                      <Label htmlFor="signUpShift">Shift</Label>
+                      <Select
+                        value={signUpShiftId}
+                        onValueChange={(value) => {
+                          setSignUpShiftId(value);
+                          setSelectedStaffForSignUp([]);
+                        }}
+                      >
+                        <SelectTrigger id="signUpShift">
+                          <SelectValue placeholder="Select a shift" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {selectedEvent.shifts!.map(shift => (
+                            <SelectItem key={shift.id} value={shift.id}>
+                              {shift.name} ({shift.startTime} - {shift.endTime}) · {shift.signedUpStaff.length}{shift.headcount ? ` / ${shift.headcount}` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   {/* Search Staff */}
                   <div className="relative">
                     <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
@@ -1083,7 +1918,7 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                     {filteredStaff.length > 0 ? (
                       <div className="space-y-2 max-h-[400px] overflow-y-auto">
                         {filteredStaff.map((staff) => {
-                          const isAlreadySignedUp = selectedEvent.signedUpStaff.includes(staff.id);
+                          const isAlreadySignedUp = signUpSlot.signedUpStaff.includes(staff.id) || (signUpSlot.waitlistedStaff || []).includes(staff.id);
                           const isSelected = selectedStaffForSignUp.includes(staff.id);
                           
                           return (
@@ -1129,6 +1964,12 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                                 <div className="flex-1">
                                   <p className="font-medium">{staff.name}</p>
                                   <p className="text-sm text-gray-500">{staff.email}</p>
+                                  {(!hasShifts(selectedEvent) || signUpShift) && getAvailabilityConflict(staff.id, signUpShift?.id) && (
+                                    <p className="text-xs text-amber-700 mt-0.5 flex items-center">
+                                      <CalendarOff className="h-3 w-3 mr-1" />
+                                      {getAvailabilityConflict(staff.id, signUpShift?.id)}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                               <div className="text-right">
@@ -1168,10 +2009,10 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
                     <Button
                       variant="default"
                       className="flex-1 bg-blue-600 hover:bg-blue-700"
-                      disabled={selectedStaffForSignUp.length === 0}
+                      disabled={selectedStaffForSignUp.length === 0 || (hasShifts(selectedEvent) && !signUpShift)}
                       onClick={() => {
                         if (selectedStaffForSignUp.length > 0) {
-                          onAdminSignUpStaff(selectedEvent.id, selectedStaffForSignUp);
+                          onAdminSignUpStaff(selectedEvent.id, selectedStaffForSignUp, signUpShift?.id);
                           setShowManualSignUpDialog(false);
                           setSelectedStaffForSignUp([]);
                         }
@@ -1186,6 +2027,11 @@ export function EventManagement({ events, levels, staffMembers, onAddEvent, onUp
           })()}
         </DialogContent>
       </Dialog>
+
+      <CheckInCodeDialog
+        event={events.find(e => e.id === checkInCodeEventId) || null}
+        onClose={() => setCheckInCodeEventId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
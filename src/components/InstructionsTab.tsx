@@ -44,13 +44,13 @@ export function InstructionsTab() {
                 <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300 shrink-0">
                   Staff Invitation
                 </Badge>
-                <p>When you add a new staff member, they receive login credentials and must set a new password on first login.</p>
+                <p>When you add a new staff member, they receive a one-time link to set up their password. It expires after 7 days - you can resend or revoke it from Staff Management.</p>
               </div>
               <div className="flex gap-2">
                 <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300 shrink-0">
                   Password Reset
                 </Badge>
-                <p>When you send a password reset, staff receive a temporary password and must set a new password on next login.</p>
+                <p>When you send a password reset, staff receive a one-time link to choose a new password. It expires after 24 hours, and their current password keeps working until they use it.</p>
               </div>
               <div className="flex gap-2">
                 <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300 shrink-0">
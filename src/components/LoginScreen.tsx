@@ -5,20 +5,16 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
-import { PasswordSetup } from './PasswordSetup';
 import logoImage from 'figma:asset/a18c9f29652fad36842de1eae7c0067139d8f193.png';
 
 interface LoginScreenProps {
   onLogin: (email: string, password: string) => boolean | Promise<any>;
-  onPasswordSetup?: (email: string, tempPassword: string, newPassword: string) => Promise<boolean>;
 }
 
-export function LoginScreen({ onLogin, onPasswordSetup }: LoginScreenProps) {
+export function LoginScreen({ onLogin }: LoginScreenProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [showPasswordSetup, setShowPasswordSetup] = useState(false);
-  const [confirmationData, setConfirmationData] = useState<{ email: string; tempPassword: string } | null>(null);
   const [showManualLogin, setShowManualLogin] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -28,16 +24,7 @@ export function LoginScreen({ onLogin, onPasswordSetup }: LoginScreenProps) {
     // Simulate authentication delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const result = await onLogin(email, password);
-    
-    // Check if user needs to set up password
-    if (result && typeof result === 'object' && result.needsPasswordSetup) {
-      setConfirmationData({
-        email: result.email,
-        tempPassword: result.tempPassword
-      });
-      setShowPasswordSetup(true);
-    }
+    await onLogin(email, password);
     
     setIsLoading(false);
   };
@@ -48,42 +35,6 @@ export function LoginScreen({ onLogin, onPasswordSetup }: LoginScreenProps) {
     onLogin(demoEmail, demoPassword);
   };
 
-  const handlePasswordSet = async (newPassword: string): Promise<boolean> => {
-    if (!confirmationData || !onPasswordSetup) return false;
-    
-    const success = await onPasswordSetup(
-      confirmationData.email,
-      confirmationData.tempPassword,
-      newPassword
-    );
-    
-    if (success) {
-      // Password setup successful - user is now logged in
-      setShowPasswordSetup(false);
-      setConfirmationData(null);
-    }
-    
-    return success;
-  };
-
-  const handleCancelPasswordSetup = () => {
-    setShowPasswordSetup(false);
-    setConfirmationData(null);
-    setEmail('');
-    setPassword('');
-  };
-
-  if (showPasswordSetup && confirmationData) {
-    return (
-      <PasswordSetup
-        email={confirmationData.email}
-        tempPassword={confirmationData.tempPassword}
-        onPasswordSet={handlePasswordSet}
-        onCancel={handleCancelPasswordSetup}
-      />
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#5D2972] to-[#00A5B5] flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
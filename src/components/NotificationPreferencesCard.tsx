@@ -0,0 +1,300 @@
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Bell, Moon, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { DigestMode, DigestSettings, NotificationCategory, NotificationChannel, NotificationPreferences, QuietHours } from '../App';
+import { getBrowserTimeZone } from '../utils/dateUtils';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  telegram: 'Telegram',
+  whatsapp: 'WhatsApp',
+};
+
+// Why a channel cannot be used yet, shown next to it
+const UNREACHABLE_HINTS: Record<NotificationChannel, string> = {
+  email: 'No email address on your profile',
+  telegram: 'Not connected - use Connect Telegram below',
+  whatsapp: 'Not connected - ask an admin to add your phone number',
+};
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type QuietHoursMode = 'organization' | 'custom' | 'off';
+
+export function NotificationPreferencesCard() {
+  const [categories, setCategories] = useState<NotificationCategory[]>([]);
+  const [selected, setSelected] = useState<NotificationPreferences['categories']>({});
+  const [backups, setBackups] = useState<NotificationPreferences['backupChannels']>({});
+  const [reachableChannels, setReachableChannels] = useState<NotificationChannel[]>([]);
+  const [digestMode, setDigestMode] = useState<DigestMode>('immediate');
+  const [digestSchedule, setDigestSchedule] = useState<DigestSettings | null>(null);
+  const [organizationQuietHours, setOrganizationQuietHours] = useState<QuietHours | null>(null);
+  const [quietHoursMode, setQuietHoursMode] = useState<QuietHoursMode>('organization');
+  const [quietHours, setQuietHours] = useState({ start: '22:00', end: '08:00' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const result = await api.getNotificationPreferences();
+        setCategories(result.categories);
+        setSelected(result.preferences.categories);
+        setBackups(result.preferences.backupChannels);
+        setReachableChannels(result.reachableChannels);
+        setDigestMode(result.preferences.digestMode);
+        setDigestSchedule(result.digestSchedule);
+        setOrganizationQuietHours(result.organizationQuietHours);
+        showQuietHours(result.preferences.quietHours);
+      } catch (error) {
+        console.error('Failed to fetch notification preferences:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  // Chosen channels first in their order of preference, then the ones left unticked
+  const getOrderedChannels = (category: NotificationCategory) => {
+    const chosen = (selected[category.category] || []).filter(channel => category.channels.includes(channel));
+    return [...chosen, ...category.channels.filter(channel => !chosen.includes(channel))];
+  };
+
+  const toggleChannel = (category: string, channel: NotificationChannel, checked: boolean) => {
+    setSelected(prev => {
+      const channels = prev[category] || [];
+      return {
+        ...prev,
+        [category]: checked ? [...channels, channel] : channels.filter(c => c !== channel)
+      };
+    });
+    if (!checked) toggleBackup(category, channel, false);
+  };
+
+  const toggleBackup = (category: string, channel: NotificationChannel, isBackup: boolean) => {
+    setBackups(prev => {
+      const channels = (prev[category] || []).filter(c => c !== channel);
+      return { ...prev, [category]: isBackup ? [...channels, channel] : channels };
+    });
+  };
+
+  const moveChannel = (category: string, index: number, direction: -1 | 1) => {
+    setSelected(prev => {
+      const channels = [...(prev[category] || [])];
+      [channels[index], channels[index + direction]] = [channels[index + direction], channels[index]];
+      return { ...prev, [category]: channels };
+    });
+  };
+
+  const showQuietHours = (own: QuietHours | null) => {
+    setQuietHoursMode(!own ? 'organization' : own.enabled ? 'custom' : 'off');
+    if (own) setQuietHours({ start: own.start, end: own.end });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await api.saveNotificationPreferences({
+        categories: selected,
+        backupChannels: backups,
+        digestMode,
+        // Own quiet hours are kept in the browser's time zone, like availability
+        quietHours: quietHoursMode === 'organization'
+          ? null
+          : { enabled: quietHoursMode === 'custom', ...quietHours, timeZone: getBrowserTimeZone() }
+      });
+      if (result.success) {
+        setSelected(result.preferences.categories);
+        setBackups(result.preferences.backupChannels);
+        setDigestMode(result.preferences.digestMode);
+        showQuietHours(result.preferences.quietHours);
+        toast.success('Notification preferences saved');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of update. You get each message on every channel you tick. Channels marked as backup are only used, in order, if your first channel fails.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <>
+            {categories.map(category => {
+              const chosen = selected[category.category] || [];
+              return (
+                <div key={category.category} className="space-y-2">
+                  <div>
+                    <p className="text-gray-900">{category.label}</p>
+                    <p className="text-xs text-gray-500">{category.description}</p>
+                  </div>
+                  <div className="space-y-1">
+                    {getOrderedChannels(category).map(channel => {
+                      const position = chosen.indexOf(channel);
+                      const isReachable = reachableChannels.includes(channel);
+                      const id = `notify-${category.category}-${channel}`;
+                      return (
+                        <div key={channel} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                          <Checkbox
+                            id={id}
+                            checked={position !== -1}
+                            onCheckedChange={(checked) => toggleChannel(category.category, channel, checked === true)}
+                          />
+                          <div className="flex-1">
+                            <Label htmlFor={id}>
+                              {position !== -1 && <span className="text-gray-500 mr-1">{position + 1}.</span>}
+                              {CHANNEL_LABELS[channel]}
+                            </Label>
+                            {!isReachable && (
+                              <p className="text-xs text-orange-600">{UNREACHABLE_HINTS[channel]}</p>
+                            )}
+                          </div>
+                          {position !== -1 && (
+                            <div className="flex items-center gap-1">
+                              <Checkbox
+                                id={`${id}-backup`}
+                                checked={(backups[category.category] || []).includes(channel)}
+                                onCheckedChange={(checked) => toggleBackup(category.category, channel, checked === true)}
+                              />
+                              <Label htmlFor={`${id}-backup`} className="text-xs text-gray-500">Backup</Label>
+                            </div>
+                          )}
+                          {position !== -1 && (
+                            <div className="flex">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => moveChannel(category.category, position, -1)}
+                                disabled={position === 0}
+                                aria-label={`Try ${CHANNEL_LABELS[channel]} earlier`}
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => moveChannel(category.category, position, 1)}
+                                disabled={position === chosen.length - 1}
+                                aria-label={`Try ${CHANNEL_LABELS[channel]} later`}
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {chosen.length === 0 && (
+                    <p className="text-xs text-gray-500">You won't be notified about this.</p>
+                  )}
+                  {category.category === 'new-events' && chosen.length > 0 && (
+                    <RadioGroup
+                      value={digestMode}
+                      onValueChange={(value) => setDigestMode(value as DigestMode)}
+                      className="pt-1"
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="immediate" id="digestImmediate" />
+                        <Label htmlFor="digestImmediate">One message per event, as soon as it is posted</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="daily" id="digestDaily" />
+                        <Label htmlFor="digestDaily">
+                          Daily summary{digestSchedule && ` at ${digestSchedule.sendTime} (${digestSchedule.timeZone})`}
+                        </Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="weekly" id="digestWeekly" />
+                        <Label htmlFor="digestWeekly">
+                          Weekly summary{digestSchedule && ` on ${WEEKDAY_NAMES[digestSchedule.weeklyDay]}s at ${digestSchedule.sendTime} (${digestSchedule.timeZone})`}
+                        </Label>
+                      </div>
+                    </RadioGroup>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex items-center gap-2">
+                <Moon className="h-4 w-4 text-gray-500" />
+                <span className="text-gray-900">Quiet Hours</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                Telegram and WhatsApp messages are held until quiet hours end. Cancellations of events within 24 hours still come through.
+              </p>
+              <RadioGroup value={quietHoursMode} onValueChange={(value) => setQuietHoursMode(value as QuietHoursMode)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="organization" id="quietOrganization" />
+                  <Label htmlFor="quietOrganization">
+                    {organizationQuietHours?.enabled
+                      ? `Organization quiet hours (${organizationQuietHours.start}–${organizationQuietHours.end}, ${organizationQuietHours.timeZone})`
+                      : 'Organization quiet hours (currently none)'}
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="custom" id="quietCustom" />
+                  <Label htmlFor="quietCustom">My own quiet hours</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="off" id="quietOff" />
+                  <Label htmlFor="quietOff">No quiet hours - send messages straight away</Label>
+                </div>
+              </RadioGroup>
+              {quietHoursMode === 'custom' && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={quietHours.start}
+                      onChange={(e) => setQuietHours(prev => ({ ...prev, start: e.target.value }))}
+                      className="w-32"
+                      aria-label="Quiet hours start"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <Input
+                      type="time"
+                      value={quietHours.end}
+                      onChange={(e) => setQuietHours(prev => ({ ...prev, end: e.target.value }))}
+                      className="w-32"
+                      aria-label="Quiet hours end"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">Times are in your time zone ({getBrowserTimeZone()}).</p>
+                </div>
+              )}
+            </div>
+
+            <Button className="w-full bg-[#5D2972] hover:bg-[#4a1f5a]" onClick={handleSave} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Notification Preferences'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
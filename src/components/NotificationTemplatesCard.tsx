@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { FileText, RotateCcw, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { NotificationChannel, NotificationTemplate, NotificationTemplateContent } from '../App';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  telegram: 'Telegram',
+  whatsapp: 'WhatsApp',
+};
+
+const EMPTY_DRAFT: NotificationTemplateContent = { subject: '', heading: '', body: '' };
+
+export function NotificationTemplatesCard() {
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [selectedType, setSelectedType] = useState('');
+  const [selectedChannel, setSelectedChannel] = useState<NotificationChannel | ''>('');
+  const [draft, setDraft] = useState<NotificationTemplateContent>(EMPTY_DRAFT);
+  const [preview, setPreview] = useState<{ subject?: string; html?: string; text?: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const result = await api.getNotificationTemplates();
+        setTemplates(result.templates);
+        if (result.templates.length > 0) {
+          setSelectedType(result.templates[0].type);
+          setSelectedChannel(result.templates[0].channel);
+        }
+      } catch (error) {
+        console.error('Failed to fetch notification templates:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  // One entry per type, in the order the server lists them
+  const types = templates.filter((t, index) => templates.findIndex(other => other.type === t.type) === index);
+  const channels = templates.filter(t => t.type === selectedType).map(t => t.channel);
+  const template = templates.find(t => t.type === selectedType && t.channel === selectedChannel);
+
+  // Start editing from the saved version whenever another template is picked
+  useEffect(() => {
+    if (template) {
+      setDraft({ subject: template.subject || '', heading: template.heading || '', body: template.body });
+    }
+  }, [selectedType, selectedChannel, template?.updatedAt, template?.isCustom]);
+
+  // Live preview, rendered by the server against a sample event once typing pauses
+  useEffect(() => {
+    if (!template) return;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await api.previewNotificationTemplate(template.type, template.channel, draft);
+        setPreview(result.preview);
+      } catch (error) {
+        console.error('Failed to preview notification template:', error);
+      }
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [draft, template?.type, template?.channel]);
+
+  const handleTypeChange = (type: string) => {
+    setSelectedType(type);
+    const typeChannels = templates.filter(t => t.type === type).map(t => t.channel);
+    if (!typeChannels.includes(selectedChannel as NotificationChannel)) {
+      setSelectedChannel(typeChannels[0]);
+    }
+  };
+
+  const updateTemplate = (updated: Partial<NotificationTemplate>) => {
+    setTemplates(prev => prev.map(t =>
+      t.type === selectedType && t.channel === selectedChannel ? { ...t, ...updated } : t
+    ));
+  };
+
+  const handleSave = async () => {
+    if (!template) return;
+    setIsSaving(true);
+    try {
+      await api.saveNotificationTemplate(template.type, template.channel, draft);
+      updateTemplate({ ...draft, isCustom: true, updatedAt: new Date().toISOString() });
+      toast.success('Template saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!template) return;
+    try {
+      const result = await api.resetNotificationTemplate(template.type, template.channel);
+      updateTemplate({ ...result.template, isCustom: false, updatedAt: undefined });
+      toast.success('Template reset to default');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reset template');
+    } finally {
+      setShowResetConfirm(false);
+    }
+  };
+
+  const isEmail = selectedChannel === 'email';
+  const hasChanges = !!template && (
+    draft.body !== template.body ||
+    (isEmail && (draft.subject !== (template.subject || '') || draft.heading !== (template.heading || '')))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Notification Templates
+        </CardTitle>
+        <CardDescription>
+          Change what staff receive for each kind of notification. Placeholders like {'{{event.name}}'} are filled in when the message is sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={selectedType} onValueChange={handleTypeChange}>
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue placeholder="Select a notification" />
+                </SelectTrigger>
+                <SelectContent>
+                  {types.map(t => (
+                    <SelectItem key={t.type} value={t.type}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={selectedChannel}
+                onValueChange={(channel) => channel && setSelectedChannel(channel as NotificationChannel)}
+              >
+                {channels.map(channel => (
+                  <ToggleGroupItem key={channel} value={channel}>{CHANNEL_LABELS[channel]}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              {template?.isCustom && <Badge variant="secondary" className="self-center">Customized</Badge>}
+            </div>
+
+            {template && (
+              <div className="grid gap-4 lg:grid-cols-2">
+                <div className="space-y-3">
+                  {isEmail && (
+                    <>
+                      <div className="space-y-1">
+                        <Label htmlFor="templateSubject">Subject</Label>
+                        <Input
+                          id="templateSubject"
+                          value={draft.subject}
+                          onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="templateHeading">Heading</Label>
+                        <Input
+                          id="templateHeading"
+                          value={draft.heading}
+                          onChange={(e) => setDraft(prev => ({ ...prev, heading: e.target.value }))}
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div className="space-y-1">
+                    <Label htmlFor="templateBody">{isEmail ? 'Body (HTML)' : 'Message'}</Label>
+                    <Textarea
+                      id="templateBody"
+                      value={draft.body}
+                      onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+                      rows={14}
+                      className="font-mono text-xs"
+                    />
+                  </div>
+                  <div className="text-xs text-gray-500 space-y-1">
+                    <p>Available placeholders:</p>
+                    <div className="flex flex-wrap gap-1">
+                      {template.variables.map(variable => (
+                        <code key={variable} className="px-1.5 py-0.5 bg-gray-100 rounded">{`{{${variable}}}`}</code>
+                      ))}
+                    </div>
+                    <p>
+                      Wrap text in {'{{#event.notes}}'}…{'{{/event.notes}}'} to only show it when a value is set,
+                      or {'{{^event.notes}}'}…{'{{/event.notes}}'} when it is not.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Preview (sample event)</Label>
+                  {isEmail ? (
+                    <div className="border rounded-lg overflow-hidden">
+                      <div className="px-3 py-2 bg-gray-50 border-b text-sm">
+                        <span className="text-gray-500">Subject:</span> {preview?.subject}
+                      </div>
+                      <iframe
+                        title="Email preview"
+                        srcDoc={preview?.html || ''}
+                        sandbox=""
+                        className="w-full h-96 bg-white"
+                      />
+                    </div>
+                  ) : (
+                    <div className="border rounded-lg p-3 bg-gray-50 text-sm whitespace-pre-wrap min-h-48">
+                      {preview?.text}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={handleSave} disabled={!template || !hasChanges || isSaving}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+              <Button variant="outline" onClick={() => setShowResetConfirm(true)} disabled={!template?.isCustom}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset to Default
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={showResetConfirm} onOpenChange={setShowResetConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset Template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your changes to this template are discarded and the built-in text is used again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -5,15 +5,16 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
+import { InvitationPurpose } from '../App';
 
 interface PasswordSetupProps {
   email: string;
-  tempPassword: string;
+  purpose: InvitationPurpose;
   onPasswordSet: (newPassword: string) => Promise<boolean>;
   onCancel: () => void;
 }
 
-export function PasswordSetup({ email, tempPassword, onPasswordSet, onCancel }: PasswordSetupProps) {
+export function PasswordSetup({ email, purpose, onPasswordSet, onCancel }: PasswordSetupProps) {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -55,15 +56,18 @@ export function PasswordSetup({ email, tempPassword, onPasswordSet, onCancel }:
           <div className="mx-auto w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mb-2">
             <CheckCircle className="w-8 h-8 text-white" />
           </div>
-          <CardTitle>Welcome! Set Your Password</CardTitle>
+          <CardTitle>{purpose === 'invite' ? 'Welcome! Set Your Password' : 'Choose a New Password'}</CardTitle>
           <CardDescription>
-            Complete your account setup by creating a new password
+            {purpose === 'invite'
+              ? 'Complete your account setup by creating a new password'
+              : 'Your old password stops working once you choose a new one'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <Alert>
             <AlertDescription>
-              You're setting up your account for <strong>{email}</strong>
+              {purpose === 'invite' ? "You're setting up your account for " : "You're resetting the password for "}
+              <strong>{email}</strong>
             </AlertDescription>
           </Alert>
 
@@ -127,7 +131,7 @@ export function PasswordSetup({ email, tempPassword, onPasswordSet, onCancel }:
 
           <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
             <p className="text-blue-900">
-              <strong>Next Steps:</strong> After setting your password, you'll be able to sign in and access Nahky Araby Event Hub.
+              <strong>Next Steps:</strong> After setting your password, you'll be signed in to Nahky Araby Event Hub. Use it to sign in from now on - this link only works once.
             </p>
           </div>
         </CardContent>
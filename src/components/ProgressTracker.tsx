@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Event } from '../App';
 import { Level } from './AdminSettings';
+import { getEventTiming } from '../utils/dateUtils';
 
 interface ProgressTrackerProps {
   points: number;
@@ -35,8 +36,8 @@ export function ProgressTracker({ points, level, myEvents, levels }: ProgressTra
     ? Math.min(((points - currentLevelObj.minPoints) / (nextLevel.minPoints - currentLevelObj.minPoints)) * 100, 100)
     : 100;
 
-  const upcomingEvents = myEvents.filter(e => new Date(e.date) >= new Date());
-  const completedEvents = myEvents.filter(e => new Date(e.date) < new Date());
+  const upcomingEvents = myEvents.filter(e => getEventTiming(e) !== 'past');
+  const completedEvents = myEvents.filter(e => getEventTiming(e) === 'past');
   const totalPotentialPoints = upcomingEvents.reduce((sum, event) => sum + event.points, 0);
 
   return (
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { Moon, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { QuietHours } from '../App';
+import { getBrowserTimeZone, getTimeZoneOptions } from '../utils/dateUtils';
+
+export function QuietHoursCard() {
+  const [settings, setSettings] = useState<QuietHours>({ enabled: false, start: '22:00', end: '08:00', timeZone: getBrowserTimeZone() });
+  const [heldCount, setHeldCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const timeZoneOptions = getTimeZoneOptions();
+
+  useEffect(() => {
+    const fetchQuietHours = async () => {
+      try {
+        const result = await api.getQuietHoursSettings();
+        setSettings(result.settings);
+        setHeldCount(result.heldCount);
+      } catch (error) {
+        console.error('Failed to fetch quiet hours:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchQuietHours();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await api.saveQuietHoursSettings(settings);
+      toast.success('Quiet hours saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save quiet hours');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Moon className="h-5 w-5" />
+          Quiet Hours
+        </CardTitle>
+        <CardDescription>
+          Hold Telegram and WhatsApp messages overnight and send them when quiet hours end. Staff can set their own quiet hours in their profile.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="quietHoursEnabled"
+                checked={settings.enabled}
+                onCheckedChange={(enabled) => setSettings({ ...settings, enabled })}
+              />
+              <Label htmlFor="quietHoursEnabled">Hold messages during quiet hours</Label>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="quietHoursStart">From</Label>
+                <Input
+                  id="quietHoursStart"
+                  type="time"
+                  value={settings.start}
+                  onChange={(e) => setSettings({ ...settings, start: e.target.value })}
+                  disabled={!settings.enabled}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quietHoursEnd">Until</Label>
+                <Input
+                  id="quietHoursEnd"
+                  type="time"
+                  value={settings.end}
+                  onChange={(e) => setSettings({ ...settings, end: e.target.value })}
+                  disabled={!settings.enabled}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quietHoursTimeZone">Time Zone</Label>
+                <Select
+                  value={settings.timeZone}
+                  onValueChange={(timeZone) => setSettings({ ...settings, timeZone })}
+                  disabled={!settings.enabled}
+                >
+                  <SelectTrigger id="quietHoursTimeZone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeZoneOptions.map(zone => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Cancellations of events starting within 24 hours are always sent straight away. Emails are never held.
+              {heldCount > 0 && ` ${heldCount} message${heldCount !== 1 ? 's are' : ' is'} currently being held.`}
+            </p>
+            <Button type="submit" disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Quiet Hours'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
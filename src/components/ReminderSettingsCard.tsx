@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { AlarmClock, Play, Save } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Alert, AlertDescription } from './ui/alert';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { ScheduledJobRun } from '../App';
+
+const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+export function ReminderSettingsCard() {
+  const [enabled, setEnabled] = useState(true);
+  const [hoursBefore, setHoursBefore] = useState('24, 2');
+  const [adminNudgeEnabled, setAdminNudgeEnabled] = useState(true);
+  const [adminNudgeHoursBefore, setAdminNudgeHoursBefore] = useState('48');
+  const [lastRun, setLastRun] = useState<ScheduledJobRun | null>(null);
+  const [cronConfigured, setCronConfigured] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    const fetchReminderSettings = async () => {
+      try {
+        const result = await api.getReminderSettings();
+        setEnabled(result.settings.enabled);
+        setHoursBefore(result.settings.hoursBefore.join(', '));
+        setAdminNudgeEnabled(result.settings.adminNudgeEnabled);
+        setAdminNudgeHoursBefore(String(result.settings.adminNudgeHoursBefore));
+        setLastRun(result.lastRun);
+        setCronConfigured(result.cronConfigured);
+      } catch (error) {
+        console.error('Failed to fetch reminder settings:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReminderSettings();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Entered as a comma-separated list, e.g. "24, 2"
+    const hours = hoursBefore.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+    if (hours.length === 0 || hours.some(value => !Number.isFinite(value) || value <= 0)) {
+      toast.error('Enter the reminder times as hours, separated by commas');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await api.saveReminderSettings({
+        enabled,
+        hoursBefore: hours,
+        adminNudgeEnabled,
+        adminNudgeHoursBefore: Number(adminNudgeHoursBefore)
+      });
+      setHoursBefore(result.settings.hoursBefore.join(', '));
+      toast.success('Reminder settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save reminder settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const { result } = await api.runScheduledJobs();
+      setLastRun(result);
+      toast.success('Scheduled jobs ran', {
+        description: `${result.remindersQueued} reminders, ${result.nudgesQueued} admin reminders and ${result.digestsQueued} digests queued`
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to run scheduled jobs');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClock className="h-5 w-5" />
+          Reminders
+        </CardTitle>
+        <CardDescription>
+          Remind selected staff before their event starts, and remind admins about open events that still need a selection
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            {!cronConfigured && (
+              <Alert>
+                <AlertDescription>
+                  Reminders are only sent when the scheduled jobs run. Set the CRON_SECRET environment variable and call
+                  the /jobs/run endpoint every 15 minutes with it in an X-Cron-Secret header, or use Run Now.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <Switch id="remindersEnabled" checked={enabled} onCheckedChange={setEnabled} />
+                <Label htmlFor="remindersEnabled">Remind selected staff</Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reminderHours">Hours Before Start</Label>
+                <Input
+                  id="reminderHours"
+                  value={hoursBefore}
+                  onChange={(e) => setHoursBefore(e.target.value)}
+                  placeholder="24, 2"
+                  disabled={!enabled}
+                />
+                <p className="text-sm text-gray-500">
+                  One reminder for each time, e.g. "24, 2" reminds staff a day and two hours before. Events with shifts use the start of each shift.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex items-center gap-3">
+                <Switch id="adminNudgeEnabled" checked={adminNudgeEnabled} onCheckedChange={setAdminNudgeEnabled} />
+                <Label htmlFor="adminNudgeEnabled">Remind admins and coordinators about open events</Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="adminNudgeHours">Hours Before Start</Label>
+                <Input
+                  id="adminNudgeHours"
+                  type="number"
+                  min="1"
+                  value={adminNudgeHoursBefore}
+                  onChange={(e) => setAdminNudgeHoursBefore(e.target.value)}
+                  disabled={!adminNudgeEnabled}
+                />
+                <p className="text-sm text-gray-500">
+                  Admins are told once when an event this close to its start has not been closed yet.
+                </p>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              {lastRun
+                ? `Last run ${formatDateTime(lastRun.ranAt)}: ${lastRun.remindersQueued} reminders, ${lastRun.nudgesQueued} admin reminders and ${lastRun.digestsQueued || 0} digests queued.`
+                : 'The scheduled jobs have not run yet.'}
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button type="submit" disabled={isSaving}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save Reminder Settings'}
+              </Button>
+              <Button type="button" variant="outline" onClick={handleRunNow} disabled={isRunning}>
+                <Play className="h-4 w-4 mr-2" />
+                {isRunning ? 'Running...' : 'Run Now'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,28 @@
 import { useState } from 'react';
-import { LogOut, Award, TrendingUp, Calendar, Bell } from 'lucide-react';
+import { LogOut, Award, TrendingUp, Calendar, Bell, MapPin, LogIn } from 'lucide-react';
 import { Button } from './ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { EventList } from './EventList';
 import { ProgressTracker } from './ProgressTracker';
+import { CheckInDialog } from './CheckInDialog';
+import { CalendarFeedCard } from './CalendarFeedCard';
+import { AvailabilityCard } from './AvailabilityCard';
+import { NotificationPreferencesCard } from './NotificationPreferencesCard';
+import { TelegramLinkCard } from './TelegramLinkCard';
 import { Event, User, StaffMember } from '../App';
 import { Level } from './AdminSettings';
+import { getExpectedStaff, isEventToday, isOnWaitlist } from '../utils/eventUtils';
+import { formatEventTimeRange, getEventTiming } from '../utils/dateUtils';
 
 interface StaffDashboardProps {
   events: Event[];
   levels: Level[];
   currentUser: User;
   staffMembers: StaffMember[];
-  onSignUp: (eventId: string, staffId: string) => void;
-  onCancelSignUp?: (eventId: string, staffId: string) => void;
+  onSignUp: (eventId: string, staffId: string, shiftId?: string) => void;
+  onCancelSignUp?: (eventId: string, staffId: string, shiftId?: string) => void;
+  onCheckIn: (code: string, method: 'qr' | 'pin', eventId?: string) => Promise<boolean>;
+  onCheckOut: (eventId: string) => void;
   onLogout: () => void;
 }
 
@@ -24,9 +33,12 @@ export function StaffDashboard({
   staffMembers,
   onSignUp,
   onCancelSignUp,
+  onCheckIn,
+  onCheckOut,
   onLogout
 }: StaffDashboardProps) {
   const [activeTab, setActiveTab] = useState('events');
+  const [checkInEvent, setCheckInEvent] = useState<Event | null>(null);
 
   const currentStaffMember = staffMembers.find(s => s.id === currentUser.id);
   const points = currentStaffMember?.points || 0;
@@ -53,8 +65,12 @@ export function StaffDashboard({
     return requiredLevelObj.order <= currentLevelObj.order;
   });
 
-  const myEvents = eligibleEvents.filter(e => e.signedUpStaff.includes(currentUser.id));
-  const availableEvents = eligibleEvents.filter(e => !e.signedUpStaff.includes(currentUser.id));
+  // Waitlisted events count as "my events" so staff can follow their position and cancel
+  const myEvents = eligibleEvents.filter(e => e.signedUpStaff.includes(currentUser.id) || isOnWaitlist(e, currentUser.id));
+  const availableEvents = eligibleEvents.filter(e => !e.signedUpStaff.includes(currentUser.id) && !isOnWaitlist(e, currentUser.id));
+
+  // Today's events the staff member is expected at can be checked in to on site
+  const todaysEvents = eligibleEvents.filter(e => isEventToday(e) && getExpectedStaff(e).includes(currentUser.id));
 
   // Calculate points to next level
   const currentLevelIndex = sortedLevels.findIndex(l => l.name === level);
@@ -63,7 +79,7 @@ export function StaffDashboard({
     : null;
   const pointsToNextLevel = nextLevel ? Math.max(0, nextLevel.minPoints - points) : 0;
   
-  const upcomingEventsCount = availableEvents.filter(e => new Date(e.date) >= new Date()).length;
+  const upcomingEventsCount = availableEvents.filter(e => getEventTiming(e) !== 'past').length;
 
   return (
     <div className="min-h-screen bg-[#F9F9F9] pb-20">
@@ -152,13 +168,63 @@ export function StaffDashboard({
         </div>
       </div>
 
+      {/* Today's Check-in */}
+      {todaysEvents.length > 0 && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-6">
+          <div className="bg-white rounded-lg p-4 border space-y-3">
+            <div className="flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-[#5D2972]" />
+              <span className="text-[#333333]">Today's Check-in</span>
+            </div>
+            {todaysEvents.map(event => {
+              const checkIn = event.checkIns?.[currentUser.id];
+              return (
+                <div key={event.id} className="flex items-center justify-between gap-3 border-t pt-3">
+                  <div className="min-w-0">
+                    <p className="text-[#333333] truncate">{event.name}</p>
+                    <p className="text-gray-500 text-sm">
+                      {checkIn
+                        ? checkIn.checkedOutAt
+                          ? `Checked out at ${new Date(checkIn.checkedOutAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                          : `Checked in at ${new Date(checkIn.checkedInAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                        : `${formatEventTimeRange(event)} · ${event.location}`}
+                    </p>
+                  </div>
+                  {!checkIn ? (
+                    <Button
+                      size="sm"
+                      className="bg-[#5D2972] hover:bg-[#4a1f5a] shrink-0"
+                      onClick={() => setCheckInEvent(event)}
+                    >
+                      <LogIn className="h-4 w-4 mr-1" />
+                      Check In
+                    </Button>
+                  ) : !checkIn.checkedOutAt ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="shrink-0"
+                      onClick={() => onCheckOut(event.id)}
+                    >
+                      <LogOut className="h-4 w-4 mr-1" />
+                      Check Out
+                    </Button>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-6">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="events">Available</TabsTrigger>
             <TabsTrigger value="my-events">My Events</TabsTrigger>
             <TabsTrigger value="progress">Progress</TabsTrigger>
+            <TabsTrigger value="profile">Profile</TabsTrigger>
           </TabsList>
           
           <TabsContent value="events">
@@ -166,8 +232,8 @@ export function StaffDashboard({
               events={availableEvents}
               levels={levels}
               staffMembers={staffMembers}
-              onSignUp={(eventId) => onSignUp(eventId, currentUser.id)}
-              onCancelSignUp={onCancelSignUp ? (eventId) => onCancelSignUp(eventId, currentUser.id) : undefined}
+              onSignUp={(eventId, shiftId) => onSignUp(eventId, currentUser.id, shiftId)}
+              onCancelSignUp={onCancelSignUp ? (eventId, shiftId) => onCancelSignUp(eventId, currentUser.id, shiftId) : undefined}
               currentLevel={currentUser.level}
               isSignedUp={false}
               currentStaffId={currentUser.id}
@@ -179,8 +245,8 @@ export function StaffDashboard({
               events={myEvents}
               levels={levels}
               staffMembers={staffMembers}
-              onSignUp={(eventId) => onSignUp(eventId, currentUser.id)}
-              onCancelSignUp={onCancelSignUp ? (eventId) => onCancelSignUp(eventId, currentUser.id) : undefined}
+              onSignUp={(eventId, shiftId) => onSignUp(eventId, currentUser.id, shiftId)}
+              onCancelSignUp={onCancelSignUp ? (eventId, shiftId) => onCancelSignUp(eventId, currentUser.id, shiftId) : undefined}
               currentLevel={currentUser.level}
               isSignedUp={true}
               currentStaffId={currentUser.id}
@@ -195,8 +261,23 @@ export function StaffDashboard({
               levels={levels}
             />
           </TabsContent>
+
+          <TabsContent value="profile">
+            <div className="space-y-4">
+              <AvailabilityCard />
+              <NotificationPreferencesCard />
+              <TelegramLinkCard />
+              <CalendarFeedCard />
+            </div>
+          </TabsContent>
         </Tabs>
       </div>
+
+      <CheckInDialog
+        event={checkInEvent}
+        onClose={() => setCheckInEvent(null)}
+        onCheckIn={onCheckIn}
+      />
     </div>
   );
 }
\ No newline at end of file
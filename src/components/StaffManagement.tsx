@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Plus, Mail, Award, TrendingUp, TrendingDown, UserPlus, AlertCircle, Edit2, Phone, KeyRound, Trash2, Copy, CheckCircle, Send, Info } from 'lucide-react';
+import { Plus, Mail, Award, TrendingUp, TrendingDown, UserPlus, AlertCircle, Edit2, Phone, KeyRound, Trash2, Copy, CheckCircle, Send, Info, ShieldCheck, Ban } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
@@ -7,30 +7,72 @@ import { Label } from './ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
 import { Badge } from './ui/badge';
-import { StaffMember } from '../App';
+import { Event, InvitationStatus, ReliabilityRecord, StaffInvitation, StaffMember } from '../App';
 import { Alert, AlertDescription } from './ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Level } from './AdminSettings';
 import { api } from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 import { projectId } from '../utils/supabase/info';
+import { getReliability } from '../utils/eventUtils';
 
 interface StaffManagementProps {
   staffMembers: StaffMember[];
+  events: Event[];
+  reliabilityRecords: ReliabilityRecord[];
   levels: Level[];
   onAddStaff: (email: string, name: string, phone: string) => StaffMember;
   onUpdateStaff: (staffId: string, name: string, email: string, phone: string, level: string, telegramUsername: string) => void;
   onDeleteStaff: (staffId: string) => void;
   onAdjustPoints: (staffId: string, pointsChange: number, reason: string) => void;
   onSendPasswordReset: (staffId: string) => void;
+  onResendInvitation: (staffId: string) => void;
+  onRevokeInvitation: (staffId: string) => void;
   onSendTelegramTest: (staffId: string) => void;
+  canManageStaff: boolean; // Invite, edit and remove staff, and send their links
+  canAdjustPoints: boolean;
 }
 
-export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaff, onDeleteStaff, onAdjustPoints, onSendPasswordReset, onSendTelegramTest }: StaffManagementProps) {
+const INVITATION_STATUS_STYLES: Record<InvitationStatus, { label: string; className: string }> = {
+  sent: { label: 'Sent', className: 'bg-blue-50 text-blue-700 border-blue-300' },
+  opened: { label: 'Opened', className: 'bg-purple-50 text-purple-700 border-purple-300' },
+  accepted: { label: 'Accepted', className: 'bg-green-50 text-green-700 border-green-300' },
+  expired: { label: 'Expired', className: 'bg-red-50 text-red-700 border-red-300' },
+  revoked: { label: 'Revoked', className: 'bg-gray-50 text-gray-700 border-gray-300' },
+};
+
+const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+// What happened to the latest link, e.g. "Opened Mar 4, 2:15 PM · expires Mar 10, 9:00 AM"
+const describeInvitation = (invitation: StaffInvitation) => {
+  switch (invitation.status) {
+    case 'sent':
+      return `Sent ${formatDateTime(invitation.sentAt)} · expires ${formatDateTime(invitation.expiresAt)}`;
+    case 'opened':
+      return `Opened ${formatDateTime(invitation.openedAt || invitation.sentAt)} · expires ${formatDateTime(invitation.expiresAt)}`;
+    case 'accepted':
+      return `Accepted ${formatDateTime(invitation.acceptedAt || invitation.sentAt)}`;
+    case 'expired':
+      return `Expired ${formatDateTime(invitation.expiresAt)}`;
+    case 'revoked':
+      return `Revoked ${formatDateTime(invitation.revokedAt || invitation.sentAt)}`;
+  }
+};
+
+export function StaffManagement({ staffMembers, events, reliabilityRecords, levels, onAddStaff, onUpdateStaff, onDeleteStaff, onAdjustPoints, onSendPasswordReset, onResendInvitation, onRevokeInvitation, onSendTelegramTest, canManageStaff, canAdjustPoints }: StaffManagementProps) {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isAdjustDialogOpen, setIsAdjustDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isRevokeDialogOpen, setIsRevokeDialogOpen] = useState(false);
   const [selectedStaff, setSelectedStaff] = useState<StaffMember | null>(null);
   const [addFormData, setAddFormData] = useState({ email: '', name: '', phone: '' });
   const [editFormData, setEditFormData] = useState({ email: '', name: '', phone: '', level: '', telegramUsername: '' });
@@ -183,6 +225,30 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
     }
   };
 
+  const handleResendInvitation = async (staff: StaffMember) => {
+    await onResendInvitation(staff.id);
+    
+    // Check if the email failed and there's a link to share by hand
+    const failedInvite = sessionStorage.getItem('lastFailedInvite');
+    if (failedInvite) {
+      setManualInviteInfo(JSON.parse(failedInvite));
+      sessionStorage.removeItem('lastFailedInvite');
+    }
+  };
+
+  const openRevokeDialog = (staff: StaffMember) => {
+    setSelectedStaff(staff);
+    setIsRevokeDialogOpen(true);
+  };
+
+  const handleRevokeInvitation = () => {
+    if (selectedStaff) {
+      onRevokeInvitation(selectedStaff.id);
+      setIsRevokeDialogOpen(false);
+      setSelectedStaff(null);
+    }
+  };
+
   const openDeleteDialog = (staff: StaffMember) => {
     setSelectedStaff(staff);
     setIsDeleteDialogOpen(true);
@@ -293,17 +359,19 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
           <p className="text-gray-500">Manage staff members and adjust performance points</p>
         </div>
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <UserPlus className="h-4 w-4 mr-2" />
-              Add Staff Member
-            </Button>
-          </DialogTrigger>
+          {canManageStaff && (
+            <DialogTrigger asChild>
+              <Button>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add Staff Member
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Invite New Staff Member</DialogTitle>
               <DialogDescription>
-                Enter the staff member's details. They will receive an email with login credentials and will be required to set up a new password on first login.
+                Enter the staff member's details. They will receive an email with a one-time link to set up their password.
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleAddStaff} className="space-y-4">
@@ -354,7 +422,7 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
         <Alert>
           <Mail className="h-4 w-4" />
           <AlertDescription>
-            ✅ Invitation email sent to {lastInvitation}! They will receive login credentials and will be required to set up a new password on first login.
+            ✅ Invitation email sent to {lastInvitation}! They can set up their password with the link in it.
           </AlertDescription>
         </Alert>
       )}
@@ -363,7 +431,7 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
         <Alert>
           <KeyRound className="h-4 w-4" />
           <AlertDescription>
-            Password reset email sent to {resetPasswordSent}. They will receive a temporary password and will be required to set up a new password on next login.
+            Password reset email sent to {resetPasswordSent}. They can choose a new password with the link in it - their current password keeps working until they do.
           </AlertDescription>
         </Alert>
       )}
@@ -378,12 +446,12 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                 <strong className="text-blue-900">✅ {manualInviteInfo.staff.name} was created successfully!</strong>
                 <p className="text-blue-800 mt-1 text-sm">
                   The invitation email couldn't be sent automatically (Resend is in testing mode). 
-                  Please share the login credentials below with the staff member.
+                  Please share the invitation link below with the staff member.
                 </p>
               </div>
               
               <div className="bg-white rounded-md p-3 border border-blue-200 space-y-3">
-                <p className="text-sm font-medium text-gray-900">📋 Share these login credentials:</p>
+                <p className="text-sm font-medium text-gray-900">📋 Share these details:</p>
                 
                 <div>
                   <p className="text-xs text-gray-600 mb-1">Username (Email):</p>
@@ -409,12 +477,12 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                 </div>
                 
                 <div>
-                  <p className="text-xs text-gray-600 mb-1">Temporary Password:</p>
+                  <p className="text-xs text-gray-600 mb-1">Invitation Link:</p>
                   <div className="flex gap-2 items-center">
                     <input 
                       type="text" 
                       readOnly 
-                      value={manualInviteInfo.tempPassword}
+                      value={manualInviteInfo.invitationLink}
                       className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-gray-300 rounded-md font-mono"
                       onClick={(e) => e.currentTarget.select()}
                     />
@@ -423,7 +491,7 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                       variant="outline"
                       onClick={(e) => {
                         const btn = e.currentTarget as HTMLButtonElement;
-                        copyToClipboard(manualInviteInfo.tempPassword, btn);
+                        copyToClipboard(manualInviteInfo.invitationLink, btn);
                       }}
                     >
                       <Copy className="h-4 w-4" />
@@ -433,7 +501,7 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                 
                 <div className="bg-yellow-50 border border-yellow-200 rounded p-2">
                   <p className="text-xs text-yellow-800">
-                    ⚠️ <strong>Important:</strong> The staff member will be required to set up a new password when they first log in.
+                    ⚠️ <strong>Important:</strong> Only share the link with the staff member - it lets whoever opens it set the password. It works once and expires in 7 days.
                   </p>
                 </div>
               </div>
@@ -465,15 +533,15 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
           <AlertDescription>
             <div className="space-y-3">
               <div>
-                <strong className="text-orange-900">🔑 Password reset successful for {manualResetInfo.staff.name}</strong>
+                <strong className="text-orange-900">🔑 Password reset link created for {manualResetInfo.staff.name}</strong>
                 <p className="text-orange-800 mt-1 text-sm">
                   The password reset email couldn't be sent automatically (Resend is in testing mode). 
-                  Please share the temporary password below with the staff member.
+                  Please share the reset link below with the staff member.
                 </p>
               </div>
               
               <div className="bg-white rounded-md p-3 border border-orange-200 space-y-3">
-                <p className="text-sm font-medium text-gray-900">📋 Share these login credentials:</p>
+                <p className="text-sm font-medium text-gray-900">📋 Share these details:</p>
                 
                 <div>
                   <p className="text-xs text-gray-600 mb-1">Username (Email):</p>
@@ -499,12 +567,12 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                 </div>
                 
                 <div>
-                  <p className="text-xs text-gray-600 mb-1">Temporary Password:</p>
+                  <p className="text-xs text-gray-600 mb-1">Reset Link:</p>
                   <div className="flex gap-2 items-center">
                     <input 
                       type="text" 
                       readOnly 
-                      value={manualResetInfo.tempPassword}
+                      value={manualResetInfo.resetLink}
                       className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-gray-300 rounded-md font-mono"
                       onClick={(e) => e.currentTarget.select()}
                     />
@@ -513,7 +581,7 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                       variant="outline"
                       onClick={(e) => {
                         const btn = e.currentTarget as HTMLButtonElement;
-                        copyToClipboard(manualResetInfo.tempPassword, btn);
+                        copyToClipboard(manualResetInfo.resetLink, btn);
                       }}
                     >
                       <Copy className="h-4 w-4" />
@@ -523,7 +591,7 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                 
                 <div className="bg-yellow-50 border border-yellow-200 rounded p-2">
                   <p className="text-xs text-yellow-800">
-                    ⚠️ <strong>Important:</strong> The staff member will be required to set up a new password when they log in with this temporary password.
+                    ⚠️ <strong>Important:</strong> Only share the link with the staff member - it lets whoever opens it set the password. It works once and expires in 24 hours.
                   </p>
                 </div>
               </div>
@@ -867,6 +935,29 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Revoke Link Confirmation Dialog */}
+      <AlertDialog open={isRevokeDialogOpen} onOpenChange={setIsRevokeDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Revoke {selectedStaff?.invitation?.purpose === 'reset' ? 'Password Reset Link' : 'Invitation'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The link sent to {selectedStaff?.email} will stop working straight away.
+              {selectedStaff?.status === 'pending'
+                ? ' They will not be able to set up their account until you resend the invitation.'
+                : ' Their current password keeps working.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevokeInvitation}>
+              Revoke Link
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Chat ID Selection Dialog */}
       <Dialog open={isChatIdDialogOpen} onOpenChange={setIsChatIdDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[600px]">
@@ -989,7 +1080,8 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                   {staff.telegramUsername && (
                     <p className="text-gray-500 mt-1 flex items-center gap-1">
                       <Send className="h-3 w-3" />
-                      Telegram: {staff.telegramUsername}
+                      Telegram: {staff.telegramAccount?.username || staff.telegramUsername}
+                      {staff.telegramAccount && <span className="text-xs text-green-700">(linked by staff)</span>}
                     </p>
                   )}
                 </div>
@@ -1010,43 +1102,99 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                   {staff.level || 'No Level'}
                 </Badge>
               </div>
+
+              {(() => {
+                const reliability = getReliability(staff.id, events, reliabilityRecords);
+                if (reliability.score === null) return null;
+                const scoreColor = reliability.score >= 90
+                  ? 'text-green-700'
+                  : reliability.score >= 70 ? 'text-amber-700' : 'text-red-700';
+                return (
+                  <div className="flex items-center justify-between text-sm">
+                    <div className={`flex items-center ${scoreColor}`}>
+                      <ShieldCheck className="h-4 w-4 mr-2" />
+                      {reliability.score}% reliable
+                    </div>
+                    <span className="text-gray-500">
+                      {reliability.attended} attended · {reliability.noShows} no-show{reliability.noShows !== 1 ? 's' : ''} · {reliability.lateCancels} late
+                    </span>
+                  </div>
+                );
+              })()}
               
-              <div className="flex gap-2">
+              {(canManageStaff || (canAdjustPoints && staff.status === 'active')) && (
+                <div className="flex gap-2">
+                  {canManageStaff && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => openEditDialog(staff)}
+                    >
+                      <Edit2 className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  {canAdjustPoints && staff.status === 'active' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => openAdjustDialog(staff)}
+                    >
+                      <TrendingUp className="h-4 w-4 mr-1" />
+                      Points
+                    </Button>
+                  )}
+                </div>
+              )}
+              
+              {canManageStaff && staff.status === 'active' && (
                 <Button
                   variant="outline"
                   size="sm"
-                  className="flex-1"
-                  onClick={() => openEditDialog(staff)}
+                  className="w-full"
+                  onClick={() => handleSendPasswordReset(staff)}
                 >
-                  <Edit2 className="h-4 w-4 mr-1" />
-                  Edit
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Send Password Reset
                 </Button>
-                {staff.status === 'active' && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => openAdjustDialog(staff)}
-                  >
-                    <TrendingUp className="h-4 w-4 mr-1" />
-                    Points
-                  </Button>
-                )}
-              </div>
-              
-              {staff.status === 'active' && (
+              )}
+
+              {staff.status === 'active' && staff.invitation?.purpose === 'reset' && staff.invitation.status !== 'accepted' && (
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <Badge variant="outline" className={INVITATION_STATUS_STYLES[staff.invitation.status].className}>
+                    Reset Link {INVITATION_STATUS_STYLES[staff.invitation.status].label}
+                  </Badge>
+                  {describeInvitation(staff.invitation)}
+                </div>
+              )}
+
+              {canManageStaff && staff.status === 'pending' && (
                 <Button
                   variant="outline"
                   size="sm"
                   className="w-full"
-                  onClick={() => handleSendPasswordReset(staff)}
+                  onClick={() => handleResendInvitation(staff)}
                 >
-                  <KeyRound className="h-4 w-4 mr-2" />
-                  Send Password Reset
+                  <Mail className="h-4 w-4 mr-2" />
+                  Resend Invitation
+                </Button>
+              )}
+
+              {canManageStaff && (staff.invitation?.status === 'sent' || staff.invitation?.status === 'opened') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => openRevokeDialog(staff)}
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  Revoke {staff.invitation.purpose === 'reset' ? 'Reset Link' : 'Invitation'}
                 </Button>
               )}
               
-              {staff.status === 'active' && staff.telegramUsername && (
+              {canManageStaff && staff.status === 'active' && staff.telegramUsername && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -1058,21 +1206,33 @@ export function StaffManagement({ staffMembers, levels, onAddStaff, onUpdateStaf
                 </Button>
               )}
               
-              <Button
-                variant="outline"
-                size="sm"
-                className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
-                onClick={() => openDeleteDialog(staff)}
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete Staff
-              </Button>
+              {canManageStaff && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => openDeleteDialog(staff)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Staff
+                </Button>
+              )}
               
               {staff.status === 'pending' && (
                 <Alert>
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    Awaiting account setup
+                    <div className="flex items-center gap-2 flex-wrap">
+                      Awaiting account setup
+                      {staff.invitation && (
+                        <Badge variant="outline" className={INVITATION_STATUS_STYLES[staff.invitation.status].className}>
+                          Invitation {INVITATION_STATUS_STYLES[staff.invitation.status].label}
+                        </Badge>
+                      )}
+                    </div>
+                    {staff.invitation && (
+                      <p className="text-xs text-gray-500 mt-1">{describeInvitation(staff.invitation)}</p>
+                    )}
                   </AlertDescription>
                 </Alert>
               )}
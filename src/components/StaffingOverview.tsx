@@ -1,69 +1,85 @@
-import { Calendar, MapPin, Clock, Users, CheckCircle, Award } from 'lucide-react';
+import { Calendar, MapPin, Clock, Users, CheckCircle, Award, Hourglass, UserCheck, UserX, Ban, AlertTriangle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Event, StaffMember } from '../App';
+import { Event, EventShift, StaffMember } from '../App';
 import { Avatar, AvatarFallback } from './ui/avatar';
-import { formatDateShort } from '../utils/dateUtils';
+import { formatDateShort, formatEventTimeRange, getEventTimes, getEventTiming } from '../utils/dateUtils';
+import { findStaffOverlaps, getOrderedWaitlist, hasShifts, isCheckedIn, StaffCommitment } from '../utils/eventUtils';
 
 interface StaffingOverviewProps {
   events: Event[];
   staffMembers: StaffMember[];
-  onConfirmParticipation: (eventId: string, staffId: string) => void;
-  onConfirmAllParticipants: (eventId: string) => void;
-  onCloseEvent: (eventId: string, approvedStaffIds: string[]) => void;
+  onConfirmParticipation: (eventId: string, staffId: string, shiftId?: string) => void;
+  onConfirmAllParticipants: (eventId: string, shiftId?: string) => void;
+  onMarkNoShow: (eventId: string, staffId: string, shiftId?: string) => void;
+  onCloseEvent: (eventId: string, approvedStaffIds: string[], shiftSelections?: { [shiftId: string]: string[] }) => void;
 }
 
-export function StaffingOverview({ events, staffMembers, onConfirmParticipation, onConfirmAllParticipants, onCloseEvent }: StaffingOverviewProps) {
+export function StaffingOverview({ events, staffMembers, onConfirmParticipation, onConfirmAllParticipants, onMarkNoShow, onCloseEvent }: StaffingOverviewProps) {
   // Show all events (past, current, and upcoming), sorted by date (most recent first)
   const allEvents = events
     .filter(e => e.status !== 'cancelled' && e.status !== 'draft')
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    .sort((a, b) => getEventTimes(b).start.getTime() - getEventTimes(a).start.getTime());
 
   const getStaffById = (id: string) => staffMembers.find(s => s.id === id);
 
+  // Staff holding spots in two slots that run at the same time
+  const bookingConflicts = staffMembers
+    .map(staff => ({ staff, overlaps: findStaffOverlaps(staff.id, events) }))
+    .filter(({ overlaps }) => overlaps.length > 0);
+
+  const describeCommitment = ({ event, shift }: StaffCommitment) => {
+    const times = shift ? `${shift.startTime} – ${shift.endTime}` : formatEventTimeRange(event);
+    return `${event.name}${shift ? ` (${shift.name})` : ''} · ${formatDateShort(event.date)}, ${times}`;
+  };
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
 
-  const isConfirmed = (event: Event, staffId: string) => {
-    return event.confirmedStaff?.includes(staffId) || false;
+  // Selection and points are tracked on the event, or per shift for events with shifts
+  const isConfirmed = (slot: Event | EventShift, staffId: string) => {
+    return slot.confirmedStaff?.includes(staffId) || false;
   };
 
-  const hasReceivedPoints = (event: Event, staffId: string) => {
-    return event.pointsAwarded?.includes(staffId) || false;
+  const hasReceivedPoints = (slot: Event | EventShift, staffId: string) => {
+    return slot.pointsAwarded?.includes(staffId) || false;
   };
 
-  const isPastEvent = (eventDate: string) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    // Parse date as local to avoid timezone issues
-    const [year, month, day] = eventDate.split('-').map(Number);
-    const evtDate = new Date(year, month - 1, day);
-    evtDate.setHours(0, 0, 0, 0);
-    return evtDate < today;
-  };
+  // Past once the event has ended, current while it runs - both in the event's own time zone
+  const isPastEvent = (event: Event) => getEventTiming(event) === 'past';
 
-  const isCurrentEvent = (eventDate: string) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const [year, month, day] = eventDate.split('-').map(Number);
-    const evtDate = new Date(year, month - 1, day);
-    evtDate.setHours(0, 0, 0, 0);
-    return evtDate.getTime() === today.getTime();
-  };
+  const isCurrentEvent = (event: Event) => getEventTiming(event) === 'current';
 
   const getEventStatus = (event: Event) => {
-    if (isPastEvent(event.date)) return 'Past';
-    if (isCurrentEvent(event.date)) return 'Current';
+    if (isPastEvent(event)) return 'Past';
+    if (isCurrentEvent(event)) return 'Current';
     return 'Upcoming';
   };
 
+  // Selected staff who haven't received points yet (or been marked as a no-show)
+  const getUnconfirmedStaff = (slot: Event | EventShift) => {
+    const awarded = slot.pointsAwarded || [];
+    const noShowStaff = slot.noShowStaff || [];
+    return (slot.confirmedStaff || []).filter(id => !awarded.includes(id) && !noShowStaff.includes(id));
+  };
+
+  // Events with shifts count each staff member once, however many of their shifts are unconfirmed
   const getUnconfirmedCount = (event: Event) => {
-    // Only count staff who are selected but haven't received points yet
-    const selectedStaff = event.confirmedStaff || [];
-    const awarded = event.pointsAwarded || [];
-    return selectedStaff.filter(id => !awarded.includes(id)).length;
+    if (!hasShifts(event)) return getUnconfirmedStaff(event).length;
+    return new Set(event.shifts!.flatMap(getUnconfirmedStaff)).size;
+  };
+
+  // Attendance only means something once the event has started
+  const showsAttendance = (event: Event) => isPastEvent(event) || isCurrentEvent(event) || !!event.checkIns;
+
+  const getPresentCount = (event: Event, staffIds: string[]) => {
+    return staffIds.filter(id => isCheckedIn(event, id)).length;
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
   // In overview, only show selected staff (from confirmedStaff)
@@ -72,6 +88,102 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
     return (event.confirmedStaff || []).filter(id => getStaffById(id));
   };
 
+  const renderStaffRow = (event: Event, staffId: string, canConfirm: boolean, shift?: EventShift) => {
+    const staff = getStaffById(staffId);
+    if (!staff) return null;
+    
+    const slot = shift || event;
+    const confirmed = isConfirmed(slot, staffId);
+    const receivedPoints = hasReceivedPoints(slot, staffId);
+    const checkIn = event.checkIns?.[staffId];
+    const needsCheckIn = event.awardCheckedInOnly && !checkIn;
+    const isNoShow = slot.noShowStaff?.includes(staffId) || false;
+    
+    return (
+      <div
+        key={staffId}
+        className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-lg"
+      >
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <Avatar className="flex-shrink-0">
+            <AvatarFallback className="bg-blue-500 text-white">
+              {getInitials(staff.name)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <div className="text-gray-900 truncate">{staff.name}</div>
+            <div className="flex items-center gap-2 mt-1 flex-wrap">
+              <span className="text-gray-500 text-sm truncate">{staff.email}</span>
+              <Badge variant="outline" className="text-xs flex-shrink-0">
+                {staff.level || 'No Level'}
+              </Badge>
+              {showsAttendance(event) && (checkIn ? (
+                <Badge variant="outline" className="text-xs flex-shrink-0 bg-green-50 text-green-700 border-green-300">
+                  <UserCheck className="h-3 w-3 mr-1" />
+                  Present {formatTime(checkIn.checkedInAt)}{checkIn.checkedOutAt ? `–${formatTime(checkIn.checkedOutAt)}` : ''}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-xs flex-shrink-0 text-gray-500">
+                  <UserX className="h-3 w-3 mr-1" />
+                  Absent
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+        {receivedPoints ? (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Badge variant="default" className="bg-green-600 hover:bg-green-600">
+              <Award className="h-3 w-3 mr-1" />
+              <span className="hidden sm:inline">Points Awarded</span>
+              <span className="sm:hidden">+{slot.points}</span>
+            </Badge>
+          </div>
+        ) : isNoShow ? (
+          <Badge variant="outline" className="flex-shrink-0 bg-red-50 text-red-700 border-red-300">
+            <Ban className="h-3 w-3 mr-1" />
+            No-show
+          </Badge>
+        ) : confirmed && canConfirm && needsCheckIn ? (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className="text-sm text-gray-500">No check-in</span>
+            <Button
+              onClick={() => onMarkNoShow(event.id, staffId, shift?.id)}
+              size="sm"
+              variant="ghost"
+              className="text-red-600 hover:text-red-700"
+            >
+              <Ban className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">No-show</span>
+            </Button>
+          </div>
+        ) : confirmed && canConfirm ? (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className="text-sm text-gray-600">+{slot.points} pts</span>
+            <Button
+              onClick={() => onMarkNoShow(event.id, staffId, shift?.id)}
+              size="sm"
+              variant="ghost"
+              className="text-red-600 hover:text-red-700"
+            >
+              <Ban className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">No-show</span>
+            </Button>
+            <Button
+              onClick={() => onConfirmParticipation(event.id, staffId, shift?.id)}
+              size="sm"
+              variant="outline"
+              className="flex-shrink-0"
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Confirm
+            </Button>
+          </div>
+        ) : null}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -79,6 +191,33 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
         <p className="text-gray-500">View staff sign-ups and confirm participation for past events</p>
       </div>
 
+      {bookingConflicts.length > 0 && (
+        <Card className="border-orange-300 bg-orange-50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-orange-800">
+              <AlertTriangle className="h-5 w-5" />
+              Booking Conflicts
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {bookingConflicts.map(({ staff, overlaps }) => (
+              <div key={staff.id} className="space-y-1">
+                <p className="text-sm text-gray-900">{staff.name}</p>
+                {overlaps.map(([first, second]) => (
+                  <div
+                    key={`${first.event.id}-${first.shift?.id}-${second.event.id}-${second.shift?.id}`}
+                    className="text-xs text-orange-800 pl-3 border-l-2 border-orange-300"
+                  >
+                    <p>{describeCommitment(first)}</p>
+                    <p>overlaps {describeCommitment(second)}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {allEvents.length === 0 ? (
         <Card>
           <CardContent className="py-8 text-center text-gray-500">
@@ -90,7 +229,7 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
           {allEvents.map(event => {
             const visibleStaff = getVisibleStaff(event);
             const eventStatus = getEventStatus(event);
-            const canConfirm = isPastEvent(event.date); // Allow confirming for any past event
+            const canConfirm = isPastEvent(event); // Allow confirming for any past event
             const unconfirmedCount = getUnconfirmedCount(event);
             
             return (
@@ -106,7 +245,7 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
                         </div>
                         <div className="flex items-center text-gray-600">
                           <Clock className="h-4 w-4 mr-1" />
-                          {event.time}
+                          {formatEventTimeRange(event)}
                         </div>
                         <div className="flex items-center text-gray-600">
                           <MapPin className="h-4 w-4 mr-1" />
@@ -126,6 +265,16 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
                           {visibleStaff.length} {eventStatus === 'Closed' || (eventStatus === 'Past' && event.confirmedStaff) ? 'selected' : 'sign-ups'}
                         </Badge>
                       )}
+                      {event.capacity ? (
+                        <Badge variant="outline">
+                          {event.signedUpStaff.length} / {event.capacity} spots
+                        </Badge>
+                      ) : null}
+                      {visibleStaff.length > 0 && showsAttendance(event) && (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
+                          {getPresentCount(event, visibleStaff)} / {visibleStaff.length} present
+                        </Badge>
+                      )}
                     </div>
                   </CardTitle>
                 </CardHeader>
@@ -133,7 +282,7 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
                   {visibleStaff.length === 0 ? (
                     <div className="text-center py-4 text-gray-500">
                       <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                      {eventStatus === 'Closed' || isPastEvent(event.date) 
+                      {eventStatus === 'Closed' || isPastEvent(event) 
                         ? 'No staff members selected for this event'
                         : 'No staff members signed up yet'}
                     </div>
@@ -154,59 +303,65 @@ export function StaffingOverview({ events, staffMembers, onConfirmParticipation,
                           </Button>
                         </div>
                       )}
-                      {visibleStaff.map(staffId => {
-                        const staff = getStaffById(staffId);
-                        if (!staff) return null;
-                        
-                        const confirmed = isConfirmed(event, staffId);
-                        const receivedPoints = hasReceivedPoints(event, staffId);
-                        
-                        return (
-                          <div
-                            key={staffId}
-                            className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-lg"
-                          >
-                            <div className="flex items-center gap-3 min-w-0 flex-1">
-                              <Avatar className="flex-shrink-0">
-                                <AvatarFallback className="bg-blue-500 text-white">
-                                  {getInitials(staff.name)}
-                                </AvatarFallback>
-                              </Avatar>
-                              <div className="min-w-0 flex-1">
-                                <div className="text-gray-900 truncate">{staff.name}</div>
-                                <div className="flex items-center gap-2 mt-1 flex-wrap">
-                                  <span className="text-gray-500 text-sm truncate">{staff.email}</span>
-                                  <Badge variant="outline" className="text-xs flex-shrink-0">
-                                    {staff.level || 'No Level'}
-                                  </Badge>
+                      {hasShifts(event) ? (
+                        // Events with shifts list the selected staff per shift
+                        event.shifts!.map(shift => {
+                          const shiftStaff = (shift.confirmedStaff || []).filter(id => getStaffById(id));
+                          const shiftUnconfirmedCount = getUnconfirmedStaff(shift).length;
+                          
+                          return (
+                            <div key={shift.id} className="space-y-2">
+                              <div className="flex justify-between items-center gap-2 pt-1">
+                                <div className="text-sm text-gray-700">
+                                  <span className="font-medium">{shift.name}</span>
+                                  <span className="text-gray-500"> · {shift.startTime} - {shift.endTime} · {shiftStaff.length}{shift.headcount ? ` / ${shift.headcount}` : ''} selected</span>
+                                  {showsAttendance(event) && shiftStaff.length > 0 && (
+                                    <span className="text-gray-500"> · {getPresentCount(event, shiftStaff)} present</span>
+                                  )}
                                 </div>
+                                {canConfirm && shiftUnconfirmedCount > 0 && (
+                                  <Button
+                                    onClick={() => onConfirmAllParticipants(event.id, shift.id)}
+                                    variant="ghost"
+                                    size="sm"
+                                  >
+                                    <CheckCircle className="h-4 w-4 mr-2" />
+                                    Confirm Shift
+                                  </Button>
+                                )}
                               </div>
+                              {shiftStaff.length > 0 ? (
+                                shiftStaff.map(staffId => renderStaffRow(event, staffId, canConfirm, shift))
+                              ) : (
+                                <p className="text-sm text-gray-500 pl-1">No staff selected for this shift</p>
+                              )}
                             </div>
-                            {receivedPoints ? (
-                              <div className="flex items-center gap-2 flex-shrink-0">
-                                <Badge variant="default" className="bg-green-600 hover:bg-green-600">
-                                  <Award className="h-3 w-3 mr-1" />
-                                  <span className="hidden sm:inline">Points Awarded</span>
-                                  <span className="sm:hidden">+{event.points}</span>
-                                </Badge>
-                              </div>
-                            ) : confirmed && canConfirm ? (
-                              <div className="flex items-center gap-2 flex-shrink-0">
-                                <span className="text-sm text-gray-600">+{event.points} pts</span>
-                                <Button
-                                  onClick={() => onConfirmParticipation(event.id, staffId)}
-                                  size="sm"
-                                  variant="outline"
-                                  className="flex-shrink-0"
-                                >
-                                  <CheckCircle className="h-4 w-4 mr-2" />
-                                  Confirm
-                                </Button>
-                              </div>
-                            ) : null}
-                          </div>
-                        );
-                      })}
+                          );
+                        })
+                      ) : (
+                        visibleStaff.map(staffId => renderStaffRow(event, staffId, canConfirm))
+                      )}
+                    </div>
+                  )}
+
+                  {/* Waitlist - shown in the order staff will be promoted */}
+                  {!isPastEvent(event) && getOrderedWaitlist(event).length > 0 && (
+                    <div className="mt-4 pt-3 border-t">
+                      <div className="flex items-center gap-2 mb-2 text-sm text-gray-700">
+                        <Hourglass className="h-4 w-4 text-amber-600" />
+                        Waitlist ({getOrderedWaitlist(event).length})
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {getOrderedWaitlist(event).map((staffId, index) => {
+                          const staff = getStaffById(staffId);
+                          if (!staff) return null;
+                          return (
+                            <Badge key={staffId} variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+                              #{index + 1} {staff.name}
+                            </Badge>
+                          );
+                        })}
+                      </div>
                     </div>
                   )}
                 </CardContent>
@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { Copy, ShieldCheck, Trash2, UserPlus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../utils/permissions';
+import { StaffMember, UserRole } from '../App';
+
+// Roles that work from the admin dashboard - staff are invited from the Staff tab
+const TEAM_ROLES: UserRole[] = ['admin', 'coordinator', 'viewer'];
+
+interface TeamAccessCardProps {
+  currentUserId: string;
+}
+
+export function TeamAccessCard({ currentUserId }: TeamAccessCardProps) {
+  const [team, setTeam] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteForm, setInviteForm] = useState({ name: '', email: '', role: 'coordinator' as UserRole });
+  const [isInviting, setIsInviting] = useState(false);
+  const [invitationLink, setInvitationLink] = useState<string | null>(null);
+  const [memberToRemove, setMemberToRemove] = useState<StaffMember | null>(null);
+
+  useEffect(() => {
+    const fetchTeam = async () => {
+      try {
+        const { team } = await api.getTeam();
+        setTeam(team);
+      } catch (error) {
+        console.error('Failed to fetch team:', error);
+        toast.error('Failed to load team members');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTeam();
+  }, []);
+
+  const handleRoleChange = async (member: StaffMember, role: UserRole) => {
+    try {
+      const { staff } = await api.updateRole(member.id, role);
+      // Members made staff move over to the Staff tab
+      setTeam(prev => role === 'staff' ? prev.filter(m => m.id !== member.id) : prev.map(m => m.id === member.id ? staff : m));
+      toast.success(`${member.name}'s role changed to ${ROLE_LABELS[role]}`, {
+        description: 'Their dashboard updates the next time they log in'
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to change role');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setInvitationLink(null);
+    try {
+      const result = await api.inviteStaff(inviteForm.email, inviteForm.name, '', inviteForm.role);
+      setTeam(prev => [...prev, result.staff].sort((a, b) => a.name.localeCompare(b.name)));
+      if (result.emailSent) {
+        toast.success(`Invitation sent to ${inviteForm.email}`);
+      } else {
+        setInvitationLink(result.invitationLink || null);
+        toast.info('Invitation created - share the link below');
+      }
+      setInviteForm({ name: '', email: '', role: inviteForm.role });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!invitationLink) return;
+    try {
+      await navigator.clipboard.writeText(invitationLink);
+      toast.success('Invitation link copied to clipboard');
+    } catch (error) {
+      toast.error('Failed to copy invitation link');
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!memberToRemove) return;
+    try {
+      await api.deleteStaff(memberToRemove.id);
+      setTeam(prev => prev.filter(m => m.id !== memberToRemove.id));
+      toast.success(`${memberToRemove.name} removed`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove team member');
+    } finally {
+      setMemberToRemove(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Team Access
+          </CardTitle>
+          <CardDescription>
+            Who can use the admin dashboard, and what they can do there
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="text-sm space-y-1">
+            {TEAM_ROLES.map(role => (
+              <div key={role}>
+                <span className="text-gray-900">{ROLE_LABELS[role]}</span>
+                <span className="text-gray-500"> - {ROLE_DESCRIPTIONS[role]}</span>
+              </div>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <div className="space-y-2">
+              {team.map(member => {
+                const isYou = member.id === currentUserId;
+                return (
+                  <div key={member.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 bg-gray-50 rounded-lg">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-900 truncate">{member.name}</span>
+                        {isYou && <Badge variant="outline">You</Badge>}
+                        {member.status === 'pending' && (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">Invited</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member, value as UserRole)}
+                        disabled={isYou}
+                      >
+                        <SelectTrigger className="w-44" aria-label={`Role of ${member.name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...TEAM_ROLES, 'staff' as UserRole].map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {member.role !== 'admin' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => setMemberToRemove(member)}
+                          aria-label={`Remove ${member.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <form onSubmit={handleInvite} className="space-y-3 border-t pt-4">
+            <div className="flex items-center gap-2">
+              <UserPlus className="h-4 w-4" />
+              <span className="text-gray-900">Invite a Team Member</span>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="teamInviteName">Name</Label>
+                <Input
+                  id="teamInviteName"
+                  value={inviteForm.name}
+                  onChange={(e) => setInviteForm({ ...inviteForm, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="teamInviteEmail">Email</Label>
+                <Input
+                  id="teamInviteEmail"
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="teamInviteRole">Role</Label>
+                <Select
+                  value={inviteForm.role}
+                  onValueChange={(value) => setInviteForm({ ...inviteForm, role: value as UserRole })}
+                >
+                  <SelectTrigger id="teamInviteRole">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEAM_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button type="submit" disabled={isInviting}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              {isInviting ? 'Sending...' : 'Send Invitation'}
+            </Button>
+            {invitationLink && (
+              <div className="space-y-1">
+                <Label htmlFor="teamInvitationLink">Invitation Link</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="teamInvitationLink"
+                    value={invitationLink}
+                    readOnly
+                    className="font-mono text-xs"
+                    onClick={(e) => e.currentTarget.select()}
+                  />
+                  <Button type="button" variant="outline" size="icon" onClick={handleCopyLink} aria-label="Copy invitation link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">The email wasn't sent - share this link with them. It works once.</p>
+              </div>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {memberToRemove?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their account is deleted and they can no longer log in. You can invite them again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} className="bg-red-600 hover:bg-red-700">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
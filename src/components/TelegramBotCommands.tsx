@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { Bot } from 'lucide-react';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+
+// Shown in the Telegram card once a bot is connected
+export function TelegramBotCommands() {
+  const [enabled, setEnabled] = useState(false);
+  const [commands, setCommands] = useState<{ command: string; description: string }[]>([]);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const fetchBot = async () => {
+      try {
+        const result = await api.getTelegramBot();
+        setEnabled(result.enabled);
+        setCommands(result.commands);
+        setLastError(result.lastError);
+      } catch (error) {
+        console.error('Failed to fetch Telegram bot status:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBot();
+  }, []);
+
+  const handleToggle = async (checked: boolean) => {
+    setIsUpdating(true);
+    try {
+      const result = await api.setTelegramBotEnabled(checked);
+      setEnabled(result.enabled);
+      setLastError(null);
+      toast.success(checked ? 'The bot now answers commands' : 'Bot commands turned off');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the Telegram bot');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center gap-3">
+        <Switch id="telegramBotCommands" checked={enabled} onCheckedChange={handleToggle} disabled={isUpdating} />
+        <Label htmlFor="telegramBotCommands" className="flex items-center gap-2">
+          <Bot className="h-4 w-4" />
+          Answer bot commands
+        </Label>
+      </div>
+      <p className="text-sm text-gray-500">
+        Staff can message the bot to check events and points without opening the Event Hub.
+        New event messages get Sign up, Not interested and Details buttons, so staff can sign up straight from the chat.
+        While this is on, the bot also records the chats it hears from for "Fetch from Bot".
+      </p>
+      {enabled && (
+        <div className="text-sm space-y-1">
+          {commands.map(({ command, description }) => (
+            <div key={command}>
+              <code className="px-1.5 py-0.5 bg-gray-100 rounded">/{command}</code>
+              <span className="text-gray-600 ml-2">{description}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {enabled && lastError && (
+        <p className="text-sm text-red-600">Telegram reported a problem reaching the webhook: {lastError}</p>
+      )}
+    </div>
+  );
+}
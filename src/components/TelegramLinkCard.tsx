@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { ExternalLink, Send, Unlink } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { TelegramLinkStatus } from '../App';
+
+// How often to check whether Start was pressed in Telegram while a link is waiting
+const LINK_POLL_INTERVAL_MS = 5000;
+
+const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+export function TelegramLinkCard() {
+  const [status, setStatus] = useState<TelegramLinkStatus | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isUnlinking, setIsUnlinking] = useState(false);
+  const [showUnlinkConfirm, setShowUnlinkConfirm] = useState(false);
+
+  useEffect(() => {
+    const fetchLink = async () => {
+      try {
+        setStatus(await api.getTelegramLink());
+      } catch (error) {
+        console.error('Failed to fetch Telegram link:', error);
+      }
+    };
+
+    fetchLink();
+  }, []);
+
+  // The bot binds the chat once Start is pressed - keep checking until it has, or the link expires
+  useEffect(() => {
+    if (!status?.pendingLink) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const result = await api.getTelegramLink();
+        if (result.account && result.account.linkedAt !== status.account?.linkedAt) {
+          toast.success('Telegram connected', { description: 'Your notifications can now be sent to Telegram' });
+        }
+        setStatus(result);
+      } catch (error) {
+        console.error('Failed to check Telegram link:', error);
+      }
+    }, LINK_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [status?.pendingLink?.url]);
+
+  const handleCreateLink = async () => {
+    setIsCreating(true);
+    try {
+      const { url, expiresAt } = await api.createTelegramLink();
+      setStatus(prev => prev && { ...prev, pendingLink: { url, expiresAt } });
+      window.open(url, '_blank', 'noopener');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create Telegram link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    setIsUnlinking(true);
+    try {
+      await api.unlinkTelegram();
+      setStatus(prev => prev && { ...prev, linked: false, chatId: '', account: null, pendingLink: null });
+      toast.success('Telegram unlinked');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to unlink Telegram');
+    } finally {
+      setIsUnlinking(false);
+      setShowUnlinkConfirm(false);
+    }
+  };
+
+  // Nothing to link to until an admin connects a bot
+  if (!status?.available) return null;
+
+  const { account } = status;
+  const accountName = account
+    ? [[account.firstName, account.lastName].filter(Boolean).join(' '), account.username].filter(Boolean).join(' · ')
+    : '';
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5" />
+            Telegram
+          </CardTitle>
+          <CardDescription>
+            Connect your Telegram account to get notifications and use the Event Hub bot.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status.linked ? (
+            <div className="p-3 bg-green-50 rounded-lg text-sm">
+              <p className="text-green-800">
+                Connected{accountName ? ` as ${accountName}` : ` to chat ${status.chatId}`}
+              </p>
+              {account && (
+                <p className="text-green-700 text-xs">Linked {formatDateTime(account.linkedAt)}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Telegram is not connected yet.</p>
+          )}
+
+          {status.pendingLink && (
+            <div className="p-3 bg-blue-50 rounded-lg text-sm space-y-1">
+              <p className="text-blue-900">
+                Press <strong>Start</strong> in the Telegram chat that opened. This page updates once the bot has linked you.
+              </p>
+              <p className="text-blue-700 text-xs">
+                Didn't open?{' '}
+                <a href={status.pendingLink.url} target="_blank" rel="noopener noreferrer" className="underline">
+                  Open the link
+                </a>{' '}
+                on the device you use Telegram on. It works once and expires at {formatDateTime(status.pendingLink.expiresAt)}.
+              </p>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button onClick={handleCreateLink} disabled={isCreating} variant={status.linked ? 'outline' : 'default'}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              {isCreating ? 'Creating link...' : status.linked ? 'Link a Different Account' : 'Connect Telegram'}
+            </Button>
+            {status.linked && (
+              <Button variant="outline" onClick={() => setShowUnlinkConfirm(true)} disabled={isUnlinking}>
+                <Unlink className="h-4 w-4 mr-2" />
+                Unlink
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={showUnlinkConfirm} onOpenChange={setShowUnlinkConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unlink Telegram?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will stop getting notifications on Telegram, and the bot will no longer recognise your chat.
+              You can connect again at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUnlinking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleUnlink} disabled={isUnlinking}>
+              {isUnlinking ? 'Unlinking...' : 'Unlink'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
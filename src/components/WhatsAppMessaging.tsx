@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { Copy, FileText, Plus, Reply, Save, Webhook, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner@2.0.3';
+import { api } from '../utils/api';
+import { WhatsAppReply, WhatsAppSettings, WhatsAppTemplateMapping } from '../App';
+
+const formatDateTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+// Shown in the WhatsApp card once a number is connected
+export function WhatsAppMessaging() {
+  const [settings, setSettings] = useState<WhatsAppSettings | null>(null);
+  const [templates, setTemplates] = useState<Record<string, WhatsAppTemplateMapping>>({});
+  const [appSecret, setAppSecret] = useState('');
+  const [replies, setReplies] = useState<WhatsAppReply[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchWhatsAppSettings = async () => {
+      try {
+        const [result, { replies }] = await Promise.all([api.getWhatsAppSettings(), api.getWhatsAppReplies()]);
+        setSettings(result);
+        setTemplates(result.templates);
+        setReplies(replies);
+      } catch (error) {
+        console.error('Failed to fetch WhatsApp settings:', error);
+      }
+    };
+
+    fetchWhatsAppSettings();
+  }, []);
+
+  const toggleTemplate = (type: string, enabled: boolean) => {
+    setTemplates(prev => {
+      const { [type]: _removed, ...rest } = prev;
+      return enabled ? { ...prev, [type]: { name: '', language: 'en_US', parameters: [] } } : rest;
+    });
+  };
+
+  const updateTemplate = (type: string, changes: Partial<WhatsAppTemplateMapping>) => {
+    setTemplates(prev => ({ ...prev, [type]: { ...prev[type], ...changes } }));
+  };
+
+  const handleCopy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied to clipboard`);
+    } catch (error) {
+      toast.error(`Failed to copy ${label.toLowerCase()}`);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await api.saveWhatsAppSettings(templates, appSecret || undefined);
+      setTemplates(result.templates);
+      if (appSecret) {
+        setSettings(prev => prev && { ...prev, appSecretSet: true });
+        setAppSecret('');
+      }
+      toast.success('WhatsApp settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save WhatsApp settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <div className="space-y-6 border-t pt-4">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          <span className="text-gray-900">Message Templates</span>
+        </div>
+        <p className="text-sm text-gray-500">
+          WhatsApp only delivers free-form messages to staff who messaged your number in the last 24 hours.
+          Map each notification to a template approved in WhatsApp Manager so it always arrives. The template's
+          {' {{1}}, {{2}}, ...'} are filled with the variables below, in order.
+        </p>
+        {settings.types.map(({ type, label, variables }) => {
+          const template = templates[type];
+          return (
+            <div key={type} className="p-3 bg-gray-50 rounded-lg space-y-3">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id={`whatsapp-template-${type}`}
+                  checked={!!template}
+                  onCheckedChange={(checked) => toggleTemplate(type, checked)}
+                />
+                <Label htmlFor={`whatsapp-template-${type}`}>{label}</Label>
+                {!template && <span className="text-xs text-gray-500">Sent as text</span>}
+              </div>
+              {template && (
+                <>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="space-y-1">
+                      <Label htmlFor={`whatsapp-template-${type}-name`}>Template Name</Label>
+                      <Input
+                        id={`whatsapp-template-${type}-name`}
+                        value={template.name}
+                        onChange={(e) => updateTemplate(type, { name: e.target.value.trim() })}
+                        placeholder="new_event"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`whatsapp-template-${type}-language`}>Language</Label>
+                      <Input
+                        id={`whatsapp-template-${type}-language`}
+                        value={template.language}
+                        onChange={(e) => updateTemplate(type, { language: e.target.value.trim() })}
+                        placeholder="en_US"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {template.parameters.map((variable, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <code className="text-xs text-gray-500 w-10">{`{{${index + 1}}}`}</code>
+                        <Select
+                          value={variable}
+                          onValueChange={(value) => updateTemplate(type, {
+                            parameters: template.parameters.map((p, i) => i === index ? value : p)
+                          })}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {variables.map(v => (
+                              <SelectItem key={v} value={v}>{v}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateTemplate(type, { parameters: template.parameters.filter((_, i) => i !== index) })}
+                          aria-label={`Remove parameter ${index + 1}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateTemplate(type, { parameters: [...template.parameters, variables[0]] })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Parameter
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Webhook className="h-4 w-4" />
+          <span className="text-gray-900">Webhook</span>
+        </div>
+        <p className="text-sm text-gray-500">
+          Add this callback URL and verify token in your Meta app's WhatsApp configuration and subscribe to the
+          "messages" field to see when messages are delivered and read, and to receive replies.
+        </p>
+        <div className="space-y-1">
+          <Label htmlFor="whatsappWebhookUrl">Callback URL</Label>
+          <div className="flex gap-2">
+            <Input id="whatsappWebhookUrl" value={settings.webhookUrl} readOnly className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={() => handleCopy(settings.webhookUrl, 'Callback URL')} aria-label="Copy callback URL">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="whatsappVerifyToken">Verify Token</Label>
+          <div className="flex gap-2">
+            <Input id="whatsappVerifyToken" value={settings.verifyToken} readOnly className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={() => handleCopy(settings.verifyToken, 'Verify token')} aria-label="Copy verify token">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="whatsappAppSecret">App Secret</Label>
+          <Input
+            id="whatsappAppSecret"
+            type="password"
+            value={appSecret}
+            onChange={(e) => setAppSecret(e.target.value)}
+            placeholder={settings.appSecretSet ? 'Saved - enter a new one to replace it' : 'From App settings > Basic in your Meta app'}
+          />
+          <p className="text-xs text-gray-500">Updates are checked against the app secret and ignored until it is saved.</p>
+        </div>
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        <Save className="h-4 w-4 mr-2" />
+        {isSaving ? 'Saving...' : 'Save WhatsApp Settings'}
+      </Button>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Reply className="h-4 w-4" />
+          <span className="text-gray-900">Recent Replies</span>
+        </div>
+        {replies.length === 0 ? (
+          <p className="text-sm text-gray-500">No replies yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {replies.slice(0, 10).map(reply => (
+              <div key={reply.id} className="p-2 bg-gray-50 rounded-lg text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="text-gray-900">{reply.staffName}</span>
+                  <span className="text-xs text-gray-500">{formatDateTime(reply.receivedAt)}</span>
+                </div>
+                <p className="text-gray-600 whitespace-pre-wrap">{reply.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
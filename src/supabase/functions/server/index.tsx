@@ -1,21 +1,51 @@
-import { Hono } from "npm:hono";
+import { Hono, type Context, type Next } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import nodemailer from "npm:nodemailer@6";
 import * as kv from "./kv_store.tsx";
 
 // Helper function to add delay between requests (for rate limiting)
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Email configuration - update this after verifying your domain with Resend
-// IMPORTANT: When using 'onboarding@resend.dev', you can ONLY send to 'delivered@resend.dev'
-// This is a Resend testing mode restriction
-// When you're ready for production, verify a domain at resend.com/domains
-// and update this to use your domain email
-const FROM_EMAIL = 'onboarding@resend.dev';
+// ==================== EMAIL TRANSPORTS ====================
+
+// Emails go out through one of these transports, chosen in the admin settings and kept in `email:settings`
+// with the sender and reply-to address. Every transport takes the same message and reports { success, error? }
+interface EmailMessage {
+  from: string; // "Name <address>" or just the address
+  replyTo: string; // Empty when replies should go to the sender
+  to: string;
+  subject: string;
+  html: string;
+}
+
+type EmailResult = { success: boolean; error?: string; isTestingMode?: boolean; captured?: boolean; data?: any };
+
+// Resend's shared test sender can only deliver to its test inbox - verify a domain at resend.com/domains
+// and use an address on it to reach real recipients
+const RESEND_TEST_SENDER = 'onboarding@resend.dev';
+
+const DEFAULT_EMAIL_SETTINGS = {
+  transport: 'resend',
+  fromEmail: RESEND_TEST_SENDER,
+  fromName: '',
+  replyTo: '',
+  // The password is stored but never sent back to the browser
+  smtp: { host: '', port: 465, username: '', password: '' }
+};
+
+// Helper function to get the email settings, filling in defaults for anything not saved yet
+const getEmailSettings = async () => {
+  const saved = await kv.get('email:settings');
+  return { ...DEFAULT_EMAIL_SETTINGS, ...(saved || {}), smtp: { ...DEFAULT_EMAIL_SETTINGS.smtp, ...(saved?.smtp || {}) } };
+};
+
+// Helper function to check whether the Resend transport is in its test mode
+const isResendTestMode = (settings: any) => settings.transport === 'resend' && settings.fromEmail === RESEND_TEST_SENDER;
 
-// Resend email service
-const sendEmail = async (to: string, subject: string, html: string) => {
+// Resend HTTP API - the key stays in the RESEND_API_KEY environment variable
+const sendWithResend = async (message: EmailMessage, settings: any): Promise<EmailResult> => {
   const resendApiKey = Deno.env.get('RESEND_API_KEY');
   
   if (!resendApiKey) {
@@ -26,15 +56,13 @@ const sendEmail = async (to: string, subject: string, html: string) => {
     };
   }
 
-  const fromEmail = FROM_EMAIL;
-  
   // In testing mode with onboarding@resend.dev, we can only send to delivered@resend.dev
   // So we send to the test address but log the intended recipient
-  const isTestMode = fromEmail === 'onboarding@resend.dev';
-  const actualRecipient = isTestMode ? 'delivered@resend.dev' : to;
+  const isTestMode = isResendTestMode(settings);
+  const actualRecipient = isTestMode ? 'delivered@resend.dev' : message.to;
   
   if (isTestMode) {
-    console.log(`📧 TEST MODE: Sending email to ${actualRecipient} (intended for: ${to})`);
+    console.log(`📧 TEST MODE: Sending email to ${actualRecipient} (intended for: ${message.to})`);
   }
 
   try {
@@ -45,10 +73,11 @@ const sendEmail = async (to: string, subject: string, html: string) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        from: fromEmail,
+        from: message.from,
         to: [actualRecipient],
-        subject: subject,
-        html: html,
+        subject: message.subject,
+        html: message.html,
+        ...(message.replyTo ? { reply_to: message.replyTo } : {}),
       }),
     });
 
@@ -61,7 +90,7 @@ const sendEmail = async (to: string, subject: string, html: string) => {
       
       if (isTestingRestriction) {
         // This is expected behavior in testing mode - use warning instead of error
-        console.log('📧 Resend testing mode: Email not sent to', to, '- Manual link will be provided');
+        console.log('📧 Resend testing mode: Email not sent to', message.to, '- Manual link will be provided');
         return { 
           success: false, 
           error: 'TESTING_MODE',
@@ -82,7 +111,73 @@ const sendEmail = async (to: string, subject: string, html: string) => {
   }
 };
 
-const app = new Hono();
+// Any SMTP server - port 465 uses TLS from the start, other ports upgrade with STARTTLS
+const sendWithSmtp = async (message: EmailMessage, settings: any): Promise<EmailResult> => {
+  const { host, port, username, password } = settings.smtp;
+  if (!host) {
+    return { success: false, error: 'SMTP server not configured. Add the host in the email settings.' };
+  }
+
+  try {
+    const transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      ...(username ? { auth: { user: username, pass: password } } : {})
+    });
+    const info = await transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      ...(message.replyTo ? { replyTo: message.replyTo } : {})
+    });
+
+    console.log('Email sent successfully via SMTP:', info.messageId);
+    return { success: true, data: { id: info.messageId } };
+  } catch (error) {
+    console.error('SMTP error:', error);
+    return { success: false, error: error.message || 'Failed to send email via SMTP' };
+  }
+};
+
+// Nothing leaves the server - messages are kept as `email:captured:<id>` for the admin mailbox
+// Useful before a provider is set up, and for trying out templates without emailing staff
+const MAX_CAPTURED_EMAILS = 100;
+
+const captureEmail = async (message: EmailMessage): Promise<EmailResult> => {
+  const id = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  await kv.set(`email:captured:${id}`, { id, ...message, capturedAt: new Date().toISOString() });
+
+  // Only the newest messages are kept
+  const captured = await kv.getByPrefix('email:captured:');
+  if (captured.length > MAX_CAPTURED_EMAILS) {
+    const oldest = captured
+      .sort((a: any, b: any) => b.capturedAt.localeCompare(a.capturedAt))
+      .slice(MAX_CAPTURED_EMAILS);
+    await kv.mdel(oldest.map((email: any) => `email:captured:${email.id}`));
+  }
+
+  console.log(`📥 Captured email to ${message.to}: ${message.subject}`);
+  return { success: true, captured: true, data: { id } };
+};
+
+const EMAIL_TRANSPORTS: Record<string, { label: string; send: (message: EmailMessage, settings: any) => Promise<EmailResult> }> = {
+  resend: { label: 'Resend', send: sendWithResend },
+  smtp: { label: 'SMTP', send: sendWithSmtp },
+  capture: { label: 'Local mailbox', send: (message) => captureEmail(message) }
+};
+
+// Helper function to send an email through the configured transport
+const sendEmail = async (to: string, subject: string, html: string): Promise<EmailResult> => {
+  const settings = await getEmailSettings();
+  const transport = EMAIL_TRANSPORTS[settings.transport] || EMAIL_TRANSPORTS.resend;
+  const from = settings.fromName ? `${settings.fromName} <${settings.fromEmail}>` : settings.fromEmail;
+  return transport.send({ from, replyTo: settings.replyTo, to, subject, html }, settings);
+};
+
+// Routes guarded by requirePermission can read the signed-in user with c.get('user') and their record with c.get('userData')
+const app = new Hono<{ Variables: { user: any; userData: any } }>();
 
 // Enable logger
 app.use('*', logger(console.log));
@@ -115,6 +210,22 @@ const getSupabaseClient = () => {
   );
 };
 
+// Helper function to sign a value with HMAC-SHA256, hex encoded
+const signHmacSha256 = async (secret: string, value: string) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Helper function to compare signatures - every character is compared so the time taken doesn't reveal how much matched
+const timingSafeEqual = (expected: string, received: string) => {
+  let mismatch = expected.length ^ received.length;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
 // Helper function to calculate level based on points
 const calculateLevel = async (points: number): Promise<string> => {
   try {
@@ -175,6 +286,60 @@ const verifyAuth = async (authHeader: string | null) => {
   return { error: null, user };
 };
 
+// ==================== PERMISSIONS ====================
+
+// What each role may do - kept in step with src/utils/permissions.ts, which decides what the dashboard shows.
+// Staff have none of these: they only use their own signups, availability and profile
+type Permission =
+  | 'events:manage'     // create, edit, cancel and delete events and event templates
+  | 'staffing:manage'   // sign staff up, close events, confirm attendance, no-shows and check-in codes
+  | 'staff:manage'      // invite, edit and remove staff, password resets and Telegram chat IDs
+  | 'points:manage'     // adjust points by hand
+  | 'points:view'       // the points log
+  | 'reports:view'      // reliability records
+  | 'settings:manage'   // settings, levels, integrations, notifications and scheduled jobs
+  | 'roles:manage';     // invite team members and change anyone's role
+
+const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  admin: ['events:manage', 'staffing:manage', 'staff:manage', 'points:manage', 'points:view', 'reports:view', 'settings:manage', 'roles:manage'],
+  coordinator: ['events:manage', 'staffing:manage', 'reports:view'],
+  viewer: ['points:view', 'reports:view'],
+  staff: [],
+};
+
+const hasPermission = (role: string | undefined, permission: Permission) =>
+  (ROLE_PERMISSIONS[role || 'staff'] || []).includes(permission);
+
+// Helper function to check the signed-in user of a request may do something
+// Returns { user, userData }, or { error, status } to answer the request with
+const checkPermission = async (authHeader: string | undefined, permission: Permission) => {
+  const { error: authError, user } = await verifyAuth(authHeader || null);
+
+  if (authError || !user) {
+    return { error: authError || 'Unauthorized', status: 401 as const };
+  }
+
+  const userData = await kv.get(`user:${user.id}`);
+  if (!userData || !hasPermission(userData.role, permission)) {
+    console.log(`🚫 ${userData?.email || user.id} (${userData?.role || 'no role'}) lacks ${permission}`);
+    return { error: 'You do not have permission to do this', status: 403 as const };
+  }
+
+  return { user, userData };
+};
+
+// Middleware for routes that need a permission
+const requirePermission = (permission: Permission) => async (c: Context, next: Next) => {
+  const access = await checkPermission(c.req.header('Authorization'), permission);
+  if (access.error) {
+    return c.json({ error: access.error }, access.status);
+  }
+
+  c.set('user', access.user);
+  c.set('userData', access.userData);
+  await next();
+};
+
 // Health check endpoint
 app.get("/make-server-08658f87/health", (c) => {
   return c.json({ status: "ok" });
@@ -199,21 +364,158 @@ app.get("/make-server-08658f87/status", async (c) => {
   }
 });
 
-// Get email configuration
-app.get("/make-server-08658f87/email-config", (c) => {
-  const isTestMode = FROM_EMAIL === 'onboarding@resend.dev';
-  return c.json({ 
-    fromEmail: FROM_EMAIL,
-    isTestMode
-  });
+// Get email configuration - which transport is active and who emails come from
+app.get("/make-server-08658f87/email-config", async (c) => {
+  try {
+    const settings = await getEmailSettings();
+    return c.json({ 
+      transport: settings.transport,
+      transportLabel: EMAIL_TRANSPORTS[settings.transport]?.label || settings.transport,
+      fromEmail: settings.fromEmail,
+      fromName: settings.fromName,
+      replyTo: settings.replyTo,
+      isTestMode: isResendTestMode(settings)
+    });
+  } catch (error) {
+    console.error('Error fetching email config:', error);
+    return c.json({ error: 'Failed to fetch email configuration' }, 500);
+  }
+});
+
+// Get the full email settings - the SMTP password is only reported as set or not
+app.get("/make-server-08658f87/email/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const settings = await getEmailSettings();
+    const { password, ...smtp } = settings.smtp;
+
+    return c.json({
+      settings: { ...settings, smtp: { ...smtp, passwordSet: !!password } },
+      transports: Object.entries(EMAIL_TRANSPORTS).map(([transport, { label }]) => ({ transport, label })),
+      resendConfigured: !!Deno.env.get('RESEND_API_KEY'),
+      capturedCount: (await kv.getByPrefix('email:captured:')).length
+    });
+  } catch (error) {
+    console.error('Error fetching email settings:', error);
+    return c.json({ error: 'Failed to fetch email settings' }, 500);
+  }
+});
+
+// Save the email transport, sender and reply-to
+app.post("/make-server-08658f87/email/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { transport, fromEmail, fromName, replyTo, smtp } = await c.req.json();
+    const isEmail = (value: string) => /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(value);
+
+    if (!EMAIL_TRANSPORTS[transport]) {
+      return c.json({ error: 'Unknown email transport' }, 400);
+    }
+    if (!isEmail(String(fromEmail || '').trim())) {
+      return c.json({ error: 'Enter a valid sender email address' }, 400);
+    }
+    if (replyTo && !isEmail(String(replyTo).trim())) {
+      return c.json({ error: 'Enter a valid reply-to address, or leave it empty' }, 400);
+    }
+
+    const current = await getEmailSettings();
+    const port = Number(smtp?.port ?? current.smtp.port);
+    if (transport === 'smtp' && !String(smtp?.host || '').trim()) {
+      return c.json({ error: 'SMTP host is required' }, 400);
+    }
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return c.json({ error: 'SMTP port must be between 1 and 65535' }, 400);
+    }
+
+    const settings = {
+      transport,
+      fromEmail: String(fromEmail).trim(),
+      // Quotes and angle brackets would break the "Name <address>" header
+      fromName: String(fromName || '').replace(/["<>]/g, '').trim(),
+      replyTo: String(replyTo || '').trim(),
+      smtp: {
+        host: String(smtp?.host ?? current.smtp.host).trim(),
+        port,
+        username: String(smtp?.username ?? current.smtp.username).trim(),
+        // Leaving the password blank keeps the saved one
+        password: smtp?.password ? String(smtp.password) : current.smtp.password
+      },
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set('email:settings', settings);
+    console.log(`📧 Email transport set to ${EMAIL_TRANSPORTS[transport].label}, sending as ${settings.fromEmail}`);
+
+    const { password, ...smtpSettings } = settings.smtp;
+    return c.json({ success: true, settings: { ...settings, smtp: { ...smtpSettings, passwordSet: !!password } } });
+  } catch (error) {
+    console.error('Error saving email settings:', error);
+    return c.json({ error: 'Failed to save email settings' }, 500);
+  }
+});
+
+// Send a test email to the signed-in admin through the active transport
+app.post("/make-server-08658f87/email/test", requirePermission('settings:manage'), async (c) => {
+  try {
+    const userData = c.get('userData');
+
+    const settings = await getEmailSettings();
+    const result = await sendEmail(
+      userData.email,
+      'Test email - Nahky Araby Event Hub',
+      renderEmailLayout(
+        '✉️ Test Email',
+        `<p>Hello ${escapeHtml(userData.name || '')},</p>
+<p>This test email was sent through ${escapeHtml(EMAIL_TRANSPORTS[settings.transport]?.label || settings.transport)}. Your email settings are working.</p>`,
+        '#5D2972'
+      )
+    );
+
+    if (!result.success) {
+      return c.json({ error: result.isTestingMode ? 'Resend is in test mode - verify a domain to send to real addresses' : result.error }, 400);
+    }
+
+    return c.json({ success: true, captured: !!result.captured, to: userData.email });
+  } catch (error) {
+    console.error('Error sending test email:', error);
+    return c.json({ error: 'Failed to send test email' }, 500);
+  }
+});
+
+// List the emails kept by the local mailbox transport, newest first
+app.get("/make-server-08658f87/email/captured", requirePermission('settings:manage'), async (c) => {
+  try {
+    const emails = (await kv.getByPrefix('email:captured:'))
+      .sort((a: any, b: any) => b.capturedAt.localeCompare(a.capturedAt));
+
+    return c.json({ emails });
+  } catch (error) {
+    console.error('Error fetching captured emails:', error);
+    return c.json({ error: 'Failed to fetch captured emails' }, 500);
+  }
+});
+
+// Empty the local mailbox
+app.delete("/make-server-08658f87/email/captured", requirePermission('settings:manage'), async (c) => {
+  try {
+    const emails = await kv.getByPrefix('email:captured:');
+    if (emails.length > 0) {
+      await kv.mdel(emails.map((email: any) => `email:captured:${email.id}`));
+    }
+
+    return c.json({ success: true, deleted: emails.length });
+  } catch (error) {
+    console.error('Error clearing captured emails:', error);
+    return c.json({ error: 'Failed to clear captured emails' }, 500);
+  }
 });
 
 // ==================== AUTH ENDPOINTS ====================
 
 // Sign up new staff member
+// Anyone can call this, so the account is always staff - other roles are only given through the roles:manage routes
 app.post("/make-server-08658f87/signup", async (c) => {
   try {
-    const { email, password, name, role = 'staff' } = await c.req.json();
+    const { email, password, name } = await c.req.json();
+    const role = 'staff';
 
     if (!email || !password || !name) {
       return c.json({ error: 'Email, password, and name are required' }, 400);
@@ -247,7 +549,7 @@ app.post("/make-server-08658f87/signup", async (c) => {
       name,
       points: 0,
       level: '',
-      status: role === 'admin' ? 'active' : 'pending',
+      status: 'pending',
       role,
       createdAt: new Date().toISOString()
     };
@@ -294,32 +596,6 @@ app.post("/make-server-08658f87/login", async (c) => {
     const userData = await kv.get(`user:${data.user.id}`);
     console.log('User data from KV:', userData ? 'found' : 'not found');
 
-    // Check if user is logging in with a temporary password (invitation or reset)
-    // Temporary passwords start with 'temp' or 'reset'
-    const isTempPassword = password.startsWith('temp') || password.startsWith('reset');
-    
-    if (isTempPassword && userData && userData.status === 'pending') {
-      // User needs to set up a new password (invitation flow)
-      console.log('User logging in with invitation temp password - requires password setup');
-      return c.json({
-        success: true,
-        needsPasswordSetup: true,
-        email: email,
-        tempPassword: password
-      });
-    }
-    
-    if (isTempPassword && userData && userData.status === 'active') {
-      // User is logging in with a reset password - also needs password setup
-      console.log('User logging in with reset temp password - requires password setup');
-      return c.json({
-        success: true,
-        needsPasswordSetup: true,
-        email: email,
-        tempPassword: password
-      });
-    }
-
     return c.json({
       success: true,
       accessToken: data.session.access_token,
@@ -340,6 +616,207 @@ app.post("/make-server-08658f87/login", async (c) => {
 
 // ==================== EVENT ENDPOINTS ====================
 
+// Maximum number of occurrences generated for a recurring event series
+const MAX_SERIES_OCCURRENCES = 52;
+
+// Helper function to shift a YYYY-MM-DD date by a number of days
+const addDaysToDate = (dateStr: string, days: number) => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+// Helper function to shift a YYYY-MM-DD date by a number of months
+// The day is clamped to the end of shorter months (e.g. Jan 31 -> Feb 28)
+const addMonthsToDate = (dateStr: string, months: number) => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const lastDayOfMonth = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDayOfMonth)));
+  return date.toISOString().split('T')[0];
+};
+
+// Helper function to count the days between two YYYY-MM-DD dates
+const daysBetween = (fromDateStr: string, toDateStr: string) => {
+  const from = new Date(`${fromDateStr}T00:00:00Z`).getTime();
+  const to = new Date(`${toDateStr}T00:00:00Z`).getTime();
+  return Math.round((to - from) / (24 * 60 * 60 * 1000));
+};
+
+// Time zone for events created before events carried one - see /events/migrate-times
+const DEFAULT_TIME_ZONE = 'UTC';
+
+// Helper function to check whether a string is a valid IANA time zone
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Helper function to get the UTC offset (in ms) of a time zone at an instant
+const getTimeZoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// Helper function to convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a time zone to a UTC Date
+const zonedTimeToUtc = (dateStr: string, time: string, timeZone: string) => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  // Resolve the offset twice so times next to a daylight saving change land on the right side
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(firstGuess, timeZone));
+};
+
+// Helper function to get today's date (YYYY-MM-DD) in a time zone
+const getTodayInTimeZone = (timeZone: string) => {
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+};
+
+// Helper function to parse free-text durations like "3 hours", "1.5h" or "2 hours 30 minutes" into minutes
+const parseDurationMinutes = (duration: string) => {
+  const text = (duration || '').toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : null;
+};
+
+// Helper function to format minutes as a readable duration, e.g. "2 hours 30 minutes"
+const formatDurationMinutes = (totalMinutes: number) => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return [
+    hours > 0 ? `${hours} hour${hours !== 1 ? 's' : ''}` : '',
+    minutes > 0 ? `${minutes} minute${minutes !== 1 ? 's' : ''}` : ''
+  ].filter(Boolean).join(' ') || '0 minutes';
+};
+
+// Helper function to add minutes to a date and HH:MM time, returning the new date and time
+const addMinutesToDateTime = (dateStr: string, time: string, minutes: number) => {
+  const [hours, mins] = (time || '00:00').split(':').map(Number);
+  const total = hours * 60 + mins + minutes;
+  const dayOffset = Math.floor(total / (24 * 60));
+  const minuteOfDay = total - dayOffset * 24 * 60;
+  return {
+    date: addDaysToDate(dateStr, dayOffset),
+    time: `${String(Math.floor(minuteOfDay / 60)).padStart(2, '0')}:${String(minuteOfDay % 60).padStart(2, '0')}`
+  };
+};
+
+// Helper function to derive the structured times of an event from its wall-clock fields
+// date/time/endDate/endTime are local to the event's time zone; startsAt/endsAt are the UTC instants
+// Events without an end time (created before end times existed) fall back to their free-text duration
+const withEventTimes = (event: any) => {
+  const timeZone = event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : DEFAULT_TIME_ZONE;
+  let lastDate = event.endDate || event.date;
+  let endTime = event.endTime;
+
+  if (!endTime) {
+    const end = addMinutesToDateTime(event.date, event.time, parseDurationMinutes(event.duration) || 60);
+    endTime = end.time;
+    if (end.date > lastDate) lastDate = end.date;
+  }
+
+  const startsAt = zonedTimeToUtc(event.date, event.time, timeZone);
+  let endsAt = zonedTimeToUtc(lastDate, endTime, timeZone);
+
+  // Ending at or before the start means the event runs past midnight
+  if (endsAt <= startsAt) {
+    endsAt = zonedTimeToUtc(addDaysToDate(lastDate, 1), endTime, timeZone);
+  }
+
+  // Duration is kept as a readable daily length for notifications and older clients
+  const [startHours, startMinutes] = (event.time || '00:00').split(':').map(Number);
+  const [endHours, endMinutes] = endTime.split(':').map(Number);
+  const dailyMinutes = ((endHours * 60 + endMinutes) - (startHours * 60 + startMinutes) + 24 * 60) % (24 * 60) || 24 * 60;
+
+  return {
+    ...event,
+    timeZone,
+    endTime,
+    duration: formatDurationMinutes(dailyMinutes),
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt.toISOString()
+  };
+};
+
+// Helper function to get the start and end of an event (or one of its shifts) as Dates
+// Shift times are wall-clock times on the event's start date, in the event's time zone
+const getEventTimes = (event: any, shift?: any) => {
+  const timedEvent = event.startsAt && event.endsAt ? event : withEventTimes(event);
+
+  if (!shift) {
+    return { start: new Date(timedEvent.startsAt), end: new Date(timedEvent.endsAt) };
+  }
+
+  const start = zonedTimeToUtc(event.date, shift.startTime, timedEvent.timeZone);
+  let end = zonedTimeToUtc(event.date, shift.endTime, timedEvent.timeZone);
+  // Shifts ending before they start run past midnight
+  if (end <= start) {
+    end = zonedTimeToUtc(addDaysToDate(event.date, 1), shift.endTime, timedEvent.timeZone);
+  }
+  return { start, end };
+};
+
+// Helper function to generate the occurrence dates of a recurrence rule
+// recurrence: { frequency: 'weekly' | 'biweekly' | 'monthly', until?: 'YYYY-MM-DD', count?: number }
+const getOccurrenceDates = (startDate: string, recurrence: any) => {
+  const count = recurrence.count ? Math.min(Number(recurrence.count), MAX_SERIES_OCCURRENCES) : MAX_SERIES_OCCURRENCES;
+  const dates: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const date = recurrence.frequency === 'monthly'
+      ? addMonthsToDate(startDate, i)
+      : addDaysToDate(startDate, i * (recurrence.frequency === 'biweekly' ? 14 : 7));
+
+    if (recurrence.until && date > recurrence.until) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+// Helper function to describe a recurrence rule for notifications
+const describeRecurrence = (recurrence: any) => {
+  const frequencies: Record<string, string> = {
+    weekly: 'Every week',
+    biweekly: 'Every 2 weeks',
+    monthly: 'Every month'
+  };
+  return frequencies[recurrence.frequency] || 'Recurring';
+};
+
+// Helper function to pick the occurrences of a series an edit or cancellation applies to
+// scope: 'this' (default), 'following' (this and later occurrences) or 'series' (every occurrence)
+// Other past or cancelled occurrences are left untouched - points may already have been awarded for them
+const getSeriesTargets = async (event: any, scope?: string) => {
+  if (!event.seriesId || !scope || scope === 'this') return [event];
+
+  const now = new Date();
+  const allEvents = await kv.getByPrefix('event:');
+
+  return allEvents
+    .filter(e => e.seriesId === event.seriesId)
+    .filter(e => e.id === event.id || (e.status !== 'cancelled' && getEventTimes(e).end > now))
+    .filter(e => scope === 'series' || e.date >= event.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
 // Get all events
 app.get("/make-server-08658f87/events", async (c) => {
   try {
@@ -364,38 +841,54 @@ app.get("/make-server-08658f87/events", async (c) => {
 });
 
 // Create new event
-app.post("/make-server-08658f87/events", async (c) => {
+app.post("/make-server-08658f87/events", requirePermission('events:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
+    const { recurrence, ...eventData } = await c.req.json();
+
+    if (eventData.timeZone && !isValidTimeZone(eventData.timeZone)) {
+      return c.json({ error: `Unknown time zone "${eventData.timeZone}"` }, 400);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    if (recurrence && !recurrence.until && !recurrence.count) {
+      return c.json({ error: 'Recurring events need an end date or a number of occurrences' }, 400);
     }
 
-    const eventData = await c.req.json();
-    // Generate unique ID using timestamp + random string to prevent duplicates
-    const eventId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-    
-    const event = {
-      id: eventId,
+    // Recurring events create one linked occurrence per date, sharing a seriesId
+    const occurrenceDates = recurrence ? getOccurrenceDates(eventData.date, recurrence) : [eventData.date];
+    if (occurrenceDates.length === 0) {
+      return c.json({ error: 'The recurrence rule does not produce any occurrences' }, 400);
+    }
+
+    const seriesId = recurrence ? `series-${Date.now()}-${Math.random().toString(36).substring(2, 9)}` : undefined;
+    const endDateSpan = eventData.endDate ? daysBetween(eventData.date, eventData.endDate) : 0;
+    // Occurrences share shift IDs so series-wide edits can match shifts across occurrences
+    const shifts = normalizeShifts(eventData.shifts);
+    const createdAt = new Date().toISOString();
+
+    const occurrences = occurrenceDates.map((date, index) => withEventTimes({
+      // Generate unique ID using timestamp + random string to prevent duplicates
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
       ...eventData,
+      date,
+      endDate: eventData.endDate ? addDaysToDate(date, endDateSpan) : eventData.endDate,
       // Default status to 'draft' if not provided
       status: eventData.status || 'draft',
+      shifts,
       signedUpStaff: [],
-      createdAt: new Date().toISOString()
-    };
+      waitlistedStaff: [],
+      ...(seriesId ? { seriesId, seriesIndex: index + 1, recurrence } : {}),
+      createdAt
+    }));
+
+    await kv.mset(occurrences.map(occurrence => `event:${occurrence.id}`), occurrences);
 
-    await kv.set(`event:${eventId}`, event);
+    // Staff are notified once per series, about the first occurrence
+    const event = occurrences[0];
+    if (seriesId) {
+      console.log(`🔁 Created series ${seriesId} with ${occurrences.length} occurrences of "${event.name}"`);
+    }
 
-    // Only send email notifications if the event status is 'open'
-    // Draft and closed events should not trigger notifications
+    // Only open events notify staff - draft and closed events don't trigger notifications
     if (event.status === 'open') {
       try {
         // Get all staff members and levels
@@ -404,7 +897,6 @@ app.post("/make-server-08658f87/events", async (c) => {
         const levels = await kv.getByPrefix('level:');
         
         console.log(`📧 Event notification system: Found ${staffMembers.length} active staff members out of ${allUsers.length} total users`);
-        console.log(`📧 Staff members:`, staffMembers.map(s => ({ name: s.name, level: s.level, telegramChatId: (s.telegramChatId || s.telegramUsername) ? 'SET' : 'NOT SET' })));
         
         // Sort levels by order (lower order = higher in hierarchy)
         const sortedLevels = levels.sort((a, b) => a.order - b.order);
@@ -417,581 +909,220 @@ app.post("/make-server-08658f87/events", async (c) => {
         }
         
         if (eventLevel && staffMembers.length > 0) {
-        // Filter staff who can access this event
-        // Staff can access if their level order >= event level order (same or below in list)
-        const eligibleStaff = staffMembers.filter(staff => {
-          if (!staff.level) {
-            console.log(`  - ${staff.name}: No level assigned`);
-            return false;
-          }
-          const staffLevel = sortedLevels.find(l => l.name === staff.level);
-          // Staff with order >= event order can access (they are at same level or higher in hierarchy)
-          const canAccess = staffLevel && staffLevel.order >= eventLevel.order;
-          console.log(`  - ${staff.name} (${staff.level}, order: ${staffLevel?.order}): ${canAccess ? '✓ Eligible' : '✗ Not eligible'}`);
-          return canAccess;
-        });
-        
-        // Skip email notifications for event creation (only Telegram will be used)
-        console.log(`ℹ️ Skipping email notifications for event creation (only Telegram notifications will be sent)`);
-        
-        // Email loop removed - only Telegram notifications for new events
-        /*
-        for (let i = 0; i < eligibleStaff.length; i++) {
-          const staff = eligibleStaff[i];
-          const emailHtml = `
-            <!DOCTYPE html>
-            <html>
-            <head>
-              <style>
-                body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-                .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-                .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-                .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-                .event-details { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10B981; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
-                .detail-row { margin: 15px 0; display: flex; }
-                .detail-icon { width: 24px; margin-right: 10px; color: #6B7280; }
-                .detail-label { color: #6B7280; font-weight: bold; margin-right: 8px; }
-                .detail-value { color: #1F2937; }
-                .cta-button { display: inline-block; background-color: #4F46E5; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin: 20px 0; font-weight: bold; }
-                .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
-                .level-badge { display: inline-block; background-color: #EFF6FF; color: #3B82F6; padding: 4px 12px; border-radius: 12px; font-size: 14px; font-weight: bold; }
-                .points-badge { display: inline-block; background-color: #FEF3C7; color: #F59E0B; padding: 4px 12px; border-radius: 12px; font-size: 14px; font-weight: bold; }
-              </style>
-            </head>
-            <body>
-              <div class="container">
-                <div class="header">
-                  <div style="text-align: center; margin-bottom: 10px;">
-                    <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
-                  </div>
-                  <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
-                  <h1>🎉 New Event Available!</h1>
-                </div>
-                <div class="content">
-                  <h2>Hello ${staff.name},</h2>
-                  <p>A new event has been posted that you're eligible to attend!</p>
-                  
-                  <div class="event-details">
-                    <h3 style="margin-top: 0; color: #10B981;">📅 ${event.name}</h3>
-                    
-                    <div class="detail-row">
-                      <span class="detail-icon">📍</span>
-                      <div>
-                        <span class="detail-label">Location:</span>
-                        <span class="detail-value">${event.location}</span>
-                      </div>
-                    </div>
-                    
-                    <div class="detail-row">
-                      <span class="detail-icon">📆</span>
-                      <div>
-                        <span class="detail-label">Date:</span>
-                        <span class="detail-value">${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</span>
-                      </div>
-                    </div>
-                    
-                    <div class="detail-row">
-                      <span class="detail-icon">🕐</span>
-                      <div>
-                        <span class="detail-label">Time:</span>
-                        <span class="detail-value">${event.time}</span>
-                      </div>
-                    </div>
-                    
-                    <div class="detail-row">
-                      <span class="detail-icon">⏱️</span>
-                      <div>
-                        <span class="detail-label">Duration:</span>
-                        <span class="detail-value">${event.duration}</span>
-                      </div>
-                    </div>
-                    
-                    <div class="detail-row">
-                      <span class="detail-icon">🎯</span>
-                      <div>
-                        <span class="detail-label">Required Level:</span>
-                        <span class="level-badge">${event.requiredLevel}</span>
-                      </div>
-                    </div>
-                    
-                    <div class="detail-row">
-                      <span class="detail-icon">⭐</span>
-                      <div>
-                        <span class="detail-label">Points:</span>
-                        <span class="points-badge">${event.points} points</span>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <p style="text-align: center;">
-                    <a href="#" class="cta-button">Sign Up Now</a>
-                  </p>
-                  
-                  <p style="color: #6B7280; font-size: 14px;">Log in to Nahky Araby Event Hub to sign up for this event and start earning points!</p>
-                </div>
-                <div class="footer">
-                  <p>This is an automated notification. Please do not reply to this email.</p>
-                </div>
-              </div>
-            </body>
-            </html>
-          `;
-          
-          const emailResult = await sendEmail(
-            staff.email,
-            `New Event Available: ${event.name}`,
-            emailHtml
-          );
-          
-          if (emailResult.success) {
-            console.log(`  ✓ Email sent to ${staff.name} (${staff.email})`);
-          } else {
-            console.log(`  ✗ Failed to send email to ${staff.name}: ${emailResult.error}`);
-          }
-          
-          // Rate limiting: Wait 600ms between emails (Resend allows 2 per second)
-          // Only wait if this is not the last email
-          if (i < eligibleStaff.length - 1) {
-            await delay(600);
-          }
-        }
-        */
-        
-        // Send WhatsApp notifications if WhatsApp is connected
-        const whatsAppSettings = await kv.get('whatsapp:settings');
-        if (whatsAppSettings && whatsAppSettings.connected) {
-          console.log(`📱 WhatsApp is connected, sending notifications to ${eligibleStaff.length} staff members`);
-          
-          for (let i = 0; i < eligibleStaff.length; i++) {
-            const staff = eligibleStaff[i];
-            
-            // Check if staff member has a phone number
-            if (!staff.phone || staff.phone.trim() === '') {
-              console.log(`  ⚠️ ${staff.name}: No phone number on file, skipping WhatsApp`);
-              continue;
-            }
-            
-            // Format WhatsApp message
-            const whatsAppMessage = `🎉 *New Event Available!*
-
-Hello ${staff.name},
-
-A new event has been posted that you're eligible to attend:
-
-📅 *${event.name}*
-📍 Location: ${event.location}
-📆 Date: ${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-🕐 Time: ${event.time}
-⏱️ Duration: ${event.duration}
-🎯 Required Level: ${event.requiredLevel}
-⭐ Points: ${event.points} points
-
-Log in to Nahky Araby Event Hub to sign up for this event and start earning points!`;
-            
-            const whatsAppResult = await sendWhatsAppMessage(staff.phone, whatsAppMessage);
-            
-            if (whatsAppResult.success) {
-              console.log(`  ✓ WhatsApp sent to ${staff.name} (${staff.phone})`);
-            } else {
-              console.log(`  ✗ Failed to send WhatsApp to ${staff.name}: ${whatsAppResult.error}`);
-            }
-            
-            // Rate limiting: Wait 600ms between messages to avoid API limits
-            if (i < eligibleStaff.length - 1) {
-              await delay(600);
-            }
-          }
-          
-          console.log(`✅ Finished sending WhatsApp notifications`);
-        } else {
-          console.log(`📱 WhatsApp not connected, skipping WhatsApp notifications`);
-        }
-        
-        // Send Telegram notifications if Telegram is connected
-        const telegramSettings = await kv.get('telegram:settings');
-        console.log(`✈️ Telegram settings:`, telegramSettings ? { connected: telegramSettings.connected, botName: telegramSettings.botName } : 'NOT CONFIGURED');
-        
-        if (telegramSettings && telegramSettings.connected) {
-          console.log(`✈️ Telegram is connected, checking ${eligibleStaff.length} eligible staff members for Telegram notifications`);
-          
-          let telegramSentCount = 0;
-          for (let i = 0; i < eligibleStaff.length; i++) {
-            const staff = eligibleStaff[i];
-            
-            // Check if staff member has a Telegram chat ID (check both fields for backwards compatibility)
-            const chatId = staff.telegramChatId || staff.telegramUsername;
-            if (!chatId || chatId.trim() === '') {
-              console.log(`  ⚠️ ${staff.name}: No Telegram chat ID on file, skipping Telegram`);
-              continue;
-            }
-            
-            console.log(`  📤 Attempting to send Telegram to ${staff.name} (Chat ID: ${chatId})...`);
-            
-            // Format Telegram message
-            const telegramMessage = `🎉 *New Event Available!*
-
-Hello ${staff.name},
-
-A new event has been posted that you're eligible to attend:
-
-📅 *${event.name}*
-📍 Location: ${event.location}
-📆 Date: ${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-🕐 Time: ${event.time}
-⏱️ Duration: ${event.duration}
-🎯 Required Level: ${event.requiredLevel}
-⭐ Points: ${event.points} points${event.description ? `
-
-📝 Description: ${event.description}` : ''}${event.notes ? `
-
-💬 Notes: ${event.notes}` : ''}
-
-Log in to Nahky Araby Event Hub to sign up for this event and start earning points!`;
-            
-            const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-            
-            if (telegramResult.success) {
-              console.log(`  ✓ Telegram sent successfully to ${staff.name} (${chatId})`);
-              telegramSentCount++;
-            } else {
-              console.log(`  ✗ Failed to send Telegram to ${staff.name} (${chatId}): ${telegramResult.error}`);
+          // Filter staff who can access this event
+          // Staff can access if their level order >= event level order (same or below in list)
+          const eligibleStaff = staffMembers.filter(staff => {
+            if (!staff.level) {
+              console.log(`  - ${staff.name}: No level assigned`);
+              return false;
             }
-            
-            // Rate limiting: Wait 600ms between messages to avoid API limits
-            if (i < eligibleStaff.length - 1) {
-              await delay(600);
-            }
-          }
-          
-          console.log(`✅ Finished sending Telegram notifications: ${telegramSentCount} sent successfully`);
-        } else {
-          console.log(`✈️ Telegram not connected, skipping Telegram notifications`);
+            const staffLevel = sortedLevels.find(l => l.name === staff.level);
+            // Staff with order >= event order can access (they are at same level or higher in hierarchy)
+            const canAccess = staffLevel && staffLevel.order >= eventLevel.order;
+            console.log(`  - ${staff.name} (${staff.level}, order: ${staffLevel?.order}): ${canAccess ? '✓ Eligible' : '✗ Not eligible'}`);
+            return canAccess;
+          });
+
+          await notifyNewEvent(eligibleStaff.map(staff => staff.id), {
+            event,
+            ...(seriesId ? { recurrence, occurrenceCount: occurrences.length } : {})
+          });
         }
-      }
-      } catch (emailError) {
-        // Log email error but don't fail the event creation
-        console.error('Error sending event notification emails:', emailError);
+      } catch (notificationError) {
+        // Log notification error but don't fail the event creation
+        console.error('Error queueing event notifications:', notificationError);
       }
     } else {
       console.log(`ℹ️ Event status is "${event.status}", skipping notifications (only 'open' events trigger notifications)`);
     }
 
-    return c.json({ success: true, event });
+    return c.json({ success: true, event, events: occurrences });
   } catch (error) {
     console.error('Error creating event:', error);
     return c.json({ error: 'Failed to create event' }, 500);
   }
 });
 
-// Update event
-app.put("/make-server-08658f87/events/:id", async (c) => {
-  try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
+// Helper function to list what an edit changed, as lines for the "Event updated" notification
+const describeEventChanges = (existingEvent: any, updatedEvent: any) => {
+  const changes: string[] = [];
+  
+  if (existingEvent.name !== updatedEvent.name) {
+    changes.push(`Name: "${existingEvent.name}" → "${updatedEvent.name}"`);
+  }
+  if (existingEvent.date !== updatedEvent.date) {
+    const oldDate = new Date(existingEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    const newDate = new Date(updatedEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    changes.push(`Date: ${oldDate} → ${newDate}`);
+  }
+  if (existingEvent.time !== updatedEvent.time) {
+    changes.push(`Time: ${existingEvent.time} → ${updatedEvent.time}`);
+  }
+  if (existingEvent.location !== updatedEvent.location) {
+    changes.push(`Location: "${existingEvent.location}" → "${updatedEvent.location}"`);
+  }
+  if (existingEvent.duration !== updatedEvent.duration) {
+    changes.push(`Duration: ${existingEvent.duration} → ${updatedEvent.duration}`);
+  }
+  if (existingEvent.points !== updatedEvent.points) {
+    changes.push(`Points: ${existingEvent.points} → ${updatedEvent.points}`);
+  }
+  if (existingEvent.requiredLevel !== updatedEvent.requiredLevel) {
+    changes.push(`Required Level: ${existingEvent.requiredLevel} → ${updatedEvent.requiredLevel}`);
+  }
+  if (existingEvent.description !== updatedEvent.description) {
+    changes.push(`Description updated`);
+  }
+  if (existingEvent.notes !== updatedEvent.notes) {
+    changes.push(`Notes updated`);
+  }
+  return changes;
+};
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
+// Helper function to get who hears about changes to an event - participants while it's open, the selected staff once closed
+const getEventChangeRecipients = (event: any): string[] => {
+  const status = event.status || 'open';
+  if (status === 'open') return event.signedUpStaff || [];
+  if (status === 'closed') return event.confirmedStaff || [];
+  return [];
+};
 
-    const eventId = c.req.param('id');
-    const eventData = await c.req.json();
+// Helper function to apply an edit to a single event (or one occurrence of a series)
+// Promotes waitlisted staff into freed spots and notifies staff about selection and detail changes
+// Series edits turn off the detail notification and send one summary per staff member instead
+const applyEventUpdate = async (existingEvent: any, eventData: any, notifyDetailChanges = true) => {
+  const eventId = existingEvent.id;
+
+  // Update event while preserving signedUpStaff, waitlistedStaff, confirmedStaff, hasBeenClosedBefore, and createdAt
+  // startsAt/endsAt are recomputed from the (possibly edited) date, times and time zone
+  const mergedEvent = withEventTimes({
+    ...existingEvent,
+    ...eventData,
+    id: eventId,
+    signedUpStaff: existingEvent.signedUpStaff,
+    waitlistedStaff: existingEvent.waitlistedStaff || [],
+    confirmedStaff: existingEvent.confirmedStaff,
+    shifts: normalizeShifts(eventData.shifts, existingEvent.shifts || []),
+    hasBeenClosedBefore: existingEvent.hasBeenClosedBefore,
+    createdAt: existingEvent.createdAt
+  });
 
-    // Get existing event
-    const existingEvent = await kv.get(`event:${eventId}`);
-    if (!existingEvent) {
-      return c.json({ error: 'Event not found' }, 404);
-    }
+  // A raised (or removed) capacity or headcount frees spots for the waitlist
+  let updatedEvent: any;
+  let promotedFromWaitlist: string[] = [];
+  if (hasShifts(mergedEvent)) {
+    const shifts = mergedEvent.shifts.map((shift: any) => {
+      const { slot, promoted } = promoteFromWaitlist(shift, shift.headcount);
+      promotedFromWaitlist = [...promotedFromWaitlist, ...promoted.filter((id: string) => !promotedFromWaitlist.includes(id))];
+      return slot;
+    });
+    updatedEvent = syncShiftTotals({ ...mergedEvent, shifts });
+  } else {
+    const result = promoteFromWaitlist(mergedEvent);
+    updatedEvent = result.slot;
+    promotedFromWaitlist = result.promoted;
+  }
 
-    // Update event while preserving signedUpStaff, confirmedStaff, hasBeenClosedBefore, and createdAt
-    const updatedEvent = {
-      ...existingEvent,
-      ...eventData,
-      id: eventId,
-      signedUpStaff: existingEvent.signedUpStaff,
-      confirmedStaff: existingEvent.confirmedStaff,
-      hasBeenClosedBefore: existingEvent.hasBeenClosedBefore,
-      createdAt: existingEvent.createdAt
-    };
+  await kv.set(`event:${eventId}`, updatedEvent);
 
-    await kv.set(`event:${eventId}`, updatedEvent);
+  if (promotedFromWaitlist.length > 0) {
+    console.log(`📋 Capacity change promoted ${promotedFromWaitlist.length} staff from the waitlist`);
+    await enqueueNotifications('waitlist-promoted', promotedFromWaitlist, { event: updatedEvent });
+  }
 
-    // Send notifications based on event status
-    try {
-      const eventStatus = updatedEvent.status || 'open';
-    
-      if (eventStatus !== 'draft') {
-        console.log(`📢 Event updated with status "${eventStatus}", checking for changes to notify staff...`);
-        
-        // First, check for selection/deselection changes
-        const oldConfirmedStaff = existingEvent.confirmedStaff || [];
-        const newConfirmedStaff = updatedEvent.confirmedStaff || [];
-        
-        // Calculate who was selected and deselected
-        const newlySelected = newConfirmedStaff.filter((id: string) => !oldConfirmedStaff.includes(id));
-        const newlyDeselected = oldConfirmedStaff.filter((id: string) => !newConfirmedStaff.includes(id));
+  // Queue notifications based on event status
+  try {
+    const eventStatus = updatedEvent.status || 'open';
+  
+    if (eventStatus !== 'draft') {
+      console.log(`📢 Event updated with status "${eventStatus}", checking for changes to notify staff...`);
+      
+      // First, check for selection/deselection changes
+      const oldConfirmedStaff = existingEvent.confirmedStaff || [];
+      const newConfirmedStaff = updatedEvent.confirmedStaff || [];
+      
+      // Calculate who was selected and deselected
+      const newlySelected = newConfirmedStaff.filter((id: string) => !oldConfirmedStaff.includes(id));
+      const newlyDeselected = oldConfirmedStaff.filter((id: string) => !newConfirmedStaff.includes(id));
+      
+      const hasSelectionChanges = newlySelected.length > 0 || newlyDeselected.length > 0;
+      
+      if (hasSelectionChanges) {
+        console.log(`👥 Selection changes detected: ${newlySelected.length} newly selected, ${newlyDeselected.length} newly deselected`);
         
-        const hasSelectionChanges = newlySelected.length > 0 || newlyDeselected.length > 0;
-        
-        if (hasSelectionChanges) {
-          console.log(`👥 Selection changes detected: ${newlySelected.length} newly selected, ${newlyDeselected.length} newly deselected`);
-          
-          // Send selection/deselection notifications
-          const telegramSettings = await kv.get('telegram:settings');
-          
-          if (telegramSettings && telegramSettings.connected) {
-            console.log(`✈️ Sending selection change notifications via Telegram`);
-            
-            // Send selection notifications
-            for (let i = 0; i < newlySelected.length; i++) {
-              const staffId = newlySelected[i];
-              const staff = await kv.get(`user:${staffId}`);
-              
-              if (!staff) {
-                console.log(`  ⚠️ Staff ${staffId}: Not found, skipping`);
-                continue;
-              }
-              
-              const chatId = staff.telegramChatId || staff.telegramUsername;
-              if (!chatId || chatId.trim() === '') {
-                console.log(`  ⚠️ ${staff.name}: No Telegram chat ID, skipping`);
-                continue;
-              }
-              
-              const telegramMessage = `Hello ${staff.name},
-
-🎉 *Congratulations!* 🎉
-
-You have been selected to participate in the following event:
-
-📅 *${updatedEvent.name}*
-📍 Location: ${updatedEvent.location}
-📆 Date: ${new Date(updatedEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-🕐 Time: ${updatedEvent.time}
-⭐ Points: ${updatedEvent.points} points${updatedEvent.description ? `
-
-📝 Description: ${updatedEvent.description}` : ''}${updatedEvent.notes ? `
-
-💬 Notes: ${updatedEvent.notes}` : ''}
-
-We look forward to seeing you there! You will receive your points after the event is completed.`;
-              
-              const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-              
-              if (telegramResult.success) {
-                console.log(`  ✓ Selection notification sent to ${staff.name}`);
-              } else {
-                console.log(`  ✗ Failed to send selection notification to ${staff.name}: ${telegramResult.error}`);
-              }
-              
-              // Rate limiting
-              if (i < newlySelected.length - 1 || newlyDeselected.length > 0) {
-                await delay(600);
-              }
-            }
-            
-            // Send deselection notifications
-            for (let i = 0; i < newlyDeselected.length; i++) {
-              const staffId = newlyDeselected[i];
-              const staff = await kv.get(`user:${staffId}`);
-              
-              if (!staff) {
-                console.log(`  ⚠️ Staff ${staffId}: Not found, skipping`);
-                continue;
-              }
-              
-              const chatId = staff.telegramChatId || staff.telegramUsername;
-              if (!chatId || chatId.trim() === '') {
-                console.log(`  ⚠️ ${staff.name}: No Telegram chat ID, skipping`);
-                continue;
-              }
-              
-              const telegramMessage = `Hello ${staff.name},
-
-Thank you for your interest in the following event:
-
-📅 *${updatedEvent.name}*
-📆 Date: ${new Date(updatedEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-
-Unfortunately, you have not been selected for this event. We appreciate your participation and hope to see you at future events!`;
-              
-              const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-              
-              if (telegramResult.success) {
-                console.log(`  ✓ Deselection notification sent to ${staff.name}`);
-              } else {
-                console.log(`  ✗ Failed to send deselection notification to ${staff.name}: ${telegramResult.error}`);
-              }
-              
-              // Rate limiting
-              if (i < newlyDeselected.length - 1) {
-                await delay(600);
-              }
-            }
-            
-            console.log(`✅ Sent ${newlySelected.length + newlyDeselected.length} selection change notification(s)`);
-          } else {
-            console.log(`✈️ Telegram not connected, skipping selection change notifications`);
-          }
-        }
-        
-        // Then, detect changes between existing and updated event
-        const changes: string[] = [];
+        await enqueueNotifications('event-selected', newlySelected, (staffId: string) => ({
+          event: updatedEvent,
+          shifts: describeStaffShifts(updatedEvent, staffId)
+        }));
+        await enqueueNotifications('event-deselected', newlyDeselected, { event: updatedEvent });
+      }
+      
+      // Then, detect changes between existing and updated event - series edits send one summary instead
+      const changes = notifyDetailChanges ? describeEventChanges(existingEvent, updatedEvent) : [];
+      
+      if (changes.length > 0) {
+        console.log(`✏️ Detected ${changes.length} change(s):`, changes);
         
-        if (existingEvent.name !== updatedEvent.name) {
-          changes.push(`Name: "${existingEvent.name}" → "${updatedEvent.name}"`);
-        }
-        if (existingEvent.date !== updatedEvent.date) {
-          const oldDate = new Date(existingEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
-          const newDate = new Date(updatedEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
-          changes.push(`Date: ${oldDate} → ${newDate}`);
-        }
-        if (existingEvent.time !== updatedEvent.time) {
-          changes.push(`Time: ${existingEvent.time} → ${updatedEvent.time}`);
-        }
-        if (existingEvent.location !== updatedEvent.location) {
-          changes.push(`Location: "${existingEvent.location}" → "${updatedEvent.location}"`);
-        }
-        if (existingEvent.duration !== updatedEvent.duration) {
-          changes.push(`Duration: ${existingEvent.duration} → ${updatedEvent.duration}`);
-        }
-        if (existingEvent.points !== updatedEvent.points) {
-          changes.push(`Points: ${existingEvent.points} → ${updatedEvent.points}`);
-        }
-        if (existingEvent.requiredLevel !== updatedEvent.requiredLevel) {
-          changes.push(`Required Level: ${existingEvent.requiredLevel} → ${updatedEvent.requiredLevel}`);
-        }
-        if (existingEvent.description !== updatedEvent.description) {
-          changes.push(`Description updated`);
-        }
-        if (existingEvent.notes !== updatedEvent.notes) {
-          changes.push(`Notes updated`);
-        }
+        const staffToNotify = getEventChangeRecipients(updatedEvent);
+        console.log(`📋 Event is ${eventStatus.toUpperCase()} - notifying ${staffToNotify.length} staff`);
         
-        if (changes.length > 0) {
-          console.log(`✏️ Detected ${changes.length} change(s):`, changes);
-          
-          // Determine which staff to notify based on status
-          let staffToNotify: string[] = [];
-          
-          if (eventStatus === 'open') {
-            // Notify staff who are participating (signed up)
-            staffToNotify = updatedEvent.signedUpStaff || [];
-            console.log(`📋 Event is OPEN - notifying ${staffToNotify.length} participating staff`);
-          } else if (eventStatus === 'closed') {
-            // Notify staff who are selected (confirmed)
-            staffToNotify = updatedEvent.confirmedStaff || [];
-            console.log(`🔒 Event is CLOSED - notifying ${staffToNotify.length} selected staff`);
-          }
-          
-          if (staffToNotify.length > 0) {
-          // Check if Telegram is connected
-          const telegramSettings = await kv.get('telegram:settings');
-          
-          if (telegramSettings && telegramSettings.connected) {
-            console.log(`✈️ Telegram connected, sending update notifications to ${staffToNotify.length} staff members`);
-            
-            let notificationsSent = 0;
-            
-            for (let i = 0; i < staffToNotify.length; i++) {
-              const staffId = staffToNotify[i];
-              const staff = await kv.get(`user:${staffId}`);
-              
-              if (!staff) {
-                console.log(`  ⚠️ Staff member ${staffId} not found, skipping`);
-                continue;
-              }
-              
-              const chatId = staff.telegramChatId || staff.telegramUsername;
-              if (!chatId || chatId.trim() === '') {
-                console.log(`  ⚠️ ${staff.name}: No Telegram chat ID, skipping`);
-                continue;
-              }
-              
-              // Format the changes list
-              const changesText = changes.map((change, idx) => `${idx + 1}. ${change}`).join('\n');
-              
-              const telegramMessage = `📝 *Event Updated*
-
-Hello ${staff.name},
-
-An event you're ${eventStatus === 'open' ? 'signed up for' : 'selected for'} has been updated:
-
-*${updatedEvent.name}*
-
-*Changes Made:*
-${changesText}
-
-*Current Event Details:*
-📍 Location: ${updatedEvent.location}
-📆 Date: ${new Date(updatedEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-🕐 Time: ${updatedEvent.time}
-⏱️ Duration: ${updatedEvent.duration}
-⭐ Points: ${updatedEvent.points}
-
-Please make note of these changes. Log in to the app for full details.`;
-
-              const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-              
-              if (telegramResult.success) {
-                console.log(`  ✓ Update notification sent to ${staff.name}`);
-                notificationsSent++;
-              } else {
-                console.log(`  ✗ Failed to send update notification to ${staff.name}: ${telegramResult.error}`);
-              }
-              
-              // Rate limiting
-              if (i < staffToNotify.length - 1) {
-                await delay(600);
-              }
-            }
-            
-            console.log(`✅ Sent ${notificationsSent} update notification(s)`);
-          } else {
-            console.log(`✈️ Telegram not connected, skipping update notifications`);
-          }
-        } else {
-          console.log(`ℹ️ No staff to notify (event status: ${eventStatus})`);
-        }
-      } else {
+        await enqueueNotifications('event-updated', staffToNotify, { event: updatedEvent, changes });
+      } else if (notifyDetailChanges) {
         console.log(`ℹ️ No significant event detail changes detected, skipping detail update notifications`);
       }
     } else {
       console.log(`ℹ️ Event status is "draft", skipping update notifications`);
     }
-    } catch (notificationError) {
-      console.error('Error sending event update notifications:', notificationError);
-    }
-
-    return c.json({ success: true, event: updatedEvent });
-  } catch (error) {
-    console.error('Error updating event:', error);
-    return c.json({ error: 'Failed to update event' }, 500);
+  } catch (notificationError) {
+    console.error('Error queueing event update notifications:', notificationError);
   }
-});
 
-// Cancel event
-app.post("/make-server-08658f87/events/:id/cancel", async (c) => {
-  try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
+  return updatedEvent;
+};
+
+// Helper function to tell each staff member once about an edit to several occurrences of a series
+// Lists the dates of the occurrences they take part in, instead of one message per occurrence
+const notifySeriesChanges = async (existingEvents: any[], updatedEvents: any[], dayShift: number) => {
+  const byStaff = new Map<string, { event: any; changes: string[]; dates: string[] }>();
+
+  existingEvents.forEach((existingEvent, index) => {
+    const updatedEvent = updatedEvents[index];
+    // Each occurrence has its own "Date" line - the summary says how far they all moved instead
+    const changes = describeEventChanges(existingEvent, updatedEvent).filter(change => !change.startsWith('Date:'));
+    if (dayShift !== 0) {
+      changes.unshift(`Dates: moved ${dayShift > 0 ? 'later' : 'earlier'} by ${Math.abs(dayShift)} day${Math.abs(dayShift) !== 1 ? 's' : ''}`);
     }
+    if (changes.length === 0) return;
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    for (const staffId of getEventChangeRecipients(updatedEvent)) {
+      const entry = byStaff.get(staffId) || { event: updatedEvent, changes: [], dates: [] };
+      entry.changes.push(...changes.filter(change => !entry.changes.includes(change)));
+      entry.dates.push(updatedEvent.date);
+      byStaff.set(staffId, entry);
     }
+  });
+
+  if (byStaff.size === 0) {
+    console.log(`ℹ️ No significant series detail changes detected, skipping detail update notifications`);
+    return;
+  }
 
+  console.log(`✏️ Series edit - notifying ${byStaff.size} staff once each`);
+  await enqueueNotifications('event-updated', [...byStaff.keys()], (staffId: string) => {
+    const { event, changes, dates } = byStaff.get(staffId)!;
+    return { event, changes, occurrenceDates: dates.sort() };
+  });
+};
+
+// Update event
+app.put("/make-server-08658f87/events/:id", requirePermission('events:manage'), async (c) => {
+  try {
     const eventId = c.req.param('id');
+    const { scope, ...eventData } = await c.req.json();
+
+    if (eventData.timeZone && !isValidTimeZone(eventData.timeZone)) {
+      return c.json({ error: `Unknown time zone "${eventData.timeZone}"` }, 400);
+    }
 
     // Get existing event
     const existingEvent = await kv.get(`event:${eventId}`);
@@ -999,181 +1130,100 @@ app.post("/make-server-08658f87/events/:id/cancel", async (c) => {
       return c.json({ error: 'Event not found' }, 404);
     }
 
-    // Update event status to cancelled
-    const cancelledEvent = {
-      ...existingEvent,
-      status: 'cancelled'
-    };
+    // Series edits apply to the chosen occurrences - dates move by as many days as the edited occurrence moved
+    const targets = await getSeriesTargets(existingEvent, scope);
+    const dayShift = eventData.date ? daysBetween(existingEvent.date, eventData.date) : 0;
+    const endDateSpan = eventData.date && eventData.endDate ? daysBetween(eventData.date, eventData.endDate) : 0;
 
-    await kv.set(`event:${eventId}`, cancelledEvent);
+    const isSeriesEdit = targets.length > 1;
+    const updatedEvents = [];
+    for (const target of targets) {
+      const occurrenceData = target.id === eventId ? eventData : {
+        ...eventData,
+        date: addDaysToDate(target.date, dayShift),
+        endDate: eventData.endDate ? addDaysToDate(addDaysToDate(target.date, dayShift), endDateSpan) : eventData.endDate
+      };
+      updatedEvents.push(await applyEventUpdate(target, occurrenceData, !isSeriesEdit));
+    }
 
-    // Send notifications to participating staff members
-    try {
-      if (cancelledEvent.signedUpStaff && cancelledEvent.signedUpStaff.length > 0) {
-        console.log(`📧 Sending cancellation notifications for event: ${cancelledEvent.name}`);
-        
-        // Get all staff members who signed up
-        const allUsers = await kv.getByPrefix('user:');
-        const participatingStaff = allUsers.filter(u => 
-          cancelledEvent.signedUpStaff.includes(u.id)
-        );
+    if (isSeriesEdit) {
+      console.log(`🔁 Updated ${targets.length} occurrences of series ${existingEvent.seriesId} (scope: ${scope})`);
 
-        console.log(`Found ${participatingStaff.length} participating staff members`);
+      try {
+        await notifySeriesChanges(targets, updatedEvents, dayShift);
+      } catch (notificationError) {
+        console.error('Error queueing series update notifications:', notificationError);
+      }
+    }
 
-        // Send email notifications
-        let emailsSent = 0;
-        for (let i = 0; i < participatingStaff.length; i++) {
-          const staff = participatingStaff[i];
-          
-          const emailHtml = `
-            <!DOCTYPE html>
-            <html>
-            <head>
-              <style>
-                body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-                .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-                .header { background-color: #DC2626; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-                .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-                .event-details { background-color: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #DC2626; }
-                .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #6b7280; }
-              </style>
-            </head>
-            <body>
-              <div class="container">
-                <div class="header">
-                  <div style="text-align: center; margin-bottom: 10px;">
-                    <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
-                  </div>
-                  <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
-                  <h1>⚠️ Event Cancelled</h1>
-                </div>
-                <div class="content">
-                  <p>Hello ${staff.name},</p>
-                  
-                  <p>We regret to inform you that the following event has been cancelled:</p>
-                  
-                  <div class="event-details">
-                    <h2 style="margin-top: 0; color: #DC2626;">${cancelledEvent.name}</h2>
-                    <p><strong>📅 Date:</strong> ${new Date(cancelledEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
-                    <p><strong>🕐 Time:</strong> ${cancelledEvent.time}</p>
-                    <p><strong>📍 Location:</strong> ${cancelledEvent.location}</p>
-                  </div>
-                  
-                  <p>We apologize for any inconvenience this may cause. Please check the app for other upcoming events you can participate in.</p>
-                  
-                  <div class="footer">
-                    <p>If you have any questions, please contact the administration team.</p>
-                  </div>
-                </div>
-              </div>
-            </body>
-            </html>
-          `;
-
-          try {
-            const resendApiKey = Deno.env.get('RESEND_API_KEY');
-            if (resendApiKey) {
-              const emailResponse = await fetch('https://api.resend.com/emails', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${resendApiKey}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  from: 'Nahky Araby Event Hub <onboarding@resend.dev>',
-                  to: staff.email,
-                  subject: `Event Cancelled: ${cancelledEvent.name}`,
-                  html: emailHtml,
-                }),
-              });
-
-              if (emailResponse.ok) {
-                emailsSent++;
-                console.log(`  ✓ Email sent to ${staff.name} (${staff.email})`);
-              } else {
-                console.log(`  ✗ Failed to send email to ${staff.name}`);
-              }
-            }
-          } catch (emailError) {
-            console.error(`Error sending email to ${staff.name}:`, emailError);
-          }
+    const updatedEvent = updatedEvents.find(e => e.id === eventId);
 
-          // Rate limiting: Wait 600ms between emails
-          if (i < participatingStaff.length - 1) {
-            await delay(600);
-          }
-        }
+    return c.json({ success: true, event: updatedEvent, events: updatedEvents });
+  } catch (error) {
+    console.error('Error updating event:', error);
+    return c.json({ error: 'Failed to update event' }, 500);
+  }
+});
 
-        console.log(`✅ Sent ${emailsSent} cancellation emails`);
+// Helper function to cancel a single event (or one occurrence of a series)
+// Queues notifications for signed-up and waitlisted staff, then removes them all from the event
+const cancelSingleEvent = async (existingEvent: any) => {
+  const eventId = existingEvent.id;
+
+  // Update event status to cancelled
+  const cancelledEvent = {
+    ...existingEvent,
+    status: 'cancelled'
+  };
+
+  const slots = [cancelledEvent, ...(hasShifts(cancelledEvent) ? cancelledEvent.shifts : [])];
+  const affectedStaff = Array.from(new Set<string>(
+    slots.flatMap((slot: any) => [...(slot.signedUpStaff || []), ...(slot.waitlistedStaff || [])])
+  ));
+
+  if (affectedStaff.length > 0) {
+    // The notifications carry their own copy of the event, so participants can be removed straight away
+    await enqueueNotifications('event-cancelled', affectedStaff, { event: { ...cancelledEvent } });
+    console.log(`🔄 Removing all ${affectedStaff.length} signed-up and waitlisted staff from cancelled event`);
+  }
 
-        // Send Telegram notifications
-        const telegramSettings = await kv.get('telegram:settings');
-        console.log(`✈️ Telegram settings for cancellation:`, telegramSettings ? { connected: telegramSettings.connected, botName: telegramSettings.botName } : 'NOT CONFIGURED');
-        
-        if (telegramSettings && telegramSettings.connected) {
-          console.log(`✈️ Telegram is connected, sending cancellation notifications to ${participatingStaff.length} staff members`);
-          
-          let telegramSentCount = 0;
-          for (let i = 0; i < participatingStaff.length; i++) {
-            const staff = participatingStaff[i];
-            
-            // Check if staff member has a Telegram chat ID (check both fields for backwards compatibility)
-            const chatId = staff.telegramChatId || staff.telegramUsername;
-            if (!chatId || chatId.trim() === '') {
-              console.log(`  ⚠️ ${staff.name}: No Telegram chat ID on file, skipping Telegram`);
-              continue;
-            }
-            
-            console.log(`  📤 Attempting to send Telegram to ${staff.name} (Chat ID: ${chatId})...`);
-            
-            // Format Telegram message
-            const telegramMessage = `⚠️ *Event Cancelled*
+  cancelledEvent.signedUpStaff = [];
+  cancelledEvent.waitlistedStaff = [];
+  if (hasShifts(cancelledEvent)) {
+    cancelledEvent.shifts = cancelledEvent.shifts.map((shift: any) => ({ ...shift, signedUpStaff: [], waitlistedStaff: [] }));
+  }
 
-Hello ${staff.name},
+  await kv.set(`event:${eventId}`, cancelledEvent);
 
-We regret to inform you that the following event has been cancelled:
+  return cancelledEvent;
+};
 
-📅 *${cancelledEvent.name}*
-📍 Location: ${cancelledEvent.location}
-📆 Date: ${new Date(cancelledEvent.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-🕐 Time: ${cancelledEvent.time}${cancelledEvent.description ? `
+// Cancel event
+app.post("/make-server-08658f87/events/:id/cancel", requirePermission('events:manage'), async (c) => {
+  try {
+    const eventId = c.req.param('id');
+    // Body is optional - only series cancellations send a scope
+    const { scope } = await c.req.json().catch(() => ({ scope: undefined }));
 
-📝 Description: ${cancelledEvent.description}` : ''}${cancelledEvent.notes ? `
+    // Get existing event
+    const existingEvent = await kv.get(`event:${eventId}`);
+    if (!existingEvent) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
 
-💬 Notes: ${cancelledEvent.notes}` : ''}
+    const targets = await getSeriesTargets(existingEvent, scope);
+    const cancelledEvents = [];
+    for (const target of targets) {
+      cancelledEvents.push(await cancelSingleEvent(target));
+    }
 
-We apologize for any inconvenience. Please check the app for other upcoming events you can participate in.`;
-            
-            const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-            
-            if (telegramResult.success) {
-              console.log(`  ✓ Telegram sent successfully to ${staff.name} (${chatId})`);
-              telegramSentCount++;
-            } else {
-              console.log(`  ✗ Failed to send Telegram to ${staff.name} (${chatId}): ${telegramResult.error}`);
-            }
-            
-            // Rate limiting: Wait 600ms between messages
-            if (i < participatingStaff.length - 1) {
-              await delay(600);
-            }
-          }
-          
-          console.log(`✅ Finished sending Telegram cancellation notifications: ${telegramSentCount} sent successfully`);
-        }
-        
-        // After sending all notifications, remove all participants from the event
-        console.log(`🔄 Removing all ${cancelledEvent.signedUpStaff.length} participants from cancelled event`);
-        cancelledEvent.signedUpStaff = [];
-        await kv.set(`event:${eventId}`, cancelledEvent);
-        console.log(`✅ All participants removed from event`);
-      }
-    } catch (notificationError) {
-      console.error('Error sending cancellation notifications:', notificationError);
-      // Don't fail the cancellation if notifications fail
+    if (targets.length > 1) {
+      console.log(`🔁 Cancelled ${targets.length} occurrences of series ${existingEvent.seriesId} (scope: ${scope})`);
     }
 
-    return c.json({ success: true, event: cancelledEvent });
+    const cancelledEvent = cancelledEvents.find(e => e.id === eventId);
+
+    return c.json({ success: true, event: cancelledEvent, events: cancelledEvents });
   } catch (error) {
     console.error('Error cancelling event:', error);
     return c.json({ error: 'Failed to cancel event' }, 500);
@@ -1181,21 +1231,8 @@ We apologize for any inconvenience. Please check the app for other upcoming even
 });
 
 // Reinstate event
-app.post("/make-server-08658f87/events/:id/reinstate", async (c) => {
+app.post("/make-server-08658f87/events/:id/reinstate", requirePermission('events:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const eventId = c.req.param('id');
 
     // Get existing event
@@ -1222,21 +1259,8 @@ app.post("/make-server-08658f87/events/:id/reinstate", async (c) => {
 });
 
 // Delete event
-app.delete("/make-server-08658f87/events/:id", async (c) => {
+app.delete("/make-server-08658f87/events/:id", requirePermission('events:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const eventId = c.req.param('id');
     await kv.del(`event:${eventId}`);
 
@@ -1247,256 +1271,717 @@ app.delete("/make-server-08658f87/events/:id", async (c) => {
   }
 });
 
-// ==================== STAFF ENDPOINTS ====================
-
-// Get all staff members
-app.get("/make-server-08658f87/staff", async (c) => {
+// Migrate events created before events carried a time zone and end time (admin only)
+// Their wall-clock date and time are read in the given time zone; the end time comes from the duration text
+app.post("/make-server-08658f87/events/migrate-times", requirePermission('events:manage'), async (c) => {
   try {
-    console.log('GET /staff - Fetching staff');
-    const authHeader = c.req.header('Authorization');
-    console.log('GET /staff - Auth header:', authHeader ? authHeader.substring(0, 30) + '...' : 'MISSING');
-    
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      console.error('GET /staff - Auth failed:', authError);
-      return c.json({ error: authError || 'Unauthorized' }, 401);
+    const { timeZone } = await c.req.json();
+    if (!timeZone || !isValidTimeZone(timeZone)) {
+      return c.json({ error: `Unknown time zone "${timeZone}"` }, 400);
     }
 
-    const users = await kv.getByPrefix('user:');
-    const staff = users.filter(u => u.role === 'staff' || !u.role);
-    console.log('GET /staff - Fetched', staff.length, 'staff members');
-    
-    return c.json({ staff });
+    const allEvents = await kv.getByPrefix('event:');
+    const migratedEvents = allEvents
+      .filter(e => !e.startsAt || !e.endsAt || !e.timeZone)
+      .map(e => withEventTimes({ ...e, timeZone: e.timeZone || timeZone }));
+
+    if (migratedEvents.length > 0) {
+      await kv.mset(migratedEvents.map(e => `event:${e.id}`), migratedEvents);
+    }
+
+    console.log(`🕐 Migrated ${migratedEvents.length} events to structured times (${timeZone})`);
+
+    const migratedIds = new Set(migratedEvents.map(e => e.id));
+    const events = [...allEvents.filter(e => !migratedIds.has(e.id)), ...migratedEvents];
+
+    return c.json({ success: true, events, migratedCount: migratedEvents.length });
   } catch (error) {
-    console.error('Error fetching staff:', error);
-    return c.json({ error: 'Failed to fetch staff' }, 500);
+    console.error('Error migrating event times:', error);
+    return c.json({ error: 'Failed to migrate event times' }, 500);
   }
 });
 
-// Invite new staff member (admin only)
-app.post("/make-server-08658f87/staff/invite", async (c) => {
+// ==================== EVENT TEMPLATE ENDPOINTS ====================
+
+// Helper function to pick the reusable event fields for a template
+// Templates hold defaults only - dates, status and staff lists belong to real events
+const normalizeTemplate = (data: any) => ({
+  name: data.name,
+  eventName: data.eventName || '',
+  time: data.time || '',
+  endTime: data.endTime || '',
+  timeZone: data.timeZone || '',
+  duration: data.duration || '',
+  location: data.location || '',
+  description: data.description || '',
+  notes: data.notes || '',
+  points: Number(data.points) || 0,
+  capacity: Number(data.capacity) || 0,
+  requiredLevel: data.requiredLevel || '',
+  awardCheckedInOnly: !!data.awardCheckedInOnly,
+  shifts: Array.isArray(data.shifts)
+    ? data.shifts.map((shift: any) => ({
+        name: shift.name,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        headcount: Number(shift.headcount) || 0,
+        requiredLevel: shift.requiredLevel || '',
+        points: Number(shift.points) || 0
+      }))
+    : []
+});
+
+// Get all event templates
+app.get("/make-server-08658f87/templates", requirePermission('events:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
+    const templates = await kv.getByPrefix('template:');
+    templates.sort((a, b) => a.name.localeCompare(b.name));
+
+    return c.json({ templates });
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    return c.json({ error: 'Failed to fetch templates' }, 500);
+  }
+});
+
+// Create event template
+app.post("/make-server-08658f87/templates", requirePermission('events:manage'), async (c) => {
+  try {
+    const templateData = await c.req.json();
+
+    if (!templateData.name || !templateData.name.trim()) {
+      return c.json({ error: 'Template name is required' }, 400);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    const templates = await kv.getByPrefix('template:');
+    if (templates.some((t: any) => t.name.toLowerCase() === templateData.name.trim().toLowerCase())) {
+      return c.json({ error: 'A template with this name already exists' }, 400);
     }
 
-    const { email, name, phone, appUrl } = await c.req.json();
+    const now = new Date().toISOString();
+    const template = {
+      id: `${Date.now()}`,
+      ...normalizeTemplate({ ...templateData, name: templateData.name.trim() }),
+      createdAt: now,
+      updatedAt: now
+    };
 
-    if (!email || !name) {
-      return c.json({ error: 'Email and name are required' }, 400);
+    await kv.set(`template:${template.id}`, template);
+
+    return c.json({ success: true, template });
+  } catch (error) {
+    console.error('Error creating template:', error);
+    return c.json({ error: 'Failed to create template' }, 500);
+  }
+});
+
+// Update event template
+app.put("/make-server-08658f87/templates/:id", requirePermission('events:manage'), async (c) => {
+  try {
+    const templateId = c.req.param('id');
+    const existingTemplate = await kv.get(`template:${templateId}`);
+    if (!existingTemplate) {
+      return c.json({ error: 'Template not found' }, 404);
     }
 
-    // Check if email already exists
-    const existingUsers = await kv.getByPrefix('user:');
-    const emailExists = existingUsers.some(u => u.email === email);
-    
-    if (emailExists) {
-      return c.json({ error: 'A staff member with this email already exists' }, 400);
+    const templateData = await c.req.json();
+    const name = (templateData.name ?? existingTemplate.name).trim();
+
+    if (!name) {
+      return c.json({ error: 'Template name is required' }, 400);
     }
 
-    // Generate temporary password
-    const tempPassword = `temp${Math.random().toString(36).slice(2, 10)}`;
+    const templates = await kv.getByPrefix('template:');
+    if (templates.some((t: any) => t.id !== templateId && t.name.toLowerCase() === name.toLowerCase())) {
+      return c.json({ error: 'A template with this name already exists' }, 400);
+    }
 
-    const supabase = getSupabaseAdmin();
+    const template = {
+      ...existingTemplate,
+      ...normalizeTemplate({ ...existingTemplate, ...templateData, name }),
+      updatedAt: new Date().toISOString()
+    };
 
-    // Create user in Supabase Auth
-    const { data: authData, error: signupError } = await supabase.auth.admin.createUser({
-      email,
-      password: tempPassword,
-      user_metadata: { 
-        name,
-        role: 'staff',
-        points: 0,
-        level: ''
-      },
-      // Automatically confirm the user's email since an email server hasn't been configured.
-      email_confirm: true
-    });
+    await kv.set(`template:${templateId}`, template);
 
-    if (signupError) {
-      console.error('Error creating staff user:', signupError);
-      return c.json({ error: signupError.message }, 400);
+    return c.json({ success: true, template });
+  } catch (error) {
+    console.error('Error updating template:', error);
+    return c.json({ error: 'Failed to update template' }, 500);
+  }
+});
+
+// Delete event template
+app.delete("/make-server-08658f87/templates/:id", requirePermission('events:manage'), async (c) => {
+  try {
+    const templateId = c.req.param('id');
+    const template = await kv.get(`template:${templateId}`);
+    if (!template) {
+      return c.json({ error: 'Template not found' }, 404);
     }
 
-    const staffMember = {
-      id: authData.user.id,
-      email,
-      name,
-      phone: phone || '',
-      points: 0,
-      level: '',
-      status: 'pending',
-      role: 'staff',
-      createdAt: new Date().toISOString()
-    };
+    await kv.del(`template:${templateId}`);
 
-    await kv.set(`user:${authData.user.id}`, staffMember);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    return c.json({ error: 'Failed to delete template' }, 500);
+  }
+});
 
-    // Send invitation email
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-          .credentials { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10B981; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
-          .credential-row { margin: 15px 0; }
-          .credential-label { color: #6B7280; font-size: 14px; margin-bottom: 5px; }
-          .credential-value { background-color: #F3F4F6; padding: 10px 15px; border-radius: 6px; font-family: monospace; font-size: 16px; color: #1F2937; border: 1px solid #E5E7EB; }
-          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
-          .warning-box { background-color: #FEF3C7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #F59E0B; }
-          .info-box { background-color: #EFF6FF; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #3B82F6; }
-          .arabic-section { direction: rtl; text-align: right; }
-          .divider { border-top: 2px solid #E5E7EB; margin: 40px 0; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div style="text-align: center; margin-bottom: 10px;">
-              <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
-            </div>
-            <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
-            <h1>بريد الدعوة</h1>
+// ==================== INVITATION LINKS ====================
+
+// Invitations and admin password resets are sent as one-time links to <app>/?invite=<token> or ?reset=<token>.
+// A token is `<id>.<signature>`: the id names the `invitation:<id>` record and the signature (keyed with the
+// service role key) stops ids from being guessed. The staff member keeps a copy as `invitation` so admins
+// can follow it - sent, opened, accepted, expired or revoked. Each staff member has at most one link at a time
+const INVITATION_PURPOSES: Record<string, { ttlHours: number; param: string; expiresIn: { en: string; ar: string } }> = {
+  invite: { ttlHours: 7 * 24, param: 'invite', expiresIn: { en: '7 days', ar: '7 أيام' } },
+  reset: { ttlHours: 24, param: 'reset', expiresIn: { en: '24 hours', ar: '24 ساعة' } },
+};
+
+// Helper function to create a random hex token
+const createRandomToken = (byteLength: number) => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const signInvitationId = (id: string) => signHmacSha256(Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', `invitation:${id}`);
+
+// Links past their expiry are still stored as sent or opened - report them as expired
+const getInvitationStatus = (invitation: any) =>
+  (invitation.status === 'sent' || invitation.status === 'opened') && invitation.expiresAt < new Date().toISOString()
+    ? 'expired'
+    : invitation.status;
+
+const withInvitationStatus = (staff: any) =>
+  staff.invitation ? { ...staff, invitation: { ...staff.invitation, status: getInvitationStatus(staff.invitation) } } : staff;
+
+// Calendar feed and Telegram link tokens are secret - they are only handed out to the staff member
+const getStaffListEntry = ({ calendarToken, telegramLinkToken, ...staffMember }: any) => withInvitationStatus(staffMember);
+
+// Helper function to build the invitation email
+const buildInvitationEmail = (name: string, email: string, link: string, expiresIn: { en: string; ar: string }) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .credentials { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10B981; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
+        .credential-row { margin: 15px 0; }
+        .credential-label { color: #6B7280; font-size: 14px; margin-bottom: 5px; }
+        .credential-value { background-color: #F3F4F6; padding: 10px 15px; border-radius: 6px; font-family: monospace; font-size: 16px; color: #1F2937; border: 1px solid #E5E7EB; }
+        .button { display: inline-block; background-color: #10B981; color: white !important; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: bold; }
+        .link-fallback { color: #6B7280; font-size: 13px; word-break: break-all; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+        .warning-box { background-color: #FEF3C7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #F59E0B; }
+        .info-box { background-color: #EFF6FF; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #3B82F6; }
+        .arabic-section { direction: rtl; text-align: right; }
+        .divider { border-top: 2px solid #E5E7EB; margin: 40px 0; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div style="text-align: center; margin-bottom: 10px;">
+            <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
           </div>
-          <div class="content arabic-section">
-            <h2>مرحبا بكم في تطبيق مركز فعاليات نحكي عربي!</h2>
-            <h3>مرحبا ${name}،</h3>
-            <p>لقد تمت دعوتك للانضمام إلى منصّة إدارة الموظفين. سيساعدك هذا التطبيق على تنظيم مشاركاتك في الفعاليات ومتابعة تقدّمك.</p>
-            
-            <div class="credentials">
-              <h3 style="margin-top: 0; color: #10B981;">🔐 بيانات الدخول الخاصة بك</h3>
-              <div class="credential-row">
-                <div class="credential-label">اسم المستخدم (البريد الإلكتروني)</div>
-                <div class="credential-value" style="direction: ltr; text-align: left;">${email}</div>
-              </div>
-              <div class="credential-row">
-                <div class="credential-label">كلمة المرور المؤقتة</div>
-                <div class="credential-value" style="direction: ltr; text-align: left;">${tempPassword}</div>
-              </div>
-            </div>
-            
-            <div class="warning-box">
-              <strong>⚠️ تنبيه مهم – أول تسجيل دخول</strong>
-              <p style="margin: 10px 0 0 0;">عند تسجيل الدخول للمرة الأولى باستخدام هذه البيانات، سيُطلب منك إنشاء كلمة مرور جديدة وآمنة قبل الوصول إلى حسابك.</p>
-            </div>
-            
-            <div class="info-box">
-              <h3 style="margin-top: 0;">📋 الخطوات التالية</h3>
-              <ol style="margin: 10px 0; padding-right: 20px;">
-                <li>زيارة صفحة تسجيل الدخول لتطبيق إدارة الموظفين</li>
-                <li>إدخال بريدك الإلكتروني وكلمة المرور المؤقتة</li>
-                <li>إنشاء كلمة مرور جديدة وآمنة</li>
-                <li>البدء بإدارة فعالياتك وتتبع تقدّمك!</li>
-              </ol>
-            </div>
-            
-            <div class=\"info-box\" style=\"background-color: #DBEAFE;\">
-              <h3 style=\"margin-top: 0;\">✈️ إعداد إشعارات تيليغرام</h3>
-              <p style=\"margin: 10px 0;\">ابقَ على اطّلاع دائم بالفعاليات الجديدة والتنبيهات المهمة عبر تيليغرام:</p>
-              <ol style=\"margin: 10px 0; padding-left: 20px;\">
-                <li><strong>حمّل تطبيق تيليغرام</strong> وأنشئ حسابًا</li>
-                <li><strong>ابحث عن: "nahkyaraby_bot@"</strong> ثم اضغط "Start"</li>
-                <li><strong>تواصل مع المشرف</strong> لتأكيد اكتمال الإعداد</li>
-              </ol>
-              <p style=\"margin: 10px 0 0 0; font-size: 14px; color: #6B7280;\">ملاحظة: إعداد تيليغرام اختياري ولكنه موصى به بشدة للحصول على إشعارات فورية حول الفعاليات والتحديثات.</p>
+          <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
+          <h1>بريد الدعوة</h1>
+        </div>
+        <div class="content arabic-section">
+          <h2>مرحبا بكم في تطبيق مركز فعاليات نحكي عربي!</h2>
+          <h3>مرحبا ${name}،</h3>
+          <p>لقد تمت دعوتك للانضمام إلى منصّة إدارة الموظفين. سيساعدك هذا التطبيق على تنظيم مشاركاتك في الفعاليات ومتابعة تقدّمك.</p>
+          
+          <div class="credentials">
+            <h3 style="margin-top: 0; color: #10B981;">🔐 إعداد حسابك</h3>
+            <div class="credential-row">
+              <div class="credential-label">اسم المستخدم (البريد الإلكتروني)</div>
+              <div class="credential-value" style="direction: ltr; text-align: left;">${email}</div>
             </div>
-            
-            <p>لأي استفسار، يرجى التواصل مع المشرف.</p>
+            <p style="text-align: center; margin: 25px 0 10px 0;"><a href="${link}" class="button">إنشاء كلمة المرور</a></p>
           </div>
           
-          <div class="divider"></div>
+          <div class="warning-box">
+            <strong>⚠️ تنبيه مهم – رابط لمرة واحدة</strong>
+            <p style="margin: 10px 0 0 0;">هذا الرابط خاص بك ويعمل مرة واحدة فقط، وتنتهي صلاحيته خلال ${expiresIn.ar}. إذا انتهت صلاحيته، اطلب من المشرف إرسال دعوة جديدة.</p>
+          </div>
           
-          <div class="content">
-            <h2>Welcome to Our Platform!</h2>
-            <h3>Hello ${name},</h3>
-            <p>You've been invited to join Nahky Araby Event Hub. This app will help you manage your event participation and track your progress.</p>
-            
-            <div class="credentials">
-              <h3 style="margin-top: 0; color: #10B981;">🔐 Your Login Credentials</h3>
-              <div class="credential-row">
-                <div class="credential-label">Username (Email)</div>
-                <div class="credential-value">${email}</div>
-              </div>
-              <div class="credential-row">
-                <div class="credential-label">Temporary Password</div>
-                <div class="credential-value">${tempPassword}</div>
-              </div>
-            </div>
-            
-            <div class="warning-box">
-              <strong>⚠️ Important - First Login</strong>
-              <p style="margin: 10px 0 0 0;">When you first log in with these credentials, you will be required to set up a new secure password before accessing your account.</p>
-            </div>
-            
-            <div class="info-box">
-              <h3 style="margin-top: 0;">📋 Next Steps</h3>
-              <ol style="margin: 10px 0; padding-left: 20px;">
-                <li>Visit Nahky Araby Event Hub login page</li>
-                <li>Enter your email and temporary password</li>
-                <li>Create a new secure password</li>
-                <li>Start managing your events and tracking your progress!</li>
-              </ol>
-            </div>
-            
-            <div class="info-box" style="background-color: #DBEAFE;">
-              <h3 style=\\\"margin-top: 0;\\\">✈️ Setting Up Telegram Notifications</h3>
-              <p style=\\\"margin: 10px 0;\\\">Stay updated on new events and important notifications via Telegram:</p>
-              <ol style=\\\"margin: 10px 0; padding-right: 20px;\\\">
-                <li><strong>Download Telegram</strong> and sign up for an account</li>
-                <li><strong>Search for "@nahkyaraby_bot"</strong> and click the "Start" button</li>
-                <li><strong>Contact the admin</strong> and confirm that the setup is completed</li>
-              </ol>
-              <p style=\\\"margin: 10px 0 0 0; font-size: 14px; color: #6B7280;\\\">Note: Setting up Telegram is optional but highly recommended to receive real-time notifications about new events and updates.</p>
-            </div>
-            
-            <p>If you have any questions, please contact your administrator.</p>
+          <div class="info-box">
+            <h3 style="margin-top: 0;">📋 الخطوات التالية</h3>
+            <ol style="margin: 10px 0; padding-right: 20px;">
+              <li>الضغط على زر "إنشاء كلمة المرور" أعلاه</li>
+              <li>إنشاء كلمة مرور جديدة وآمنة</li>
+              <li>البدء بإدارة فعالياتك وتتبع تقدّمك!</li>
+            </ol>
           </div>
-          <div class="footer">
-            <p>هذه رسالة آلية — يرجى عدم الرد على هذا البريد.<br>This is an automated message. Please do not reply to this email.</p>
+          
+          <div class=\"info-box\" style=\"background-color: #DBEAFE;\">
+            <h3 style=\"margin-top: 0;\">✈️ إعداد إشعارات تيليغرام</h3>
+            <p style=\"margin: 10px 0;\">ابقَ على اطّلاع دائم بالفعاليات الجديدة والتنبيهات المهمة عبر تيليغرام:</p>
+            <ol style=\"margin: 10px 0; padding-left: 20px;\">
+              <li><strong>حمّل تطبيق تيليغرام</strong> وأنشئ حسابًا</li>
+              <li><strong>ابحث عن: "nahkyaraby_bot@"</strong> ثم اضغط "Start"</li>
+              <li><strong>تواصل مع المشرف</strong> لتأكيد اكتمال الإعداد</li>
+            </ol>
+            <p style=\"margin: 10px 0 0 0; font-size: 14px; color: #6B7280;\">ملاحظة: إعداد تيليغرام اختياري ولكنه موصى به بشدة للحصول على إشعارات فورية حول الفعاليات والتحديثات.</p>
           </div>
+          
+          <p>لأي استفسار، يرجى التواصل مع المشرف.</p>
         </div>
-      </body>
-      </html>
-    `;
+        
+        <div class="divider"></div>
+        
+        <div class="content">
+          <h2>Welcome to Our Platform!</h2>
+          <h3>Hello ${name},</h3>
+          <p>You've been invited to join Nahky Araby Event Hub. This app will help you manage your event participation and track your progress.</p>
+          
+          <div class="credentials">
+            <h3 style="margin-top: 0; color: #10B981;">🔐 Set Up Your Account</h3>
+            <div class="credential-row">
+              <div class="credential-label">Username (Email)</div>
+              <div class="credential-value">${email}</div>
+            </div>
+            <p style="text-align: center; margin: 25px 0 10px 0;"><a href="${link}" class="button">Set Up Your Password</a></p>
+            <p class="link-fallback">If the button doesn't work, copy this link into your browser:<br>${link}</p>
+          </div>
+          
+          <div class="warning-box">
+            <strong>⚠️ Important - This Link Works Once</strong>
+            <p style="margin: 10px 0 0 0;">This link is personal, can only be used once and expires in ${expiresIn.en}. If it has expired, ask your administrator to send a new invitation.</p>
+          </div>
+          
+          <div class="info-box">
+            <h3 style="margin-top: 0;">📋 Next Steps</h3>
+            <ol style="margin: 10px 0; padding-left: 20px;">
+              <li>Click "Set Up Your Password" above</li>
+              <li>Create a new secure password</li>
+              <li>Start managing your events and tracking your progress!</li>
+            </ol>
+          </div>
+          
+          <div class="info-box" style="background-color: #DBEAFE;">
+            <h3 style=\\\"margin-top: 0;\\\">✈️ Setting Up Telegram Notifications</h3>
+            <p style=\\\"margin: 10px 0;\\\">Stay updated on new events and important notifications via Telegram:</p>
+            <ol style=\\\"margin: 10px 0; padding-right: 20px;\\\">
+              <li><strong>Download Telegram</strong> and sign up for an account</li>
+              <li><strong>Search for "@nahkyaraby_bot"</strong> and click the "Start" button</li>
+              <li><strong>Contact the admin</strong> and confirm that the setup is completed</li>
+            </ol>
+            <p style=\\\"margin: 10px 0 0 0; font-size: 14px; color: #6B7280;\\\">Note: Setting up Telegram is optional but highly recommended to receive real-time notifications about new events and updates.</p>
+          </div>
+          
+          <p>If you have any questions, please contact your administrator.</p>
+        </div>
+        <div class="footer">
+          <p>هذه رسالة آلية — يرجى عدم الرد على هذا البريد.<br>This is an automated message. Please do not reply to this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+// Helper function to build the password reset email
+const buildPasswordResetEmail = (name: string, email: string, link: string, expiresIn: { en: string; ar: string }) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .credentials { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #F59E0B; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
+        .credential-row { margin: 15px 0; }
+        .credential-label { color: #6B7280; font-size: 14px; margin-bottom: 5px; }
+        .credential-value { background-color: #F3F4F6; padding: 10px 15px; border-radius: 6px; font-family: monospace; font-size: 16px; color: #1F2937; border: 1px solid #E5E7EB; }
+        .button { display: inline-block; background-color: #F59E0B; color: white !important; padding: 12px 28px; border-radius: 6px; text-decoration: none; font-weight: bold; }
+        .link-fallback { color: #6B7280; font-size: 13px; word-break: break-all; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+        .warning-box { background-color: #FEF3C7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #F59E0B; }
+        .info-box { background-color: #EFF6FF; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #3B82F6; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div style="text-align: center; margin-bottom: 10px;">
+            <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
+          </div>
+          <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
+          <h1>Password Reset</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${name},</h2>
+          <p>An administrator has sent you a link to choose a new password. Your current password keeps working until you do.</p>
+          
+          <div class="credentials">
+            <h3 style="margin-top: 0; color: #F59E0B;">🔐 Choose a New Password</h3>
+            <div class="credential-row">
+              <div class="credential-label">Username (Email)</div>
+              <div class="credential-value">${email}</div>
+            </div>
+            <p style="text-align: center; margin: 25px 0 10px 0;"><a href="${link}" class="button">Choose a New Password</a></p>
+            <p class="link-fallback">If the button doesn't work, copy this link into your browser:<br>${link}</p>
+          </div>
+          
+          <div class="warning-box">
+            <strong>⚠️ Important - This Link Works Once</strong>
+            <p style="margin: 10px 0 0 0;">This link is personal, can only be used once and expires in ${expiresIn.en}. If it has expired, ask your administrator to send a new one.</p>
+          </div>
+          
+          <p>If you didn't request this password reset, please contact your administrator immediately.</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated message. Please do not reply to this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+// Helper function to create a new link for a staff member, replacing any previous one, and email it
+// Returns the link too, for the admin to share by hand when the email doesn't reach them
+const sendInvitationLink = async (staff: any, purpose: 'invite' | 'reset', appUrl: string) => {
+  const { ttlHours, param, expiresIn } = INVITATION_PURPOSES[purpose];
+  const id = createRandomToken(16);
+  const token = `${id}.${await signInvitationId(id)}`;
+  const link = `${appUrl.replace(/\/+$/, '')}/?${param}=${token}`;
+
+  if (staff.invitation) {
+    await kv.del(`invitation:${staff.invitation.id}`);
+  }
+
+  const sentAt = new Date();
+  const expiresAt = new Date(sentAt.getTime() + ttlHours * 60 * 60 * 1000).toISOString();
+  const invitation = {
+    id,
+    purpose,
+    status: 'sent',
+    sentAt: sentAt.toISOString(),
+    expiresAt,
+    openedAt: null,
+    acceptedAt: null,
+    revokedAt: null
+  };
+  const updatedStaff = { ...staff, invitation };
+  await kv.set(`invitation:${id}`, { id, userId: staff.id, purpose, appUrl, createdAt: invitation.sentAt, expiresAt });
+  await kv.set(`user:${staff.id}`, updatedStaff);
+
+  const emailResult = purpose === 'invite'
+    ? await sendEmail(staff.email, 'Welcome to Nahky Araby Event Hub - Your Invitation', buildInvitationEmail(staff.name, staff.email, link, expiresIn))
+    : await sendEmail(staff.email, 'Password Reset - Nahky Araby Event Hub', buildPasswordResetEmail(staff.name, staff.email, link, expiresIn));
+
+  console.log(`✉️ ${purpose === 'invite' ? 'Invitation' : 'Password reset'} link for ${staff.name} expires ${expiresAt}`);
+  return { staff: getStaffListEntry(updatedStaff), link, emailResult };
+};
+
+type InvitationLookup =
+  | { error: string; status: 404 | 410 }
+  | { invitation: any; staff: any };
+
+// Helper function to look up the link a token belongs to
+// Returns { invitation, staff } while it can be used, or { error, status } to show the person who opened it
+const findInvitation = async (token: string): Promise<InvitationLookup> => {
+  const invalid: InvitationLookup = { error: 'This link is not valid. It may already have been used - ask an admin to send a new one.', status: 404 };
+  const [id, signature] = token.split('.');
+  if (!id || !signature || !timingSafeEqual(await signInvitationId(id), signature)) {
+    return invalid;
+  }
+
+  const invitation = await kv.get(`invitation:${id}`);
+  const staff = invitation ? await kv.get(`user:${invitation.userId}`) : null;
+  if (!invitation || !staff || staff.invitation?.id !== id) {
+    return invalid;
+  }
+
+  if (getInvitationStatus(staff.invitation) === 'expired') {
+    return { error: 'This link has expired. Ask an admin to send a new one.', status: 410 };
+  }
+
+  return { invitation, staff };
+};
+
+// Open an invitation or password reset link (public - the token is the credential)
+app.get("/make-server-08658f87/invitations/:token", async (c) => {
+  try {
+    const result = await findInvitation(c.req.param('token'));
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    const { invitation, staff } = result;
+    if (staff.invitation.status === 'sent') {
+      await kv.set(`user:${staff.id}`, {
+        ...staff,
+        invitation: { ...staff.invitation, status: 'opened', openedAt: new Date().toISOString() }
+      });
+    }
+
+    return c.json({
+      purpose: invitation.purpose,
+      email: staff.email,
+      name: staff.name,
+      expiresAt: invitation.expiresAt
+    });
+  } catch (error) {
+    console.error('Error opening invitation:', error);
+    return c.json({ error: 'Failed to open link' }, 500);
+  }
+});
+
+// Choose a password through an invitation or password reset link, and sign in
+app.post("/make-server-08658f87/invitations/:token/accept", async (c) => {
+  try {
+    const { newPassword } = await c.req.json();
+
+    if (!newPassword || newPassword.length < 6) {
+      return c.json({ error: 'Password must be at least 6 characters long' }, 400);
+    }
+
+    const result = await findInvitation(c.req.param('token'));
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    const { invitation, staff } = result;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    // Update the password using admin client
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(staff.id, { password: newPassword });
+
+    if (updateError) {
+      console.error('Error updating password:', updateError);
+      return c.json({ error: updateError.message || 'Failed to update password' }, 400);
+    }
+
+    // Links work once
+    const acceptedStaff = {
+      ...staff,
+      status: 'active',
+      invitation: { ...staff.invitation, status: 'accepted', acceptedAt: new Date().toISOString() }
+    };
+    await kv.del(`invitation:${invitation.id}`);
+    await kv.set(`user:${staff.id}`, acceptedStaff);
+    console.log(`✅ ${staff.name} chose a password through their ${invitation.purpose === 'invite' ? 'invitation' : 'password reset'} link`);
+
+    // Sign in with the new password to get a session
+    const supabase = getSupabaseClient();
+    const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+      email: staff.email,
+      password: newPassword,
+    });
+
+    if (signInError || !signInData.session) {
+      console.error('Error signing in with new password:', signInError);
+      // Password was updated but sign-in failed - user can still login manually
+      return c.json({ 
+        error: 'Password updated but automatic sign-in failed. Please log in with your new password.' 
+      }, 500);
+    }
+
+    return c.json({ 
+      success: true,
+      message: 'Password updated successfully',
+      accessToken: signInData.session.access_token,
+      user: acceptedStaff
+    });
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    return c.json({ error: 'Failed to set up password' }, 500);
+  }
+});
+
+// Send a new invitation link to a staff member who hasn't accepted theirs
+app.post("/make-server-08658f87/staff/:id/invitation", requirePermission('staff:manage'), async (c) => {
+  try {
+    const staff = await kv.get(`user:${c.req.param('id')}`);
+    if (!staff) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    if (staff.status !== 'pending') {
+      return c.json({ error: 'This staff member has already accepted their invitation' }, 400);
+    }
+
+    const { appUrl } = await c.req.json();
+    if (!appUrl) {
+      return c.json({ error: 'App URL is required for the invitation link' }, 400);
+    }
+
+    const { staff: invitedStaff, link, emailResult } = await sendInvitationLink(staff, 'invite', appUrl);
+
+    if (!emailResult.success || emailResult.captured) {
+      return c.json({
+        success: true,
+        staff: invitedStaff,
+        invitationLink: link,
+        emailSent: false,
+        isTestingMode: emailResult.isTestingMode || emailResult.captured || false
+      });
+    }
+
+    return c.json({ success: true, staff: invitedStaff, emailSent: true });
+  } catch (error) {
+    console.error('Error resending invitation:', error);
+    return c.json({ error: 'Failed to resend invitation' }, 500);
+  }
+});
+
+// Revoke a staff member's invitation or password reset link so it can no longer be used
+app.delete("/make-server-08658f87/staff/:id/invitation", requirePermission('staff:manage'), async (c) => {
+  try {
+    const staff = await kv.get(`user:${c.req.param('id')}`);
+    if (!staff) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    const status = staff.invitation ? getInvitationStatus(staff.invitation) : null;
+    if (status !== 'sent' && status !== 'opened') {
+      return c.json({ error: 'There is no open link to revoke' }, 400);
+    }
+
+    const revokedStaff = {
+      ...staff,
+      invitation: { ...staff.invitation, status: 'revoked', revokedAt: new Date().toISOString() }
+    };
+    await kv.del(`invitation:${staff.invitation.id}`);
+    await kv.set(`user:${staff.id}`, revokedStaff);
+
+    return c.json({ success: true, staff: getStaffListEntry(revokedStaff) });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    return c.json({ error: 'Failed to revoke link' }, 500);
+  }
+});
 
-    const emailResult = await sendEmail(
+// ==================== STAFF ENDPOINTS ====================
+
+// Get all staff members
+app.get("/make-server-08658f87/staff", async (c) => {
+  try {
+    console.log('GET /staff - Fetching staff');
+    const authHeader = c.req.header('Authorization');
+    console.log('GET /staff - Auth header:', authHeader ? authHeader.substring(0, 30) + '...' : 'MISSING');
+    
+    const { error: authError, user } = await verifyAuth(authHeader);
+    
+    if (authError || !user) {
+      console.error('GET /staff - Auth failed:', authError);
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+
+    const users = await kv.getByPrefix('user:');
+    const staff = users
+      .filter(u => u.role === 'staff' || !u.role)
+      .map(getStaffListEntry);
+    console.log('GET /staff - Fetched', staff.length, 'staff members');
+    
+    return c.json({ staff });
+  } catch (error) {
+    console.error('Error fetching staff:', error);
+    return c.json({ error: 'Failed to fetch staff' }, 500);
+  }
+});
+
+// Invite new staff member
+app.post("/make-server-08658f87/staff/invite", requirePermission('staff:manage'), async (c) => {
+  try {
+    const user = c.get('user');
+    const userData = c.get('userData');
+
+    const { email, name, phone, appUrl, role = 'staff' } = await c.req.json();
+
+    if (!email || !name) {
+      return c.json({ error: 'Email and name are required' }, 400);
+    }
+
+    if (!ROLE_PERMISSIONS[role]) {
+      return c.json({ error: 'Unknown role' }, 400);
+    }
+
+    // Only those who manage roles can bring in other admins, coordinators or viewers
+    if (role !== 'staff' && !hasPermission(userData.role, 'roles:manage')) {
+      return c.json({ error: 'You do not have permission to do this' }, 403);
+    }
+
+    if (!appUrl) {
+      return c.json({ error: 'App URL is required for the invitation link' }, 400);
+    }
+
+    // Check if email already exists
+    const existingUsers = await kv.getByPrefix('user:');
+    const emailExists = existingUsers.some(u => u.email === email);
+    
+    if (emailExists) {
+      return c.json({ error: 'A staff member with this email already exists' }, 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Create user in Supabase Auth - nobody learns this password, the staff member chooses their own through the invitation link
+    const { data: authData, error: signupError } = await supabase.auth.admin.createUser({
       email,
-      'Welcome to Nahky Araby Event Hub - Your Invitation',
-      emailHtml
-    );
+      password: createRandomToken(32),
+      user_metadata: { 
+        name,
+        role,
+        points: 0,
+        level: ''
+      },
+      // Automatically confirm the user's email since an email server hasn't been configured.
+      email_confirm: true
+    });
+
+    if (signupError) {
+      console.error('Error creating staff user:', signupError);
+      return c.json({ error: signupError.message }, 400);
+    }
+
+    const staffMember = {
+      id: authData.user.id,
+      email,
+      name,
+      phone: phone || '',
+      points: 0,
+      level: '',
+      status: 'pending',
+      role,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`user:${authData.user.id}`, staffMember);
+
+    const { staff: invitedStaff, link, emailResult } = await sendInvitationLink(staffMember, 'invite', appUrl);
 
-    if (!emailResult.success) {
+    // Captured emails never reach the staff member, so the admin gets the link to share by hand
+    if (!emailResult.success || emailResult.captured) {
       // User is created successfully, just email failed
       // This is expected in Resend testing mode
-      console.log('✅ Staff member created:', staffMember.name, '- Manual credentials provided (email in testing mode)');
+      console.log('✅ Staff member created:', staffMember.name, '- Invitation link provided (email in testing mode)');
       
       return c.json({ 
         success: true, 
-        staff: staffMember,
-        tempPassword,
+        staff: invitedStaff,
+        invitationLink: link,
         emailSent: false,
-        isTestingMode: emailResult.isTestingMode || false
+        isTestingMode: emailResult.isTestingMode || emailResult.captured || false
       });
     }
 
     return c.json({ 
       success: true, 
-      staff: staffMember,
-      tempPassword,
+      staff: invitedStaff,
       emailSent: true
     });
   } catch (error) {
@@ -1505,22 +1990,67 @@ app.post("/make-server-08658f87/staff/invite", async (c) => {
   }
 });
 
-// Update staff member (admin only)
-app.put("/make-server-08658f87/staff/:id", async (c) => {
+// Get everyone with access to the admin dashboard
+app.get("/make-server-08658f87/team", requirePermission('roles:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
+    const users = await kv.getByPrefix('user:');
+    const team = users
+      .filter(u => u.role && u.role !== 'staff')
+      .map(getStaffListEntry)
+      .sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+
+    return c.json({ team });
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    return c.json({ error: 'Failed to fetch team' }, 500);
+  }
+});
+
+// Change a user's role
+app.put("/make-server-08658f87/staff/:id/role", requirePermission('roles:manage'), async (c) => {
+  try {
+    const user = c.get('user');
+    const staffId = c.req.param('id');
+    const { role } = await c.req.json();
+
+    if (!ROLE_PERMISSIONS[role]) {
+      return c.json({ error: 'Unknown role' }, 400);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    // Stops the last admin from locking everyone out of settings
+    if (staffId === user.id) {
+      return c.json({ error: 'You cannot change your own role' }, 400);
+    }
+
+    const staff = await kv.get(`user:${staffId}`);
+    if (!staff) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    const updatedStaff = { ...staff, role };
+    await kv.set(`user:${staffId}`, updatedStaff);
+
+    // Keep the auth metadata in step so a fresh login reports the same role
+    const supabase = getSupabaseAdmin();
+    const { error: metadataError } = await supabase.auth.admin.updateUserById(staffId, {
+      user_metadata: { name: staff.name, role, points: staff.points || 0, level: staff.level || '' }
+    });
+    if (metadataError) {
+      console.error('Error updating role in Auth metadata:', metadataError);
     }
 
+    console.log(`🔑 Role of ${staff.name} changed from ${staff.role || 'staff'} to ${role}`);
+
+    return c.json({ success: true, staff: getStaffListEntry(updatedStaff) });
+  } catch (error) {
+    console.error('Error updating role:', error);
+    return c.json({ error: 'Failed to update role' }, 500);
+  }
+});
+
+// Update staff member
+app.put("/make-server-08658f87/staff/:id", requirePermission('staff:manage'), async (c) => {
+  try {
     const staffId = c.req.param('id');
     const { name, email, phone, level, telegramUsername } = await c.req.json();
 
@@ -1538,14 +2068,16 @@ app.put("/make-server-08658f87/staff/:id", async (c) => {
       phone: phone || '',
       level,
       telegramChatId: telegramUsername || '',  // Store as telegramChatId (Telegram Chat IDs are numeric strings)
-      telegramUsername: telegramUsername || ''  // Keep for backwards compatibility
+      telegramUsername: telegramUsername || '',  // Keep for backwards compatibility
+      // The account the staff member linked themselves no longer applies once the chat ID is changed by hand
+      telegramAccount: (telegramUsername || '') === (staff.telegramChatId || staff.telegramUsername || '') ? staff.telegramAccount : null
     };
 
     await kv.set(`user:${staffId}`, updatedStaff);
 
     return c.json({ 
       success: true, 
-      staff: updatedStaff
+      staff: getStaffListEntry(updatedStaff)
     });
   } catch (error) {
     console.error('Error updating staff:', error);
@@ -1553,22 +2085,9 @@ app.put("/make-server-08658f87/staff/:id", async (c) => {
   }
 });
 
-// Delete staff member (admin only)
-app.delete("/make-server-08658f87/staff/:id", async (c) => {
+// Delete staff member
+app.delete("/make-server-08658f87/staff/:id", requirePermission('staff:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const staffId = c.req.param('id');
 
     // Get staff member to verify they exist
@@ -1585,17 +2104,28 @@ app.delete("/make-server-08658f87/staff/:id", async (c) => {
     // Remove staff from all events they're signed up for
     const events = await kv.getByPrefix('event:');
     for (const event of events) {
-      if (event.signedUpStaff && event.signedUpStaff.includes(staffId)) {
-        const updatedEvent = {
-          ...event,
-          signedUpStaff: event.signedUpStaff.filter((id: string) => id !== staffId)
-        };
-        await kv.set(`event:${event.id}`, updatedEvent);
+      const isInvolved = (event.signedUpStaff && event.signedUpStaff.includes(staffId)) ||
+        (event.waitlistedStaff && event.waitlistedStaff.includes(staffId));
+      if (!isInvolved) continue;
+
+      if (hasShifts(event)) {
+        const shifts = event.shifts.map((shift: any) => removeStaffFromSlot(shift, staffId, shift.headcount).slot);
+        await kv.set(`event:${event.id}`, syncShiftTotals({ ...event, shifts }));
+      } else {
+        await kv.set(`event:${event.id}`, removeStaffFromSlot(event, staffId).slot);
       }
     }
 
-    // Delete staff member from KV store
-    await kv.del(`user:${staffId}`);
+    // Delete staff member (and their availability, notification preferences, pending digest and check-in attempts) from KV store
+    await kv.mdel([
+      `user:${staffId}`,
+      `availability:${staffId}`,
+      `notification-prefs:${staffId}`,
+      `digest-pending:${staffId}`,
+      `checkin-attempts:${staffId}`,
+      ...(staff.telegramLinkToken ? [`telegram:link:${staff.telegramLinkToken}`] : []),
+      ...(staff.invitation ? [`invitation:${staff.invitation.id}`] : [])
+    ]);
 
     // Delete user from Supabase Auth
     const supabase = getSupabaseAdmin();
@@ -1613,144 +2143,48 @@ app.delete("/make-server-08658f87/staff/:id", async (c) => {
   }
 });
 
-// Send password reset for staff member (admin only)
-app.post("/make-server-08658f87/staff/password-reset", async (c) => {
+// Send password reset for staff member
+app.post("/make-server-08658f87/staff/password-reset", requirePermission('staff:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
+    const { staffId, appUrl } = await c.req.json();
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    if (!appUrl) {
+      return c.json({ error: 'App URL is required for the reset link' }, 400);
     }
 
-    const { staffId } = await c.req.json();
-
     // Get staff member
     const staff = await kv.get(`user:${staffId}`);
     if (!staff) {
       return c.json({ error: 'Staff member not found' }, 404);
     }
 
-    // Generate temporary password
-    const tempPassword = `reset${Math.random().toString(36).slice(2, 10)}`;
-
-    const supabase = getSupabaseAdmin();
-
-    // Update the user's password in Supabase Auth
-    const { error: updateError } = await supabase.auth.admin.updateUserById(
-      staffId,
-      { password: tempPassword }
-    );
-
-    if (updateError) {
-      console.error('Error updating staff password:', updateError);
-      return c.json({ error: 'Failed to generate temporary password' }, 500);
+    if (staff.status === 'pending') {
+      return c.json({ error: 'This staff member has not accepted their invitation yet - resend the invitation instead' }, 400);
     }
 
-    // Send password reset email with temporary password
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-          .credentials { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #F59E0B; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
-          .credential-row { margin: 15px 0; }
-          .credential-label { color: #6B7280; font-size: 14px; margin-bottom: 5px; }
-          .credential-value { background-color: #F3F4F6; padding: 10px 15px; border-radius: 6px; font-family: monospace; font-size: 16px; color: #1F2937; border: 1px solid #E5E7EB; }
-          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
-          .warning-box { background-color: #FEF3C7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #F59E0B; }
-          .info-box { background-color: #EFF6FF; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #3B82F6; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div style="text-align: center; margin-bottom: 10px;">
-              <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
-            </div>
-            <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
-            <h1>Password Reset</h1>
-          </div>
-          <div class="content">
-            <h2>Hello ${staff.name},</h2>
-            <p>Your password has been reset by an administrator. Below are your new temporary login credentials.</p>
-            
-            <div class="credentials">
-              <h3 style="margin-top: 0; color: #F59E0B;">🔐 Your New Login Credentials</h3>
-              <div class="credential-row">
-                <div class="credential-label">Username (Email)</div>
-                <div class="credential-value">${staff.email}</div>
-              </div>
-              <div class="credential-row">
-                <div class="credential-label">Temporary Password</div>
-                <div class="credential-value">${tempPassword}</div>
-              </div>
-            </div>
-            
-            <div class="warning-box">
-              <strong>⚠️ Important - First Login</strong>
-              <p style="margin: 10px 0 0 0;">When you log in with this temporary password, you will be required to set up a new secure password before accessing your account.</p>
-            </div>
-            
-            <div class="info-box">
-              <h3 style="margin-top: 0;">📋 Next Steps</h3>
-              <ol style="margin: 10px 0; padding-left: 20px;">
-                <li>Visit Nahky Araby Event Hub login page</li>
-                <li>Enter your email and temporary password</li>
-                <li>Create a new secure password</li>
-                <li>Continue managing your events!</li>
-              </ol>
-            </div>
-            
-            <p>If you didn't request this password reset, please contact your administrator immediately.</p>
-          </div>
-          <div class="footer">
-            <p>This is an automated message. Please do not reply to this email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    const emailResult = await sendEmail(
-      staff.email,
-      'Password Reset - Nahky Araby Event Hub',
-      emailHtml
-    );
+    // The current password keeps working until a new one is chosen through the link
+    const { staff: resetStaff, link, emailResult } = await sendInvitationLink(staff, 'reset', appUrl);
 
-    if (!emailResult.success) {
-      // Password reset successful, just email failed
+    if (!emailResult.success || emailResult.captured) {
+      // Reset link created, just email failed
       // This is expected in Resend testing mode
-      console.log('🔑 Temporary password generated for:', staff.name, '- Manual credentials provided (email in testing mode)');
+      console.log('🔑 Password reset link created for:', staff.name, '- Link provided (email in testing mode)');
       
       return c.json({ 
         success: true,
-        message: `Temporary password generated for ${staff.name}`,
+        message: `Password reset link created for ${staff.name}`,
         emailSent: false,
-        isTestingMode: emailResult.isTestingMode || false,
-        tempPassword: tempPassword,
-        staff: {
-          id: staff.id,
-          email: staff.email,
-          name: staff.name
-        }
+        isTestingMode: emailResult.isTestingMode || emailResult.captured || false,
+        resetLink: link,
+        staff: resetStaff
       });
     }
 
     return c.json({ 
       success: true,
       message: `Password reset email sent to ${staff.email}`,
-      emailSent: true
+      emailSent: true,
+      staff: resetStaff
     });
   } catch (error) {
     console.error('Error sending password reset:', error);
@@ -1758,103 +2192,11 @@ app.post("/make-server-08658f87/staff/password-reset", async (c) => {
   }
 });
 
-// Password setup endpoint for new staff members
-app.post("/make-server-08658f87/staff/setup-password", async (c) => {
-  try {
-    const { email, tempPassword, newPassword } = await c.req.json();
-
-    if (!email || !tempPassword || !newPassword) {
-      return c.json({ error: 'Email, temporary password, and new password are required' }, 400);
-    }
-
-    const supabase = getSupabaseClient();
-
-    // First, sign in with the temporary password
-    const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
-      email,
-      password: tempPassword,
-    });
-
-    if (signInError || !signInData.session) {
-      console.error('Error signing in with temp password:', signInError);
-      return c.json({ error: 'Invalid temporary credentials' }, 401);
-    }
-
-    const supabaseAdmin = getSupabaseAdmin();
-
-    // Update the password using admin client
-    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
-      signInData.user.id,
-      { password: newPassword }
-    );
-
-    if (updateError) {
-      console.error('Error updating password:', updateError);
-      return c.json({ error: 'Failed to update password' }, 500);
-    }
-
-    // Update staff status to active
-    const staffMember = await kv.get(`user:${signInData.user.id}`);
-    if (staffMember) {
-      staffMember.status = 'active';
-      await kv.set(`user:${signInData.user.id}`, staffMember);
-    }
-
-    // Sign in again with the new password to get a fresh session
-    // (updating password invalidates existing sessions)
-    const { data: newSignInData, error: newSignInError } = await supabase.auth.signInWithPassword({
-      email,
-      password: newPassword,
-    });
-
-    if (newSignInError || !newSignInData.session) {
-      console.error('Error signing in with new password:', newSignInError);
-      // Password was updated but sign-in failed - user can still login manually
-      return c.json({ 
-        error: 'Password updated but automatic sign-in failed. Please log in with your new password.' 
-      }, 500);
-    }
-
-    // Calculate level based on points if no staff member found
-    const defaultLevel = await calculateLevel(0);
-    
-    return c.json({ 
-      success: true,
-      message: 'Password updated successfully',
-      accessToken: newSignInData.session.access_token,
-      user: staffMember || {
-        id: newSignInData.user.id,
-        email: newSignInData.user.email,
-        name: newSignInData.user.user_metadata.name,
-        role: 'staff',
-        points: 0,
-        level: defaultLevel
-      }
-    });
-  } catch (error) {
-    console.error('Error setting up password:', error);
-    return c.json({ error: 'Failed to set up password' }, 500);
-  }
-});
-
 // ==================== ADMIN SETTINGS ENDPOINTS ====================
 
 // Get admin settings
-app.get("/make-server-08658f87/admin/settings", async (c) => {
+app.get("/make-server-08658f87/admin/settings", requirePermission('settings:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const settings = await kv.get('admin:settings') || { email: '', phone: '' };
     return c.json(settings);
   } catch (error) {
@@ -1864,21 +2206,8 @@ app.get("/make-server-08658f87/admin/settings", async (c) => {
 });
 
 // Save admin settings
-app.post("/make-server-08658f87/admin/settings", async (c) => {
+app.post("/make-server-08658f87/admin/settings", requirePermission('settings:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const { email, phone } = await c.req.json();
 
     const settings = { email, phone };
@@ -1893,8 +2222,9 @@ app.post("/make-server-08658f87/admin/settings", async (c) => {
 
 // ==================== WHATSAPP ENDPOINTS ====================
 
-// Helper function to send WhatsApp message
-const sendWhatsAppMessage = async (to: string, message: string) => {
+// Helper function to post a message to the WhatsApp Cloud API - payload is the type-specific part, e.g. { type: 'text', text }
+// Returns the WhatsApp message ID, which delivery receipts refer to
+const postWhatsAppMessage = async (to: string, payload: any) => {
   const whatsAppSettings = await kv.get('whatsapp:settings');
   
   if (!whatsAppSettings || !whatsAppSettings.phoneNumberId || !whatsAppSettings.accessToken) {
@@ -1925,8 +2255,7 @@ const sendWhatsAppMessage = async (to: string, message: string) => {
         body: JSON.stringify({
           messaging_product: 'whatsapp',
           to: cleanPhone,
-          type: 'text',
-          text: { body: message },
+          ...payload,
         }),
       }
     );
@@ -1938,30 +2267,38 @@ const sendWhatsAppMessage = async (to: string, message: string) => {
       return { success: false, error: result.error?.message || 'Failed to send WhatsApp message' };
     }
 
-    console.log('WhatsApp message sent successfully:', result.messages?.[0]?.id);
-    return { success: true, data: result };
+    const messageId = result.messages?.[0]?.id || null;
+    console.log('WhatsApp message sent successfully:', messageId);
+    return { success: true, data: result, messageId };
   } catch (error) {
     console.error('Error sending WhatsApp message:', error);
     return { success: false, error: error.message };
   }
 };
 
-// Connect WhatsApp Business account
-app.post("/make-server-08658f87/whatsapp/connect", async (c) => {
-  try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
+// Helper function to send WhatsApp message
+// Free-form text is only delivered within 24 hours of the recipient's last message - otherwise use a template
+const sendWhatsAppMessage = async (to: string, message: string) => {
+  return postWhatsAppMessage(to, { type: 'text', text: { body: message } });
+};
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+// Helper function to send a message template registered with Meta, filling its body parameters in order
+const sendWhatsAppTemplate = async (to: string, template: any, parameters: string[]) => {
+  return postWhatsAppMessage(to, {
+    type: 'template',
+    template: {
+      name: template.name,
+      language: { code: template.language },
+      components: parameters.length > 0
+        ? [{ type: 'body', parameters: parameters.map(text => ({ type: 'text', text })) }]
+        : []
     }
+  });
+};
 
+// Connect WhatsApp Business account
+app.post("/make-server-08658f87/whatsapp/connect", requirePermission('settings:manage'), async (c) => {
+  try {
     const { phoneNumberId, accessToken } = await c.req.json();
 
     if (!phoneNumberId || !accessToken) {
@@ -2018,21 +2355,8 @@ app.post("/make-server-08658f87/whatsapp/connect", async (c) => {
 });
 
 // Get WhatsApp connection status
-app.get("/make-server-08658f87/whatsapp/status", async (c) => {
+app.get("/make-server-08658f87/whatsapp/status", requirePermission('settings:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     try {
       const whatsAppSettings = await kv.get('whatsapp:settings');
 
@@ -2054,8 +2378,242 @@ app.get("/make-server-08658f87/whatsapp/status", async (c) => {
   }
 });
 
+// ==================== WHATSAPP TEMPLATES & WEBHOOK ====================
+
+// Outside the 24-hour customer window WhatsApp only delivers message templates registered with Meta. A notification
+// type can be mapped to one in `whatsapp:templates`: { [type]: { name, language, parameters } }, where parameters
+// lists the notification variables that fill the template's {{1}}, {{2}}, ... in order. Unmapped types are sent as text
+const WHATSAPP_TEMPLATE_NAME_PATTERN = /^[a-z0-9_]{1,512}$/;
+const WHATSAPP_LANGUAGE_PATTERN = /^[a-z]{2,3}(_[A-Z]{2})?$/;
+
+// Meta calls the webhook to confirm it with the verify token, then signs every update with the app secret.
+// Both are kept in `whatsapp:webhook` so reconnecting the phone number doesn't lose them
+const getWhatsAppWebhookUrl = () => `${Deno.env.get('SUPABASE_URL')}/functions/v1/make-server-08658f87/whatsapp/webhook`;
+
+// Helper function to get the template mappings, keyed by notification type
+const getWhatsAppTemplates = async () => {
+  return (await kv.get('whatsapp:templates')) || {};
+};
+
+// Helper function to check a template mapping from the settings form
+// Returns { template } or { error }
+const normalizeWhatsAppTemplate = (type: string, data: any) => {
+  const defaults: any = DEFAULT_NOTIFICATION_TEMPLATES[type];
+  if (!defaults) {
+    return { error: `Unknown notification type "${type}"` };
+  }
+
+  const name = String(data?.name || '').trim();
+  const language = String(data?.language || '').trim();
+  if (!WHATSAPP_TEMPLATE_NAME_PATTERN.test(name)) {
+    return { error: `${defaults.label}: template names only use lowercase letters, numbers and underscores` };
+  }
+  if (!WHATSAPP_LANGUAGE_PATTERN.test(language)) {
+    return { error: `${defaults.label}: language must be a code like "en" or "en_US"` };
+  }
+
+  const parameters = Array.isArray(data.parameters) ? data.parameters : [];
+  const unknown = parameters.find((variable: string) => !defaults.variables.includes(variable));
+  if (unknown !== undefined) {
+    return { error: `${defaults.label}: "${unknown}" is not a variable of this notification` };
+  }
+
+  return { template: { name, language, parameters } };
+};
+
+// Helper function to fill a template's parameters from the notification
+// WhatsApp rejects empty parameters and line breaks inside them, so those are replaced
+const buildWhatsAppTemplateParameters = (template: any, staff: any, data: any) => {
+  const context = buildTemplateContext(staff, data);
+  return template.parameters.map((variable: string) => {
+    const value = renderTemplate(`{{${variable}}}`, context).replace(/\s*\n\s*/g, ' · ').replace(/\s{4,}/g, '   ').trim();
+    return value || '-';
+  });
+};
+
+// Helper function to check the X-Hub-Signature-256 header Meta signs webhook updates with
+const verifyWhatsAppSignature = async (appSecret: string, body: string, signature: string | undefined) => {
+  if (!signature?.startsWith('sha256=')) return false;
+  const expected = await signHmacSha256(appSecret, body);
+  return timingSafeEqual(expected, signature.slice('sha256='.length));
+};
+
+// Helper function to apply a delivery receipt to the outbox entry of the message it is about
+// A failed receipt means WhatsApp accepted the message but could not deliver it, e.g. outside the 24-hour window
+const handleWhatsAppStatus = async (status: any) => {
+  const message = await kv.get(`whatsapp:message:${status.id}`);
+  if (!message) return;
+  const entry = await kv.get(`notification:${message.notificationId}`);
+  if (!entry) return;
+
+  const at = status.timestamp ? new Date(Number(status.timestamp) * 1000).toISOString() : new Date().toISOString();
+  const updatedAt = new Date().toISOString();
+
+  if (status.status === 'delivered' && entry.deliveryStatus !== 'read') {
+    await kv.set(`notification:${entry.id}`, { ...entry, deliveryStatus: 'delivered', deliveredAt: at, updatedAt });
+  } else if (status.status === 'read') {
+    await kv.set(`notification:${entry.id}`, { ...entry, deliveryStatus: 'read', deliveredAt: entry.deliveredAt || at, readAt: at, updatedAt });
+  } else if (status.status === 'failed' && entry.status === 'sent') {
+    const error = status.errors?.[0];
+    const lastError = error?.error_data?.details || error?.title || 'WhatsApp could not deliver the message';
+    const staff = await kv.get(`user:${entry.staffId}`);
+    const fellBackTo = staff ? await queueFallbackNotification(entry, staff, await getChannelSettings(), updatedAt) : null;
+    await kv.set(`notification:${entry.id}`, {
+      ...entry,
+      status: 'gave-up',
+      deliveryStatus: 'failed',
+      lastError,
+      fallbackChannels: [],
+      fellBackTo,
+      updatedAt
+    });
+    console.log(`  ✗ WhatsApp could not deliver ${entry.type} notification to ${entry.staffName}: ${lastError}`);
+    if (fellBackTo) startOutboxProcessing();
+  }
+};
+
+// Helper function to keep a message staff sent to the WhatsApp number, so admins can read replies
+const handleWhatsAppInbound = async (message: any, contacts: any[]) => {
+  const from = `+${message.from}`;
+  const users = await kv.getByPrefix('user:');
+  const staff = users.find((u: any) => (u.phone || '').replace(/[^\d]/g, '') === message.from);
+  const contact = (contacts || []).find((c: any) => c.wa_id === message.from);
+
+  const text = message.text?.body
+    || message.button?.text
+    || message.interactive?.button_reply?.title
+    || message.interactive?.list_reply?.title
+    || `(${message.type})`;
+
+  await kv.set(`whatsapp:reply:${message.id}`, {
+    id: message.id,
+    from,
+    staffId: staff?.id || null,
+    staffName: staff?.name || contact?.profile?.name || from,
+    text,
+    receivedAt: message.timestamp ? new Date(Number(message.timestamp) * 1000).toISOString() : new Date().toISOString()
+  });
+  console.log(`💬 WhatsApp reply from ${staff?.name || from}`);
+};
+
+// Meta confirms the webhook URL with a GET carrying the verify token, echoing back the challenge
+app.get("/make-server-08658f87/whatsapp/webhook", async (c) => {
+  const webhook = await kv.get('whatsapp:webhook');
+  const mode = c.req.query('hub.mode');
+  const verifyToken = c.req.query('hub.verify_token');
+
+  if (mode === 'subscribe' && webhook?.verifyToken && verifyToken === webhook.verifyToken) {
+    console.log('💬 WhatsApp webhook verified');
+    return c.text(c.req.query('hub.challenge') || '');
+  }
+  return c.json({ error: 'Verification failed' }, 403);
+});
+
+// Receive delivery receipts and replies - authenticated by Meta's signature, not a user session
+app.post("/make-server-08658f87/whatsapp/webhook", async (c) => {
+  try {
+    const webhook = await kv.get('whatsapp:webhook');
+    const body = await c.req.text();
+    if (!webhook?.appSecret || !(await verifyWhatsAppSignature(webhook.appSecret, body, c.req.header('X-Hub-Signature-256')))) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const update = JSON.parse(body);
+    for (const entry of update.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue;
+        for (const status of change.value?.statuses || []) {
+          await handleWhatsAppStatus(status);
+        }
+        for (const message of change.value?.messages || []) {
+          await handleWhatsAppInbound(message, change.value.contacts);
+        }
+      }
+    }
+
+    return c.json({ ok: true });
+  } catch (error) {
+    // Meta retries failed deliveries for days - acknowledge so one bad update can't pile up
+    console.error('Error handling WhatsApp update:', error);
+    return c.json({ ok: true });
+  }
+});
+
+// Get the template mappings and webhook setup
+app.get("/make-server-08658f87/whatsapp/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    // The verify token is created the first time the settings are opened
+    let webhook = await kv.get('whatsapp:webhook');
+    if (!webhook?.verifyToken) {
+      const verifyToken = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+      webhook = { ...(webhook || {}), verifyToken };
+      await kv.set('whatsapp:webhook', webhook);
+    }
+
+    return c.json({
+      templates: await getWhatsAppTemplates(),
+      // Every notification type that can go out on WhatsApp, with the variables its parameters can use
+      types: Object.entries(DEFAULT_NOTIFICATION_TEMPLATES)
+        .filter(([type]) => getDefaultTemplate(type, 'whatsapp'))
+        .map(([type, defaults]) => ({ type, label: defaults.label, variables: defaults.variables })),
+      webhookUrl: getWhatsAppWebhookUrl(),
+      verifyToken: webhook.verifyToken,
+      appSecretSet: !!webhook.appSecret
+    });
+  } catch (error) {
+    console.error('Error fetching WhatsApp settings:', error);
+    return c.json({ error: 'Failed to fetch WhatsApp settings' }, 500);
+  }
+});
+
+// Save the template mappings, and the app secret if a new one is given
+app.post("/make-server-08658f87/whatsapp/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { templates, appSecret } = await c.req.json();
+
+    const normalized: Record<string, any> = {};
+    for (const [type, data] of Object.entries(templates || {})) {
+      const result = normalizeWhatsAppTemplate(type, data);
+      if (result.error) {
+        return c.json({ error: result.error }, 400);
+      }
+      normalized[type] = result.template;
+    }
+
+    await kv.set('whatsapp:templates', normalized);
+
+    // The secret is never sent back - leaving it blank keeps the saved one
+    if (appSecret) {
+      const webhook = await kv.get('whatsapp:webhook');
+      await kv.set('whatsapp:webhook', { ...(webhook || {}), appSecret: String(appSecret).trim() });
+    }
+
+    console.log(`💬 WhatsApp templates saved for ${Object.keys(normalized).length} notification type(s)`);
+
+    return c.json({ success: true, templates: normalized });
+  } catch (error) {
+    console.error('Error saving WhatsApp settings:', error);
+    return c.json({ error: 'Failed to save WhatsApp settings' }, 500);
+  }
+});
+
+// Get the latest replies staff sent to the WhatsApp number
+app.get("/make-server-08658f87/whatsapp/replies", requirePermission('settings:manage'), async (c) => {
+  try {
+    const replies = (await kv.getByPrefix('whatsapp:reply:'))
+      .sort((a: any, b: any) => b.receivedAt.localeCompare(a.receivedAt))
+      .slice(0, 50);
+
+    return c.json({ replies });
+  } catch (error) {
+    console.error('Error fetching WhatsApp replies:', error);
+    return c.json({ error: 'Failed to fetch WhatsApp replies' }, 500);
+  }
+});
+
 // Helper function to send Telegram message
-const sendTelegramMessage = async (chatId: string, message: string) => {
+// replyMarkup adds buttons under the message, e.g. an inline keyboard
+const sendTelegramMessage = async (chatId: string, message: string, replyMarkup?: any) => {
   // Validate that chatId is numeric
   if (!/^\d+$/.test(chatId)) {
     const isUsername = chatId.startsWith('@') || /^[a-zA-Z]/.test(chatId);
@@ -2089,6 +2647,7 @@ const sendTelegramMessage = async (chatId: string, message: string) => {
           chat_id: chatId,
           text: message,
           parse_mode: 'Markdown',
+          ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
         }),
       }
     );
@@ -2129,21 +2688,8 @@ const sendTelegramMessage = async (chatId: string, message: string) => {
 };
 
 // Connect Telegram Bot
-app.post("/make-server-08658f87/telegram/connect", async (c) => {
+app.post("/make-server-08658f87/telegram/connect", requirePermission('settings:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const { botToken } = await c.req.json();
 
     if (!botToken) {
@@ -2170,19 +2716,35 @@ app.post("/make-server-08658f87/telegram/connect", async (c) => {
 
       const botName = botData.result.username || botData.result.first_name || '';
 
-      // Save Telegram settings
+      // Save Telegram settings, keeping the bot commands setting of an earlier connection
+      const existingSettings = await kv.get('telegram:settings');
       const telegramSettings = {
+        ...(existingSettings || {}),
         botToken,
         botName,
         connected: true,
         connectedAt: new Date().toISOString(),
       };
 
+      // The webhook belongs to the token - register it again so bot commands, buttons and account links keep working
+      let webhookError: string | undefined;
+      if (existingSettings?.webhookEnabled) {
+        const { ok, webhookSecret, error } = await registerTelegramWebhook(botToken);
+        if (ok) {
+          telegramSettings.webhookSecret = webhookSecret;
+        } else {
+          webhookError = error;
+          telegramSettings.webhookEnabled = false;
+          telegramSettings.webhookSecret = null;
+        }
+      }
+
       await kv.set('telegram:settings', telegramSettings);
 
       return c.json({ 
         success: true, 
-        botName 
+        botName,
+        ...(webhookError ? { webhookError: `Bot commands were turned off: ${webhookError}` } : {})
       });
     } catch (verifyError) {
       console.error('Error verifying Telegram bot token:', verifyError);
@@ -2197,21 +2759,8 @@ app.post("/make-server-08658f87/telegram/connect", async (c) => {
 });
 
 // Get Telegram connection status
-app.get("/make-server-08658f87/telegram/status", async (c) => {
+app.get("/make-server-08658f87/telegram/status", requirePermission('settings:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     try {
       const telegramSettings = await kv.get('telegram:settings');
 
@@ -2234,21 +2783,8 @@ app.get("/make-server-08658f87/telegram/status", async (c) => {
 });
 
 // Send Telegram test message to a staff member
-app.post("/make-server-08658f87/telegram/test", async (c) => {
+app.post("/make-server-08658f87/telegram/test", requirePermission('staff:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const { staffId } = await c.req.json();
 
     if (!staffId) {
@@ -2293,21 +2829,8 @@ app.post("/make-server-08658f87/telegram/test", async (c) => {
 });
 
 // Test a specific Chat ID
-app.post("/make-server-08658f87/telegram/test-chat-id", async (c) => {
+app.post("/make-server-08658f87/telegram/test-chat-id", requirePermission('staff:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const { chatId, name } = await c.req.json();
 
     if (!chatId) {
@@ -2334,21 +2857,8 @@ app.post("/make-server-08658f87/telegram/test-chat-id", async (c) => {
 });
 
 // Clear old Telegram updates
-app.post("/make-server-08658f87/telegram/clear-updates", async (c) => {
+app.post("/make-server-08658f87/telegram/clear-updates", requirePermission('staff:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     // Get Telegram settings
     const telegramSettings = await kv.get('telegram:settings');
     
@@ -2356,6 +2866,17 @@ app.post("/make-server-08658f87/telegram/clear-updates", async (c) => {
       return c.json({ error: 'Telegram not configured' }, 400);
     }
 
+    if (telegramSettings.webhookEnabled) {
+      const chats = await kv.getByPrefix('telegram:chat:');
+      if (chats.length > 0) {
+        await kv.mdel(chats.map((chat: any) => `telegram:chat:${chat.chatId}`));
+      }
+      return c.json({
+        success: true,
+        message: chats.length > 0 ? `Cleared ${chats.length} recorded chats.` : 'No updates to clear'
+      });
+    }
+
     const { botToken } = telegramSettings;
 
     // First, get all updates
@@ -2395,21 +2916,8 @@ app.post("/make-server-08658f87/telegram/clear-updates", async (c) => {
 });
 
 // Get recent Telegram chat IDs from bot updates
-app.post("/make-server-08658f87/telegram/get-recent-chats", async (c) => {
+app.post("/make-server-08658f87/telegram/get-recent-chats", requirePermission('staff:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     // Get Telegram settings
     const telegramSettings = await kv.get('telegram:settings');
     
@@ -2417,6 +2925,12 @@ app.post("/make-server-08658f87/telegram/get-recent-chats", async (c) => {
       return c.json({ error: 'Telegram not configured' }, 400);
     }
 
+    // While the webhook is on, Telegram delivers updates to it and the bot records each chat it hears from
+    if (telegramSettings.webhookEnabled) {
+      const chatList = (await kv.getByPrefix('telegram:chat:')).sort((a: any, b: any) => b.timestamp - a.timestamp);
+      return c.json({ success: true, chats: chatList, count: chatList.length });
+    }
+
     const { botToken } = telegramSettings;
 
     // Fetch recent updates from Telegram
@@ -2476,177 +2990,570 @@ app.post("/make-server-08658f87/telegram/get-recent-chats", async (c) => {
   }
 });
 
-// Debug endpoint to check notification eligibility
-app.get("/make-server-08658f87/debug/notifications", async (c) => {
+// ==================== TELEGRAM BOT ====================
+
+// With the webhook on, Telegram posts every message sent to the bot to /telegram/webhook and staff can use
+// these commands. Telegram sends the webhook secret in a header, so updates from anyone else are ignored
+const TELEGRAM_BOT_COMMANDS = [
+  { command: 'events', description: 'Open events you can sign up for' },
+  { command: 'my', description: 'Your upcoming events' },
+  { command: 'points', description: 'Your points and level progress' },
+  { command: 'help', description: 'What this bot can do' }
+];
+
+// Replies list at most this many events
+const MAX_BOT_EVENTS = 10;
+
+const getTelegramWebhookUrl = () => `${Deno.env.get('SUPABASE_URL')}/functions/v1/make-server-08658f87/telegram/webhook`;
+
+// Helper function to call a Telegram Bot API method
+const callTelegramApi = async (botToken: string, method: string, body: any = {}) => {
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return await response.json();
+};
+
+// Helper function to point a bot's webhook at this function with a fresh secret and show its commands
+// Returns { ok, webhookSecret } or { ok: false, error }
+const registerTelegramWebhook = async (botToken: string) => {
+  const webhookSecret = Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+  const result = await callTelegramApi(botToken, 'setWebhook', {
+    url: getTelegramWebhookUrl(),
+    secret_token: webhookSecret,
+    allowed_updates: ['message', 'callback_query']
+  });
+  if (!result.ok) {
+    console.error('Telegram setWebhook failed:', result);
+    return { ok: false, error: result.description || 'Failed to set up the Telegram webhook' };
+  }
+
+  // Shows the commands in the bot's menu
+  await callTelegramApi(botToken, 'setMyCommands', { commands: TELEGRAM_BOT_COMMANDS });
+  return { ok: true, webhookSecret };
+};
+
+// Helper function to escape names and other free text for Telegram Markdown, so a stray * or _ can't break a message
+const escapeTelegramMarkdown = (text: any) => String(text ?? '').replace(/([_*`\[])/g, '\\$1');
+
+// Helper function to describe when an event (or shift) takes place, e.g. "Saturday, April 12, 2025, 18:00"
+const describeBotEventTime = (event: any, shift?: any) => {
+  return `${formatLongDate(event.date)}, ${shift ? `${shift.startTime}–${shift.endTime}` : event.time}`;
+};
+
+// Helper function to answer /help (and /start or anything the bot doesn't understand)
+const buildBotHelpReply = (staff: any) => {
+  const commands = TELEGRAM_BOT_COMMANDS.map(({ command, description }) => `/${command} - ${description}`).join('\n');
+  return `👋 *Nahky Araby Event Hub*
+
+Hello ${escapeTelegramMarkdown(staff.name)}, here is what I can do:
+
+${commands}`;
+};
+
+// Helper function to answer /events with the open events the staff member's level gives access to
+const buildBotEventsReply = (staff: any, events: any[], levels: any[], now: Date) => {
+  const openEvents = events
+    .filter(event => (event.status || 'open') === 'open' && levelMeetsRequirement(levels, staff.level, event.requiredLevel))
+    .map(event => ({ event, start: getEventTimes(event).start }))
+    .filter(({ start }) => start > now)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  if (openEvents.length === 0) {
+    return '📭 There are no open events you can sign up for right now.';
+  }
+
+  const lines = openEvents.slice(0, MAX_BOT_EVENTS).map(({ event }) => {
+    const waitlistPosition = (event.waitlistedStaff || []).indexOf(staff.id);
+    const status = (event.signedUpStaff || []).includes(staff.id)
+      ? '✅ You are signed up'
+      : waitlistPosition !== -1
+        ? `⏳ On the waitlist (#${waitlistPosition + 1})`
+        : `⭐ ${event.points} points`;
+    return `📅 *${escapeTelegramMarkdown(event.name)}*
+${describeBotEventTime(event)} · ${escapeTelegramMarkdown(event.location)}
+${status}`;
+  });
+  const more = openEvents.length > MAX_BOT_EVENTS ? `\n\n…and ${openEvents.length - MAX_BOT_EVENTS} more in the Event Hub.` : '';
+
+  return `*Open events (${openEvents.length})*
+
+${lines.join('\n\n')}${more}
+
+Sign up in the Nahky Araby Event Hub.`;
+};
+
+// Helper function to answer /my with the events (or shifts) the staff member was selected for
+// Sign-ups still waiting for a selection are listed after them
+const buildBotMyEventsReply = (staff: any, events: any[], now: Date) => {
+  const upcoming = events.filter(event => event.status !== 'cancelled' && getEventTimes(event).end > now);
+
+  const selected = upcoming
+    .flatMap(event => hasShifts(event)
+      ? event.shifts.filter((shift: any) => (shift.confirmedStaff || []).includes(staff.id)).map((shift: any) => ({ event, shift }))
+      : (event.confirmedStaff || []).includes(staff.id) ? [{ event, shift: null }] : [])
+    .map(slot => ({ ...slot, start: getEventTimes(slot.event, slot.shift).start }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const pending = upcoming.filter(event =>
+    (event.status || 'open') === 'open' && (event.signedUpStaff || []).includes(staff.id)
+  );
+
+  if (selected.length === 0 && pending.length === 0) {
+    return '📭 You have no upcoming events. Send /events to see what you can sign up for.';
+  }
+
+  const sections = [];
+  if (selected.length > 0) {
+    const lines = selected.slice(0, MAX_BOT_EVENTS).map(({ event, shift }) =>
+      `✅ *${escapeTelegramMarkdown(event.name)}*${shift ? ` (${escapeTelegramMarkdown(shift.name)})` : ''}
+${describeBotEventTime(event, shift)} · ${escapeTelegramMarkdown(event.location)}`
+    );
+    sections.push(`*Your upcoming events*\n\n${lines.join('\n\n')}`);
+  }
+  if (pending.length > 0) {
+    sections.push(`⏳ *Waiting for selection:* ${pending.map(event => escapeTelegramMarkdown(event.name)).join(', ')}`);
+  }
+  return sections.join('\n\n');
+};
+
+// Helper function to answer /points with the balance and progress to the next level
+const buildBotPointsReply = (staff: any, levels: any[]) => {
+  const points = staff.points || 0;
+  const sortedLevels = [...levels].sort((a, b) => a.order - b.order);
+  const currentIndex = sortedLevels.findIndex(level => level.name === staff.level);
+  const currentLevel = sortedLevels[currentIndex];
+  const nextLevel = currentIndex >= 0 ? sortedLevels[currentIndex + 1] : null;
+
+  let progress = '🏆 You have reached the highest level!';
+  if (nextLevel) {
+    const needed = Math.max(0, nextLevel.minPoints - points);
+    const range = nextLevel.minPoints - (currentLevel?.minPoints || 0);
+    const percentage = range > 0 ? Math.min(100, Math.round(((points - (currentLevel?.minPoints || 0)) / range) * 100)) : 100;
+    const filled = Math.round(percentage / 10);
+    progress = `Next level: *${escapeTelegramMarkdown(nextLevel.name)}* - ${needed} more point${needed !== 1 ? 's' : ''}
+${'▓'.repeat(filled)}${'░'.repeat(10 - filled)} ${percentage}%`;
+  }
+
+  return `⭐ *Your points*
+
+Points: *${points}*
+Level: *${escapeTelegramMarkdown(staff.level || 'None')}*
+
+${progress}`;
+};
+
+// Helper function to remember a chat the bot heard from, so admins can still look up chat IDs while the webhook is on
+const recordTelegramChat = async (message: any) => {
+  const chatId = message.chat.id.toString();
+  await kv.set(`telegram:chat:${chatId}`, {
+    chatId,
+    firstName: message.from?.first_name || '',
+    lastName: message.from?.last_name || '',
+    username: message.from?.username ? `@${message.from.username}` : '',
+    lastMessage: message.text || '(media)',
+    timestamp: message.date * 1000
+  });
+};
+
+// Helper function to find the staff member a Telegram chat belongs to
+const findStaffByTelegramChat = async (chatId: string) => {
+  const users = await kv.getByPrefix('user:');
+  return users.find((u: any) => (u.telegramChatId || u.telegramUsername || '').trim() === chatId);
+};
+
+// Helper function to answer a message sent to the bot
+// Only private chats are answered - replies include personal details like points
+const handleTelegramMessage = async (message: any) => {
+  if (message.chat?.type !== 'private') return;
+  await recordTelegramChat(message);
+
+  const chatId = message.chat.id.toString();
+  // "/events@MyBot" is sent when commands are picked from the menu
+  const [firstWord, argument] = (message.text || '').trim().split(/\s+/);
+  const command = (firstWord || '').split('@')[0].toLowerCase();
+
+  // "/start <token>" is sent when staff open the Connect Telegram link from their profile
+  if (command === '/start' && argument) {
+    await sendTelegramLinkReply(chatId, await linkTelegramChat(argument, message));
+    return;
+  }
+
+  const staff = await findStaffByTelegramChat(chatId);
+
+  if (!staff) {
+    await sendTelegramMessage(chatId, `👋 This Telegram chat is not linked to a staff account yet.
+
+Open your profile in the Nahky Araby Event Hub and use *Connect Telegram*, or send your chat ID \`${chatId}\` to an admin.`);
+    return;
+  }
+
+  console.log(`🤖 Telegram command ${command || '(none)'} from ${staff.name}`);
+
+  const now = new Date();
+  let reply: string;
+  if (command === '/events') {
+    const [events, levels] = await Promise.all([kv.getByPrefix('event:'), kv.getByPrefix('level:')]);
+    reply = buildBotEventsReply(staff, events, levels, now);
+  } else if (command === '/my') {
+    reply = buildBotMyEventsReply(staff, await kv.getByPrefix('event:'), now);
+  } else if (command === '/points') {
+    reply = buildBotPointsReply(staff, await kv.getByPrefix('level:'));
+  } else {
+    reply = buildBotHelpReply(staff);
+  }
+
+  const result = await sendTelegramMessage(chatId, reply);
+  if (!result.success) {
+    console.error(`Failed to answer ${command} from ${staff.name}:`, result.error);
+  }
+};
+
+// Buttons under new-event messages send "<action>:<eventId>[:<shiftId>]" back to the webhook
+// as callback data, which Telegram limits to 64 bytes - event and shift IDs fit with room to spare
+
+// Helper function to build the buttons under a new-event message
+// Only offered while the webhook is on, otherwise nothing would receive the taps
+const getNewEventKeyboard = async (event: any) => {
+  const telegramSettings = await kv.get('telegram:settings');
+  if (!telegramSettings?.webhookEnabled) return undefined;
+  return {
+    inline_keyboard: [
+      [
+        { text: '✅ Sign up', callback_data: `signup:${event.id}` },
+        { text: '🙅 Not interested', callback_data: `dismiss:${event.id}` }
+      ],
+      [{ text: 'ℹ️ Details', callback_data: `details:${event.id}` }]
+    ]
+  };
+};
+
+// Helper function to build the buttons shown after "Sign up" on an event with shifts, one per shift
+const buildShiftKeyboard = (event: any) => ({
+  inline_keyboard: [
+    ...event.shifts.map((shift: any) => [{
+      text: `${shift.name} (${shift.startTime}–${shift.endTime})`,
+      callback_data: `signup:${event.id}:${shift.id}`
+    }]),
+    [
+      { text: '🙅 Not interested', callback_data: `dismiss:${event.id}` },
+      { text: 'ℹ️ Details', callback_data: `details:${event.id}` }
+    ]
+  ]
+});
+
+// Once a button has been answered only "Details" is left
+const buildDetailsKeyboard = (event: any) => ({
+  inline_keyboard: [[{ text: 'ℹ️ Details', callback_data: `details:${event.id}` }]]
+});
+
+// Helper function to answer the "Details" button with the event as staff see it in the Event Hub
+const buildBotEventDetailsReply = (staff: any, event: any) => {
+  const lines = [
+    `📅 *${escapeTelegramMarkdown(event.name)}*`,
+    `📍 ${escapeTelegramMarkdown(event.location)}`,
+    `📆 ${describeBotEventTime(event)}${event.duration ? ` (${escapeTelegramMarkdown(event.duration)})` : ''}`,
+    `🎯 Required level: ${escapeTelegramMarkdown(event.requiredLevel)}`
+  ];
+
+  if (hasShifts(event)) {
+    lines.push('', '*Shifts*');
+    for (const shift of event.shifts) {
+      const taken = (shift.signedUpStaff || []).length;
+      const spots = shift.headcount > 0 ? `${taken}/${shift.headcount} signed up` : `${taken} signed up`;
+      lines.push(`• ${escapeTelegramMarkdown(shift.name)}, ${shift.startTime}–${shift.endTime} · ⭐ ${shift.points} points · ${spots}`);
+    }
+  } else {
+    const taken = (event.signedUpStaff || []).length;
+    lines.push(`⭐ Points: ${event.points} points`);
+    lines.push(`👥 ${event.capacity > 0 ? `${taken}/${event.capacity} signed up` : `${taken} signed up`}`);
+  }
+
+  if (event.description) lines.push('', `📝 ${escapeTelegramMarkdown(event.description)}`);
+  if (event.notes) lines.push('', `💬 ${escapeTelegramMarkdown(event.notes)}`);
+
+  const slots = hasShifts(event) ? event.shifts : [event];
+  if (slots.some((slot: any) => (slot.signedUpStaff || []).includes(staff.id))) {
+    lines.push('', '✅ You are signed up');
+  } else if (slots.some((slot: any) => (slot.waitlistedStaff || []).includes(staff.id))) {
+    lines.push('', '⏳ You are on the waitlist');
+  }
+
+  return lines.join('\n');
+};
+
+// Helper function to answer a tap on one of the new-event buttons
+// Sign-ups go through signUpForEvent, so the same rules apply as in the Event Hub
+const handleTelegramCallback = async (query: any) => {
+  const { botToken } = await kv.get('telegram:settings');
+  const message = query.message;
+
+  // Telegram shows a spinner on the button until the tap is answered
+  const answer = (text: string) => callTelegramApi(botToken, 'answerCallbackQuery', { callback_query_id: query.id, text });
+
+  if (!message?.chat || message.chat.type !== 'private') {
+    await answer('');
+    return;
+  }
+
+  // The result is added under the original message - its entities keep the formatting, as edits can't
+  // re-use the Markdown it was sent with. Leaving out the keyboard removes the buttons
+  const editMessage = (note: string, replyMarkup?: any) => callTelegramApi(botToken, 'editMessageText', {
+    chat_id: message.chat.id,
+    message_id: message.message_id,
+    text: `${message.text || ''}\n\n${note}`,
+    entities: message.entities,
+    ...(replyMarkup ? { reply_markup: replyMarkup } : {})
+  });
+
+  const chatId = message.chat.id.toString();
+  const staff = await findStaffByTelegramChat(chatId);
+  if (!staff) {
+    await answer('This Telegram chat is not linked to a staff account.');
+    return;
+  }
+
+  const [action, eventId, shiftId] = String(query.data || '').split(':');
+  const event = eventId ? await kv.get(`event:${eventId}`) : null;
+  console.log(`🤖 Telegram button ${action} on ${eventId} from ${staff.name}`);
+
+  if (!event) {
+    await editMessage('❌ This event has been removed.');
+    await answer('This event no longer exists.');
+    return;
+  }
+
+  if (action === 'details') {
+    await sendTelegramMessage(chatId, buildBotEventDetailsReply(staff, event));
+    await answer('');
+    return;
+  }
+
+  if (action === 'dismiss') {
+    await editMessage('🙅 Not interested', buildDetailsKeyboard(event));
+    await answer("Got it - we won't sign you up for this one.");
+    return;
+  }
+
+  if (action !== 'signup') {
+    await answer('');
+    return;
+  }
+
+  // Events with shifts ask which shift first
+  if (hasShifts(event) && !shiftId) {
+    await callTelegramApi(botToken, 'editMessageReplyMarkup', {
+      chat_id: message.chat.id,
+      message_id: message.message_id,
+      reply_markup: buildShiftKeyboard(event)
+    });
+    await answer('Choose a shift to sign up for.');
+    return;
+  }
+
+  const result = await signUpForEvent(staff.id, event, shiftId);
+  if ('error' in result) {
+    await editMessage(`⚠️ ${result.error}`, buildDetailsKeyboard(event));
+    await answer(result.error);
+    return;
+  }
+
+  const shift = shiftId ? event.shifts.find((s: any) => s.id === shiftId) : null;
+  const slotName = shift ? ` for ${shift.name} (${shift.startTime}–${shift.endTime})` : '';
+  const overlapNote = result.overlaps.length > 0
+    ? `\n⚠️ This overlaps with ${result.overlaps.map(describeOverlap).join(', ')}`
+    : '';
+  await editMessage(
+    result.waitlisted
+      ? `⏳ It's full - you are #${result.waitlistPosition} on the waitlist${slotName}${overlapNote}`
+      : `✅ You are signed up${slotName}${overlapNote}`,
+    buildDetailsKeyboard(event)
+  );
+  await answer(result.waitlisted ? 'Added to the waitlist' : 'Signed up!');
+  console.log(`🤖 ${staff.name} ${result.waitlisted ? 'joined the waitlist' : 'signed up'} for "${event.name}"${slotName} from Telegram`);
+};
+
+// Receive updates from Telegram - authenticated by the webhook secret header, not a user session
+app.post("/make-server-08658f87/telegram/webhook", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
+    const telegramSettings = await kv.get('telegram:settings');
+    const secret = c.req.header('X-Telegram-Bot-Api-Secret-Token');
+    if (!telegramSettings?.webhookEnabled || !secret || secret !== telegramSettings.webhookSecret) {
+      return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    const update = await c.req.json();
+    if (update.message?.text) {
+      await handleTelegramMessage(update.message);
+    } else if (update.callback_query) {
+      await handleTelegramCallback(update.callback_query);
     }
 
-    // Get all users
-    const allUsers = await kv.getByPrefix('user:');
-    
-    console.log('=== DEBUG ENDPOINT DETAILED ANALYSIS ===');
-    console.log(`Total users in database: ${allUsers.length}`);
-    console.log('All users:', allUsers.map(u => ({ 
-      name: u.name, 
-      email: u.email, 
-      role: u.role, 
-      status: u.status 
-    })));
-    
-    const staffMembers = allUsers.filter(u => u.role === 'staff' || !u.role);
-    console.log(`After staff filter (role === 'staff' || !role): ${staffMembers.length} users`);
-    console.log('Staff members:', staffMembers.map(u => ({ 
-      name: u.name, 
-      email: u.email, 
-      role: u.role, 
-      status: u.status 
-    })));
-    
-    const activeStaff = staffMembers.filter(u => u.status === 'active');
-    
-    // Get telegram settings
-    const telegramSettings = await kv.get('telegram:settings');
-    
-    // Get levels
-    const levels = await kv.getByPrefix('level:');
-    const sortedLevels = levels.sort((a, b) => a.order - b.order);
-    
-    // Check only staff members (deduplicate by email first, exclude admins)
-    const uniqueStaffMap = new Map();
-    staffMembers.forEach(staff => {
-      console.log(`Processing user: ${staff.name}, role: ${staff.role}, is admin: ${staff.role === 'admin'}`);
-      // Exclude admins from the debug display
-      if (staff.role !== 'admin' && !uniqueStaffMap.has(staff.email)) {
-        uniqueStaffMap.set(staff.email, staff);
-        console.log(`  -> Added to display: ${staff.name}`);
-      } else if (staff.role === 'admin') {
-        console.log(`  -> Excluded (admin): ${staff.name}`);
-      } else {
-        console.log(`  -> Excluded (duplicate email): ${staff.name}`);
-      }
-    });
-    const uniqueStaff = Array.from(uniqueStaffMap.values());
-    
-    console.log(`Final unique staff count for display: ${uniqueStaff.length}`);
-    console.log(`Staff details:`, uniqueStaff.map(s => ({ name: s.name, email: s.email, role: s.role, status: s.status, level: s.level, telegramChatId: (s.telegramChatId || s.telegramUsername) ? 'SET' : 'NOT SET' })));
-    console.log('=== END DEBUG ANALYSIS ===');
-    
-    const staffStatus = uniqueStaff.map(staff => {
-      const issues = [];
-      
-      // Check eligibility for notifications (check both fields for backwards compatibility)
-      const chatId = staff.telegramChatId || staff.telegramUsername;
-      if (staff.status !== 'active') issues.push('Status is not active (status: ' + staff.status + ')');
-      if (!staff.level) issues.push('No level assigned');
-      if (!chatId || chatId.trim() === '') issues.push('No Telegram Chat ID');
-      
-      const staffLevel = sortedLevels.find(l => l.name === staff.level);
-      
-      return {
-        name: staff.name,
-        email: staff.email,
-        role: staff.role || 'staff',
-        status: staff.status || 'unknown',
-        level: staff.level || 'NONE',
-        levelOrder: staffLevel?.order ?? 'N/A',
-        telegramChatId: chatId || 'NOT SET',
-        eligible: issues.length === 0,
-        issues: issues
-      };
-    });
-    
-    return c.json({
-      summary: {
-        totalUsers: allUsers.length,
-        staffMembers: staffMembers.length,
-        activeStaff: activeStaff.length,
-        telegramConnected: telegramSettings?.connected || false,
-        telegramBotName: telegramSettings?.botName || 'NOT SET',
-        levelsConfigured: levels.length
-      },
-      levels: sortedLevels.map(l => ({ name: l.name, minPoints: l.minPoints, order: l.order })),
-      staffStatus: staffStatus,
-      debugInfo: {
-        allUsersSnapshot: allUsers.map(u => ({ name: u.name, email: u.email, role: u.role, status: u.status })),
-        staffMembersSnapshot: staffMembers.map(u => ({ name: u.name, email: u.email, role: u.role, status: u.status })),
-        uniqueStaffSnapshot: uniqueStaff.map(u => ({ name: u.name, email: u.email, role: u.role, status: u.status }))
-      }
-    });
+    return c.json({ ok: true });
   } catch (error) {
-    console.error('Error in debug endpoint:', error);
-    return c.json({ error: 'Failed to generate debug info' }, 500);
+    // Telegram keeps re-sending updates that fail - acknowledge it so one bad update can't block the rest
+    console.error('Error handling Telegram update:', error);
+    return c.json({ ok: true });
   }
 });
 
-// ==================== LEVELS ENDPOINTS ====================
-
-// Get all levels
-app.get("/make-server-08658f87/levels", async (c) => {
+// Get whether the bot answers commands, with Telegram's view of the webhook
+app.get("/make-server-08658f87/telegram/bot", requirePermission('settings:manage'), async (c) => {
   try {
-    // Don't require auth for levels - they're needed during login
-    const levels = await kv.getByPrefix('level:');
-    return c.json({ levels });
+    const telegramSettings = await kv.get('telegram:settings');
+    if (!telegramSettings?.botToken) {
+      return c.json({ error: 'Telegram not configured' }, 400);
+    }
+
+    const info = telegramSettings.webhookEnabled ? await callTelegramApi(telegramSettings.botToken, 'getWebhookInfo') : null;
+
+    return c.json({
+      enabled: !!telegramSettings.webhookEnabled,
+      commands: TELEGRAM_BOT_COMMANDS,
+      pendingUpdateCount: info?.result?.pending_update_count || 0,
+      lastError: info?.result?.last_error_message || null
+    });
   } catch (error) {
-    console.error('Error fetching levels:', error);
-    return c.json({ error: 'Failed to fetch levels' }, 500);
+    console.error('Error fetching Telegram webhook:', error);
+    return c.json({ error: 'Failed to fetch Telegram webhook' }, 500);
   }
 });
 
-// Add new level (admin only)
-app.post("/make-server-08658f87/levels", async (c) => {
+// Turn the bot's webhook and commands on or off
+app.post("/make-server-08658f87/telegram/bot", requirePermission('settings:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    const telegramSettings = await kv.get('telegram:settings');
+    if (!telegramSettings?.botToken) {
+      return c.json({ error: 'Telegram not configured' }, 400);
     }
 
-    const { name, minPoints } = await c.req.json();
+    const { enabled } = await c.req.json();
+    const { botToken } = telegramSettings;
 
-    if (!name || minPoints === undefined) {
-      return c.json({ error: 'Name and minPoints are required' }, 400);
+    if (enabled) {
+      const { ok, webhookSecret, error } = await registerTelegramWebhook(botToken);
+      if (!ok) {
+        return c.json({ error }, 400);
+      }
+      await kv.set('telegram:settings', { ...telegramSettings, webhookEnabled: true, webhookSecret });
+    } else {
+      const result = await callTelegramApi(botToken, 'deleteWebhook');
+      if (!result.ok) {
+        console.error('Telegram deleteWebhook failed:', result);
+        return c.json({ error: result.description || 'Failed to remove the Telegram webhook' }, 400);
+      }
+      await kv.set('telegram:settings', { ...telegramSettings, webhookEnabled: false, webhookSecret: null });
     }
 
-    const levelId = `${Date.now()}`;
-    const levels = await kv.getByPrefix('level:');
-    
-    const level = {
-      id: levelId,
-      name,
-      minPoints,
-      order: levels.length,
-      createdAt: new Date().toISOString()
-    };
-
-    await kv.set(`level:${levelId}`, level);
+    console.log(`🤖 Telegram bot commands ${enabled ? 'enabled' : 'disabled'}`);
 
-    return c.json({ success: true, level });
+    return c.json({ success: true, enabled: !!enabled });
   } catch (error) {
-    console.error('Error adding level:', error);
-    return c.json({ error: 'Failed to add level' }, 500);
+    console.error('Error updating Telegram webhook:', error);
+    return c.json({ error: 'Failed to update Telegram webhook' }, 500);
   }
 });
 
-// Update level (admin only)
-app.put("/make-server-08658f87/levels/:id", async (c) => {
+// ==================== TELEGRAM ACCOUNT LINKING ====================
+
+// Staff link Telegram themselves: their profile hands out a one-time t.me/<bot>?start=<token> link, and pressing
+// Start sends "/start <token>" to the bot, which binds that chat to their account. Tokens are kept as
+// `telegram:link:<token>` (and on the user as telegramLinkToken) until used, replaced or expired
+const TELEGRAM_LINK_TTL_MINUTES = 30;
+
+// Staff who unlink (or whose chat is taken over by another account) lose these
+const UNLINKED_TELEGRAM_FIELDS = { telegramChatId: '', telegramUsername: '', telegramAccount: null };
+
+// Helper function to create a link token for a user, replacing any previous one
+const createTelegramLinkToken = async (userData: any) => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  const token = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+  if (userData.telegramLinkToken) {
+    await kv.del(`telegram:link:${userData.telegramLinkToken}`);
+  }
+
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + TELEGRAM_LINK_TTL_MINUTES * 60 * 1000).toISOString();
+  await kv.set(`telegram:link:${token}`, { token, userId: userData.id, createdAt: createdAt.toISOString(), expiresAt });
+  await kv.set(`user:${userData.id}`, { ...userData, telegramLinkToken: token });
+
+  return { token, expiresAt };
+};
+
+const getTelegramLinkUrl = (botName: string, token: string) => `https://t.me/${botName}?start=${token}`;
+
+// Helper function to bind the chat a "/start <token>" message came from to the token's user
+// Tokens work once - returns { staff } when linked, or { error } to tell the chat why not
+const linkTelegramChat = async (token: string, message: any) => {
+  const link = await kv.get(`telegram:link:${token}`);
+  const staff = link ? await kv.get(`user:${link.userId}`) : null;
+  if (!link || !staff || staff.telegramLinkToken !== token) {
+    return { error: 'This link is no longer valid. Open your profile in the Nahky Araby Event Hub to get a new one.' };
+  }
+
+  await kv.del(`telegram:link:${token}`);
+  if (link.expiresAt < new Date().toISOString()) {
+    await kv.set(`user:${staff.id}`, { ...staff, telegramLinkToken: null });
+    return { error: 'This link has expired. Open your profile in the Nahky Araby Event Hub to get a new one.' };
+  }
+
+  // A chat belongs to one account - take it off anyone it was linked to before
+  const chatId = message.chat.id.toString();
+  const previous = (await kv.getByPrefix('user:')).filter((u: any) =>
+    u.id !== staff.id && (u.telegramChatId || u.telegramUsername || '').trim() === chatId
+  );
+  if (previous.length > 0) {
+    await kv.mset(previous.map((u: any) => `user:${u.id}`), previous.map((u: any) => ({ ...u, ...UNLINKED_TELEGRAM_FIELDS })));
+    console.log(`🔗 Telegram chat ${chatId} moved from ${previous.map((u: any) => u.name).join(', ')} to ${staff.name}`);
+  }
+
+  const linkedStaff = {
+    ...staff,
+    // telegramUsername has always held the chat ID too - keep them in step
+    telegramChatId: chatId,
+    telegramUsername: chatId,
+    telegramAccount: {
+      username: message.from?.username ? `@${message.from.username}` : '',
+      firstName: message.from?.first_name || '',
+      lastName: message.from?.last_name || '',
+      linkedAt: new Date().toISOString()
+    },
+    telegramLinkToken: null
+  };
+  await kv.set(`user:${staff.id}`, linkedStaff);
+  console.log(`🔗 Linked Telegram chat ${chatId} to ${staff.name}`);
+
+  return { staff: linkedStaff };
+};
+
+// Helper function to tell a chat whether linking worked
+const sendTelegramLinkReply = async (chatId: string, result: { staff?: any; error?: string }) => {
+  const reply = result.staff
+    ? `✅ *Telegram connected*
+
+This chat is now linked to the Event Hub account of ${escapeTelegramMarkdown(result.staff.name)}. Your notifications will arrive here.`
+    : `⚠️ ${result.error}`;
+  const sent = await sendTelegramMessage(chatId, reply);
+  if (!sent.success) {
+    console.error('Failed to answer Telegram link:', sent.error);
+  }
+};
+
+// Without the webhook nothing hears "/start <token>" as it arrives, so while a link is waiting
+// the bot's pending updates are searched for it instead
+const findTelegramLinkMessage = async (botToken: string, token: string) => {
+  const result = await callTelegramApi(botToken, 'getUpdates', { limit: 100 });
+  return (result.result || [])
+    .map((update: any) => update.message)
+    .find((message: any) => message?.chat?.type === 'private' && (message.text || '').trim() === `/start ${token}`);
+};
+
+// Get the Telegram link of the current user, with the pending link if there is one
+app.get("/make-server-08658f87/telegram/link", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -2655,37 +3562,75 @@ app.put("/make-server-08658f87/levels/:id", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    const telegramSettings = await kv.get('telegram:settings');
+    if (!telegramSettings?.connected || !telegramSettings.botName) {
+      return c.json({ available: false, linked: false, chatId: '', account: null, pendingLink: null });
     }
 
-    const levelId = c.req.param('id');
-    const { name, minPoints } = await c.req.json();
-
-    const existingLevel = await kv.get(`level:${levelId}`);
-    if (!existingLevel) {
-      return c.json({ error: 'Level not found' }, 404);
+    let userData = await kv.get(`user:${user.id}`);
+    if (!userData) {
+      return c.json({ error: 'User not found' }, 404);
     }
 
-    const updatedLevel = {
-      ...existingLevel,
-      name,
-      minPoints
-    };
+    if (userData.telegramLinkToken && !telegramSettings.webhookEnabled) {
+      const message = await findTelegramLinkMessage(telegramSettings.botToken, userData.telegramLinkToken);
+      if (message) {
+        const result = await linkTelegramChat(userData.telegramLinkToken, message);
+        await sendTelegramLinkReply(message.chat.id.toString(), result);
+        userData = await kv.get(`user:${user.id}`);
+      }
+    }
 
-    await kv.set(`level:${levelId}`, updatedLevel);
+    const link = userData.telegramLinkToken ? await kv.get(`telegram:link:${userData.telegramLinkToken}`) : null;
+    const chatId = (userData.telegramChatId || userData.telegramUsername || '').trim();
 
-    return c.json({ success: true, level: updatedLevel });
+    return c.json({
+      available: true,
+      linked: !!chatId,
+      chatId,
+      account: userData.telegramAccount || null,
+      pendingLink: link && link.expiresAt > new Date().toISOString()
+        ? { url: getTelegramLinkUrl(telegramSettings.botName, link.token), expiresAt: link.expiresAt }
+        : null
+    });
   } catch (error) {
-    console.error('Error updating level:', error);
-    return c.json({ error: 'Failed to update level' }, 500);
+    console.error('Error getting Telegram link:', error);
+    return c.json({ error: 'Failed to get Telegram link' }, 500);
   }
 });
 
-// Delete level (admin only)
-app.delete("/make-server-08658f87/levels/:id", async (c) => {
+// Create a one-time link for the current user - also used to re-link another Telegram account
+app.post("/make-server-08658f87/telegram/link", async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    const { error: authError, user } = await verifyAuth(authHeader);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+
+    const telegramSettings = await kv.get('telegram:settings');
+    if (!telegramSettings?.connected || !telegramSettings.botName) {
+      return c.json({ error: 'Telegram is not set up for the Event Hub yet' }, 400);
+    }
+
+    const userData = await kv.get(`user:${user.id}`);
+    if (!userData) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const { token, expiresAt } = await createTelegramLinkToken(userData);
+    console.log(`🔗 Created Telegram link for ${userData.name}`);
+
+    return c.json({ success: true, url: getTelegramLinkUrl(telegramSettings.botName, token), expiresAt });
+  } catch (error) {
+    console.error('Error creating Telegram link:', error);
+    return c.json({ error: 'Failed to create Telegram link' }, 500);
+  }
+});
+
+// Unlink Telegram from the current user - any pending link stops working too
+app.delete("/make-server-08658f87/telegram/link", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -2694,24 +3639,2702 @@ app.delete("/make-server-08658f87/levels/:id", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
     const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    if (!userData) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    if (userData.telegramLinkToken) {
+      await kv.del(`telegram:link:${userData.telegramLinkToken}`);
+    }
+    await kv.set(`user:${user.id}`, { ...userData, ...UNLINKED_TELEGRAM_FIELDS, telegramLinkToken: null });
+    console.log(`🔗 Unlinked Telegram from ${userData.name}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error unlinking Telegram:', error);
+    return c.json({ error: 'Failed to unlink Telegram' }, 500);
+  }
+});
+
+// ==================== NOTIFICATIONS ====================
+
+// Helper function to format a date for notifications, e.g. "Monday, March 3, 2025"
+const formatLongDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// Shared header of all notification emails
+const EMAIL_HEADER_LOGO = `
+            <div style="text-align: center; margin-bottom: 10px;">
+              <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
+            </div>
+            <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>`;
+
+// Helper function to wrap an email body in the shared layout - .box is available to the body for highlighted blocks
+const renderEmailLayout = (heading: string, body: string, color: string) => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: ${color}; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .box { background-color: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid ${color}; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #6b7280; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">${EMAIL_HEADER_LOGO}
+            <h1>${heading}</h1>
+          </div>
+          <div class="content">
+${body}
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+// Built-in message templates for each notification type and channel
+// WhatsApp uses the same *bold* formatting as Telegram and shares its text unless it has its own. Placeholders:
+//   {{event.name}} inserts a value, {{#event.notes}}...{{/event.notes}} only renders when the value is set
+//   and {{^levelUp}}...{{/levelUp}} only when it is not. Admins can override any template (see below)
+const DEFAULT_NOTIFICATION_TEMPLATES: Record<string, {
+  label: string;
+  variables: string[];
+  color: string; // Email header colour
+  telegram?: { body: string };
+  whatsapp?: { body: string };
+  email?: { subject: string; heading: string; body: string };
+}> = {
+  'event-created': {
+    label: 'New event',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time', 'event.duration', 'event.requiredLevel', 'event.points', 'event.description', 'event.notes', 'recurrence', 'occurrenceCount'],
+    color: '#4F46E5',
+    whatsapp: {
+      body: `🎉 *New Event Available!*
+
+Hello {{staff.name}},
+
+A new event has been posted that you're eligible to attend:
+
+📅 *{{event.name}}*
+📍 Location: {{event.location}}
+📆 Date: {{event.date}}
+🕐 Time: {{event.time}}
+⏱️ Duration: {{event.duration}}
+🎯 Required Level: {{event.requiredLevel}}
+⭐ Points: {{event.points}} points{{#recurrence}}
+🔁 Repeats: {{recurrence}} ({{occurrenceCount}} dates){{/recurrence}}
+
+Log in to Nahky Araby Event Hub to sign up for this event and start earning points!`
+    },
+    telegram: {
+      body: `🎉 *New Event Available!*
+
+Hello {{staff.name}},
+
+A new event has been posted that you're eligible to attend:
+
+📅 *{{event.name}}*
+📍 Location: {{event.location}}
+📆 Date: {{event.date}}
+🕐 Time: {{event.time}}
+⏱️ Duration: {{event.duration}}
+🎯 Required Level: {{event.requiredLevel}}
+⭐ Points: {{event.points}} points{{#recurrence}}
+🔁 Repeats: {{recurrence}} ({{occurrenceCount}} dates){{/recurrence}}{{#event.description}}
+
+📝 Description: {{event.description}}{{/event.description}}{{#event.notes}}
+
+💬 Notes: {{event.notes}}{{/event.notes}}
+
+Log in to Nahky Araby Event Hub to sign up for this event and start earning points!`
+    },
+    email: {
+      subject: 'New Event Available: {{event.name}}',
+      heading: '🎉 New Event Available!',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>A new event has been posted that you're eligible to attend!</p>
+
+<div class="box">
+  <h3 style="margin-top: 0;">📅 {{event.name}}</h3>
+  <p><strong>📍 Location:</strong> {{event.location}}</p>
+  <p><strong>📆 Date:</strong> {{event.date}}</p>
+  <p><strong>🕐 Time:</strong> {{event.time}}</p>
+  <p><strong>⏱️ Duration:</strong> {{event.duration}}</p>
+  <p><strong>🎯 Required Level:</strong> {{event.requiredLevel}}</p>
+  <p><strong>⭐ Points:</strong> {{event.points}} points</p>{{#recurrence}}
+  <p><strong>🔁 Repeats:</strong> {{recurrence}} ({{occurrenceCount}} dates)</p>{{/recurrence}}
+</div>
+
+<p>Log in to Nahky Araby Event Hub to sign up for this event and start earning points!</p>`
+    }
+  },
+
+  'event-updated': {
+    label: 'Event updated',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time', 'event.duration', 'event.points', 'changes', 'isSelected', 'occurrenceDates'],
+    color: '#4F46E5',
+    telegram: {
+      body: `📝 *Event Updated*
+
+Hello {{staff.name}},
+
+An event you're {{#isSelected}}selected for{{/isSelected}}{{^isSelected}}signed up for{{/isSelected}} has been updated:
+
+*{{event.name}}*
+
+*Changes Made:*
+{{changes}}
+
+*Current Event Details:*
+📍 Location: {{event.location}}
+📆 Date: {{^occurrenceDates}}{{event.date}}{{/occurrenceDates}}{{occurrenceDates}}
+🕐 Time: {{event.time}}
+⏱️ Duration: {{event.duration}}
+⭐ Points: {{event.points}}
+
+Please make note of these changes. Log in to the app for full details.`
+    },
+    email: {
+      subject: 'Event Updated: {{event.name}}',
+      heading: '📝 Event Updated',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>An event you're {{#isSelected}}selected for{{/isSelected}}{{^isSelected}}signed up for{{/isSelected}} has been updated:</p>
+
+<div class="box">
+  <h3 style="margin-top: 0;">{{event.name}}</h3>
+  <p><strong>Changes Made:</strong></p>
+  <p style="white-space: pre-line;">{{changes}}</p>
+</div>
+
+<p><strong>📍 Location:</strong> {{event.location}}<br />
+<strong>📆 Date:</strong> {{^occurrenceDates}}{{event.date}}{{/occurrenceDates}}{{occurrenceDates}}<br />
+<strong>🕐 Time:</strong> {{event.time}}<br />
+<strong>⏱️ Duration:</strong> {{event.duration}}</p>
+
+<p>Please make note of these changes. Log in to the app for full details.</p>`
+    }
+  },
+
+  'event-cancelled': {
+    label: 'Event cancelled',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time', 'event.description', 'event.notes'],
+    color: '#DC2626',
+    telegram: {
+      body: `⚠️ *Event Cancelled*
+
+Hello {{staff.name}},
+
+We regret to inform you that the following event has been cancelled:
+
+📅 *{{event.name}}*
+📍 Location: {{event.location}}
+📆 Date: {{event.date}}
+🕐 Time: {{event.time}}{{#event.description}}
+
+📝 Description: {{event.description}}{{/event.description}}{{#event.notes}}
+
+💬 Notes: {{event.notes}}{{/event.notes}}
+
+We apologize for any inconvenience. Please check the app for other upcoming events you can participate in.`
+    },
+    email: {
+      subject: 'Event Cancelled: {{event.name}}',
+      heading: '⚠️ Event Cancelled',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>We regret to inform you that the following event has been cancelled:</p>
+
+<div class="box">
+  <h2 style="margin-top: 0; color: #DC2626;">{{event.name}}</h2>
+  <p><strong>📅 Date:</strong> {{event.date}}</p>
+  <p><strong>🕐 Time:</strong> {{event.time}}</p>
+  <p><strong>📍 Location:</strong> {{event.location}}</p>
+</div>
+
+<p>We apologize for any inconvenience this may cause. Please check the app for other upcoming events you can participate in.</p>
+
+<p>If you have any questions, please contact the administration team.</p>`
+    }
+  },
+
+  'event-selected': {
+    label: 'Selected for an event',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time', 'event.points', 'event.description', 'event.notes', 'shifts'],
+    color: '#10B981',
+    telegram: {
+      body: `Hello {{staff.name}},
+
+🎉 *Congratulations!* 🎉
+
+You have been selected to participate in the following event:
+
+📅 *{{event.name}}*
+📍 Location: {{event.location}}
+📆 Date: {{event.date}}
+🕐 Time: {{event.time}}{{#shifts}}
+👥 Shift: {{shifts}}{{/shifts}}{{^shifts}}
+⭐ Points: {{event.points}} points{{/shifts}}{{#event.description}}
+
+📝 Description: {{event.description}}{{/event.description}}{{#event.notes}}
+
+💬 Notes: {{event.notes}}{{/event.notes}}
+
+We look forward to seeing you there! You will receive your points after the event is completed.`
+    },
+    email: {
+      subject: 'You have been selected: {{event.name}}',
+      heading: '🎉 Congratulations!',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>You have been selected to participate in the following event:</p>
+
+<div class="box">
+  <h3 style="margin-top: 0;">📅 {{event.name}}</h3>
+  <p><strong>📍 Location:</strong> {{event.location}}</p>
+  <p><strong>📆 Date:</strong> {{event.date}}</p>
+  <p><strong>🕐 Time:</strong> {{event.time}}</p>{{#shifts}}
+  <p><strong>👥 Shift:</strong> {{shifts}}</p>{{/shifts}}{{^shifts}}
+  <p><strong>⭐ Points:</strong> {{event.points}} points</p>{{/shifts}}{{#event.notes}}
+  <p><strong>💬 Notes:</strong> {{event.notes}}</p>{{/event.notes}}
+</div>
+
+<p>We look forward to seeing you there! You will receive your points after the event is completed.</p>`
+    }
+  },
+
+  'event-deselected': {
+    label: 'Not selected for an event',
+    variables: ['staff.name', 'event.name', 'event.date', 'event.description', 'event.notes'],
+    color: '#6B7280',
+    telegram: {
+      body: `Hello {{staff.name}},
+
+Thank you for signing up for *{{event.name}}*!
+
+Unfortunately, you were not selected for this event on {{event.date}}.{{#event.description}}
+
+📝 Event Description: {{event.description}}{{/event.description}}{{#event.notes}}
+
+💬 Notes: {{event.notes}}{{/event.notes}}
+
+Don't worry! There will be many more opportunities to participate in upcoming events. Please keep an eye on the app for new events and continue signing up.
+
+We appreciate your enthusiasm and look forward to having you at future events! 🌟`
+    },
+    email: {
+      subject: 'Not selected: {{event.name}}',
+      heading: 'Thank You for Signing Up',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>Thank you for signing up for <strong>{{event.name}}</strong>!</p>
+
+<p>Unfortunately, you were not selected for this event on {{event.date}}.</p>
+
+<p>Don't worry! There will be many more opportunities to participate in upcoming events. Please keep an eye on the app for new events and continue signing up.</p>
+
+<p>We appreciate your enthusiasm and look forward to having you at future events! 🌟</p>`
+    }
+  },
+
+  'waitlist-promoted': {
+    label: 'Moved off the waitlist',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time'],
+    color: '#10B981',
+    telegram: {
+      body: `Hello {{staff.name}},
+
+✅ *A spot opened up!*
+
+You have been moved from the waitlist to the participant list for:
+
+📅 *{{event.name}}*
+📍 Location: {{event.location}}
+📆 Date: {{event.date}}
+🕐 Time: {{event.time}}
+
+If you can no longer attend, please cancel your attendance in the app so the next person can take your place.`
+    },
+    email: {
+      subject: 'A spot opened up: {{event.name}}',
+      heading: '✅ A Spot Opened Up!',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>You have been moved from the waitlist to the participant list for:</p>
+
+<div class="box">
+  <h3 style="margin-top: 0;">📅 {{event.name}}</h3>
+  <p><strong>📍 Location:</strong> {{event.location}}</p>
+  <p><strong>📆 Date:</strong> {{event.date}}</p>
+  <p><strong>🕐 Time:</strong> {{event.time}}</p>
+</div>
+
+<p>If you can no longer attend, please cancel your attendance in the app so the next person can take your place.</p>`
+    }
+  },
+
+  'points-adjusted': {
+    label: 'Points adjusted',
+    variables: ['staff.name', 'points', 'pointsAdded', 'reason', 'newPoints', 'newLevel', 'levelUp'],
+    color: '#F59E0B',
+    telegram: {
+      body: `{{#pointsAdded}}🎉 *Points Added*{{/pointsAdded}}{{^pointsAdded}}📊 *Points Adjusted*{{/pointsAdded}}
+
+Hello {{staff.name}},
+
+{{#pointsAdded}}Great news! {{/pointsAdded}}Your points have been adjusted:
+
+⭐ {{#pointsAdded}}+{{/pointsAdded}}{{^pointsAdded}}-{{/pointsAdded}}{{points}} points
+📝 Reason: {{reason}}
+📊 New Total: {{newPoints}} points{{#levelUp}}
+
+🎊 *Level Up!* You are now {{newLevel}}!{{/levelUp}}`
+    },
+    email: {
+      subject: 'Points {{#pointsAdded}}Added{{/pointsAdded}}{{^pointsAdded}}Adjusted{{/pointsAdded}}: {{points}} points',
+      heading: '{{#pointsAdded}}🎉 Points Added{{/pointsAdded}}{{^pointsAdded}}📊 Points Adjusted{{/pointsAdded}}',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>{{#pointsAdded}}Great news! {{/pointsAdded}}Your points have been adjusted:</p>
+
+<div class="box" style="text-align: center;">
+  <div style="font-size: 16px; color: #6B7280; margin-bottom: 5px;">Points {{#pointsAdded}}Added{{/pointsAdded}}{{^pointsAdded}}Subtracted{{/pointsAdded}}</div>
+  <div style="font-size: 48px; font-weight: bold; margin: 10px 0;">{{#pointsAdded}}+{{/pointsAdded}}{{^pointsAdded}}-{{/pointsAdded}}{{points}}</div>
+  <div style="font-size: 14px; color: #6B7280; margin-top: 10px;">New Total: {{newPoints}} points</div>{{#levelUp}}
+  <div style="font-size: 16px; color: #10B981; margin-top: 15px; font-weight: bold;">🎊 Level Up! You are now {{newLevel}}!</div>{{/levelUp}}
+</div>
+
+<div class="box">
+  <h3 style="margin-top: 0; color: #3B82F6;">📝 Reason</h3>
+  <p style="margin: 5px 0;">{{reason}}</p>
+</div>
+
+<p>You can view your current points and level by logging into Nahky Araby Event Hub.</p>
+
+<p style="margin-top: 30px;">Keep up the great work!</p>`
+    }
+  },
+
+  'points-earned': {
+    label: 'Points earned for an event',
+    variables: ['staff.name', 'event.name', 'event.date', 'event.location', 'shift.name', 'shift.startTime', 'shift.endTime', 'points', 'newPoints', 'newLevel', 'levelUp'],
+    color: '#10B981',
+    telegram: {
+      body: `🎉 *Event Completed - Points Earned!*
+
+Hello {{staff.name}},
+
+Congratulations! You have completed *{{event.name}}*{{#shift.name}} ({{shift.name}}){{/shift.name}} on {{event.date}}.
+
+⭐ +{{points}} points
+📊 New Total: {{newPoints}} points{{#levelUp}}
+
+🎊 *Level Up!* You are now {{newLevel}}!{{/levelUp}}
+
+Thank you for your participation and dedication!`
+    },
+    email: {
+      subject: 'Event Completed: You earned {{points}} points!',
+      heading: '🎉 Event Completed - Points Earned!',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>Congratulations! You have successfully completed an event and earned points!</p>
+
+<div class="box" style="text-align: center;">
+  <div style="font-size: 16px; color: #6B7280; margin-bottom: 5px;">Points Earned</div>
+  <div style="font-size: 48px; font-weight: bold; color: #10B981; margin: 10px 0;">+{{points}}</div>
+  <div style="font-size: 14px; color: #6B7280; margin-top: 10px;">New Total: {{newPoints}} points</div>{{#levelUp}}
+  <div style="font-size: 16px; color: #10B981; margin-top: 15px; font-weight: bold;">🎊 Level Up! You are now {{newLevel}}!</div>{{/levelUp}}
+</div>
+
+<div class="box">
+  <h3 style="margin-top: 0; color: #3B82F6;">📅 Event Details</h3>
+  <p style="margin: 5px 0;"><strong>Event:</strong> {{event.name}}</p>{{#shift.name}}
+  <p style="margin: 5px 0;"><strong>Shift:</strong> {{shift.name}} ({{shift.startTime}} - {{shift.endTime}})</p>{{/shift.name}}
+  <p style="margin: 5px 0;"><strong>Date:</strong> {{event.date}}</p>
+  <p style="margin: 5px 0;"><strong>Location:</strong> {{event.location}}</p>
+</div>
+
+<p>Thank you for your participation and dedication! You can view your updated points and level by logging into Nahky Araby Event Hub.</p>
+
+<p style="margin-top: 30px;">Keep up the excellent work!</p>`
+    }
+  },
+
+  'event-digest': {
+    label: 'New events digest',
+    variables: ['staff.name', 'eventCount', 'eventList', 'period'],
+    color: '#4F46E5',
+    telegram: {
+      body: `📬 *New events for you*
+
+Hello {{staff.name}},
+
+Here are the events posted this {{period}} that you can sign up for ({{eventCount}}):
+
+{{eventList}}
+
+Log in to Nahky Araby Event Hub to sign up.`
+    },
+    email: {
+      subject: 'New events to sign up for ({{eventCount}})',
+      heading: '📬 New Events For You',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>Here are the events posted this {{period}} that you can sign up for:</p>
+
+<div class="box" style="white-space: pre-line;">{{eventList}}</div>
+
+<p>Log in to Nahky Araby Event Hub to sign up.</p>`
+    }
+  },
+
+  'event-reminder': {
+    label: 'Event reminder',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time', 'event.notes', 'shift.name', 'shift.startTime', 'shift.endTime', 'startsIn'],
+    color: '#4F46E5',
+    telegram: {
+      body: `⏰ *Reminder: {{event.name}}*
+
+Hello {{staff.name}},
+
+You are taking part in *{{event.name}}*, which starts {{startsIn}}.
+
+📍 Location: {{event.location}}
+📆 Date: {{event.date}}{{#shift.name}}
+👥 Shift: {{shift.name}} ({{shift.startTime}}–{{shift.endTime}}){{/shift.name}}{{^shift.name}}
+🕐 Time: {{event.time}}{{/shift.name}}{{#event.notes}}
+
+💬 Notes: {{event.notes}}{{/event.notes}}
+
+See you there!`
+    },
+    email: {
+      subject: 'Reminder: {{event.name}} starts {{startsIn}}',
+      heading: '⏰ Event Reminder',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>This is a reminder that you are taking part in the following event, which starts {{startsIn}}:</p>
+
+<div class="box">
+  <h3 style="margin-top: 0;">📅 {{event.name}}</h3>
+  <p><strong>📍 Location:</strong> {{event.location}}</p>
+  <p><strong>📆 Date:</strong> {{event.date}}</p>{{#shift.name}}
+  <p><strong>👥 Shift:</strong> {{shift.name}} ({{shift.startTime}}–{{shift.endTime}})</p>{{/shift.name}}{{^shift.name}}
+  <p><strong>🕐 Time:</strong> {{event.time}}</p>{{/shift.name}}{{#event.notes}}
+  <p><strong>💬 Notes:</strong> {{event.notes}}</p>{{/event.notes}}
+</div>
+
+<p>See you there!</p>`
+    }
+  },
+
+  'selection-pending': {
+    label: 'Selection still open (admins and coordinators)',
+    variables: ['staff.name', 'event.name', 'event.location', 'event.date', 'event.time', 'signupCount', 'startsIn'],
+    color: '#F59E0B',
+    telegram: {
+      body: `⚠️ *Selection still open: {{event.name}}*
+
+Hello {{staff.name}},
+
+*{{event.name}}* starts {{startsIn}} ({{event.date}}, {{event.time}}) but no staff have been selected yet.
+
+👥 Sign-ups so far: {{signupCount}}
+
+Please review the sign-ups and close the event so staff know who is taking part.`
+    },
+    email: {
+      subject: 'Selection still open: {{event.name}} starts {{startsIn}}',
+      heading: '⚠️ Selection Still Open',
+      body: `<p>Hello {{staff.name}},</p>
+
+<p>The following event starts {{startsIn}}, but no staff have been selected yet:</p>
+
+<div class="box">
+  <h3 style="margin-top: 0;">📅 {{event.name}}</h3>
+  <p><strong>📍 Location:</strong> {{event.location}}</p>
+  <p><strong>📆 Date:</strong> {{event.date}}</p>
+  <p><strong>🕐 Time:</strong> {{event.time}}</p>
+  <p><strong>👥 Sign-ups so far:</strong> {{signupCount}}</p>
+</div>
+
+<p>Please review the sign-ups and close the event so staff know who is taking part.</p>`
+    }
+  }
+};
+
+const NOTIFICATION_CHANNELS
+ = ['email', 'telegram', 'whatsapp'];
+
+// Helper function to get the built-in template of a type for a channel
+const getDefaultTemplate = (type: string, channel: string) => {
+  const defaults: any = DEFAULT_NOTIFICATION_TEMPLATES[type];
+  if (!defaults) return null;
+  return defaults[channel] || (channel === 'whatsapp' ? defaults.telegram : null) || null;
+};
+
+// Helper function to list the channels a notification type can be sent through
+const getTemplateChannels = (type: string) => {
+  return NOTIFICATION_CHANNELS.filter(channel => getDefaultTemplate(type, channel));
+};
+
+// Helper function to get the template used for a type and channel - the admin's version if there is one
+const getNotificationTemplate = async (type: string, channel: string) => {
+  const custom = await kv.get(`notification-template:${type}:${channel}`);
+  return custom || getDefaultTemplate(type, channel);
+};
+
+// Helper function to escape text for use in email HTML
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Helper function to fill in a template's placeholders, e.g. "Hello {{staff.name}}"
+// Sections are not nested; unknown placeholders render as nothing
+const renderTemplate = (template: string, context: any, escape: (text: string) => string = text => text) => {
+  const lookup = (path: string) => path.split('.').reduce((value: any, key) => value?.[key], context);
+  const isSet = (value: any) => value !== undefined && value !== null && value !== false && value !== '';
+
+  return template
+    .replace(/\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g, (_match, kind, path, inner) =>
+      (kind === '#') === isSet(lookup(path)) ? inner : ''
+    )
+    .replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path) => {
+      const value = lookup(path);
+      return isSet(value) ? escape(String(value)) : '';
+    });
+};
+
+// Helper function to build the values a template can use from the job data captured at enqueue time
+const buildTemplateContext = (staff: any, data: any) => {
+  const { event, shift, points } = data;
+  return {
+    staff: { name: staff.name, email: staff.email, level: staff.level, points: staff.points },
+    event: event ? {
+      name: event.name,
+      location: event.location,
+      date: formatLongDate(event.date),
+      time: event.time,
+      duration: event.duration,
+      requiredLevel: event.requiredLevel,
+      points: event.points,
+      description: event.description,
+      notes: event.notes
+    } : undefined,
+    shift,
+    shifts: data.shifts,
+    isSelected: event?.status === 'closed',
+    changes: data.changes?.map((change: string, idx: number) => `${idx + 1}. ${change}`).join('\n'),
+    recurrence: data.recurrence ? describeRecurrence(data.recurrence) : undefined,
+    occurrenceCount: data.occurrenceCount,
+    occurrenceDates: data.occurrenceDates?.map(formatLongDate).join(', '),
+    // Adjustments can be negative - the template decides how to show the sign
+    points: points !== undefined ? Math.abs(points) : undefined,
+    pointsAdded: points > 0,
+    reason: data.reason,
+    newPoints: data.newPoints,
+    newLevel: data.newLevel,
+    levelUp: data.oldLevel !== undefined && data.oldLevel !== data.newLevel,
+    startsIn: data.startsIn,
+    signupCount: data.signupCount,
+    eventCount: data.eventCount,
+    eventList: data.eventList,
+    period: data.period
+  };
+};
+
+// Helper function to render a notification for a channel - chat channels get { text }, email gets { subject, html }
+const renderNotification = (type: string, channel: string, template: any, staff: any, data: any) => {
+  const context = buildTemplateContext(staff, data);
+  if (channel === 'email') {
+    return {
+      subject: renderTemplate(template.subject, context),
+      html: renderEmailLayout(
+        renderTemplate(template.heading, context, escapeHtml),
+        renderTemplate(template.body, context, escapeHtml),
+        DEFAULT_NOTIFICATION_TEMPLATES[type].color
+      )
+    };
+  }
+  return { text: renderTemplate(template.body, context) };
+};
+
+// Helper function to find where a staff member can be reached on a channel, or null if they can't
+// Chat channels also need the workspace connection to be set up
+const getChannelAddress = (staff: any, channel: string, channelSettings: any): string | null => {
+  if (channel === 'email') {
+    return staff.email || null;
+  }
+  if (channel === 'telegram') {
+    // Check both fields for backwards compatibility
+    const chatId = (staff.telegramChatId || staff.telegramUsername || '').trim();
+    return channelSettings.telegram?.connected && chatId ? chatId : null;
+  }
+  if (channel === 'whatsapp') {
+    const phone = (staff.phone || '').trim();
+    return channelSettings.whatsapp?.connected && phone ? phone : null;
+  }
+  return null;
+};
+
+// Helper function to load the connection settings of the chat channels
+const getChannelSettings = async () => {
+  const [telegram, whatsapp] = await Promise.all([kv.get('telegram:settings'), kv.get('whatsapp:settings')]);
+  return { telegram, whatsapp };
+};
+
+// Helper function to render a notification with the current template and send it through a channel
+const sendThroughChannel = async (channel: string, address: string, staff: any, type: string, data: any) => {
+  const template = await getNotificationTemplate(type, channel);
+  const message: any = renderNotification(type, channel, template, staff, data);
+  if (channel === 'email') {
+    return sendEmail(address, message.subject, message.html);
+  }
+  if (channel === 'telegram') {
+    const replyMarkup = type === 'event-created' && data.event ? await getNewEventKeyboard(data.event) : undefined;
+    return sendTelegramMessage(address, message.text, replyMarkup);
+  }
+  const whatsAppTemplate = (await getWhatsAppTemplates())[type];
+  if (whatsAppTemplate) {
+    return sendWhatsAppTemplate(address, whatsAppTemplate, buildWhatsAppTemplateParameters(whatsAppTemplate, staff, data));
+  }
+  return sendWhatsAppMessage(address, message.text);
+};
+
+// Every outgoing message is kept in the outbox as `notification:<id>`, one per recipient and channel
+// Failed sends are retried with exponential backoff (1, 2, 4, 8 minutes) until MAX_NOTIFICATION_ATTEMPTS
+const MAX_NOTIFICATION_ATTEMPTS = 5;
+const NOTIFICATION_RETRY_BASE_MS = 60 * 1000;
+// Sent and abandoned messages are removed from the outbox after this many days
+const NOTIFICATION_RETENTION_DAYS = 30;
+// An entry being sent is claimed for this long - if the run that claimed it dies, another run sends it once the lease is up
+const NOTIFICATION_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// Helper function to list outbox entries that should be sent now, oldest first
+const getDueNotifications = async () => {
+  const now = new Date().toISOString();
+  const leaseExpired = new Date(Date.now() - NOTIFICATION_CLAIM_LEASE_MS).toISOString();
+  const entries = await kv.getByPrefix('notification:');
+  return entries
+    .filter((entry: any) => entry.status === 'queued'
+      || (entry.status === 'failed' && entry.nextRetryAt <= now)
+      || (entry.status === 'held' && entry.heldUntil <= now)
+      || (entry.status === 'sending' && entry.claimedAt <= leaseExpired))
+    .sort((a: any, b: any) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Helper function to replace an outbox entry only if it is unchanged since it was read
+// The update only succeeds while the KV row still holds the status and updatedAt of the entry that was read.
+// Postgres re-checks that condition after a competing update commits, so of two runs changing the same entry
+// exactly one gets the row back. Returns whether the update was made
+const updateNotificationIfUnchanged = async (entry: any, updatedEntry: any) => {
+  // kv_store has no conditional write, so this goes to its table directly
+  const { data, error } = await getSupabaseAdmin()
+    .from('kv_store_08658f87')
+    .update({ value: updatedEntry })
+    .eq('key', `notification:${entry.id}`)
+    .eq('value->>status', entry.status)
+    .eq('value->>updatedAt', entry.updatedAt)
+    .select('key');
+
+  if (error) {
+    throw new Error(`Failed to update notification ${entry.id}: ${error.message}`);
+  }
+  return !!data && data.length > 0;
+};
+
+// Helper function to claim an outbox entry before sending it, so it is sent only once
+// Runs in other isolates (the /jobs/run cron and request-started runs) can pick up the same entry at the same time,
+// and an in-memory flag can't see them, so the claim is a conditional update of the entry.
+// Returns the claimed entry, or null if another run got there first
+const claimNotification = async (entry: any) => {
+  const claimedAt = new Date().toISOString();
+  const claimed = { ...entry, status: 'sending', claimedAt, updatedAt: claimedAt };
+
+  if (!await updateNotificationIfUnchanged(entry, claimed)) {
+    console.log(`  ⏭️ ${entry.type} notification to ${entry.staffName} was already picked up by another run`);
+    return null;
+  }
+  return claimed;
+};
+
+// Helper function to remove settled outbox entries and WhatsApp replies past the retention period
+const pruneNotifications = async () => {
+  const cutoff = new Date(Date.now() - NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const entries = await kv.getByPrefix('notification:');
+  const expired = entries.filter((entry: any) =>
+    (entry.status === 'sent' || entry.status === 'gave-up') && entry.updatedAt < cutoff
+  );
+  if (expired.length > 0) {
+    await kv.mdel([
+      ...expired.map((entry: any) => `notification:${entry.id}`),
+      ...expired
+        .filter((entry: any) => entry.providerMessageId)
+        .map((entry: any) => `whatsapp:message:${entry.providerMessageId}`)
+    ]);
+    console.log(`🧹 Removed ${expired.length} old notification(s) from the outbox`);
+  }
+
+  const replies = await kv.getByPrefix('whatsapp:reply:');
+  const expiredReplies = replies.filter((reply: any) => reply.receivedAt < cutoff);
+  if (expiredReplies.length > 0) {
+    await kv.mdel(expiredReplies.map((reply: any) => `whatsapp:reply:${reply.id}`));
+  }
+};
+
+// Chat messages are held during quiet hours and released when they end. Email waits in the inbox, so it is never held
+const QUIET_HOURS_CHANNELS = ['telegram', 'whatsapp'];
+
+const DEFAULT_QUIET_HOURS = {
+  enabled: false,
+  start: '22:00',
+  end: '08:00', // Before start means the quiet hours run overnight
+  timeZone: DEFAULT_TIME_ZONE
+};
+
+// Helper function to get the organization's quiet hours with defaults
+const getQuietHoursSettings = async () => {
+  const settings = await kv.get('quiet-hours:settings');
+  return { ...DEFAULT_QUIET_HOURS, ...(settings || {}) };
+};
+
+// Helper function to validate quiet hours, or null when their times are missing or invalid
+const normalizeQuietHours = (data: any) => {
+  const isTime = (value: any) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  if (!data || !isTime(data.start) || !isTime(data.end)) return null;
+  return {
+    enabled: !!data.enabled,
+    start: data.start,
+    end: data.end,
+    timeZone: data.timeZone && isValidTimeZone(data.timeZone) ? data.timeZone : DEFAULT_TIME_ZONE
+  };
+};
+
+// Helper function to find when quiet hours end if an instant falls inside them, or null if it doesn't
+const getQuietHoursEnd = (quietHours: any, instant: Date) => {
+  if (!quietHours?.enabled || quietHours.start === quietHours.end) return null;
+
+  const { date, time } = getZonedDateParts(instant, quietHours.timeZone);
+  const overnight = quietHours.start > quietHours.end;
+  const isQuiet = overnight
+    ? time >= quietHours.start || time < quietHours.end
+    : time >= quietHours.start && time < quietHours.end;
+  if (!isQuiet) return null;
+
+  const endDate = overnight && time >= quietHours.start ? addDaysToDate(date, 1) : date;
+  return zonedTimeToUtc(endDate, quietHours.end, quietHours.timeZone);
+};
+
+// Helper function to check whether a notification may interrupt quiet hours
+// Only cancellations of events starting within 24 hours can't wait until the morning
+const isUrgentNotification = (entry: any, now: Date) => {
+  if (entry.type !== 'event-cancelled' || !entry.data?.event) return false;
+  const { start } = getEventTimes(entry.data.event);
+  return start.getTime() - now.getTime() < 24 * 60 * 60 * 1000;
+};
+
+// Helper function to find until when an outbox entry has to be held, or null if it can be sent now
+// Staff can replace the organization's quiet hours with their own (or turn them off) in their preferences
+const getNotificationHoldUntil = async (entry: any, now: Date) => {
+  if (!QUIET_HOURS_CHANNELS.includes(entry.channel) || isUrgentNotification(entry, now)) return null;
+
+  const prefs = await kv.get(`notification-prefs:${entry.staffId}`);
+  const quietHours = prefs?.quietHours || await getQuietHoursSettings();
+  return getQuietHoursEnd(quietHours, now);
+};
+
+// Helper function to queue held messages again after quiet hours change - any still in quiet hours are held again
+const releaseHeldNotifications = async (staffId?: string) => {
+  const entries = await kv.getByPrefix('notification:');
+  const held = entries.filter((entry: any) => entry.status === 'held' && (!staffId || entry.staffId === staffId));
+  if (held.length > 0) {
+    // A run may already be sending an entry whose quiet hours ended, so each one is only queued if it is still held
+    const updatedAt = new Date().toISOString();
+    await Promise.all(held.map((entry: any) => updateNotificationIfUnchanged(entry, { ...entry, status: 'queued', updatedAt })));
+    startOutboxProcessing();
+  }
+};
+
+// Helper function to attempt delivery of one outbox entry and record the outcome
+// The address is looked up again so fixed contact details are picked up by retries
+// Returns null without sending when another run has claimed the entry
+const deliverNotification = async (unclaimedEntry: any, channelSettings: any, options: { ignoreQuietHours?: boolean } = {}) => {
+  const entry = await claimNotification(unclaimedEntry);
+  if (!entry) return null;
+
+  if (!options.ignoreQuietHours) {
+    const holdUntil = await getNotificationHoldUntil(entry, new Date());
+    if (holdUntil) {
+      const heldEntry = { ...entry, status: 'held', heldUntil: holdUntil.toISOString(), updatedAt: new Date().toISOString() };
+      await kv.set(`notification:${entry.id}`, heldEntry);
+      console.log(`  🌙 Holding ${entry.type} notification to ${entry.staffName} until quiet hours end (${heldEntry.heldUntil})`);
+      return heldEntry;
+    }
+  }
+
+  const staff = await kv.get(`user:${entry.staffId}`);
+  const address = staff ? getChannelAddress(staff, entry.channel, channelSettings) : null;
+  const attempts = (entry.attempts || 0) + 1;
+
+  let result: any;
+  if (!staff) {
+    result = { success: false, error: 'Staff member no longer exists' };
+  } else if (!address) {
+    result = { success: false, error: `Staff member can no longer be reached on ${entry.channel}` };
+  } else {
+    try {
+      result = await sendThroughChannel(entry.channel, address, staff, entry.type, entry.data);
+    } catch (error) {
+      result = { success: false, error: error.message };
+    }
+  }
+
+  const updatedAt = new Date().toISOString();
+  let updatedEntry: any;
+  if (result.success) {
+    updatedEntry = {
+      ...entry,
+      status: 'sent',
+      attempts,
+      address,
+      lastError: null,
+      nextRetryAt: null,
+      // WhatsApp delivery receipts refer to this ID
+      providerMessageId: result.messageId || null,
+      sentAt: updatedAt,
+      updatedAt
+    };
+    console.log(`  ✓ ${entry.type} notification sent to ${entry.staffName} via ${entry.channel}`);
+  } else if (attempts >= MAX_NOTIFICATION_ATTEMPTS || !address) {
+    const fellBackTo = staff ? await queueFallbackNotification(entry, staff, channelSettings, updatedAt) : null;
+    updatedEntry = {
+      ...entry,
+      status: 'gave-up',
+      attempts,
+      lastError: result.error,
+      nextRetryAt: null,
+      fallbackChannels: [],
+      fellBackTo,
+      updatedAt
+    };
+    console.log(`  ✗ Gave up on ${entry.type} notification to ${entry.staffName} via ${entry.channel}: ${result.error}`);
+  } else {
+    const nextRetryAt = new Date(Date.now() + NOTIFICATION_RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString();
+    updatedEntry = { ...entry, status: 'failed', attempts, lastError: result.error, nextRetryAt, updatedAt };
+    console.log(`  ✗ Failed to send ${entry.type} notification to ${entry.staffName} via ${entry.channel} (attempt ${attempts}): ${result.error}`);
+  }
+
+  await kv.set(`notification:${entry.id}`, updatedEntry);
+  if (entry.channel === 'whatsapp' && updatedEntry.providerMessageId) {
+    await kv.set(`whatsapp:message:${updatedEntry.providerMessageId}`, { notificationId: entry.id });
+  }
+  return updatedEntry;
+};
+
+// Helper function to hand a message that gave up over to the next channel the staff member can still be reached on
+// Returns the channel it was handed to, or null if there is none left
+const queueFallbackNotification = async (entry: any, staff: any, channelSettings: any, createdAt: string) => {
+  const fallbackChannels = (entry.fallbackChannels || []).filter((channel: string) => getChannelAddress(staff, channel, channelSettings));
+  if (fallbackChannels.length === 0) return null;
+
+  const fallback = createOutboxEntry(entry.type, fallbackChannels, staff, entry.data, channelSettings, createdAt);
+  await kv.set(`notification:${fallback.id}`, fallback);
+  console.log(`  ↪️ Falling back to ${fallback.channel} for ${entry.type} notification to ${entry.staffName}`);
+  return fallback.channel;
+};
+
+let isProcessingOutbox = false;
+
+// Helper function to send every due outbox entry, one at a time, until none are left
+// Only one run per instance - entries queued meanwhile are picked up by the running loop
+// Runs in other instances are kept apart by claimNotification
+const processOutbox = async () => {
+  if (isProcessingOutbox) return;
+  isProcessingOutbox = true;
+
+  try {
+    await pruneNotifications();
+    const channelSettings = await getChannelSettings();
+
+    let due = await getDueNotifications();
+    while (due.length > 0) {
+      console.log(`📬 Sending ${due.length} queued notification(s)`);
+      for (const entry of due) {
+        await deliverNotification(entry, channelSettings);
+        // Rate limiting: Wait 600ms between messages (Resend allows 2 per second, chat APIs have similar limits)
+        await delay(600);
+      }
+      due = await getDueNotifications();
+    }
+  } catch (error) {
+    console.error('Error processing notification outbox:', error);
+  } finally {
+    isProcessingOutbox = false;
+  }
+};
+
+// Helper function to start sending in the background, keeping the edge function alive until it is done
+const startOutboxProcessing = () => {
+  const processing = processOutbox();
+  (globalThis as any).EdgeRuntime?.waitUntil?.(processing);
+};
+
+// Helper function to create an outbox entry for the first of a list of channels
+// The remaining channels are kept as fallbacks in case this one gives up
+const createOutboxEntry = (type: string, channels: string[], staff: any, data: any, channelSettings: any, createdAt: string) => {
+  const [channel, ...fallbackChannels] = channels;
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    type,
+    channel,
+    fallbackChannels,
+    staffId: staff.id,
+    staffName: staff.name,
+    address: getChannelAddress(staff, channel, channelSettings),
+    data,
+    status: 'queued',
+    attempts: 0,
+    lastError: null,
+    nextRetryAt: null,
+    createdAt,
+    updatedAt: createdAt
+  };
+};
+
+// Staff choose how they hear about each category of notification, as an ordered list of channels
+// A message goes out on every channel of the list the staff member can be reached on, except those marked as backups.
+// Backups are tried in order only when the first of the others gives up, or when none of them can be reached.
+// An empty list turns the category off. The defaults - these channels, no backups - match what was sent before preferences existed
+const NOTIFICATION_CATEGORIES: Record<string, {
+  label: string;
+  description: string;
+  types: string[];
+  defaultChannels: string[];
+}> = {
+  'new-events': {
+    label: 'New events',
+    description: 'When an event you can sign up for is published',
+    types: ['event-created', 'event-digest'],
+    defaultChannels: ['telegram', 'whatsapp']
+  },
+  'selection': {
+    label: 'Selection',
+    description: 'When you are selected or not selected, or get a spot from the waitlist',
+    types: ['event-selected', 'event-deselected', 'waitlist-promoted'],
+    defaultChannels: ['telegram']
+  },
+  'changes': {
+    label: 'Event changes',
+    description: 'When an event you are on is updated or cancelled',
+    types: ['event-updated', 'event-cancelled'],
+    defaultChannels: ['telegram', 'email']
+  },
+  'reminders': {
+    label: 'Reminders',
+    description: 'Before an event you are taking part in',
+    types: ['event-reminder'],
+    defaultChannels: ['telegram']
+  },
+  'points': {
+    label: 'Points',
+    description: 'When you earn points or your points are adjusted',
+    types: ['points-adjusted', 'points-earned'],
+    defaultChannels: ['email']
+  }
+};
+
+// Helper function to find the preference category a notification type belongs to
+const getNotificationCategory = (type: string) => {
+  return Object.keys(NOTIFICATION_CATEGORIES).find(category => NOTIFICATION_CATEGORIES[category].types.includes(type));
+};
+
+// New events reach staff as they are posted, or batched into a daily or weekly digest
+const DIGEST_MODES = ['immediate', 'daily', 'weekly'];
+
+// Helper function to normalize a staff member's notification preferences
+// Unknown and repeated channels are dropped; categories without a choice use their defaults
+// backupChannels only keeps channels that are in the category's list
+const normalizeNotificationPrefs = (staffId: string, data: any) => {
+  const categories: Record<string, string[]> = {};
+  const backupChannels: Record<string, string[]> = {};
+  Object.entries(NOTIFICATION_CATEGORIES).forEach(([category, { defaultChannels }]) => {
+    const channels = data?.categories?.[category];
+    categories[category] = Array.isArray(channels)
+      ? channels.filter((channel: string, index: number) => NOTIFICATION_CHANNELS.includes(channel) && channels.indexOf(channel) === index)
+      : defaultChannels;
+    const backups = data?.backupChannels?.[category];
+    backupChannels[category] = Array.isArray(backups) ? categories[category].filter(channel => backups.includes(channel)) : [];
+  });
+  const digestMode = DIGEST_MODES.includes(data?.digestMode) ? data.digestMode : 'immediate';
+  // null follows the organization's quiet hours
+  const quietHours = normalizeQuietHours(data?.quietHours);
+  return { staffId, categories, backupChannels, digestMode, quietHours, updatedAt: data?.updatedAt };
+};
+
+// Helper function to queue notifications of one type for several staff members
+// Each staff member gets an outbox entry for every channel they receive the category on and can be reached on.
+// Their backup channels ride along with the first of those entries, to be tried if it gives up
+// data is shared by all of them, or built per staff member when it is a function
+// Only the outbox write is awaited - the messages are sent in the background, after the response
+const enqueueNotifications = async (type: string, staffIds: string[], data: any = {}) => {
+  if (staffIds.length === 0) return 0;
+  if (!DEFAULT_NOTIFICATION_TEMPLATES[type]) {
+    console.error(`Unknown notification type "${type}"`);
+    return 0;
+  }
+
+  const [staffList, prefsList, channelSettings] = await Promise.all([
+    kv.mget(staffIds.map(staffId => `user:${staffId}`)),
+    kv.mget(staffIds.map(staffId => `notification-prefs:${staffId}`)),
+    getChannelSettings()
+  ]);
+  const category = getNotificationCategory(type);
+  const templateChannels = getTemplateChannels(type);
+  const getData = typeof data === 'function' ? data : () => data;
+  const createdAt = new Date().toISOString();
+
+  const entries = [];
+  for (const staff of staffList) {
+    if (!staff || !staffIds.includes(staff.id)) continue;
+
+    const prefs = normalizeNotificationPrefs(staff.id, prefsList.find((p: any) => p.staffId === staff.id));
+    const preferredChannels = category ? prefs.categories[category] : templateChannels;
+    const backupChannels = category ? prefs.backupChannels[category] : [];
+    const channels = preferredChannels.filter(channel =>
+      templateChannels.includes(channel) && getChannelAddress(staff, channel, channelSettings)
+    );
+    if (channels.length === 0) {
+      console.log(`  ⚠️ ${staff.name}: No preferred channel they can be reached on, skipping ${type} notification`);
+      continue;
+    }
+
+    const receiving = channels.filter(channel => !backupChannels.includes(channel));
+    const backups = channels.filter(channel => backupChannels.includes(channel));
+    // Backups take over straight away when none of the channels they receive on can be reached
+    if (receiving.length === 0) receiving.push(backups.shift()!);
+
+    const staffData = getData(staff.id);
+    receiving.forEach((channel, index) => {
+      entries.push(createOutboxEntry(type, index === 0 ? [channel, ...backups] : [channel], staff, staffData, channelSettings, createdAt));
+    });
+  }
+
+  if (entries.length > 0) {
+    await kv.mset(entries.map(entry => `notification:${entry.id}`), entries);
+    console.log(`📬 Queued ${entries.length} ${type} notification(s)`);
+    startOutboxProcessing();
+  }
+  return entries.length;
+};
+
+// Helper function to tell staff about a new open event - straight away, or in their next digest
+// Staff on a digest get the event added to their pending list, which the scheduled jobs send out
+const notifyNewEvent = async (staffIds: string[], data: any) => {
+  const prefsList = await kv.mget(staffIds.map(staffId => `notification-prefs:${staffId}`));
+  const digestStaffIds = prefsList
+    .filter((prefs: any) => staffIds.includes(prefs.staffId) && prefs.digestMode && prefs.digestMode !== 'immediate')
+    .map((prefs: any) => prefs.staffId);
+
+  await enqueueNotifications('event-created', staffIds.filter(staffId => !digestStaffIds.includes(staffId)), data);
+
+  if (digestStaffIds.length > 0) {
+    const pendingList = await kv.mget(digestStaffIds.map((staffId: string) => `digest-pending:${staffId}`));
+    const updatedAt = new Date().toISOString();
+    const updated = digestStaffIds.map((staffId: string) => {
+      const pending = pendingList.find((p: any) => p.staffId === staffId);
+      return {
+        staffId,
+        events: [...(pending?.events || []), { eventId: data.event.id, occurrenceCount: data.occurrenceCount || 1 }],
+        updatedAt
+      };
+    });
+    await kv.mset(digestStaffIds.map((staffId: string) => `digest-pending:${staffId}`), updated);
+    console.log(`📬 Added "${data.event.name}" to the digest of ${digestStaffIds.length} staff member(s)`);
+  }
+};
+
+// Get the delivery log (admin only)
+// Entries are returned newest first without their message data; filter with ?status=
+app.get("/make-server-08658f87/notifications", requirePermission('settings:manage'), async (c) => {
+  try {
+    const status = c.req.query('status');
+    const entries = await kv.getByPrefix('notification:');
+
+    const counts = { queued: 0, sending: 0, held: 0, sent: 0, failed: 0, 'gave-up': 0 };
+    entries.forEach((entry: any) => { counts[entry.status as keyof typeof counts]++; });
+
+    const notifications = entries
+      .filter((entry: any) => !status || entry.status === status)
+      .sort((a: any, b: any) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, 200)
+      .map(({ data, ...entry }: any) => ({
+        ...entry,
+        eventName: data?.event?.name
+      }));
+
+    return c.json({ notifications, counts });
+  } catch (error) {
+    console.error('Error fetching delivery log:', error);
+    return c.json({ error: 'Failed to fetch delivery log' }, 500);
+  }
+});
+
+// Retry a failed or abandoned notification straight away
+app.post("/make-server-08658f87/notifications/:id/retry", requirePermission('settings:manage'), async (c) => {
+  try {
+    const notificationId = c.req.param('id');
+    const entry = await kv.get(`notification:${notificationId}`);
+    if (!entry) {
+      return c.json({ error: 'Notification not found' }, 404);
+    }
+    if (entry.status !== 'failed' && entry.status !== 'gave-up') {
+      return c.json({ error: 'Only failed notifications can be retried' }, 400);
+    }
+
+    // A manual retry gets a fresh set of attempts and is sent even during quiet hours
+    const channelSettings = await getChannelSettings();
+    const notification = await deliverNotification({ ...entry, attempts: 0 }, channelSettings, { ignoreQuietHours: true });
+    if (!notification) {
+      return c.json({ error: 'This notification is already being sent' }, 409);
+    }
+
+    return c.json({ success: notification.status === 'sent', notification });
+  } catch (error) {
+    console.error('Error retrying notification:', error);
+    return c.json({ error: 'Failed to retry notification' }, 500);
+  }
+});
+
+// Send all due notifications, including retries whose backoff has passed
+app.post("/make-server-08658f87/notifications/process", requirePermission('settings:manage'), async (c) => {
+  try {
+    const due = await getDueNotifications();
+    startOutboxProcessing();
+
+    return c.json({ success: true, dueCount: due.length });
+  } catch (error) {
+    console.error('Error processing notifications:', error);
+    return c.json({ error: 'Failed to process notifications' }, 500);
+  }
+});
+
+// Job data used to preview templates - covers the variables of every notification type
+const SAMPLE_NOTIFICATION_DATA = {
+  staff: { name: 'Layla Haddad', email: 'layla@example.com', level: 'Senior', points: 120 },
+  data: {
+    event: {
+      name: 'Spring Gala Dinner',
+      location: 'Grand Hall, Riverside Hotel',
+      date: '2025-04-12',
+      time: '18:00',
+      duration: '4 hours',
+      requiredLevel: 'Junior',
+      points: 15,
+      description: 'Welcome guests and help run the evening programme.',
+      notes: 'Dress code: black. Please arrive 15 minutes early.',
+      status: 'closed'
+    },
+    shift: { name: 'Reception', startTime: '17:30', endTime: '20:00', points: 10 },
+    shifts: 'Reception (17:30–20:00, 10 points)',
+    changes: ['Time: 17:00 → 18:00', 'Location: "Main Hall" → "Grand Hall, Riverside Hotel"'],
+    recurrence: { frequency: 'weekly', count: 4 },
+    occurrenceCount: 4,
+    points: 15,
+    reason: 'Helped set up the stage',
+    newPoints: 135,
+    oldLevel: 'Junior',
+    newLevel: 'Senior',
+    startsIn: 'in 24 hours',
+    signupCount: 6,
+    eventCount: 2,
+    eventList: '• Spring Gala Dinner - Saturday, April 12, 2025 at 18:00, Grand Hall, Riverside Hotel\n• Charity Run - Sunday, April 13, 2025 at 08:00, City Park (4 dates)',
+    period: 'week'
+  }
+};
+
+// Get every notification template with its built-in default
+app.get("/make-server-08658f87/notification-templates", requirePermission('settings:manage'), async (c) => {
+  try {
+    const customTemplates = await kv.getByPrefix('notification-template:');
+    const templates = Object.entries(DEFAULT_NOTIFICATION_TEMPLATES).flatMap(([type, defaults]) =>
+      getTemplateChannels(type).map(channel => {
+        const defaultTemplate = getDefaultTemplate(type, channel);
+        const custom = customTemplates.find((t: any) => t.type === type && t.channel === channel);
+        return {
+          type,
+          channel,
+          label: defaults.label,
+          variables: defaults.variables,
+          ...defaultTemplate,
+          ...(custom ? { subject: custom.subject, heading: custom.heading, body: custom.body, updatedAt: custom.updatedAt } : {}),
+          isCustom: !!custom,
+          defaultTemplate
+        };
+      })
+    );
+
+    return c.json({ templates });
+  } catch (error) {
+    console.error('Error fetching notification templates:', error);
+    return c.json({ error: 'Failed to fetch notification templates' }, 500);
+  }
+});
+
+// Save a custom notification template
+app.put("/make-server-08658f87/notification-templates/:type/:channel", requirePermission('settings:manage'), async (c) => {
+  try {
+    const user = c.get('user');
+
+    const type = c.req.param('type');
+    const channel = c.req.param('channel');
+    if (!getTemplateChannels(type).includes(channel)) {
+      return c.json({ error: 'Unknown notification template' }, 404);
+    }
+
+    const { subject, heading, body } = await c.req.json();
+    if (!body || !body.trim()) {
+      return c.json({ error: 'Message text is required' }, 400);
+    }
+    if (channel === 'email' && (!subject || !subject.trim())) {
+      return c.json({ error: 'Email subject is required' }, 400);
+    }
+
+    const template = {
+      type,
+      channel,
+      ...(channel === 'email' ? { subject: subject.trim(), heading: (heading || '').trim() } : {}),
+      body,
+      updatedAt: new Date().toISOString(),
+      updatedBy: user.id
+    };
+    await kv.set(`notification-template:${type}:${channel}`, template);
+
+    console.log(`✏️ Notification template ${type}/${channel} updated`);
+    return c.json({ success: true, template });
+  } catch (error) {
+    console.error('Error saving notification template:', error);
+    return c.json({ error: 'Failed to save notification template' }, 500);
+  }
+});
+
+// Reset a notification template to its built-in default
+app.delete("/make-server-08658f87/notification-templates/:type/:channel", requirePermission('settings:manage'), async (c) => {
+  try {
+    const type = c.req.param('type');
+    const channel = c.req.param('channel');
+    if (!getTemplateChannels(type).includes(channel)) {
+      return c.json({ error: 'Unknown notification template' }, 404);
+    }
+
+    await kv.del(`notification-template:${type}:${channel}`);
+
+    console.log(`↩️ Notification template ${type}/${channel} reset to default`);
+    return c.json({ success: true, template: getDefaultTemplate(type, channel) });
+  } catch (error) {
+    console.error('Error resetting notification template:', error);
+    return c.json({ error: 'Failed to reset notification template' }, 500);
+  }
+});
+
+// Render a (possibly unsaved) template against a sample event
+app.post("/make-server-08658f87/notification-templates/preview", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { type, channel, subject, heading, body } = await c.req.json();
+    if (!getTemplateChannels(type).includes(channel)) {
+      return c.json({ error: 'Unknown notification template' }, 404);
+    }
+
+    const preview = renderNotification(
+      type,
+      channel,
+      { subject: subject || '', heading: heading || '', body: body || '' },
+      SAMPLE_NOTIFICATION_DATA.staff,
+      SAMPLE_NOTIFICATION_DATA.data
+    );
+
+    return c.json({ preview });
+  } catch (error) {
+    console.error('Error previewing notification template:', error);
+    return c.json({ error: 'Failed to preview notification template' }, 500);
+  }
+});
+
+// Get the current user's notification preferences, with the channels they can currently be reached on
+app.get("/make-server-08658f87/notification-preferences", async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    const { error: authError, user } = await verifyAuth(authHeader);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+
+    const [staff, prefs, channelSettings] = await Promise.all([
+      kv.get(`user:${user.id}`),
+      kv.get(`notification-prefs:${user.id}`),
+      getChannelSettings()
+    ]);
+
+    const categories = Object.entries(NOTIFICATION_CATEGORIES).map(([category, { label, description, types, defaultChannels }]) => ({
+      category,
+      label,
+      description,
+      defaultChannels,
+      // Only channels with a template for at least one of the category's types make sense to offer
+      channels: NOTIFICATION_CHANNELS.filter(channel => types.some(type => getTemplateChannels(type).includes(channel)))
+    }));
+
+    return c.json({
+      preferences: normalizeNotificationPrefs(user.id, prefs),
+      categories,
+      digestSchedule: await getDigestSettings(),
+      organizationQuietHours: await getQuietHoursSettings(),
+      reachableChannels: NOTIFICATION_CHANNELS.filter(channel => staff && getChannelAddress(staff, channel, channelSettings))
+    });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return c.json({ error: 'Failed to fetch notification preferences' }, 500);
+  }
+});
+
+// Save the current user's notification channels, their order and backups for each category
+app.put("/make-server-08658f87/notification-preferences", async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    const { error: authError, user } = await verifyAuth(authHeader);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+
+    const data = await c.req.json();
+    const preferences = normalizeNotificationPrefs(user.id, {
+      categories: data.categories,
+      backupChannels: data.backupChannels,
+      digestMode: data.digestMode,
+      quietHours: data.quietHours,
+      updatedAt: new Date().toISOString()
+    });
+
+    await kv.set(`notification-prefs:${user.id}`, preferences);
+
+    console.log(`🔔 Saved notification preferences for ${user.id}`);
+
+    // Their held messages may be allowed out under their new quiet hours
+    await releaseHeldNotifications(user.id);
+
+    return c.json({ success: true, preferences });
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    return c.json({ error: 'Failed to save notification preferences' }, 500);
+  }
+});
+
+// Get the organization's quiet hours
+app.get("/make-server-08658f87/quiet-hours/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    // Held messages are listed so admins can see what will go out when quiet hours end
+    const entries = await kv.getByPrefix('notification:');
+    const heldCount = entries.filter((entry: any) => entry.status === 'held').length;
+
+    return c.json({ settings: await getQuietHoursSettings(), heldCount });
+  } catch (error) {
+    console.error('Error fetching quiet hours:', error);
+    return c.json({ error: 'Failed to fetch quiet hours' }, 500);
+  }
+});
+
+// Save the organization's quiet hours
+app.post("/make-server-08658f87/quiet-hours/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const data = await c.req.json();
+    if (data.timeZone && !isValidTimeZone(data.timeZone)) {
+      return c.json({ error: 'Invalid time zone' }, 400);
+    }
+    const settings = normalizeQuietHours(data);
+    if (!settings) {
+      return c.json({ error: 'Quiet hours must start and end at a time in HH:MM format' }, 400);
+    }
+
+    await kv.set('quiet-hours:settings', settings);
+
+    console.log(`⚙️ Quiet hours ${settings.enabled ? `${settings.start}–${settings.end} (${settings.timeZone})` : 'off'}`);
+
+    // Messages held under the old quiet hours are re-checked straight away
+    await releaseHeldNotifications();
+
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error saving quiet hours:', error);
+    return c.json({ error: 'Failed to save quiet hours' }, 500);
+  }
+});
+
+// ==================== SCHEDULED JOBS ====================
+
+// Jobs run whenever /jobs/run is called - schedule it with a cron job (e.g. pg_cron every 15 minutes)
+// sending the CRON_SECRET environment variable in an X-Cron-Secret header. Admins can also run them by hand
+const DEFAULT_REMINDER_SETTINGS = {
+  enabled: true,
+  hoursBefore: [24, 2], // Selected staff are reminded this many hours before their event (or shift) starts
+  adminNudgeEnabled: true,
+  adminNudgeHoursBefore: 48 // Admins are told about open events that still need selecting this close to the start
+};
+
+// Helper function to get reminder settings with defaults
+const getReminderSettings = async () => {
+  const settings = await kv.get('reminder:settings');
+  return { ...DEFAULT_REMINDER_SETTINGS, ...(settings || {}) };
+};
+
+// Helper function to describe how long until a start time, e.g. "in 2 hours"
+const describeStartsIn = (start: Date, now: Date) => {
+  const minutes = Math.max(0, Math.round((start.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `in ${minutes} minute${minutes !== 1 ? 's' : ''}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `in ${hours} hour${hours !== 1 ? 's' : ''}`;
+  return `in ${Math.round(hours / 24)} days`;
+};
+
+// Helper function to queue the event reminders that are due
+// Each event (or shift) keeps a record of who was reminded at which offset, so a run only sends what is new.
+// After a missed run only the closest offset is sent, and the record starts over when the event is moved
+const sendEventReminders = async (events: any[], settings: any, now: Date) => {
+  const offsets = [...settings.hoursBefore].sort((a: number, b: number) => a - b);
+  const slots = events
+    .filter(event => event.status !== 'cancelled' && event.status !== 'draft')
+    .flatMap(event => hasShifts(event)
+      ? event.shifts.map((shift: any) => ({ event, shift, slot: shift }))
+      : [{ event, shift: null, slot: event }])
+    .filter(({ slot }) => (slot.confirmedStaff || []).length > 0);
+
+  let queued = 0;
+  for (const { event, shift, slot } of slots) {
+    const { start } = getEventTimes(event, shift);
+    const hoursUntil = (start.getTime() - now.getTime()) / 3600000;
+    const offset = offsets.find((hours: number) => hoursUntil <= hours);
+    if (hoursUntil <= 0 || offset === undefined) continue;
+
+    const slotId = shift?.id || 'event';
+    const key = `reminder-sent:${event.id}:${slotId}`;
+    const existing = await kv.get(key);
+    const record = existing?.startsAt === start.toISOString()
+      ? existing
+      : { eventId: event.id, slotId, startsAt: start.toISOString(), sent: {} };
+
+    const reminded = record.sent[offset] || [];
+    const staffIds = slot.confirmedStaff.filter((staffId: string) =>
+      !reminded.includes(staffId) && !(slot.noShowStaff || []).includes(staffId)
+    );
+    if (staffIds.length === 0) continue;
+
+    queued += await enqueueNotifications('event-reminder', staffIds, {
+      event,
+      shift: shift || undefined,
+      startsIn: describeStartsIn(start, now)
+    });
+    await kv.set(key, { ...record, sent: { ...record.sent, [offset]: [...reminded, ...staffIds] } });
+    console.log(`⏰ ${offset}h reminder for "${event.name}"${shift ? ` (${shift.name})` : ''} queued for ${staffIds.length} staff`);
+  }
+  return queued;
+};
+
+// Helper function to tell admins and coordinators about open events close to their start that nobody has selected staff for
+// Each event is nudged once (again if it is moved)
+const sendSelectionNudges = async (events: any[], settings: any, now: Date) => {
+  const pending = events
+    .filter(event => (event.status || 'open') === 'open')
+    .map(event => ({ event, start: getEventTimes(event).start }))
+    .filter(({ start }) => {
+      const hoursUntil = (start.getTime() - now.getTime()) / 3600000;
+      return hoursUntil > 0 && hoursUntil <= settings.adminNudgeHoursBefore;
+    });
+  if (pending.length === 0) return 0;
+
+  const organizers = (await kv.getByPrefix('user:')).filter((u: any) => hasPermission(u.role, 'staffing:manage'));
+
+  let queued = 0;
+  for (const { event, start } of pending) {
+    const key = `reminder-sent:${event.id}:nudge`;
+    const existing = await kv.get(key);
+    if (existing?.startsAt === start.toISOString()) continue;
+
+    queued += await enqueueNotifications('selection-pending', organizers.map((organizer: any) => organizer.id), {
+      event,
+      startsIn: describeStartsIn(start, now),
+      signupCount: (event.signedUpStaff || []).length
+    });
+    await kv.set(key, { eventId: event.id, slotId: 'nudge', startsAt: start.toISOString(), sentAt: now.toISOString() });
+    console.log(`⚠️ Admins and coordinators nudged about selection for "${event.name}"`);
+  }
+  return queued;
+};
+
+// Helper function to delete reminder records of events that started more than a day ago
+const pruneReminderRecords = async (now: Date) => {
+  const cutoff = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const records = await kv.getByPrefix('reminder-sent:');
+  const expired = records.filter((record: any) => record.startsAt < cutoff);
+  if (expired.length > 0) {
+    await kv.mdel(expired.map((record: any) => `reminder-sent:${record.eventId}:${record.slotId}`));
+  }
+  return expired.length;
+};
+
+// Digests of new events go out once a day, and once a week on weeklyDay (0 = Sunday), at sendTime in timeZone
+const DEFAULT_DIGEST_SETTINGS = {
+  sendTime: '08:00',
+  weeklyDay: 1,
+  timeZone: DEFAULT_TIME_ZONE
+};
+
+// Helper function to get digest settings with defaults
+const getDigestSettings = async () => {
+  const settings = await kv.get('digest:settings');
+  return { ...DEFAULT_DIGEST_SETTINGS, ...(settings || {}) };
+};
+
+// Helper function to describe a new event as one line of a digest
+const describeDigestEvent = (event: any, occurrenceCount: number) => {
+  const dates = occurrenceCount > 1 ? ` (${occurrenceCount} dates)` : '';
+  return `• ${event.name} - ${formatLongDate(event.date)} at ${event.time}, ${event.location}${dates}`;
+};
+
+// Helper function to send the daily and weekly digests once their send time has passed
+// Events that were closed, cancelled, have started or that the staff member already signed up for are left out.
+// Staff who switched back to immediate get anything still pending with the daily digest
+const sendDigests = async (events: any[], now: Date) => {
+  const settings = await getDigestSettings();
+  const { date, weekday, time } = getZonedDateParts(now, settings.timeZone);
+  if (time < settings.sendTime) return 0;
+
+  const lastSent = (await kv.get('digest:last-sent')) || {};
+  const sendDaily = lastSent.daily !== date;
+  const sendWeekly = weekday === settings.weeklyDay && lastSent.weekly !== date;
+  if (!sendDaily && !sendWeekly) return 0;
+
+  const pendingList = await kv.getByPrefix('digest-pending:');
+  const prefsList = await kv.mget(pendingList.map((pending: any) => `notification-prefs:${pending.staffId}`));
+
+  let queued = 0;
+  const sentStaffIds: string[] = [];
+  for (const pending of pendingList) {
+    const prefs = prefsList.find((p: any) => p.staffId === pending.staffId);
+    const isWeekly = prefs?.digestMode === 'weekly';
+    if (isWeekly ? !sendWeekly : !sendDaily) continue;
+
+    const lines = pending.events
+      .map(({ eventId, occurrenceCount }: any) => ({ event: events.find(e => e.id === eventId), occurrenceCount }))
+      .filter(({ event }: any) => event
+        && (event.status || 'open') === 'open'
+        && getEventTimes(event).start > now
+        && !(event.signedUpStaff || []).includes(pending.staffId))
+      .map(({ event, occurrenceCount }: any) => describeDigestEvent(event, occurrenceCount));
+
+    if (lines.length > 0) {
+      queued += await enqueueNotifications('event-digest', [pending.staffId], {
+        eventCount: lines.length,
+        eventList: lines.join('\n'),
+        period: isWeekly ? 'week' : 'day'
+      });
+    }
+    sentStaffIds.push(pending.staffId);
+  }
+
+  if (sentStaffIds.length > 0) {
+    await kv.mdel(sentStaffIds.map(staffId => `digest-pending:${staffId}`));
+  }
+  await kv.set('digest:last-sent', {
+    daily: sendDaily ? date : lastSent.daily,
+    weekly: sendWeekly ? date : lastSent.weekly
+  });
+  console.log(`📬 ${sendWeekly ? 'Weekly' : 'Daily'} digests sent to ${sentStaffIds.length} staff member(s)`);
+  return queued;
+};
+
+// Helper function to run every scheduled job once and remember the outcome
+const runScheduledJobs = async () => {
+  const now = new Date();
+  const [settings, events] = await Promise.all([getReminderSettings(), kv.getByPrefix('event:')]);
+
+  const result = {
+    ranAt: now.toISOString(),
+    remindersQueued: settings.enabled ? await sendEventReminders(events, settings, now) : 0,
+    nudgesQueued: settings.adminNudgeEnabled ? await sendSelectionNudges(events, settings, now) : 0,
+    digestsQueued: await sendDigests(events, now),
+    recordsPruned: await pruneReminderRecords(now),
+    // Retries whose backoff has passed are picked up here too
+    dueNotifications: (await getDueNotifications()).length
+  };
+  startOutboxProcessing();
+
+  await kv.set('reminder:last-run', result);
+  console.log(`🕒 Scheduled jobs ran: ${result.remindersQueued} reminders, ${result.nudgesQueued} admin nudges, ${result.digestsQueued} digests queued`);
+  return result;
+};
+
+// Run the scheduled jobs - called by the cron job with the X-Cron-Secret header, or by an admin
+app.post("/make-server-08658f87/jobs/run", async (c) => {
+  try {
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    const isCron = !!cronSecret && c.req.header('X-Cron-Secret') === cronSecret;
+
+    if (!isCron) {
+      const access = await checkPermission(c.req.header('Authorization'), 'settings:manage');
+      if (access.error) {
+        return c.json({ error: access.error }, access.status);
+      }
+    }
+
+    const result = await runScheduledJobs();
+
+    return c.json({ success: true, result });
+  } catch (error) {
+    console.error('Error running scheduled jobs:', error);
+    return c.json({ error: 'Failed to run scheduled jobs' }, 500);
+  }
+});
+
+// Get reminder settings and the outcome of the last job run
+app.get("/make-server-08658f87/reminders/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const [settings, lastRun] = await Promise.all([getReminderSettings(), kv.get('reminder:last-run')]);
+
+    return c.json({ settings, lastRun: lastRun || null, cronConfigured: !!Deno.env.get('CRON_SECRET') });
+  } catch (error) {
+    console.error('Error fetching reminder settings:', error);
+    return c.json({ error: 'Failed to fetch reminder settings' }, 500);
+  }
+});
+
+// Save reminder settings
+app.post("/make-server-08658f87/reminders/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { enabled, hoursBefore, adminNudgeEnabled, adminNudgeHoursBefore } = await c.req.json();
+
+    const isPositive = (value: any) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+    if (!Array.isArray(hoursBefore) || hoursBefore.length === 0 || !hoursBefore.every(isPositive)) {
+      return c.json({ error: 'Reminder times must be a list of positive numbers of hours' }, 400);
+    }
+    if (!isPositive(adminNudgeHoursBefore)) {
+      return c.json({ error: 'The admin reminder time must be a positive number of hours' }, 400);
+    }
+
+    const settings = {
+      enabled: !!enabled,
+      // Largest first and without repeats, e.g. [24, 2]
+      hoursBefore: [...new Set(hoursBefore as number[])].sort((a, b) => b - a),
+      adminNudgeEnabled: !!adminNudgeEnabled,
+      adminNudgeHoursBefore
+    };
+    await kv.set('reminder:settings', settings);
+
+    console.log(`⚙️ Reminders ${settings.enabled ? `at ${settings.hoursBefore.join('h, ')}h` : 'off'}, admin nudge ${settings.adminNudgeEnabled ? `at ${adminNudgeHoursBefore}h` : 'off'}`);
+
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error saving reminder settings:', error);
+    return c.json({ error: 'Failed to save reminder settings' }, 500);
+  }
+});
+
+// Get the digest schedule
+app.get("/make-server-08658f87/digest/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    // Staff on a digest, so admins can see who the schedule affects
+    const prefsList = await kv.getByPrefix('notification-prefs:');
+    const subscriberCounts = { daily: 0, weekly: 0 };
+    prefsList.forEach((prefs: any) => {
+      const digestMode: string = prefs.digestMode;
+      if (digestMode === 'daily' || digestMode === 'weekly') subscriberCounts[digestMode]++;
+    });
+
+    return c.json({ settings: await getDigestSettings(), subscriberCounts });
+  } catch (error) {
+    console.error('Error fetching digest settings:', error);
+    return c.json({ error: 'Failed to fetch digest settings' }, 500);
+  }
+});
+
+// Save the digest schedule
+app.post("/make-server-08658f87/digest/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { sendTime, weeklyDay, timeZone } = await c.req.json();
+
+    if (typeof sendTime !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(sendTime)) {
+      return c.json({ error: 'Send time must be in HH:MM format' }, 400);
+    }
+    if (!Number.isInteger(weeklyDay) || weeklyDay < 0 || weeklyDay > 6) {
+      return c.json({ error: 'Weekly day must be a day of the week (0 = Sunday)' }, 400);
+    }
+    if (!timeZone || !isValidTimeZone(timeZone)) {
+      return c.json({ error: 'Invalid time zone' }, 400);
+    }
+
+    const settings = { sendTime, weeklyDay, timeZone };
+    await kv.set('digest:settings', settings);
+
+    console.log(`⚙️ Digests will be sent at ${sendTime} (${timeZone}), weekly on day ${weeklyDay}`);
+
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error saving digest settings:', error);
+    return c.json({ error: 'Failed to save digest settings' }, 500);
+  }
+});
+
+// ==================== LEVELS ENDPOINTS ====================
+
+// Get all levels
+app.get("/make-server-08658f87/levels", async (c) => {
+  try {
+    // Don't require auth for levels - they're needed during login
+    const levels = await kv.getByPrefix('level:');
+    return c.json({ levels });
+  } catch (error) {
+    console.error('Error fetching levels:', error);
+    return c.json({ error: 'Failed to fetch levels' }, 500);
+  }
+});
+
+// Add new level
+app.post("/make-server-08658f87/levels", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { name, minPoints } = await c.req.json();
+
+    if (!name || minPoints === undefined) {
+      return c.json({ error: 'Name and minPoints are required' }, 400);
+    }
+
+    const levelId = `${Date.now()}`;
+    const levels = await kv.getByPrefix('level:');
+    
+    const level = {
+      id: levelId,
+      name,
+      minPoints,
+      order: levels.length,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`level:${levelId}`, level);
+
+    return c.json({ success: true, level });
+  } catch (error) {
+    console.error('Error adding level:', error);
+    return c.json({ error: 'Failed to add level' }, 500);
+  }
+});
+
+// Update level
+app.put("/make-server-08658f87/levels/:id", requirePermission('settings:manage'), async (c) => {
+  try {
+    const levelId = c.req.param('id');
+    const { name, minPoints } = await c.req.json();
+
+    const existingLevel = await kv.get(`level:${levelId}`);
+    if (!existingLevel) {
+      return c.json({ error: 'Level not found' }, 404);
+    }
+
+    const updatedLevel = {
+      ...existingLevel,
+      name,
+      minPoints
+    };
+
+    await kv.set(`level:${levelId}`, updatedLevel);
+
+    return c.json({ success: true, level: updatedLevel });
+  } catch (error) {
+    console.error('Error updating level:', error);
+    return c.json({ error: 'Failed to update level' }, 500);
+  }
+});
+
+// Delete level
+app.delete("/make-server-08658f87/levels/:id", requirePermission('settings:manage'), async (c) => {
+  try {
+    const levelId = c.req.param('id');
+    await kv.del(`level:${levelId}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting level:', error);
+    return c.json({ error: 'Failed to delete level' }, 500);
+  }
+});
+
+// Reorder levels
+app.post("/make-server-08658f87/levels/reorder", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { levelId, direction } = await c.req.json();
+    
+    if (!levelId || !direction || (direction !== 'up' && direction !== 'down')) {
+      return c.json({ error: 'Valid levelId and direction (up/down) are required' }, 400);
+    }
+
+    const levels = await kv.getByPrefix('level:');
+    const sortedLevels = levels.sort((a: any, b: any) => a.order - b.order);
+    
+    const currentIndex = sortedLevels.findIndex((l: any) => l.id === levelId);
+    if (currentIndex === -1) {
+      return c.json({ error: 'Level not found' }, 404);
+    }
+
+    // Can't move first item up or last item down
+    if ((direction === 'up' && currentIndex === 0) || 
+        (direction === 'down' && currentIndex === sortedLevels.length - 1)) {
+      return c.json({ error: 'Cannot move level in that direction' }, 400);
+    }
+
+    // Swap orders
+    const swapIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
+    const temp = sortedLevels[currentIndex].order;
+    sortedLevels[currentIndex].order = sortedLevels[swapIndex].order;
+    sortedLevels[swapIndex].order = temp;
+
+    // Update both levels in KV store
+    await kv.set(`level:${sortedLevels[currentIndex].id}`, sortedLevels[currentIndex]);
+    await kv.set(`level:${sortedLevels[swapIndex].id}`, sortedLevels[swapIndex]);
+
+    // Return updated levels
+    const updatedLevels = await kv.getByPrefix('level:');
+    return c.json({ success: true, levels: updatedLevels });
+  } catch (error) {
+    console.error('Error reordering levels:', error);
+    return c.json({ error: 'Failed to reorder levels' }, 500);
+  }
+});
+
+// ==================== POINT ADJUSTMENT ENDPOINTS ====================
+
+// Adjust staff points
+app.post("/make-server-08658f87/points/adjust", requirePermission('points:manage'), async (c) => {
+  try {
+    const user = c.get('user');
+
+    const { staffId, points, reason } = await c.req.json();
+
+    if (!staffId || points === undefined || !reason) {
+      return c.json({ error: 'Staff ID, points, and reason are required' }, 400);
+    }
+
+    // Get staff member
+    const staff = await kv.get(`user:${staffId}`);
+    if (!staff) {
+      return c.json({ error: 'Staff member not found' }, 404);
+    }
+
+    // Calculate new points and level
+    const oldLevel = staff.level;
+    const newPoints = Math.max(0, staff.points + points);
+    const newLevel = await calculateLevel(newPoints);
+
+    // Update staff member
+    const updatedStaff = {
+      ...staff,
+      points: newPoints,
+      level: newLevel
+    };
+
+    await kv.set(`user:${staffId}`, updatedStaff);
+
+    // Record adjustment
+    const adjustmentId = `${Date.now()}`;
+    const adjustment = {
+      id: adjustmentId,
+      staffId,
+      points,
+      reason,
+      timestamp: new Date().toISOString(),
+      adminId: user.id
+    };
+
+    await kv.set(`adjustment:${adjustmentId}`, adjustment);
+
+    await enqueueNotifications('points-adjusted', [staffId], { points, reason, newPoints, oldLevel, newLevel });
+
+    return c.json({ 
+      success: true, 
+      staff: getStaffListEntry(updatedStaff),
+      adjustment,
+      leveledUp: oldLevel !== newLevel
+    });
+  } catch (error) {
+    console.error('Error adjusting points:', error);
+    return c.json({ error: 'Failed to adjust points' }, 500);
+  }
+});
+
+// Get point adjustments
+app.get("/make-server-08658f87/adjustments", requirePermission('points:view'), async (c) => {
+  try {
+    const adjustments = await kv.getByPrefix('adjustment:');
+    
+    // Convert adjustments to transaction format
+    const transactions = await Promise.all(adjustments.map(async (adj) => {
+      const staff = await kv.get(`user:${adj.staffId}`);
+      return {
+        id: adj.id,
+        staffId: adj.staffId,
+        staffName: staff?.name || 'Unknown Staff',
+        points: adj.points,
+        reason: adj.reason,
+        timestamp: adj.timestamp,
+        adminId: adj.adminId,
+        eventId: adj.eventId,
+      };
+    }));
+    
+    return c.json({ adjustments, transactions });
+  } catch (error) {
+    console.error('Error fetching adjustments:', error);
+    return c.json({ error: 'Failed to fetch adjustments' }, 500);
+  }
+});
+
+// ==================== AVAILABILITY ENDPOINTS ====================
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Helper function to validate and clean up a staff member's availability
+// weekly: windows the staff member is usually available ({ day: 0 = Sunday, startTime, endTime }) - empty means no pattern declared
+// blackoutDates: whole days (in the staff member's time zone) they cannot work
+const normalizeAvailability = (staffId: string, data: any) => {
+  const timeZone = data.timeZone && isValidTimeZone(data.timeZone) ? data.timeZone : DEFAULT_TIME_ZONE;
+
+  const weekly = (Array.isArray(data.weekly) ? data.weekly : [])
+    .filter((w: any) => Number.isInteger(w.day) && w.day >= 0 && w.day <= 6 && TIME_PATTERN.test(w.startTime) && TIME_PATTERN.test(w.endTime))
+    .filter((w: any) => w.startTime < w.endTime)
+    .map((w: any) => ({ day: w.day, startTime: w.startTime, endTime: w.endTime }));
+
+  const blackoutDates = (Array.isArray(data.blackoutDates) ? data.blackoutDates : [])
+    .filter((b: any) => DATE_PATTERN.test(b.startDate) && DATE_PATTERN.test(b.endDate || b.startDate))
+    .map((b: any) => ({
+      id: b.id || `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      startDate: b.startDate,
+      endDate: b.endDate && b.endDate > b.startDate ? b.endDate : b.startDate,
+      reason: (b.reason || '').trim()
+    }))
+    .sort((a: any, b: any) => a.startDate.localeCompare(b.startDate));
+
+  return { staffId, weekly, blackoutDates, timeZone };
+};
+
+// Helper function to get the local date, weekday (0 = Sunday) and HH:MM time of an instant in a time zone
+const getZonedDateParts = (instant: Date, timeZone: string) => {
+  const date = new Intl.DateTimeFormat('en-CA', { timeZone }).format(instant);
+  const time = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(instant);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return { date, weekday, time };
+};
+
+// Helper function to format a YYYY-MM-DD date as e.g. "Mar 14"
+const formatShortDate = (dateStr: string) => {
+  return new Date(`${dateStr}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+// Helper function to list the stretches of time an event (or shift) runs
+// Multi-day events repeat their hours on each day from date to endDate; shifts are on the start date only
+const getEventSessions = (event: any, shift?: any) => {
+  if (shift || !event.endDate || event.endDate <= event.date) {
+    return [getEventTimes(event, shift)];
+  }
+
+  const { time, endTime, timeZone } = withEventTimes(event);
+  const sessions = [];
+  for (let day = event.date; day <= event.endDate; day = addDaysToDate(day, 1)) {
+    const start = zonedTimeToUtc(day, time, timeZone);
+    let end = zonedTimeToUtc(day, endTime, timeZone);
+    // Daily hours ending at or before they start run past midnight
+    if (end <= start) {
+      end = zonedTimeToUtc(addDaysToDate(day, 1), endTime, timeZone);
+    }
+    sessions.push({ start, end });
+  }
+  return sessions;
+};
+
+// Helper function to split a stretch of time into the local days it covers in a time zone
+// Returns { weekday, from, to } per day, with '24:00' as the end of a day it runs past
+const getLocalDayWindows = (start: Date, end: Date, timeZone: string) => {
+  const localStart = getZonedDateParts(start, timeZone);
+  // The end instant itself is exclusive, so a stretch ending at midnight stays on its last day
+  const localEnd = getZonedDateParts(new Date(end.getTime() - 60 * 1000), timeZone);
+  const endTime = getZonedDateParts(end, timeZone).time;
+  const lastDay = daysBetween(localStart.date, localEnd.date);
+
+  const windows = [];
+  for (let i = 0; i <= lastDay; i++) {
+    const date = addDaysToDate(localStart.date, i);
+    windows.push({
+      weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+      from: i === 0 ? localStart.time : '00:00',
+      to: i === lastDay && endTime !== '00:00' ? endTime : '24:00'
+    });
+  }
+  return windows;
+};
+
+// Helper function to explain why a staff member is unavailable for an event (or shift), or null if they are available
+// Availability is advisory - admins see the conflict but can still sign up or select the staff member
+const getAvailabilityConflict = (availability: any, event: any, shift?: any) => {
+  if (!availability) return null;
+
+  const timeZone = availability.timeZone || DEFAULT_TIME_ZONE;
+  const { start, end } = getEventTimes(event, shift);
+  const localStart = getZonedDateParts(start, timeZone);
+  // The end instant itself is exclusive, so an event ending at midnight stays on its last day
+  const localEnd = getZonedDateParts(new Date(end.getTime() - 60 * 1000), timeZone);
+
+  const blackout = (availability.blackoutDates || []).find((b: any) => b.startDate <= localEnd.date && b.endDate >= localStart.date);
+  if (blackout) {
+    const dates = blackout.startDate === blackout.endDate
+      ? formatShortDate(blackout.startDate)
+      : `${formatShortDate(blackout.startDate)} – ${formatShortDate(blackout.endDate)}`;
+    return `Unavailable ${dates}${blackout.reason ? ` (${blackout.reason})` : ''}`;
+  }
+
+  const weekly = availability.weekly || [];
+  if (weekly.length === 0) return null;
+
+  // Every local day the event runs on has to fall within a weekly window
+  for (const session of getEventSessions(event, shift)) {
+    for (const needed of getLocalDayWindows(session.start, session.end, timeZone)) {
+      const isCovered = weekly.some((w: any) =>
+        w.day === needed.weekday &&
+        w.startTime <= needed.from &&
+        (w.endTime === '23:59' ? '24:00' : w.endTime) >= needed.to
+      );
+      if (!isCovered) {
+        return `Not usually available ${WEEKDAY_NAMES[needed.weekday]}s ${needed.from}–${needed.to === '24:00' ? 'midnight' : needed.to}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Helper function to load the saved availability of a list of staff (staff who never saved any are left out)
+const getAvailabilities = async (staffIds: string[]) => {
+  if (staffIds.length === 0) return [];
+  const availabilities = await kv.mget(staffIds.map(id => `availability:${id}`));
+  return availabilities.filter(Boolean);
+};
+
+// Helper function to check staff availabilities against an event (or shift), returning { [staffId]: reason } for conflicts
+const getAvailabilityConflicts = (availabilities: any[], event: any, shift?: any) => {
+  const conflicts: { [staffId: string]: string } = {};
+  availabilities.forEach((availability: any) => {
+    const conflict = getAvailabilityConflict(availability, event, shift);
+    if (conflict) conflicts[availability.staffId] = conflict;
+  });
+  return conflicts;
+};
+
+// Get the current user's availability
+app.get("/make-server-08658f87/availability", async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    const { error: authError, user } = await verifyAuth(authHeader);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+
+    const availability = await kv.get(`availability:${user.id}`);
+
+    return c.json({ availability: availability || normalizeAvailability(user.id, {}) });
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+    return c.json({ error: 'Failed to fetch availability' }, 500);
+  }
+});
+
+// Save the current user's weekly availability and blackout dates
+app.put("/make-server-08658f87/availability", async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    const { error: authError, user } = await verifyAuth(authHeader);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+
+    const data = await c.req.json();
+    const availability = {
+      ...normalizeAvailability(user.id, data),
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set(`availability:${user.id}`, availability);
+
+    console.log(`🗓️ Saved availability for ${user.id}: ${availability.weekly.length} weekly windows, ${availability.blackoutDates.length} blackout periods`);
+
+    return c.json({ success: true, availability });
+  } catch (error) {
+    console.error('Error saving availability:', error);
+    return c.json({ error: 'Failed to save availability' }, 500);
+  }
+});
+
+// Get availability conflicts of all active staff for an event and each of its shifts
+app.get("/make-server-08658f87/events/:id/availability", requirePermission('staffing:manage'), async (c) => {
+  try {
+    const event = await kv.get(`event:${c.req.param('id')}`);
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    const allUsers = await kv.getByPrefix('user:');
+    const staffIds = allUsers.filter(u => u.role === 'staff' && u.status === 'active').map(u => u.id);
+
+    const availabilities = await getAvailabilities(staffIds);
+    const conflicts = getAvailabilityConflicts(availabilities, event);
+    const shiftConflicts: { [shiftId: string]: { [staffId: string]: string } } = {};
+    (event.shifts || []).forEach((shift: any) => {
+      shiftConflicts[shift.id] = getAvailabilityConflicts(availabilities, event, shift);
+    });
+
+    return c.json({ conflicts, shiftConflicts });
+  } catch (error) {
+    console.error('Error fetching availability conflicts:', error);
+    return c.json({ error: 'Failed to fetch availability conflicts' }, 500);
+  }
+});
+
+// ==================== OVERLAP ENDPOINTS ====================
+
+// How overlapping bookings are handled: 'warn' reports them, 'block' refuses the sign-up or selection
+const DEFAULT_OVERLAP_SETTINGS = {
+  mode: 'warn'
+};
+
+// Helper function to get the overlap settings, falling back to defaults
+const getOverlapSettings = async () => {
+  const settings = await kv.get('overlap:settings');
+  return { ...DEFAULT_OVERLAP_SETTINGS, ...(settings || {}) };
+};
+
+// Helper function to list the slots (events, or shifts of events) a staff member holds a spot in
+// Once a slot has been closed only the selected staff hold it, before that everyone signed up does
+const getStaffCommitments = (staffId: string, allEvents: any[]) => {
+  const holdsSpot = (slot: any) => slot.confirmedStaff
+    ? slot.confirmedStaff.includes(staffId)
+    : (slot.signedUpStaff || []).includes(staffId);
+
+  return allEvents
+    .filter(event => event.status !== 'cancelled')
+    .flatMap(event => {
+      const slots = hasShifts(event) ? event.shifts.filter(holdsSpot) : (holdsSpot(event) ? [null] : []);
+      return slots.map((shift: any) => ({ event, shift, ...getEventTimes(event, shift) }));
+    });
+};
+
+// Helper function to find a staff member's commitments that overlap an event (or shift)
+// The slot itself is never reported; excludeEventId skips every slot of an event (used when re-selecting its staff)
+const findOverlaps = (staffId: string, event: any, shift: any, allEvents: any[], excludeEventId?: string) => {
+  const { start, end } = getEventTimes(event, shift);
+
+  return getStaffCommitments(staffId, allEvents)
+    .filter(commitment => commitment.event.id !== excludeEventId)
+    .filter(commitment => !(commitment.event.id === event.id && (commitment.shift?.id || null) === (shift?.id || null)))
+    .filter(commitment => commitment.start < end && start < commitment.end)
+    .map(commitment => ({
+      eventId: commitment.event.id,
+      eventName: commitment.event.name,
+      shiftId: commitment.shift?.id,
+      shiftName: commitment.shift?.name,
+      start: commitment.start.toISOString(),
+      end: commitment.end.toISOString()
+    }));
+};
+
+// Helper function to describe an overlap for error messages, e.g. `"Gala Dinner (Bar)"`
+const describeOverlap = (overlap: any) => {
+  return `"${overlap.eventName}${overlap.shiftName ? ` (${overlap.shiftName})` : ''}"`;
+};
+
+// Helper function to check several staff against an event (or shift), returning those with overlaps
+const getOverlapConflicts = async (staffIds: string[], event: any, shift: any, allEvents: any[], excludeEventId?: string) => {
+  const conflicts = [];
+  for (const staffId of staffIds) {
+    const overlaps = findOverlaps(staffId, event, shift, allEvents, excludeEventId);
+    if (overlaps.length > 0) {
+      const staff = await kv.get(`user:${staffId}`);
+      conflicts.push({ staffId, staffName: staff?.name || 'Unknown', shiftId: shift?.id, overlaps });
+    }
+  }
+  return conflicts;
+};
+
+// Get overlap settings
+app.get("/make-server-08658f87/overlap/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    return c.json({ settings: await getOverlapSettings() });
+  } catch (error) {
+    console.error('Error fetching overlap settings:', error);
+    return c.json({ error: 'Failed to fetch overlap settings' }, 500);
+  }
+});
+
+// Update overlap settings
+app.post("/make-server-08658f87/overlap/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { mode } = await c.req.json();
+    if (mode !== 'warn' && mode !== 'block') {
+      return c.json({ error: 'Mode must be "warn" or "block"' }, 400);
+    }
+
+    const settings = { mode };
+    await kv.set('overlap:settings', settings);
+
+    console.log(`⚙️ Overlapping bookings will now ${mode === 'block' ? 'be blocked' : 'show a warning'}`);
+
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error updating overlap settings:', error);
+    return c.json({ error: 'Failed to update overlap settings' }, 500);
+  }
+});
+
+// ==================== RELIABILITY ENDPOINTS ====================
+
+const DEFAULT_RELIABILITY_SETTINGS = {
+  lateCancelHours: 24, // Cancelling a held spot within this many hours of the start counts as late
+  lateCancelPenalty: 0, // Points deducted for a late cancellation
+  noShowPenalty: 0 // Points deducted for a no-show
+};
+
+// Helper function to get the reliability settings merged with the defaults
+const getReliabilitySettings = async () => {
+  const settings = await kv.get('reliability:settings');
+  return { ...DEFAULT_RELIABILITY_SETTINGS, ...(settings || {}) };
+};
+
+// Helper function to record a no-show or late cancellation for a staff member
+// Applies the configured penalty as a regular point adjustment so it shows up in the points log
+const recordReliabilityIncident = async (
+  staffId: string,
+  event: any,
+  type: 'no-show' | 'late-cancel',
+  recordedBy: string,
+  shift?: any
+) => {
+  const settings = await getReliabilitySettings();
+  const penalty = type === 'no-show' ? settings.noShowPenalty : settings.lateCancelPenalty;
+  const timestamp = new Date().toISOString();
+  const recordId = `${Date.now()}-${staffId}`;
+  const eventLabel = shift ? `${event.name} - ${shift.name}` : event.name;
+
+  let adjustment: any = null;
+  let updatedStaff: any = null;
+
+  if (penalty > 0) {
+    const staff = await kv.get(`user:${staffId}`);
+    if (staff) {
+      const newPoints = Math.max(0, (staff.points || 0) - penalty);
+      updatedStaff = {
+        ...staff,
+        points: newPoints,
+        level: await calculateLevel(newPoints)
+      };
+      await kv.set(`user:${staffId}`, updatedStaff);
+
+      adjustment = {
+        id: recordId,
+        staffId,
+        points: -penalty,
+        reason: `${type === 'no-show' ? 'No-show' : 'Late cancellation'}: ${eventLabel}`,
+        timestamp,
+        adminId: recordedBy,
+        eventId: event.id,
+        ...(shift ? { shiftId: shift.id } : {})
+      };
+      await kv.set(`adjustment:${adjustment.id}`, adjustment);
     }
+  }
 
-    const levelId = c.req.param('id');
-    await kv.del(`level:${levelId}`);
+  const record = {
+    id: recordId,
+    staffId,
+    eventId: event.id,
+    eventName: event.name,
+    ...(shift ? { shiftId: shift.id } : {}),
+    type,
+    penalty: adjustment ? penalty : 0,
+    adjustmentId: adjustment?.id || null,
+    recordedBy,
+    timestamp
+  };
+  await kv.set(`reliability:record:${recordId}`, record);
+
+  console.log(`📉 Recorded ${type} for ${staffId} at "${eventLabel}"${adjustment ? ` (-${penalty} points)` : ''}`);
+
+  return { record, adjustment, staff: updatedStaff };
+};
 
-    return c.json({ success: true });
+// Helper function to get the start of an event (or shift) as a Date
+const getSlotStart = (event: any, shift?: any) => {
+  return getEventTimes(event, shift).start;
+};
+
+// Get reliability records and settings
+app.get("/make-server-08658f87/reliability", requirePermission('reports:view'), async (c) => {
+  try {
+    const records = await kv.getByPrefix('reliability:record:');
+    const settings = await getReliabilitySettings();
+
+    return c.json({ records, settings });
   } catch (error) {
-    console.error('Error deleting level:', error);
-    return c.json({ error: 'Failed to delete level' }, 500);
+    console.error('Error fetching reliability records:', error);
+    return c.json({ error: 'Failed to fetch reliability records' }, 500);
+  }
+});
+
+// Save reliability settings
+app.post("/make-server-08658f87/reliability/settings", requirePermission('settings:manage'), async (c) => {
+  try {
+    const { lateCancelHours, lateCancelPenalty, noShowPenalty } = await c.req.json();
+
+    const values = [lateCancelHours, lateCancelPenalty, noShowPenalty];
+    if (values.some(value => typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return c.json({ error: 'Settings must be non-negative numbers' }, 400);
+    }
+
+    const settings = { lateCancelHours, lateCancelPenalty, noShowPenalty };
+    await kv.set('reliability:settings', settings);
+
+    return c.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error saving reliability settings:', error);
+    return c.json({ error: 'Failed to save reliability settings' }, 500);
+  }
+});
+
+// Mark a selected staff member as a no-show
+app.post("/make-server-08658f87/participation/no-show", requirePermission('staffing:manage'), async (c) => {
+  try {
+    const user = c.get('user');
+
+    const { eventId, staffId, shiftId } = await c.req.json();
+
+    if (!eventId || !staffId) {
+      return c.json({ error: 'Event ID and staff ID are required' }, 400);
+    }
+
+    const event = await kv.get(`event:${eventId}`);
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    // Events with shifts record no-shows per shift, like points
+    if (hasShifts(event) && !shiftId) {
+      return c.json({ error: 'Shift ID is required for events with shifts' }, 400);
+    }
+    const shift = shiftId ? (event.shifts || []).find((s: any) => s.id === shiftId) : null;
+    if (shiftId && !shift) {
+      return c.json({ error: 'Shift not found' }, 404);
+    }
+
+    if (getSlotStart(event, shift) > new Date()) {
+      return c.json({ error: 'Cannot mark a no-show before the event has started' }, 400);
+    }
+
+    const slot = shift || event;
+    if (!(slot.confirmedStaff || []).includes(staffId)) {
+      return c.json({ error: shift ? 'Staff member was not selected for this shift' : 'Staff member was not selected for this event' }, 400);
+    }
+
+    if ((slot.pointsAwarded || []).includes(staffId)) {
+      return c.json({ error: 'Points were already awarded to this staff member' }, 400);
+    }
+
+    if ((slot.noShowStaff || []).includes(staffId)) {
+      return c.json({ error: 'Staff member is already marked as a no-show' }, 400);
+    }
+
+    const updatedSlot = {
+      ...slot,
+      noShowStaff: [...(slot.noShowStaff || []), staffId]
+    };
+    const updatedEvent = shift ? replaceShift(event, updatedSlot) : updatedSlot;
+    await kv.set(`event:${eventId}`, updatedEvent);
+
+    const { record, adjustment, staff } = await recordReliabilityIncident(staffId, event, 'no-show', user.id, shift);
+
+    return c.json({ success: true, event: updatedEvent, record, adjustment, staff: staff && getStaffListEntry(staff) });
+  } catch (error) {
+    console.error('Error marking no-show:', error);
+    return c.json({ error: 'Failed to mark no-show' }, 500);
+  }
+});
+
+// ==================== EVENT SIGNUP ENDPOINTS ====================
+
+// Helper function to fill free capacity from the waitlist (first come, first served)
+// Works for whole events and for single shifts - pass the shift headcount as capacity for shifts
+// Returns the updated event/shift and the IDs of staff who were promoted
+const promoteFromWaitlist = (slot: any, capacityLimit: number = slot.capacity) => {
+  const signedUpStaff = [...(slot.signedUpStaff || [])];
+  const timestamps = slot.signUpTimestamps || {};
+  const waitlist = [...(slot.waitlistedStaff || [])].sort((a: string, b: string) =>
+    (timestamps[a] || '').localeCompare(timestamps[b] || '')
+  );
+  const promoted: string[] = [];
+
+  // No capacity means unlimited spots - everyone on the waitlist gets in
+  const capacity = capacityLimit && capacityLimit > 0 ? capacityLimit : Infinity;
+
+  while (waitlist.length > 0 && signedUpStaff.length < capacity) {
+    const staffId = waitlist.shift() as string;
+    signedUpStaff.push(staffId);
+    promoted.push(staffId);
+  }
+
+  return {
+    slot: { ...slot, signedUpStaff, waitlistedStaff: waitlist },
+    promoted
+  };
+};
+
+// Helper function to remove a staff member from an event or shift
+// A freed spot is handed to the waitlist, and promoted staff take over the selection if the leaver was selected
+const removeStaffFromSlot = (slot: any, staffId: string, capacity: number = slot.capacity) => {
+  const signUpTimestamps = { ...(slot.signUpTimestamps || {}) };
+  delete signUpTimestamps[staffId];
+
+  const heldSpot = (slot.signedUpStaff || []).includes(staffId);
+  const wasSelected = (slot.confirmedStaff || []).includes(staffId);
+
+  const withoutStaff = {
+    ...slot,
+    signedUpStaff: (slot.signedUpStaff || []).filter((id: string) => id !== staffId),
+    waitlistedStaff: (slot.waitlistedStaff || []).filter((id: string) => id !== staffId),
+    confirmedStaff: slot.confirmedStaff
+      ? slot.confirmedStaff.filter((id: string) => id !== staffId)
+      : slot.confirmedStaff,
+    signUpTimestamps
+  };
+
+  // Only a freed spot can promote someone from the waitlist
+  const { slot: updatedSlot, promoted } = heldSpot
+    ? promoteFromWaitlist(withoutStaff, capacity)
+    : { slot: withoutStaff, promoted: [] as string[] };
+
+  if (wasSelected && promoted.length > 0) {
+    updatedSlot.confirmedStaff = [...(updatedSlot.confirmedStaff || []), ...promoted];
   }
+
+  return { slot: updatedSlot, promoted };
+};
+
+// Helper function to check whether an event is split into shifts
+const hasShifts = (event: any) => Array.isArray(event.shifts) && event.shifts.length > 0;
+
+// Helper function to normalize shifts sent from the event form
+// Sign-ups, selections and awarded points of existing shifts are kept (matched by shift ID)
+const normalizeShifts = (shifts: any, existingShifts: any[] = []) => {
+  if (!Array.isArray(shifts)) return existingShifts;
+
+  return shifts.map((shift: any) => {
+    const existing = existingShifts.find((s: any) => s.id === shift.id);
+    return {
+      id: existing ? existing.id : `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: shift.name,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      headcount: Number(shift.headcount) || 0,
+      requiredLevel: shift.requiredLevel || '',
+      points: Number(shift.points) || 0,
+      signedUpStaff: existing?.signedUpStaff || [],
+      waitlistedStaff: existing?.waitlistedStaff || [],
+      confirmedStaff: existing?.confirmedStaff,
+      pointsAwarded: existing?.pointsAwarded || [],
+      noShowStaff: existing?.noShowStaff || [],
+      signUpTimestamps: existing?.signUpTimestamps || {}
+    };
+  });
+};
+
+// Helper function to keep the event-level staff lists in sync with its shifts
+// The event lists are the union of all shifts, so notifications and overviews keep working unchanged
+const syncShiftTotals = (event: any) => {
+  if (!hasShifts(event)) return event;
+
+  const union = (key: string) => Array.from(new Set<string>(event.shifts.flatMap((shift: any) => shift[key] || [])));
+  const signedUpStaff = union('signedUpStaff');
+  const hasSelection = event.shifts.some((shift: any) => Array.isArray(shift.confirmedStaff));
+
+  // Keep the earliest sign-up time when a staff member signed up for several shifts
+  const signUpTimestamps: Record<string, string> = {};
+  event.shifts.forEach((shift: any) => {
+    Object.entries(shift.signUpTimestamps || {}).forEach(([staffId, timestamp]) => {
+      if (!signUpTimestamps[staffId] || (timestamp as string) < signUpTimestamps[staffId]) {
+        signUpTimestamps[staffId] = timestamp as string;
+      }
+    });
+  });
+
+  // Staff count as awarded on the event once every shift they were selected for has been awarded
+  const confirmedStaff = hasSelection ? union('confirmedStaff') : event.confirmedStaff;
+  const pointsAwarded = (confirmedStaff || []).filter((staffId: string) =>
+    event.shifts.every((shift: any) =>
+      !(shift.confirmedStaff || []).includes(staffId) || (shift.pointsAwarded || []).includes(staffId)
+    )
+  );
+
+  return {
+    ...event,
+    signedUpStaff,
+    waitlistedStaff: union('waitlistedStaff').filter((id: string) => !signedUpStaff.includes(id)),
+    confirmedStaff,
+    pointsAwarded,
+    signUpTimestamps
+  };
+};
+
+// Helper function to replace a single shift on an event and re-sync the event totals
+const replaceShift = (event: any, updatedShift: any) => syncShiftTotals({
+  ...event,
+  shifts: event.shifts.map((shift: any) => shift.id === updatedShift.id ? updatedShift : shift)
 });
 
-// Reorder levels (admin only)
-app.post("/make-server-08658f87/levels/reorder", async (c) => {
+// Helper function to describe the shifts a staff member is on, for notifications
+const describeStaffShifts = (event: any, staffId: string, listKey: string = 'confirmedStaff') => {
+  if (!hasShifts(event)) return '';
+  return event.shifts
+    .filter((shift: any) => (shift[listKey] || []).includes(staffId))
+    .map((shift: any) => `${shift.name} (${shift.startTime}–${shift.endTime}, ${shift.points} points)`)
+    .join(', ');
+};
+
+// Helper function to check whether a staff level meets a required level
+// Staff qualify when their level order is >= the required level order (same level or higher)
+const meetsRequiredLevel = async (staffLevelName: string, requiredLevelName: string) => {
+  if (!requiredLevelName) return true;
+  return levelMeetsRequirement(await kv.getByPrefix('level:'), staffLevelName, requiredLevelName);
+};
+
+// Helper function to check a staff level against a required level, with the levels already loaded
+const levelMeetsRequirement = (levels: any[], staffLevelName: string, requiredLevelName: string) => {
+  if (!requiredLevelName) return true;
+
+  const requiredLevel = levels.find((l: any) => l.name === requiredLevelName);
+  const staffLevel = levels.find((l: any) => l.name === staffLevelName);
+
+  // Unknown levels are not enforced
+  if (!requiredLevel || !staffLevel) return true;
+
+  return staffLevel.order >= requiredLevel.order;
+};
+
+type SignUpResult =
+  | { error: string; status: 400 | 403 | 404 | 409 }
+  | { event: any; waitlisted: boolean; waitlistPosition?: number; overlaps: any[] };
+
+// Helper function to sign a staff member up for an event (or one of its shifts)
+// Used by the web app and the Telegram bot, so both apply the same rules. Returns { error, status } when one fails
+const signUpForEvent = async (staffId: string, event: any, shiftId?: string): Promise<SignUpResult> => {
+  if (event.status === 'cancelled') {
+    return { error: 'This event has been cancelled', status: 400 };
+  }
+  if (event.status === 'closed') {
+    return { error: 'Sign-ups for this event have closed', status: 400 };
+  }
+
+  // Events with shifts are signed up for per shift
+  let shift: any = null;
+  if (hasShifts(event)) {
+    if (!shiftId) {
+      return { error: 'Please choose a shift to sign up for', status: 400 };
+    }
+    shift = event.shifts.find((s: any) => s.id === shiftId);
+    if (!shift) {
+      return { error: 'Shift not found', status: 404 };
+    }
+  }
+
+  // The slot is the shift if one was chosen, otherwise the whole event
+  const slot = shift || event;
+  const capacity = shift ? shift.headcount : event.capacity;
+
+  // Check if already signed up
+  if (slot.signedUpStaff && slot.signedUpStaff.includes(staffId)) {
+    return { error: shift ? 'Already signed up for this shift' : 'Already signed up for this event', status: 400 };
+  }
+
+  // Check if already on the waitlist
+  if (slot.waitlistedStaff && slot.waitlistedStaff.includes(staffId)) {
+    return { error: shift ? 'Already on the waitlist for this shift' : 'Already on the waitlist for this event', status: 400 };
+  }
+
+  // Check if event (or shift) is in the past - times are resolved in the event's time zone
+  if (getEventTimes(event, shift).start < new Date()) {
+    return { error: 'Cannot sign up for past events', status: 400 };
+  }
+
+  // Check if staff level meets the required level of the shift (or event)
+  const staffData = await kv.get(`user:${staffId}`);
+  const requiredLevel = (shift && shift.requiredLevel) || event.requiredLevel;
+  if (staffData && !(await meetsRequiredLevel(staffData.level, requiredLevel))) {
+    return { error: `This ${shift ? 'shift' : 'event'} requires level ${requiredLevel}`, status: 403 };
+  }
+
+  // Check for other events (or shifts) at the same time
+  const overlaps = findOverlaps(staffId, event, shift, await kv.getByPrefix('event:'));
+  const overlapSettings = await getOverlapSettings();
+  if (overlaps.length > 0 && overlapSettings.mode === 'block') {
+    return { error: `This overlaps with ${overlaps.map(describeOverlap).join(', ')}, which you are already signed up for`, status: 409 };
+  }
+
+  // Add user to signups with timestamp - once the event (or shift) is full, new sign-ups go onto the waitlist
+  const signUpTimestamp = new Date().toISOString();
+  const currentSignedUp = slot.signedUpStaff || [];
+  const isFull = capacity > 0 && currentSignedUp.length >= capacity;
+  const updatedSlot = {
+    ...slot,
+    signedUpStaff: isFull ? currentSignedUp : [...currentSignedUp, staffId],
+    waitlistedStaff: isFull ? [...(slot.waitlistedStaff || []), staffId] : (slot.waitlistedStaff || []),
+    signUpTimestamps: {
+      ...(slot.signUpTimestamps || {}),
+      [staffId]: signUpTimestamp
+    }
+  };
+  const updatedEvent = shift ? replaceShift(event, updatedSlot) : updatedSlot;
+
+  await kv.set(`event:${event.id}`, updatedEvent);
+
+  if (isFull) {
+    console.log(`📋 ${shift ? `Shift "${shift.name}" of "${event.name}"` : `Event "${event.name}"`} is full (${capacity}), ${staffId} added to waitlist at position ${updatedSlot.waitlistedStaff.length}`);
+  }
+
+  return {
+    event: updatedEvent,
+    waitlisted: isFull,
+    waitlistPosition: isFull ? updatedSlot.waitlistedStaff.length : undefined,
+    overlaps
+  };
+};
+
+// Sign up for event
+app.post("/make-server-08658f87/signups", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -2720,55 +6343,38 @@ app.post("/make-server-08658f87/levels/reorder", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
+    const { eventId, shiftId } = await c.req.json();
 
-    const { levelId, direction } = await c.req.json();
-    
-    if (!levelId || !direction || (direction !== 'up' && direction !== 'down')) {
-      return c.json({ error: 'Valid levelId and direction (up/down) are required' }, 400);
+    if (!eventId) {
+      return c.json({ error: 'Event ID is required' }, 400);
     }
 
-    const levels = await kv.getByPrefix('level:');
-    const sortedLevels = levels.sort((a: any, b: any) => a.order - b.order);
-    
-    const currentIndex = sortedLevels.findIndex((l: any) => l.id === levelId);
-    if (currentIndex === -1) {
-      return c.json({ error: 'Level not found' }, 404);
+    // Get event
+    const event = await kv.get(`event:${eventId}`);
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
     }
 
-    // Can't move first item up or last item down
-    if ((direction === 'up' && currentIndex === 0) || 
-        (direction === 'down' && currentIndex === sortedLevels.length - 1)) {
-      return c.json({ error: 'Cannot move level in that direction' }, 400);
+    const result = await signUpForEvent(user.id, event, shiftId);
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status);
     }
 
-    // Swap orders
-    const swapIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
-    const temp = sortedLevels[currentIndex].order;
-    sortedLevels[currentIndex].order = sortedLevels[swapIndex].order;
-    sortedLevels[swapIndex].order = temp;
-
-    // Update both levels in KV store
-    await kv.set(`level:${sortedLevels[currentIndex].id}`, sortedLevels[currentIndex]);
-    await kv.set(`level:${sortedLevels[swapIndex].id}`, sortedLevels[swapIndex]);
-
-    // Return updated levels
-    const updatedLevels = await kv.getByPrefix('level:');
-    return c.json({ success: true, levels: updatedLevels });
+    return c.json({ 
+      success: true, 
+      event: result.event,
+      waitlisted: result.waitlisted,
+      waitlistPosition: result.waitlistPosition,
+      overlaps: result.overlaps
+    });
   } catch (error) {
-    console.error('Error reordering levels:', error);
-    return c.json({ error: 'Failed to reorder levels' }, 500);
+    console.error('Error signing up for event:', error);
+    return c.json({ error: 'Failed to sign up for event' }, 500);
   }
 });
 
-// ==================== POINT ADJUSTMENT ENDPOINTS ====================
-
-// Adjust staff points (admin only)
-app.post("/make-server-08658f87/points/adjust", async (c) => {
+// Cancel event signup
+app.delete("/make-server-08658f87/signups/:eventId", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -2777,16 +6383,193 @@ app.post("/make-server-08658f87/points/adjust", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    const eventId = c.req.param('eventId');
+
+    // Get event
+    const event = await kv.get(`event:${eventId}`);
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    // Remove user from signups, waitlist, selection and timestamps
+    // For events with shifts, leave the given shift - or every shift if none is given
+    let updatedEvent: any;
+    let promoted: string[] = [];
+    // Spots (event or shifts) the user actually held - leaving a waitlist is never a late cancellation
+    let heldSlots: any[] = [];
+
+    if (hasShifts(event)) {
+      const shiftId = c.req.query('shiftId');
+      if (shiftId && !event.shifts.some((s: any) => s.id === shiftId)) {
+        return c.json({ error: 'Shift not found' }, 404);
+      }
+
+      heldSlots = event.shifts.filter((shift: any) =>
+        (!shiftId || shift.id === shiftId) && (shift.signedUpStaff || []).includes(user.id)
+      );
+
+      const shifts = event.shifts.map((shift: any) => {
+        if (shiftId && shift.id !== shiftId) return shift;
+        const { slot, promoted: promotedInShift } = removeStaffFromSlot(shift, user.id, shift.headcount);
+        promoted = [...promoted, ...promotedInShift.filter((id: string) => !promoted.includes(id))];
+        return slot;
+      });
+      updatedEvent = syncShiftTotals({ ...event, shifts });
+    } else {
+      heldSlots = (event.signedUpStaff || []).includes(user.id) ? [event] : [];
+      const result = removeStaffFromSlot(event, user.id);
+      updatedEvent = result.slot;
+      promoted = result.promoted;
+    }
+
+    await kv.set(`event:${eventId}`, updatedEvent);
+
+    // Cancelling a held spot shortly before the start is recorded as a late cancellation
+    let lateCancellation: any = null;
+    if (heldSlots.length > 0 && event.status !== 'cancelled') {
+      const { lateCancelHours } = await getReliabilitySettings();
+      const firstHeld = heldSlots
+        .map((slot: any) => ({ slot, start: getSlotStart(event, slot === event ? undefined : slot) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+      const hoursUntilStart = (firstHeld.start.getTime() - Date.now()) / (60 * 60 * 1000);
+
+      if (hoursUntilStart >= 0 && hoursUntilStart < lateCancelHours) {
+        try {
+          const shift = firstHeld.slot === event ? undefined : firstHeld.slot;
+          lateCancellation = (await recordReliabilityIncident(user.id, event, 'late-cancel', user.id, shift)).record;
+        } catch (recordError) {
+          console.error('Error recording late cancellation:', recordError);
+        }
+      }
+    }
+
+    if (promoted.length > 0) {
+      console.log(`📋 Promoted ${promoted.length} staff from the waitlist for "${event.name}"`);
+      await enqueueNotifications('waitlist-promoted', promoted, { event: updatedEvent });
+    }
+
+    return c.json({ success: true, event: updatedEvent, promoted, lateCancellation });
+  } catch (error) {
+    console.error('Error cancelling signup:', error);
+    return c.json({ error: 'Failed to cancel signup' }, 500);
+  }
+});
+
+// Admin manually sign up staff for event
+app.post("/make-server-08658f87/signups/admin", requirePermission('staffing:manage'), async (c) => {
+  try {
+    const { eventId, staffIds, shiftId } = await c.req.json();
+
+    if (!eventId || !staffIds || !Array.isArray(staffIds)) {
+      return c.json({ error: 'Event ID and staff IDs are required' }, 400);
+    }
+
+    // Get event
+    const event = await kv.get(`event:${eventId}`);
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    // Check if event is cancelled
+    if (event.status === 'cancelled') {
+      return c.json({ error: 'Cannot sign up staff for cancelled events' }, 400);
+    }
+
+    // Events with shifts are signed up for per shift
+    let shift: any = null;
+    if (hasShifts(event)) {
+      if (!shiftId) {
+        return c.json({ error: 'Shift ID is required for events with shifts' }, 400);
+      }
+      shift = event.shifts.find((s: any) => s.id === shiftId);
+      if (!shift) {
+        return c.json({ error: 'Shift not found' }, 404);
+      }
+    }
+
+    const slot = shift || event;
+    const capacity = shift ? shift.headcount : event.capacity;
+
+    // Add staff to signups with timestamp
+    const signUpTimestamp = new Date().toISOString();
+    const currentSignedUp = slot.signedUpStaff || [];
+    const currentWaitlist = slot.waitlistedStaff || [];
+    const currentTimestamps = slot.signUpTimestamps || {};
+    
+    // Filter out staff who are already signed up or waitlisted
+    const newStaffIds = staffIds.filter((staffId: string) => 
+      !currentSignedUp.includes(staffId) && !currentWaitlist.includes(staffId)
+    );
+    
+    if (newStaffIds.length === 0) {
+      return c.json({ error: 'All selected staff are already signed up' }, 400);
+    }
+
+    // Check the staff being added for other events (or shifts) at the same time
+    const allEvents = await kv.getByPrefix('event:');
+    const overlapConflicts = await getOverlapConflicts(newStaffIds, event, shift, allEvents);
+    const overlapSettings = await getOverlapSettings();
+    if (overlapConflicts.length > 0 && overlapSettings.mode === 'block') {
+      return c.json({
+        error: `Overlapping bookings: ${overlapConflicts.map(conflict => `${conflict.staffName} is booked for ${conflict.overlaps.map(describeOverlap).join(', ')}`).join('; ')}`,
+        overlapConflicts
+      }, 409);
+    }
+
+    // Add timestamps for new staff
+    const newTimestamps = { ...currentTimestamps };
+    newStaffIds.forEach((staffId: string) => {
+      newTimestamps[staffId] = signUpTimestamp;
+    });
+
+    // Fill remaining capacity first, the rest goes onto the waitlist
+    const freeSpots = capacity > 0 ? Math.max(0, capacity - currentSignedUp.length) : newStaffIds.length;
+    const addedToEvent = newStaffIds.slice(0, freeSpots);
+    const addedToWaitlist = newStaffIds.slice(freeSpots);
+
+    const updatedSlot = {
+      ...slot,
+      signedUpStaff: [...currentSignedUp, ...addedToEvent],
+      waitlistedStaff: [...currentWaitlist, ...addedToWaitlist],
+      signUpTimestamps: newTimestamps
+    };
+    const updatedEvent = shift ? replaceShift(event, updatedSlot) : updatedSlot;
+
+    await kv.set(`event:${eventId}`, updatedEvent);
+
+    // Staff are still signed up when unavailable - the admin is told so they can follow up
+    const conflicts = getAvailabilityConflicts(await getAvailabilities(newStaffIds), event, shift || undefined);
+    const availabilityConflicts = Object.entries(conflicts).map(([staffId, reason]) => ({ staffId, reason }));
+
+    return c.json({ 
+      success: true, 
+      event: updatedEvent, 
+      addedCount: addedToEvent.length,
+      waitlistedCount: addedToWaitlist.length,
+      availabilityConflicts,
+      overlapConflicts
+    });
+  } catch (error) {
+    console.error('Error admin signing up staff for event:', error);
+    return c.json({ error: 'Failed to sign up staff for event' }, 500);
+  }
+});
+
+// Confirm participation and award points
+app.post("/make-server-08658f87/participation/confirm", requirePermission('staffing:manage'), async (c) => {
+  try {
+    const user = c.get('user');
+
+    const { eventId, staffId, shiftId } = await c.req.json();
+
+    if (!eventId || !staffId) {
+      return c.json({ error: 'Event ID and staff ID are required' }, 400);
     }
 
-    const { staffId, points, reason } = await c.req.json();
-
-    if (!staffId || points === undefined || !reason) {
-      return c.json({ error: 'Staff ID, points, and reason are required' }, 400);
+    // Get event
+    const event = await kv.get(`event:${eventId}`);
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
     }
 
     // Get staff member
@@ -2795,9 +6578,45 @@ app.post("/make-server-08658f87/points/adjust", async (c) => {
       return c.json({ error: 'Staff member not found' }, 404);
     }
 
+    // Events with shifts award the points of each shift separately
+    let shift: any = null;
+    if (hasShifts(event)) {
+      if (!shiftId) {
+        return c.json({ error: 'Shift ID is required for events with shifts' }, 400);
+      }
+      shift = event.shifts.find((s: any) => s.id === shiftId);
+      if (!shift) {
+        return c.json({ error: 'Shift not found' }, 404);
+      }
+    }
+
+    const slot = shift || event;
+    const earnedPoints = shift ? shift.points : event.points;
+
+    // Check if staff has already received points for this event (or shift)
+    const pointsAwarded = slot.pointsAwarded || [];
+    if (pointsAwarded.includes(staffId)) {
+      return c.json({ error: 'Points already awarded to this staff member' }, 400);
+    }
+
+    // Check if staff is in the selected/confirmed list
+    const confirmedStaff = slot.confirmedStaff || [];
+    if (!confirmedStaff.includes(staffId)) {
+      return c.json({ error: shift ? 'Staff member was not selected for this shift' : 'Staff member was not selected for this event' }, 400);
+    }
+
+    // Events can require an on-site check-in before points are awarded
+    if (event.awardCheckedInOnly && !event.checkIns?.[staffId]) {
+      return c.json({ error: 'Staff member did not check in to this event' }, 400);
+    }
+
+    if ((slot.noShowStaff || []).includes(staffId)) {
+      return c.json({ error: 'Staff member was marked as a no-show' }, 400);
+    }
+
     // Calculate new points and level
     const oldLevel = staff.level;
-    const newPoints = Math.max(0, staff.points + points);
+    const newPoints = staff.points + earnedPoints;
     const newLevel = await calculateLevel(newPoints);
 
     // Update staff member
@@ -2809,163 +6628,58 @@ app.post("/make-server-08658f87/points/adjust", async (c) => {
 
     await kv.set(`user:${staffId}`, updatedStaff);
 
+    // Update event (or shift) to mark points as awarded
+    const updatedSlot = {
+      ...slot,
+      pointsAwarded: [...pointsAwarded, staffId]
+    };
+    const updatedEvent = shift ? replaceShift(event, updatedSlot) : updatedSlot;
+
+    await kv.set(`event:${eventId}`, updatedEvent);
+
     // Record adjustment
     const adjustmentId = `${Date.now()}`;
     const adjustment = {
       id: adjustmentId,
       staffId,
-      points,
-      reason,
+      points: earnedPoints,
+      reason: `Completed Event: ${event.name}${shift ? ` - ${shift.name}` : ''}`,
       timestamp: new Date().toISOString(),
-      adminId: user.id
+      adminId: user.id,
+      eventId: eventId,
+      ...(shift ? { shiftId: shift.id } : {})
     };
 
     await kv.set(`adjustment:${adjustmentId}`, adjustment);
 
-    // Send email notification to staff member
-    const pointsChange = points > 0 ? 'added' : 'subtracted';
-    const pointsDisplay = Math.abs(points);
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: ${points > 0 ? '#10B981' : '#F59E0B'}; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-          .points-box { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid ${points > 0 ? '#10B981' : '#F59E0B'}; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); text-align: center; }
-          .points-value { font-size: 48px; font-weight: bold; color: ${points > 0 ? '#10B981' : '#F59E0B'}; margin: 10px 0; }
-          .reason-box { background-color: #EFF6FF; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #3B82F6; }
-          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #6b7280; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div style="text-align: center; margin-bottom: 10px;">
-              <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
-            </div>
-            <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
-            <h1>${points > 0 ? '🎉' : '📊'} Points ${points > 0 ? 'Added' : 'Adjusted'}</h1>
-          </div>
-          <div class="content">
-            <p>Hello ${staff.name},</p>
-            
-            <p>${points > 0 ? 'Great news!' : 'Your points have been adjusted.'} Your account has been ${pointsChange} with the following:</p>
-            
-            <div class="points-box">
-              <div style="font-size: 16px; color: #6B7280; margin-bottom: 5px;">Points ${points > 0 ? 'Added' : 'Subtracted'}</div>
-              <div class="points-value">${points > 0 ? '+' : ''}${points}</div>
-              <div style="font-size: 14px; color: #6B7280; margin-top: 10px;">New Total: ${newPoints} points</div>
-              ${oldLevel !== newLevel ? `<div style="font-size: 16px; color: #10B981; margin-top: 15px; font-weight: bold;">🎊 Level Up! You are now ${newLevel}!</div>` : ''}
-            </div>
-            
-            <div class="reason-box">
-              <h3 style="margin-top: 0; color: #3B82F6;">📝 Reason</h3>
-              <p style="margin: 5px 0;">${reason}</p>
-            </div>
-            
-            <p>You can view your current points and level by logging into Nahky Araby Event Hub.</p>
-            
-            <p style="margin-top: 30px;">Keep up the great work!</p>
-          </div>
-          <div class="footer">
-            <p>This is an automated message. Please do not reply to this email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    try {
-      const emailResult = await sendEmail(
-        staff.email,
-        `Points ${points > 0 ? 'Added' : 'Adjusted'}: ${pointsDisplay} points`,
-        emailHtml
-      );
-      
-      if (emailResult.success) {
-        console.log(`✅ Points adjustment email sent successfully`);
-        console.log(`   📧 To: ${staff.name} (${staff.email})`);
-        console.log(`   📝 Subject: Points ${points > 0 ? 'Added' : 'Adjusted'}: ${pointsDisplay} points`);
-      } else {
-        console.log(`⚠️ Points adjustment email failed`);
-        console.log(`   📧 Intended for: ${staff.name} (${staff.email})`);
-        console.log(`   ❌ Error: ${emailResult.error}`);
-        if (emailResult.isTestingMode) {
-          console.log(`   ℹ️ NOTE: In Resend test mode, check delivered@resend.dev for this email`);
-        }
-      }
-    } catch (emailError) {
-      console.error('❌ Error sending points adjustment email:', emailError);
-    }
+    await enqueueNotifications('points-earned', [staffId], {
+      event: updatedEvent,
+      shift,
+      points: earnedPoints,
+      newPoints,
+      oldLevel,
+      newLevel
+    });
 
     return c.json({ 
       success: true, 
-      staff: updatedStaff,
+      staff: getStaffListEntry(updatedStaff),
+      event: updatedEvent,
       adjustment,
       leveledUp: oldLevel !== newLevel
     });
   } catch (error) {
-    console.error('Error adjusting points:', error);
-    return c.json({ error: 'Failed to adjust points' }, 500);
-  }
-});
-
-// Get point adjustments
-app.get("/make-server-08658f87/adjustments", async (c) => {
-  try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
-    const adjustments = await kv.getByPrefix('adjustment:');
-    
-    // Convert adjustments to transaction format
-    const transactions = await Promise.all(adjustments.map(async (adj) => {
-      const staff = await kv.get(`user:${adj.staffId}`);
-      return {
-        id: adj.id,
-        staffId: adj.staffId,
-        staffName: staff?.name || 'Unknown Staff',
-        points: adj.points,
-        reason: adj.reason,
-        timestamp: adj.timestamp,
-        adminId: adj.adminId,
-        eventId: adj.eventId,
-      };
-    }));
-    
-    return c.json({ adjustments, transactions });
-  } catch (error) {
-    console.error('Error fetching adjustments:', error);
-    return c.json({ error: 'Failed to fetch adjustments' }, 500);
+    console.error('Error confirming participation:', error);
+    return c.json({ error: 'Failed to confirm participation' }, 500);
   }
 });
 
-// ==================== EVENT SIGNUP ENDPOINTS ====================
-
-// Sign up for event
-app.post("/make-server-08658f87/signups", async (c) => {
+// Confirm all participants for an event at once
+app.post("/make-server-08658f87/participation/confirm-all", requirePermission('staffing:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
+    const user = c.get('user');
 
-    const { eventId } = await c.req.json();
+    const { eventId, shiftId } = await c.req.json();
 
     if (!eventId) {
       return c.json({ error: 'Event ID is required' }, 400);
@@ -2977,39 +6691,200 @@ app.post("/make-server-08658f87/signups", async (c) => {
       return c.json({ error: 'Event not found' }, 404);
     }
 
-    // Check if already signed up
-    if (event.signedUpStaff && event.signedUpStaff.includes(user.id)) {
-      return c.json({ error: 'Already signed up for this event' }, 400);
+    // Events with shifts are confirmed per shift - either the given shift or all shifts
+    if (shiftId && !(hasShifts(event) && event.shifts.some((s: any) => s.id === shiftId))) {
+      return c.json({ error: 'Shift not found' }, 404);
+    }
+    const slots: any[] = hasShifts(event)
+      ? event.shifts.filter((shift: any) => !shiftId || shift.id === shiftId)
+      : [event];
+
+    // Only award points to selected staff who haven't received points yet
+    // (and who checked in, if the event requires it)
+    const unawarded = slots.flatMap((slot: any) =>
+      (slot.confirmedStaff || [])
+        .filter((staffId: string) => !(slot.pointsAwarded || []).includes(staffId))
+        .filter((staffId: string) => !(slot.noShowStaff || []).includes(staffId))
+        .map((staffId: string) => ({ staffId, slot }))
+    );
+    const pendingAwards = event.awardCheckedInOnly
+      ? unawarded.filter(award => event.checkIns?.[award.staffId])
+      : unawarded;
+    const staffToConfirm = Array.from(new Set<string>(pendingAwards.map(award => award.staffId)));
+    const skippedStaff = Array.from(new Set<string>(
+      unawarded.filter(award => !pendingAwards.includes(award)).map(award => award.staffId)
+    ));
+
+    if (pendingAwards.length === 0) {
+      return c.json({ 
+        error: skippedStaff.length > 0
+          ? 'None of the remaining selected staff checked in to this event'
+          : 'No staff members awaiting point confirmation'
+      }, 400);
     }
 
-    // Check if event is in the past
-    const eventDate = new Date(`${event.date}T${event.time}`);
-    if (eventDate < new Date()) {
-      return c.json({ error: 'Cannot sign up for past events' }, 400);
+    if (skippedStaff.length > 0) {
+      console.log(`📍 Skipping ${skippedStaff.length} selected staff without a check-in for "${event.name}"`);
     }
 
-    // Add user to signups with timestamp
-    const signUpTimestamp = new Date().toISOString();
-    const updatedEvent = {
-      ...event,
-      signedUpStaff: [...(event.signedUpStaff || []), user.id],
-      signUpTimestamps: {
-        ...(event.signUpTimestamps || {}),
-        [user.id]: signUpTimestamp
+    const updatedStaffList = [];
+    const adjustments = [];
+    const levelUps = [];
+
+    const awardedBySlot: Record<string, string[]> = {};
+
+    // Process each staff member who needs points (once per shift for events with shifts)
+    for (const { staffId, slot } of pendingAwards) {
+      const isShift = slot !== event;
+      const earnedPoints = slot.points;
+      const staff = await kv.get(`user:${staffId}`);
+      if (!staff) {
+        console.warn(`Staff member ${staffId} not found, skipping`);
+        continue;
       }
-    };
+
+      // Calculate new points and level
+      const oldLevel = staff.level;
+      const newPoints = staff.points + earnedPoints;
+      const newLevel = await calculateLevel(newPoints);
+
+      // Update staff member
+      const updatedStaff = {
+        ...staff,
+        points: newPoints,
+        level: newLevel
+      };
+
+      await kv.set(`user:${staffId}`, updatedStaff);
+      updatedStaffList.push(updatedStaff);
+      awardedBySlot[slot.id] = [...(awardedBySlot[slot.id] || []), staffId];
+
+      // Record adjustment
+      const adjustmentId = `${Date.now()}-${staffId}${isShift ? `-${slot.id}` : ''}`;
+      const adjustment = {
+        id: adjustmentId,
+        staffId,
+        points: earnedPoints,
+        reason: `Completed Event: ${event.name}${isShift ? ` - ${slot.name}` : ''}`,
+        timestamp: new Date().toISOString(),
+        adminId: user.id,
+        eventId: eventId,
+        ...(isShift ? { shiftId: slot.id } : {})
+      };
+
+      await kv.set(`adjustment:${adjustmentId}`, adjustment);
+      adjustments.push(adjustment);
+
+      // Track level ups
+      if (oldLevel !== newLevel) {
+        levelUps.push({ staffId, name: staff.name, oldLevel, newLevel });
+      }
+    }
+
+    // Update event (and its shifts) to mark points as awarded
+    const updatedEvent = hasShifts(event)
+      ? syncShiftTotals({
+          ...event,
+          shifts: event.shifts.map((shift: any) => ({
+            ...shift,
+            pointsAwarded: [...(shift.pointsAwarded || []), ...(awardedBySlot[shift.id] || [])]
+          }))
+        })
+      : {
+          ...event,
+          pointsAwarded: [...(event.pointsAwarded || []), ...(awardedBySlot[event.id] || [])]
+        };
 
     await kv.set(`event:${eventId}`, updatedEvent);
 
-    return c.json({ success: true, event: updatedEvent });
+    return c.json({ 
+      success: true, 
+      event: updatedEvent,
+      confirmedCount: staffToConfirm.length,
+      skippedCount: skippedStaff.length,
+      staffList: updatedStaffList.map(getStaffListEntry),
+      adjustments,
+      levelUps
+    });
   } catch (error) {
-    console.error('Error signing up for event:', error);
-    return c.json({ error: 'Failed to sign up for event' }, 500);
+    console.error('Error confirming all participants:', error);
+    return c.json({ error: 'Failed to confirm all participants' }, 500);
   }
 });
 
-// Cancel event signup
-app.delete("/make-server-08658f87/signups/:eventId", async (c) => {
+// ==================== CALENDAR FEED ENDPOINTS ====================
+
+// Helper function to create a secret calendar feed token for a user, replacing any previous one
+const createCalendarToken = async (userData: any) => {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  const token = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+  if (userData.calendarToken) {
+    await kv.del(`calendar:token:${userData.calendarToken}`);
+  }
+
+  await kv.set(`calendar:token:${token}`, { token, userId: userData.id, createdAt: new Date().toISOString() });
+  await kv.set(`user:${userData.id}`, { ...userData, calendarToken: token });
+
+  return token;
+};
+
+// Helper function to escape text values for iCalendar (RFC 5545)
+const escapeICalText = (value: string) => {
+  return (value || '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Helper function to fold iCalendar lines longer than 75 characters
+const foldICalLine = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.substring(0, 75));
+    rest = ' ' + rest.substring(75);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+};
+
+// Helper function to format a Date as an iCalendar UTC date-time
+const formatICalDateTime = (date: Date) => {
+  return `${date.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`;
+};
+
+// Helper function to build a VEVENT for an event, or for one of its shifts
+const buildICalEvent = (event: any, shift?: any) => {
+  const { start, end } = getEventTimes(event, shift);
+
+  const description = [
+    event.description,
+    shift ? `Shift: ${shift.name}` : '',
+    `Points: ${shift ? shift.points : event.points}`,
+    event.notes ? `Notes: ${event.notes}` : ''
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}${shift ? `-${shift.id}` : ''}@nahky-event-hub`,
+    `DTSTAMP:${formatICalDateTime(new Date())}`,
+    `DTSTART:${formatICalDateTime(start)}`,
+    `DTEND:${formatICalDateTime(end)}`,
+    `SUMMARY:${escapeICalText(shift ? `${event.name} - ${shift.name}` : event.name)}`,
+    `LOCATION:${escapeICalText(event.location)}`,
+    `DESCRIPTION:${escapeICalText(description)}`,
+    `STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT'
+  ];
+
+  return lines.map(foldICalLine).join('\r\n');
+};
+
+// Get (or create) the calendar feed token of the current user
+app.get("/make-server-08658f87/calendar/token", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -3018,35 +6893,22 @@ app.delete("/make-server-08658f87/signups/:eventId", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    const eventId = c.req.param('eventId');
-
-    // Get event
-    const event = await kv.get(`event:${eventId}`);
-    if (!event) {
-      return c.json({ error: 'Event not found' }, 404);
+    const userData = await kv.get(`user:${user.id}`);
+    if (!userData) {
+      return c.json({ error: 'User not found' }, 404);
     }
 
-    // Remove user from signups and timestamps
-    const signUpTimestamps = { ...(event.signUpTimestamps || {}) };
-    delete signUpTimestamps[user.id];
-    
-    const updatedEvent = {
-      ...event,
-      signedUpStaff: (event.signedUpStaff || []).filter((id: string) => id !== user.id),
-      signUpTimestamps
-    };
-
-    await kv.set(`event:${eventId}`, updatedEvent);
+    const token = userData.calendarToken || await createCalendarToken(userData);
 
-    return c.json({ success: true, event: updatedEvent });
+    return c.json({ token });
   } catch (error) {
-    console.error('Error cancelling signup:', error);
-    return c.json({ error: 'Failed to cancel signup' }, 500);
+    console.error('Error getting calendar token:', error);
+    return c.json({ error: 'Failed to get calendar feed' }, 500);
   }
 });
 
-// Admin manually sign up staff for event
-app.post("/make-server-08658f87/signups/admin", async (c) => {
+// Regenerate the calendar feed token - the old feed URL stops working
+app.post("/make-server-08658f87/calendar/token/regenerate", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -3055,64 +6917,188 @@ app.post("/make-server-08658f87/signups/admin", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
     const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
+    if (!userData) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const token = await createCalendarToken(userData);
+    console.log(`📅 Regenerated calendar feed for ${userData.name}`);
+
+    return c.json({ success: true, token });
+  } catch (error) {
+    console.error('Error regenerating calendar token:', error);
+    return c.json({ error: 'Failed to regenerate calendar feed' }, 500);
+  }
+});
+
+// iCalendar feed - authenticated by the secret token in the URL so calendar apps can subscribe
+// Staff get the events they were selected for, admins get all published events
+app.get("/make-server-08658f87/calendar/feed/:token", async (c) => {
+  try {
+    const token = c.req.param('token').replace(/\.ics$/, '');
+    const tokenData = await kv.get(`calendar:token:${token}`);
+    if (!tokenData) {
+      return c.json({ error: 'Calendar feed not found' }, 404);
+    }
+
+    const userData = await kv.get(`user:${tokenData.userId}`);
+    if (!userData || userData.calendarToken !== token) {
+      return c.json({ error: 'Calendar feed not found' }, 404);
     }
 
-    const { eventId, staffIds } = await c.req.json();
+    const allEvents = await kv.getByPrefix('event:');
+    const isAdmin = hasPermission(userData.role, 'events:manage');
+    const vevents: string[] = [];
+
+    allEvents
+      .filter((event: any) => event.status && event.status !== 'draft')
+      .forEach((event: any) => {
+        if (isAdmin) {
+          vevents.push(buildICalEvent(event));
+          return;
+        }
+
+        if (!(event.confirmedStaff || []).includes(userData.id)) return;
+
+        // Staff see the shifts they were selected for, with the shift times
+        const shifts = hasShifts(event)
+          ? event.shifts.filter((shift: any) => (shift.confirmedStaff || []).includes(userData.id))
+          : [];
+        if (shifts.length > 0) {
+          shifts.forEach((shift: any) => vevents.push(buildICalEvent(event, shift)));
+        } else {
+          vevents.push(buildICalEvent(event));
+        }
+      });
+
+    const calendar = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Nahky Araby//Event Hub//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      foldICalLine(`X-WR-CALNAME:${escapeICalText(isAdmin ? 'Nahky Araby Events' : `Nahky Araby - ${userData.name}`)}`),
+      ...vevents,
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    return c.body(calendar, 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="events.ics"'
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return c.json({ error: 'Failed to build calendar feed' }, 500);
+  }
+});
+
+// ==================== CHECK-IN ENDPOINTS ====================
+
+// Check-in codes rotate so a code photographed on site stops working shortly after
+const CHECKIN_CODE_TTL_MS = 60 * 1000;
+// Staff can check in from this long before the event starts
+const CHECKIN_OPENS_BEFORE_MS = 2 * 60 * 60 * 1000;
+// Wrong codes allowed per staff member within the window before check-in is locked for them, so PINs can't be guessed
+const MAX_CHECKIN_FAILURES = 5;
+const CHECKIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+// Helper function to generate a random 6-digit check-in code
+const generateCheckInCode = () => {
+  const values = new Uint32Array(1);
+  crypto.getRandomValues(values);
+  return (100000 + (values[0] % 900000)).toString();
+};
+
+// Helper function to get the current check-in code of an event, rotating it when expired
+// The previous code stays valid for one more period so staff scanning right at rotation are not rejected
+const getCurrentCheckInCode = async (eventId: string) => {
+  const existing = await kv.get(`checkin:${eventId}`);
+  if (existing && new Date(existing.expiresAt).getTime() > Date.now()) {
+    return existing;
+  }
+
+  const checkInCode = {
+    eventId,
+    code: generateCheckInCode(),
+    previousCode: existing ? existing.code : null,
+    expiresAt: new Date(Date.now() + CHECKIN_CODE_TTL_MS).toISOString()
+  };
+  await kv.set(`checkin:${eventId}`, checkInCode);
+  return checkInCode;
+};
+
+// Helper function to check whether a code matches the current (or just rotated) code of an event
+const isValidCheckInCode = (checkInCode: any, code: string) => {
+  if (!checkInCode || !code) return false;
+  const isCurrent = checkInCode.code === code && new Date(checkInCode.expiresAt).getTime() > Date.now();
+  const isPrevious = checkInCode.previousCode === code &&
+    new Date(checkInCode.expiresAt).getTime() + CHECKIN_CODE_TTL_MS > Date.now();
+  return isCurrent || isPrevious;
+};
+
+// Helper function to get when a staff member may try a check-in code again, or null if they may now
+const getCheckInLockedUntil = async (userId: string) => {
+  const attempts = await kv.get(`checkin-attempts:${userId}`);
+  return attempts?.lockedUntil && new Date(attempts.lockedUntil).getTime() > Date.now() ? attempts.lockedUntil : null;
+};
 
-    if (!eventId || !staffIds || !Array.isArray(staffIds)) {
-      return c.json({ error: 'Event ID and staff IDs are required' }, 400);
-    }
+// Helper function to count a wrong check-in code, locking check-in for the staff member after too many
+// Failures older than the lockout window are forgotten
+const recordCheckInFailure = async (userId: string) => {
+  const now = Date.now();
+  const previous = await kv.get(`checkin-attempts:${userId}`);
+  const isWindowOpen = previous && now - new Date(previous.firstFailedAt).getTime() < CHECKIN_LOCKOUT_MS;
+  const failures = isWindowOpen ? previous.failures + 1 : 1;
+  const attempts = {
+    failures,
+    firstFailedAt: isWindowOpen ? previous.firstFailedAt : new Date(now).toISOString(),
+    lockedUntil: failures >= MAX_CHECKIN_FAILURES ? new Date(now + CHECKIN_LOCKOUT_MS).toISOString() : null
+  };
+  await kv.set(`checkin-attempts:${userId}`, attempts);
+  if (attempts.lockedUntil) {
+    console.log(`🔒 Check-in locked for ${userId} until ${attempts.lockedUntil} after ${failures} wrong codes`);
+  }
+  return attempts;
+};
 
-    // Get event
+// Helper function to check whether check-in is open for an event
+// Opens shortly before the start time and closes at the end of the event's last day (in its time zone)
+const isCheckInOpen = (event: any) => {
+  const now = Date.now();
+  const { start, end } = getEventTimes(event);
+  const endOfLastDay = zonedTimeToUtc(addDaysToDate(event.endDate || event.date, 1), '00:00', withEventTimes(event).timeZone);
+  return now >= start.getTime() - CHECKIN_OPENS_BEFORE_MS && now <= Math.max(end.getTime(), endOfLastDay.getTime());
+};
+
+// Get the current check-in code for an event
+app.get("/make-server-08658f87/events/:id/checkin-code", requirePermission('staffing:manage'), async (c) => {
+  try {
+    const eventId = c.req.param('id');
     const event = await kv.get(`event:${eventId}`);
     if (!event) {
       return c.json({ error: 'Event not found' }, 404);
     }
 
-    // Check if event is cancelled
     if (event.status === 'cancelled') {
-      return c.json({ error: 'Cannot sign up staff for cancelled events' }, 400);
+      return c.json({ error: 'Cannot check in to cancelled events' }, 400);
     }
 
-    // Add staff to signups with timestamp
-    const signUpTimestamp = new Date().toISOString();
-    const currentSignedUp = event.signedUpStaff || [];
-    const currentTimestamps = event.signUpTimestamps || {};
-    
-    // Filter out staff who are already signed up
-    const newStaffIds = staffIds.filter((staffId: string) => !currentSignedUp.includes(staffId));
-    
-    if (newStaffIds.length === 0) {
-      return c.json({ error: 'All selected staff are already signed up' }, 400);
-    }
+    const checkInCode = await getCurrentCheckInCode(eventId);
 
-    // Add timestamps for new staff
-    const newTimestamps = { ...currentTimestamps };
-    newStaffIds.forEach((staffId: string) => {
-      newTimestamps[staffId] = signUpTimestamp;
+    return c.json({ 
+      eventId,
+      code: checkInCode.code,
+      expiresAt: checkInCode.expiresAt
     });
-
-    const updatedEvent = {
-      ...event,
-      signedUpStaff: [...currentSignedUp, ...newStaffIds],
-      signUpTimestamps: newTimestamps
-    };
-
-    await kv.set(`event:${eventId}`, updatedEvent);
-
-    return c.json({ success: true, event: updatedEvent, addedCount: newStaffIds.length });
   } catch (error) {
-    console.error('Error admin signing up staff for event:', error);
-    return c.json({ error: 'Failed to sign up staff for event' }, 500);
+    console.error('Error getting check-in code:', error);
+    return c.json({ error: 'Failed to get check-in code' }, 500);
   }
 });
 
-// Confirm participation and award points (admin only)
-app.post("/make-server-08658f87/participation/confirm", async (c) => {
+// Check in to an event with a scanned QR code or a typed PIN
+app.post("/make-server-08658f87/checkin", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -3121,172 +7107,85 @@ app.post("/make-server-08658f87/participation/confirm", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
-    const { eventId, staffId } = await c.req.json();
+    const { eventId, code, method } = await c.req.json();
 
-    if (!eventId || !staffId) {
-      return c.json({ error: 'Event ID and staff ID are required' }, 400);
+    if (!code) {
+      return c.json({ error: 'Check-in code is required' }, 400);
     }
 
-    // Get event
-    const event = await kv.get(`event:${eventId}`);
-    if (!event) {
-      return c.json({ error: 'Event not found' }, 404);
+    const lockedUntil = await getCheckInLockedUntil(user.id);
+    if (lockedUntil) {
+      return c.json({ error: 'Too many wrong check-in codes. Please try again later.', lockedUntil }, 429);
     }
 
-    // Get staff member
-    const staff = await kv.get(`user:${staffId}`);
-    if (!staff) {
-      return c.json({ error: 'Staff member not found' }, 404);
+    // A scanned QR code names the event - a typed PIN is only matched against the events the staff member is expected at
+    let checkInCode: any = null;
+    if (eventId) {
+      checkInCode = await kv.get(`checkin:${eventId}`);
+    } else {
+      const activeCodes = await kv.getByPrefix('checkin:');
+      const candidates = activeCodes.filter((candidate: any) => isValidCheckInCode(candidate, code));
+      const candidateEvents = await kv.mget(candidates.map((candidate: any) => `event:${candidate.eventId}`));
+      const expectedEvent = candidateEvents.find((event: any) =>
+        event && (event.confirmedStaff || event.signedUpStaff || []).includes(user.id)
+      );
+      checkInCode = expectedEvent ? candidates.find((candidate: any) => candidate.eventId === expectedEvent.id) : null;
     }
 
-    // Check if staff has already received points for this event
-    const pointsAwarded = event.pointsAwarded || [];
-    if (pointsAwarded.includes(staffId)) {
-      return c.json({ error: 'Points already awarded to this staff member' }, 400);
+    if (!isValidCheckInCode(checkInCode, code)) {
+      const { failures, lockedUntil } = await recordCheckInFailure(user.id);
+      return c.json({
+        error: lockedUntil
+          ? 'Too many wrong check-in codes. Please try again later.'
+          : `Invalid or expired check-in code (${MAX_CHECKIN_FAILURES - failures} attempt${MAX_CHECKIN_FAILURES - failures !== 1 ? 's' : ''} left)`,
+        lockedUntil
+      }, lockedUntil ? 429 : 400);
     }
 
-    // Check if staff is in the selected/confirmed list
-    const confirmedStaff = event.confirmedStaff || [];
-    if (!confirmedStaff.includes(staffId)) {
-      return c.json({ error: 'Staff member was not selected for this event' }, 400);
+    const event = await kv.get(`event:${checkInCode.eventId}`);
+    if (!event || event.status === 'cancelled') {
+      return c.json({ error: 'Event not found' }, 404);
     }
 
-    // Calculate new points and level
-    const oldLevel = staff.level;
-    const newPoints = staff.points + event.points;
-    const newLevel = await calculateLevel(newPoints);
+    // Only selected staff can check in - or signed up staff while no selection has been made
+    const expectedStaff = event.confirmedStaff || event.signedUpStaff || [];
+    if (!expectedStaff.includes(user.id)) {
+      return c.json({ error: 'You are not on the participant list for this event' }, 403);
+    }
 
-    // Update staff member
-    const updatedStaff = {
-      ...staff,
-      points: newPoints,
-      level: newLevel
-    };
+    if (!isCheckInOpen(event)) {
+      return c.json({ error: 'Check-in is not open for this event' }, 400);
+    }
 
-    await kv.set(`user:${staffId}`, updatedStaff);
+    const checkIns = event.checkIns || {};
+    if (checkIns[user.id]) {
+      return c.json({ error: 'Already checked in to this event' }, 400);
+    }
 
-    // Update event to mark points as awarded
     const updatedEvent = {
       ...event,
-      pointsAwarded: [...pointsAwarded, staffId]
-    };
-
-    await kv.set(`event:${eventId}`, updatedEvent);
-
-    // Record adjustment
-    const adjustmentId = `${Date.now()}`;
-    const adjustment = {
-      id: adjustmentId,
-      staffId,
-      points: event.points,
-      reason: `Completed Event: ${event.name}`,
-      timestamp: new Date().toISOString(),
-      adminId: user.id,
-      eventId: eventId
-    };
-
-    await kv.set(`adjustment:${adjustmentId}`, adjustment);
-
-    // Send email notification to staff member
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: #10B981; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-          .points-box { background-color: white; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10B981; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); text-align: center; }
-          .points-value { font-size: 48px; font-weight: bold; color: #10B981; margin: 10px 0; }
-          .event-box { background-color: #EFF6FF; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #3B82F6; }
-          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #6b7280; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div style="text-align: center; margin-bottom: 10px;">
-              <img src="https://img1.wsimg.com/isteam/ip/aead55c7-5dc3-4ad4-8132-6139ccf3e033/nahky.png/:/rs=w:132,h:104,cg:true,m/cr=w:132,h:104/qt=q:95" alt="Nahky Araby Logo" style="max-width: 200px; height: auto;" />
-            </div>
-            <h2 style="margin: 10px 0 20px 0; font-size: 24px; font-weight: 600; opacity: 1;">Nahky Araby Event Hub</h2>
-            <h1>🎉 Event Completed - Points Earned!</h1>
-          </div>
-          <div class="content">
-            <p>Hello ${staff.name},</p>
-            
-            <p>Congratulations! You have successfully completed an event and earned points!</p>
-            
-            <div class="points-box">
-              <div style="font-size: 16px; color: #6B7280; margin-bottom: 5px;">Points Earned</div>
-              <div class="points-value">+${event.points}</div>
-              <div style="font-size: 14px; color: #6B7280; margin-top: 10px;">New Total: ${newPoints} points</div>
-              ${oldLevel !== newLevel ? `<div style="font-size: 16px; color: #10B981; margin-top: 15px; font-weight: bold;">🎊 Level Up! You are now ${newLevel}!</div>` : ''}
-            </div>
-            
-            <div class="event-box">
-              <h3 style="margin-top: 0; color: #3B82F6;">📅 Event Details</h3>
-              <p style="margin: 5px 0;"><strong>Event:</strong> ${event.name}</p>
-              <p style="margin: 5px 0;"><strong>Date:</strong> ${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
-              <p style="margin: 5px 0;"><strong>Location:</strong> ${event.location}</p>
-            </div>
-            
-            <p>Thank you for your participation and dedication! You can view your updated points and level by logging into Nahky Araby Event Hub.</p>
-            
-            <p style="margin-top: 30px;">Keep up the excellent work!</p>
-          </div>
-          <div class="footer">
-            <p>This is an automated message. Please do not reply to this email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    try {
-      const emailResult = await sendEmail(
-        staff.email,
-        `Event Completed: You earned ${event.points} points!`,
-        emailHtml
-      );
-      
-      if (emailResult.success) {
-        console.log(`✅ Event completion email sent successfully`);
-        console.log(`   📧 To: ${staff.name} (${staff.email})`);
-        console.log(`   📝 Subject: Event Completed: You earned ${event.points} points!`);
-      } else {
-        console.log(`⚠️ Event completion email failed`);
-        console.log(`   📧 Intended for: ${staff.name} (${staff.email})`);
-        console.log(`   ❌ Error: ${emailResult.error}`);
-        if (emailResult.isTestingMode) {
-          console.log(`   ℹ️ NOTE: In Resend test mode, check delivered@resend.dev for this email`);
+      checkIns: {
+        ...checkIns,
+        [user.id]: {
+          checkedInAt: new Date().toISOString(),
+          method: method === 'qr' ? 'qr' : 'pin'
         }
       }
-    } catch (emailError) {
-      console.error('❌ Error sending event completion email:', emailError);
-    }
+    };
 
-    return c.json({ 
-      success: true, 
-      staff: updatedStaff,
-      event: updatedEvent,
-      adjustment,
-      leveledUp: oldLevel !== newLevel
-    });
+    await kv.set(`event:${event.id}`, updatedEvent);
+    await kv.del(`checkin-attempts:${user.id}`);
+    console.log(`📍 ${user.id} checked in to "${event.name}" via ${updatedEvent.checkIns[user.id].method}`);
+
+    return c.json({ success: true, event: updatedEvent });
   } catch (error) {
-    console.error('Error confirming participation:', error);
-    return c.json({ error: 'Failed to confirm participation' }, 500);
+    console.error('Error checking in:', error);
+    return c.json({ error: 'Failed to check in' }, 500);
   }
 });
 
-// Confirm all participants for an event at once (admin only)
-app.post("/make-server-08658f87/participation/confirm-all", async (c) => {
+// Check out of an event
+app.post("/make-server-08658f87/checkout", async (c) => {
   try {
     const authHeader = c.req.header('Authorization');
     const { error: authError, user } = await verifyAuth(authHeader);
@@ -3295,101 +7194,44 @@ app.post("/make-server-08658f87/participation/confirm-all", async (c) => {
       return c.json({ error: authError || 'Unauthorized' }, 401);
     }
 
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
     const { eventId } = await c.req.json();
 
     if (!eventId) {
       return c.json({ error: 'Event ID is required' }, 400);
     }
 
-    // Get event
     const event = await kv.get(`event:${eventId}`);
     if (!event) {
       return c.json({ error: 'Event not found' }, 404);
     }
 
-    const confirmedStaff = event.confirmedStaff || [];
-    const pointsAwarded = event.pointsAwarded || [];
-    
-    // Only award points to selected staff who haven't received points yet
-    const staffToConfirm = confirmedStaff.filter((staffId: string) => !pointsAwarded.includes(staffId));
-
-    if (staffToConfirm.length === 0) {
-      return c.json({ error: 'No staff members awaiting point confirmation' }, 400);
+    const checkIn = event.checkIns?.[user.id];
+    if (!checkIn) {
+      return c.json({ error: 'You have not checked in to this event' }, 400);
     }
 
-    const updatedStaffList = [];
-    const adjustments = [];
-    const levelUps = [];
-
-    // Process each staff member who needs points
-    for (const staffId of staffToConfirm) {
-      const staff = await kv.get(`user:${staffId}`);
-      if (!staff) {
-        console.warn(`Staff member ${staffId} not found, skipping`);
-        continue;
-      }
-
-      // Calculate new points and level
-      const oldLevel = staff.level;
-      const newPoints = staff.points + event.points;
-      const newLevel = await calculateLevel(newPoints);
-
-      // Update staff member
-      const updatedStaff = {
-        ...staff,
-        points: newPoints,
-        level: newLevel
-      };
-
-      await kv.set(`user:${staffId}`, updatedStaff);
-      updatedStaffList.push(updatedStaff);
-
-      // Record adjustment
-      const adjustmentId = `${Date.now()}-${staffId}`;
-      const adjustment = {
-        id: adjustmentId,
-        staffId,
-        points: event.points,
-        reason: `Completed Event: ${event.name}`,
-        timestamp: new Date().toISOString(),
-        adminId: user.id,
-        eventId: eventId
-      };
-
-      await kv.set(`adjustment:${adjustmentId}`, adjustment);
-      adjustments.push(adjustment);
-
-      // Track level ups
-      if (oldLevel !== newLevel) {
-        levelUps.push({ staffId, name: staff.name, oldLevel, newLevel });
-      }
+    if (checkIn.checkedOutAt) {
+      return c.json({ error: 'Already checked out of this event' }, 400);
     }
 
-    // Update event to mark points as awarded
     const updatedEvent = {
       ...event,
-      pointsAwarded: [...pointsAwarded, ...staffToConfirm]
+      checkIns: {
+        ...event.checkIns,
+        [user.id]: {
+          ...checkIn,
+          checkedOutAt: new Date().toISOString()
+        }
+      }
     };
 
     await kv.set(`event:${eventId}`, updatedEvent);
+    console.log(`📍 ${user.id} checked out of "${event.name}"`);
 
-    return c.json({ 
-      success: true, 
-      event: updatedEvent,
-      confirmedCount: staffToConfirm.length,
-      staffList: updatedStaffList,
-      adjustments,
-      levelUps
-    });
+    return c.json({ success: true, event: updatedEvent });
   } catch (error) {
-    console.error('Error confirming all participants:', error);
-    return c.json({ error: 'Failed to confirm all participants' }, 500);
+    console.error('Error checking out:', error);
+    return c.json({ error: 'Failed to check out' }, 500);
   }
 });
 
@@ -3569,23 +7411,11 @@ app.post("/make-server-08658f87/init", async (c) => {
   }
 });
 
-// Close event with approval selection (admin only)
-app.post("/make-server-08658f87/events/close", async (c) => {
+// Close event with approval selection
+app.post("/make-server-08658f87/events/close", requirePermission('staffing:manage'), async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    const { error: authError, user } = await verifyAuth(authHeader);
-    
-    if (authError || !user) {
-      return c.json({ error: authError || 'Unauthorized' }, 401);
-    }
-
-    // Check if user is admin
-    const userData = await kv.get(`user:${user.id}`);
-    if (!userData || userData.role !== 'admin') {
-      return c.json({ error: 'Admin access required' }, 403);
-    }
-
-    const { eventId, approvedStaffIds } = await c.req.json();
+    const body = await c.req.json();
+    const { eventId } = body;
 
     if (!eventId) {
       return c.json({ error: 'Event ID is required' }, 400);
@@ -3597,10 +7427,51 @@ app.post("/make-server-08658f87/events/close", async (c) => {
       return c.json({ error: 'Event not found' }, 404);
     }
 
-    // Get all signed up staff
-    const signedUpStaffIds = event.signedUpStaff || [];
+    // Events with shifts are selected per shift ({ [shiftId]: staffIds })
+    // Without an explicit selection, staff holding a spot within capacity are selected automatically
+    // Waitlisted staff the admin approved anyway move into the participant list
+    const selectedShifts = hasShifts(event)
+      ? event.shifts.map((shift: any) => {
+          const shiftSelection = body.shiftSelections && body.shiftSelections[shift.id];
+          const approvedForShift: string[] = Array.isArray(shiftSelection) ? shiftSelection : (shift.signedUpStaff || []);
+          const shiftWaitlist = shift.waitlistedStaff || [];
+          return {
+            ...shift,
+            signedUpStaff: [
+              ...(shift.signedUpStaff || []),
+              ...shiftWaitlist.filter((id: string) => approvedForShift.includes(id))
+            ],
+            waitlistedStaff: shiftWaitlist.filter((id: string) => !approvedForShift.includes(id)),
+            confirmedStaff: approvedForShift
+          };
+        })
+      : null;
+
+    const approvedStaffIds: string[] = selectedShifts
+      ? Array.from(new Set<string>(selectedShifts.flatMap((shift: any) => shift.confirmedStaff)))
+      : Array.isArray(body.approvedStaffIds)
+        ? body.approvedStaffIds
+        : (event.signedUpStaff || []);
+
+    // Get all signed up staff (waitlisted staff who were not approved count as not selected)
+    const signedUpStaffIds = [...(event.signedUpStaff || []), ...(event.waitlistedStaff || [])];
     const rejectedStaffIds = signedUpStaffIds.filter(id => !approvedStaffIds.includes(id));
 
+    // Check the selected staff for other events (or shifts) they hold a spot in at the same time
+    const allEvents = await kv.getByPrefix('event:');
+    const overlapConflicts = selectedShifts
+      ? (await Promise.all(selectedShifts.map((shift: any) =>
+          getOverlapConflicts(shift.confirmedStaff, event, shift, allEvents, event.id)
+        ))).flat()
+      : await getOverlapConflicts(approvedStaffIds, event, null, allEvents, event.id);
+    const overlapSettings = await getOverlapSettings();
+    if (overlapConflicts.length > 0 && overlapSettings.mode === 'block') {
+      return c.json({
+        error: `Overlapping bookings: ${overlapConflicts.map(conflict => `${conflict.staffName} is booked for ${conflict.overlaps.map(describeOverlap).join(', ')}`).join('; ')}`,
+        overlapConflicts
+      }, 409);
+    }
+
     // Track previous selection state to determine who needs notifications
     const previouslyConfirmedStaff = event.confirmedStaff || [];
     // Check if event has EVER been closed before (not just current status)
@@ -3614,12 +7485,25 @@ app.post("/make-server-08658f87/events/close", async (c) => {
     }
 
     // Update event - replace confirmedStaff with only the approved staff
-    const updatedEvent = {
-      ...event,
-      confirmedStaff: approvedStaffIds,
-      status: 'closed',
-      hasBeenClosedBefore: true  // Mark that this event has been closed at least once
-    };
+    const waitlistedStaffIds = event.waitlistedStaff || [];
+    const updatedEvent = selectedShifts
+      ? syncShiftTotals({
+          ...event,
+          shifts: selectedShifts,
+          status: 'closed',
+          hasBeenClosedBefore: true
+        })
+      : {
+          ...event,
+          signedUpStaff: [
+            ...(event.signedUpStaff || []),
+            ...waitlistedStaffIds.filter((id: string) => approvedStaffIds.includes(id))
+          ],
+          waitlistedStaff: waitlistedStaffIds.filter((id: string) => !approvedStaffIds.includes(id)),
+          confirmedStaff: approvedStaffIds,
+          status: 'closed',
+          hasBeenClosedBefore: true  // Mark that this event has been closed at least once
+        };
 
     await kv.set(`event:${eventId}`, updatedEvent);
 
@@ -3644,124 +7528,35 @@ app.post("/make-server-08658f87/events/close", async (c) => {
       console.log(`  📊 First time closing: notifying all ${newlySelected.length + newlyDeselected.length} staff`);
     }
 
-    // Send Telegram notifications only to staff whose status changed
-    const telegramSettings = await kv.get('telegram:settings');
-    console.log(`✈️ Telegram settings for event closure:`, telegramSettings ? { connected: telegramSettings.connected, botName: telegramSettings.botName } : 'NOT CONFIGURED');
-    
-    if (telegramSettings && telegramSettings.connected) {
-      const totalToNotify = newlySelected.length + newlyDeselected.length;
-      console.log(`✈️ Telegram is connected, sending closure notifications to ${totalToNotify} staff members with status changes`);
-      
-      let telegramSentCount = 0;
-      
-      // Send to newly selected staff
-      for (let i = 0; i < newlySelected.length; i++) {
-        const staffId = newlySelected[i];
-        const staff = await kv.get(`user:${staffId}`);
-        
-        if (!staff) {
-          console.log(`  ⚠️ Staff ${staffId}: Not found, skipping`);
-          continue;
-        }
-        
-        // Check if staff member has a Telegram chat ID
-        const chatId = staff.telegramChatId || staff.telegramUsername;
-        if (!chatId || chatId.trim() === '') {
-          console.log(`  ⚠️ ${staff.name}: No Telegram chat ID on file, skipping Telegram`);
-          continue;
-        }
-        
-        console.log(`  📤 Sending selection notification to ${staff.name} (${chatId})...`);
-        
-        const telegramMessage = `Hello ${staff.name},
-
-🎉 *Congratulations!* 🎉
-
-You have been selected to participate in the following event:
-
-📅 *${event.name}*
-📍 Location: ${event.location}
-📆 Date: ${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
-🕐 Time: ${event.time}
-⭐ Points: ${event.points} points${event.description ? `
-
-📝 Description: ${event.description}` : ''}${event.notes ? `
-
-💬 Notes: ${event.notes}` : ''}
-
-We look forward to seeing you there! You will receive your points after the event is completed.`;
-        
-        const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-        
-        if (telegramResult.success) {
-          console.log(`  ✓ Telegram sent successfully to ${staff.name} (${chatId})`);
-          telegramSentCount++;
-        } else {
-          console.log(`  ✗ Failed to send Telegram to ${staff.name} (${chatId}): ${telegramResult.error}`);
-        }
-        
-        // Rate limiting: Wait 600ms between messages
-        if (i < newlySelected.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 600));
-        }
-      }
-      
-      // Send to newly deselected staff
-      for (let i = 0; i < newlyDeselected.length; i++) {
-        const staffId = newlyDeselected[i];
-        const staff = await kv.get(`user:${staffId}`);
-        
-        if (!staff) {
-          console.log(`  ⚠️ Staff ${staffId}: Not found, skipping`);
-          continue;
-        }
-        
-        // Check if staff member has a Telegram chat ID
-        const chatId = staff.telegramChatId || staff.telegramUsername;
-        if (!chatId || chatId.trim() === '') {
-          console.log(`  ⚠️ ${staff.name}: No Telegram chat ID on file, skipping Telegram`);
-          continue;
-        }
-        
-        console.log(`  📤 Sending non-selection notification to ${staff.name} (${chatId})...`);
-        
-        const telegramMessage = `Hello ${staff.name},
-
-Thank you for signing up for *${event.name}*!
-
-Unfortunately, you were not selected for this event on ${new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.${event.description ? `
-
-📝 Event Description: ${event.description}` : ''}${event.notes ? `
-
-💬 Notes: ${event.notes}` : ''}
+    // Notify only staff whose status changed - selected staff are told which shifts they are on
+    await enqueueNotifications('event-selected', newlySelected, (staffId: string) => ({
+      event: updatedEvent,
+      shifts: describeStaffShifts(updatedEvent, staffId)
+    }));
+    await enqueueNotifications('event-deselected', newlyDeselected, { event: updatedEvent });
 
-Don't worry! There will be many more opportunities to participate in upcoming events. Please keep an eye on the app for new events and continue signing up.
+    // Selected staff who declared themselves unavailable are reported back to the admin
+    const selectedAvailabilities = await getAvailabilities(approvedStaffIds);
+    const availabilityConflicts = selectedShifts
+      ? selectedShifts.flatMap((shift: any) =>
+          Object.entries(getAvailabilityConflicts(
+            selectedAvailabilities.filter((a: any) => shift.confirmedStaff.includes(a.staffId)),
+            event,
+            shift
+          )).map(([staffId, reason]) => ({ staffId, shiftId: shift.id, reason }))
+        )
+      : Object.entries(getAvailabilityConflicts(selectedAvailabilities, event))
+          .map(([staffId, reason]) => ({ staffId, reason }));
 
-We appreciate your enthusiasm and look forward to having you at future events! 🌟`;
-        
-        const telegramResult = await sendTelegramMessage(chatId, telegramMessage);
-        
-        if (telegramResult.success) {
-          console.log(`  ✓ Telegram sent successfully to ${staff.name} (${chatId})`);
-          telegramSentCount++;
-        } else {
-          console.log(`  ✗ Failed to send Telegram to ${staff.name} (${chatId}): ${telegramResult.error}`);
-        }
-        
-        // Rate limiting: Wait 600ms between messages
-        if (i < newlyDeselected.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 600));
-        }
-      }
-      
-      console.log(`✅ Sent ${telegramSentCount} Telegram notifications for event closure (${newlySelected.length} selected, ${newlyDeselected.length} deselected)`);
-    } else {
-      console.log(`⚠️ Telegram not configured, skipping notifications`);
+    if (availabilityConflicts.length > 0) {
+      console.log(`  ⚠️ ${availabilityConflicts.length} selected staff have availability conflicts`);
     }
 
     return c.json({
       success: true,
-      event: updatedEvent
+      event: updatedEvent,
+      availabilityConflicts,
+      overlapConflicts
     });
   } catch (error) {
     console.error('Error closing event:', error);
@@ -1,4 +1,29 @@
 import { projectId, publicAnonKey } from './supabase/info';
+import type {
+  CapturedEmail,
+  DeliveryLogEntry,
+  DigestSettings,
+  EmailSettings,
+  EmailTransport,
+  EventOverlap,
+  InvitationDetails,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationStatus,
+  NotificationTemplate,
+  NotificationTemplateContent,
+  OverlapConflict,
+  QuietHours,
+  ReminderSettings,
+  ScheduledJobRun,
+  StaffMember,
+  TelegramLinkStatus,
+  UserRole,
+  WhatsAppReply,
+  WhatsAppSettings,
+  WhatsAppTemplateMapping
+} from '../App';
 
 const API_URL = `https://${projectId}.supabase.co/functions/v1/make-server-08658f87`;
 
@@ -87,22 +112,27 @@ class ApiClient {
     return result;
   }
 
-  async signup(email: string, password: string, name: string, role = 'staff') {
+  async signup(email: string, password: string, name: string) {
     return this.request('/signup', {
       method: 'POST',
-      body: JSON.stringify({ email, password, name, role }),
+      body: JSON.stringify({ email, password, name }),
     });
   }
 
-  async setupPassword(email: string, tempPassword: string, newPassword: string) {
+  // Invitation and password reset links
+  async getInvitation(token: string) {
+    return this.request<InvitationDetails>(`/invitations/${encodeURIComponent(token)}`);
+  }
+
+  async acceptInvitation(token: string, newPassword: string) {
     const result = await this.request<{
       success: boolean;
       accessToken: string;
       user: any;
       message: string;
-    }>('/staff/setup-password', {
+    }>(`/invitations/${encodeURIComponent(token)}/accept`, {
       method: 'POST',
-      body: JSON.stringify({ email, tempPassword, newPassword }),
+      body: JSON.stringify({ newPassword }),
     });
     
     if (result.accessToken) {
@@ -122,22 +152,23 @@ class ApiClient {
   }
 
   async createEvent(eventData: any) {
-    return this.request<{ success: boolean; event: any }>('/events', {
+    return this.request<{ success: boolean; event: any; events?: any[] }>('/events', {
       method: 'POST',
       body: JSON.stringify(eventData),
     });
   }
 
-  async updateEvent(eventId: string, eventData: any) {
-    return this.request<{ success: boolean; event: any }>(`/events/${eventId}`, {
+  async updateEvent(eventId: string, eventData: any, scope?: 'this' | 'following' | 'series') {
+    return this.request<{ success: boolean; event: any; events?: any[] }>(`/events/${eventId}`, {
       method: 'PUT',
-      body: JSON.stringify(eventData),
+      body: JSON.stringify({ ...eventData, scope }),
     });
   }
 
-  async cancelEvent(eventId: string) {
-    return this.request<{ success: boolean; event: any }>(`/events/${eventId}/cancel`, {
+  async cancelEvent(eventId: string, scope?: 'this' | 'following' | 'series') {
+    return this.request<{ success: boolean; event: any; events?: any[] }>(`/events/${eventId}/cancel`, {
       method: 'POST',
+      body: JSON.stringify({ scope }),
     });
   }
 
@@ -153,10 +184,42 @@ class ApiClient {
     });
   }
 
-  async closeEvent(eventId: string, approvedStaffIds: string[]) {
-    return this.request<{ success: boolean; event: any }>(`/events/close`, {
+  async migrateEventTimes(timeZone: string) {
+    return this.request<{ success: boolean; events: any[]; migratedCount: number }>('/events/migrate-times', {
+      method: 'POST',
+      body: JSON.stringify({ timeZone }),
+    });
+  }
+
+  async closeEvent(eventId: string, approvedStaffIds: string[], shiftSelections?: { [shiftId: string]: string[] }) {
+    return this.request<{ success: boolean; event: any; availabilityConflicts?: { staffId: string; shiftId?: string; reason: string }[]; overlapConflicts?: OverlapConflict[] }>(`/events/close`, {
+      method: 'POST',
+      body: JSON.stringify({ eventId, approvedStaffIds, shiftSelections }),
+    });
+  }
+
+  // Event templates
+  async getTemplates() {
+    return this.request<{ templates: any[] }>('/templates');
+  }
+
+  async createTemplate(templateData: any) {
+    return this.request<{ success: boolean; template: any }>('/templates', {
       method: 'POST',
-      body: JSON.stringify({ eventId, approvedStaffIds }),
+      body: JSON.stringify(templateData),
+    });
+  }
+
+  async updateTemplate(templateId: string, templateData: any) {
+    return this.request<{ success: boolean; template: any }>(`/templates/${templateId}`, {
+      method: 'PUT',
+      body: JSON.stringify(templateData),
+    });
+  }
+
+  async deleteTemplate(templateId: string) {
+    return this.request<{ success: boolean }>(`/templates/${templateId}`, {
+      method: 'DELETE',
     });
   }
 
@@ -165,14 +228,13 @@ class ApiClient {
     return this.request<{ staff: any[] }>('/staff');
   }
 
-  async inviteStaff(email: string, name: string, phone: string) {
+  async inviteStaff(email: string, name: string, phone: string, role: UserRole = 'staff') {
     // Get the app URL from the current location
     const appUrl = window.location.origin;
     
     return this.request<{ 
       success: boolean; 
       staff: any; 
-      tempPassword: string; 
       emailSent: boolean;
       isTestingMode?: boolean;
       invitationLink?: string;
@@ -180,7 +242,7 @@ class ApiClient {
       '/staff/invite',
       {
         method: 'POST',
-        body: JSON.stringify({ email, name, phone, appUrl }),
+        body: JSON.stringify({ email, name, phone, appUrl, role }),
       }
     );
   }
@@ -196,17 +258,47 @@ class ApiClient {
   }
 
   async sendPasswordReset(staffId: string) {
+    const appUrl = window.location.origin;
+
     return this.request<{ 
       success: boolean; 
-      message: string; 
+      message: string;
+      staff: any;
       emailSent: boolean;
       isTestingMode?: boolean;
-      tempPassword?: string;
+      resetLink?: string;
     }>(
       '/staff/password-reset',
       {
         method: 'POST',
-        body: JSON.stringify({ staffId }),
+        body: JSON.stringify({ staffId, appUrl }),
+      }
+    );
+  }
+
+  async resendInvitation(staffId: string) {
+    const appUrl = window.location.origin;
+
+    return this.request<{ 
+      success: boolean; 
+      staff: any; 
+      emailSent: boolean;
+      isTestingMode?: boolean;
+      invitationLink?: string;
+    }>(
+      `/staff/${staffId}/invitation`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ appUrl }),
+      }
+    );
+  }
+
+  async revokeInvitation(staffId: string) {
+    return this.request<{ success: boolean; staff: any }>(
+      `/staff/${staffId}/invitation`,
+      {
+        method: 'DELETE',
       }
     );
   }
@@ -233,6 +325,21 @@ class ApiClient {
     );
   }
 
+  // Team roles
+  async getTeam() {
+    return this.request<{ team: StaffMember[] }>('/team');
+  }
+
+  async updateRole(staffId: string, role: UserRole) {
+    return this.request<{ success: boolean; staff: StaffMember }>(
+      `/staff/${staffId}/role`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ role }),
+      }
+    );
+  }
+
   // Points
   async adjustPoints(staffId: string, points: number, reason: string) {
     return this.request<{
@@ -251,30 +358,148 @@ class ApiClient {
   }
 
   // Signups
-  async signUpForEvent(eventId: string) {
-    return this.request<{ success: boolean; event: any }>('/signups', {
+  async signUpForEvent(eventId: string, shiftId?: string) {
+    return this.request<{ success: boolean; event: any; waitlisted?: boolean; waitlistPosition?: number; overlaps?: EventOverlap[] }>('/signups', {
       method: 'POST',
-      body: JSON.stringify({ eventId }),
+      body: JSON.stringify({ eventId, shiftId }),
     });
   }
 
-  async cancelSignUp(eventId: string) {
-    return this.request<{ success: boolean; event: any }>(`/signups/${eventId}`, {
+  async cancelSignUp(eventId: string, shiftId?: string) {
+    const query = shiftId ? `?shiftId=${encodeURIComponent(shiftId)}` : '';
+    return this.request<{ success: boolean; event: any; promoted?: string[]; lateCancellation?: any }>(`/signups/${eventId}${query}`, {
       method: 'DELETE',
     });
   }
 
-  async adminSignUpStaff(eventId: string, staffIds: string[]) {
-    return this.request<{ success: boolean; event: any; addedCount: number }>('/signups/admin', {
+  async adminSignUpStaff(eventId: string, staffIds: string[], shiftId?: string) {
+    return this.request<{ success: boolean; event: any; addedCount: number; waitlistedCount?: number; availabilityConflicts?: { staffId: string; reason: string }[]; overlapConflicts?: OverlapConflict[] }>('/signups/admin', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, staffIds, shiftId }),
+    });
+  }
+
+  async confirmParticipation(eventId: string, staffId: string, shiftId?: string) {
+    return this.request<{ success: boolean; event: any; staff: any; adjustment: any; leveledUp: boolean }>('/participation/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, staffId, shiftId }),
+    });
+  }
+
+  async confirmAllParticipants(eventId: string, shiftId?: string) {
+    return this.request<{
+      success: boolean;
+      event: any;
+      confirmedCount: number;
+      skippedCount?: number;
+      staffList: any[];
+      adjustments: any[];
+      levelUps: { staffId: string; name: string; oldLevel: string; newLevel: string }[];
+    }>('/participation/confirm-all', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, shiftId }),
+    });
+  }
+
+  async markNoShow(eventId: string, staffId: string, shiftId?: string) {
+    return this.request<{ success: boolean; event: any; record: any; adjustment: any; staff: any }>('/participation/no-show', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, staffId, shiftId }),
+    });
+  }
+
+  // Reliability
+  async getReliability() {
+    return this.request<{ records: any[]; settings: any }>('/reliability');
+  }
+
+  async saveReliabilitySettings(lateCancelHours: number, lateCancelPenalty: number, noShowPenalty: number) {
+    return this.request<{ success: boolean; settings: any }>('/reliability/settings', {
+      method: 'POST',
+      body: JSON.stringify({ lateCancelHours, lateCancelPenalty, noShowPenalty }),
+    });
+  }
+
+  // Calendar feed
+  async getCalendarToken() {
+    return this.request<{ token: string }>('/calendar/token');
+  }
+
+  async regenerateCalendarToken() {
+    return this.request<{ success: boolean; token: string }>('/calendar/token/regenerate', {
+      method: 'POST',
+    });
+  }
+
+  getCalendarFeedUrl(token: string) {
+    return `${API_URL}/calendar/feed/${token}.ics`;
+  }
+
+  // Overlapping bookings
+  async getOverlapSettings() {
+    return this.request<{ settings: { mode: 'warn' | 'block' } }>('/overlap/settings');
+  }
+
+  async saveOverlapSettings(mode: 'warn' | 'block') {
+    return this.request<{ success: boolean; settings: { mode: 'warn' | 'block' } }>('/overlap/settings', {
+      method: 'POST',
+      body: JSON.stringify({ mode }),
+    });
+  }
+
+  // Reminders and scheduled jobs
+  async getReminderSettings() {
+    return this.request<{ settings: ReminderSettings; lastRun: ScheduledJobRun | null; cronConfigured: boolean }>('/reminders/settings');
+  }
+
+  async saveReminderSettings(settings: ReminderSettings) {
+    return this.request<{ success: boolean; settings: ReminderSettings }>('/reminders/settings', {
+      method: 'POST',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async runScheduledJobs() {
+    return this.request<{ success: boolean; result: ScheduledJobRun }>('/jobs/run', {
       method: 'POST',
-      body: JSON.stringify({ eventId, staffIds }),
     });
   }
 
-  async confirmParticipation(eventId: string, staffId: string) {
-    return this.request<{ success: boolean; event: any }>('/participation/confirm', {
+  // Availability
+  async getAvailability() {
+    return this.request<{ availability: any }>('/availability');
+  }
+
+  async saveAvailability(availability: any) {
+    return this.request<{ success: boolean; availability: any }>('/availability', {
+      method: 'PUT',
+      body: JSON.stringify(availability),
+    });
+  }
+
+  async getEventAvailability(eventId: string) {
+    return this.request<{
+      conflicts: { [staffId: string]: string };
+      shiftConflicts: { [shiftId: string]: { [staffId: string]: string } };
+    }>(`/events/${eventId}/availability`);
+  }
+
+  // Check-in
+  async getCheckInCode(eventId: string) {
+    return this.request<{ eventId: string; code: string; expiresAt: string }>(`/events/${eventId}/checkin-code`);
+  }
+
+  async checkIn(code: string, method: 'qr' | 'pin', eventId?: string) {
+    return this.request<{ success: boolean; event: any }>('/checkin', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, code, method }),
+    });
+  }
+
+  async checkOut(eventId: string) {
+    return this.request<{ success: boolean; event: any }>('/checkout', {
       method: 'POST',
-      body: JSON.stringify({ eventId, staffId }),
+      body: JSON.stringify({ eventId }),
     });
   }
 
@@ -401,9 +626,24 @@ class ApiClient {
     return this.request<{ connected: boolean; phoneNumber?: string }>('/whatsapp/status');
   }
 
+  async getWhatsAppSettings() {
+    return this.request<WhatsAppSettings>('/whatsapp/settings');
+  }
+
+  async saveWhatsAppSettings(templates: Record<string, WhatsAppTemplateMapping>, appSecret?: string) {
+    return this.request<{ success: boolean; templates: Record<string, WhatsAppTemplateMapping> }>('/whatsapp/settings', {
+      method: 'POST',
+      body: JSON.stringify({ templates, appSecret }),
+    });
+  }
+
+  async getWhatsAppReplies() {
+    return this.request<{ replies: WhatsAppReply[] }>('/whatsapp/replies');
+  }
+
   // Telegram Integration
   async connectTelegram(botToken: string) {
-    return this.request<{ success: boolean; botName?: string }>('/telegram/connect', {
+    return this.request<{ success: boolean; botName?: string; webhookError?: string }>('/telegram/connect', {
       method: 'POST',
       body: JSON.stringify({ botToken }),
     });
@@ -436,13 +676,167 @@ class ApiClient {
     });
   }
 
-  async getNotificationDebug() {
-    return this.request<any>('/debug/notifications');
+  async getTelegramBot() {
+    return this.request<{
+      enabled: boolean;
+      commands: { command: string; description: string }[];
+      pendingUpdateCount: number;
+      lastError: string | null;
+    }>('/telegram/bot');
+  }
+
+  async setTelegramBotEnabled(enabled: boolean) {
+    return this.request<{ success: boolean; enabled: boolean }>('/telegram/bot', {
+      method: 'POST',
+      body: JSON.stringify({ enabled }),
+    });
+  }
+
+  async getTelegramLink() {
+    return this.request<TelegramLinkStatus>('/telegram/link');
+  }
+
+  async createTelegramLink() {
+    return this.request<{ success: boolean; url: string; expiresAt: string }>('/telegram/link', {
+      method: 'POST',
+    });
+  }
+
+  async unlinkTelegram() {
+    return this.request<{ success: boolean }>('/telegram/link', {
+      method: 'DELETE',
+    });
+  }
+
+  // Delivery log
+  async getDeliveryLog(status?: NotificationStatus) {
+    return this.request<{
+      notifications: DeliveryLogEntry[];
+      counts: Record<NotificationStatus, number>;
+    }>(`/notifications${status ? `?status=${status}` : ''}`);
+  }
+
+  async retryNotification(notificationId: string) {
+    return this.request<{ success: boolean; notification: DeliveryLogEntry }>(`/notifications/${notificationId}/retry`, {
+      method: 'POST',
+    });
+  }
+
+  async processNotifications() {
+    return this.request<{ success: boolean; dueCount: number }>('/notifications/process', {
+      method: 'POST',
+    });
+  }
+
+  // Notification templates
+  async getNotificationTemplates() {
+    return this.request<{ templates: NotificationTemplate[] }>('/notification-templates');
+  }
+
+  async saveNotificationTemplate(type: string, channel: NotificationChannel, template: NotificationTemplateContent) {
+    return this.request<{ success: boolean }>(`/notification-templates/${type}/${channel}`, {
+      method: 'PUT',
+      body: JSON.stringify(template),
+    });
+  }
+
+  async resetNotificationTemplate(type: string, channel: NotificationChannel) {
+    return this.request<{ success: boolean; template: NotificationTemplateContent }>(`/notification-templates/${type}/${channel}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async previewNotificationTemplate(type: string, channel: NotificationChannel, template: NotificationTemplateContent) {
+    return this.request<{ preview: { subject?: string; html?: string; text?: string } }>('/notification-templates/preview', {
+      method: 'POST',
+      body: JSON.stringify({ type, channel, ...template }),
+    });
+  }
+
+  // Notification Preferences
+  async getNotificationPreferences() {
+    return this.request<{
+      preferences: NotificationPreferences;
+      categories: NotificationCategory[];
+      reachableChannels: NotificationChannel[];
+      digestSchedule: DigestSettings;
+      organizationQuietHours: QuietHours;
+    }>('/notification-preferences');
+  }
+
+  async saveNotificationPreferences(preferences: Pick<NotificationPreferences, 'categories' | 'backupChannels' | 'digestMode' | 'quietHours'>) {
+    return this.request<{ success: boolean; preferences: NotificationPreferences }>('/notification-preferences', {
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+    });
+  }
+
+  // Quiet hours
+  async getQuietHoursSettings() {
+    return this.request<{ settings: QuietHours; heldCount: number }>('/quiet-hours/settings');
+  }
+
+  async saveQuietHoursSettings(settings: QuietHours) {
+    return this.request<{ success: boolean; settings: QuietHours }>('/quiet-hours/settings', {
+      method: 'POST',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  // New events digest
+  async getDigestSettings() {
+    return this.request<{ settings: DigestSettings; subscriberCounts: { daily: number; weekly: number } }>('/digest/settings');
+  }
+
+  async saveDigestSettings(settings: DigestSettings) {
+    return this.request<{ success: boolean; settings: DigestSettings }>('/digest/settings', {
+      method: 'POST',
+      body: JSON.stringify(settings),
+    });
   }
 
   // Email Configuration
   async getEmailConfig() {
-    return this.request<{ fromEmail: string; isTestMode: boolean }>('/email-config');
+    return this.request<{
+      transport: EmailTransport;
+      transportLabel: string;
+      fromEmail: string;
+      fromName: string;
+      replyTo: string;
+      isTestMode: boolean;
+    }>('/email-config');
+  }
+
+  async getEmailSettings() {
+    return this.request<{
+      settings: EmailSettings;
+      transports: { transport: EmailTransport; label: string }[];
+      resendConfigured: boolean;
+      capturedCount: number;
+    }>('/email/settings');
+  }
+
+  async saveEmailSettings(settings: Omit<EmailSettings, 'smtp'> & { smtp: { host: string; port: number; username: string; password?: string } }) {
+    return this.request<{ success: boolean; settings: EmailSettings }>('/email/settings', {
+      method: 'POST',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async sendTestEmail() {
+    return this.request<{ success: boolean; captured: boolean; to: string }>('/email/test', {
+      method: 'POST',
+    });
+  }
+
+  async getCapturedEmails() {
+    return this.request<{ emails: CapturedEmail[] }>('/email/captured');
+  }
+
+  async clearCapturedEmails() {
+    return this.request<{ success: boolean; deleted: number }>('/email/captured', {
+      method: 'DELETE',
+    });
   }
 }
 
@@ -2,6 +2,8 @@
  * Date utility functions for the application
  */
 
+import type { Event } from '../App';
+
 /**
  * Get the maximum allowed date (31/12/2099)
  */
@@ -95,4 +97,216 @@ export const formatDateShort = (dateString: string): string => {
     month: 'short',
     day: 'numeric'
   });
-};
\ No newline at end of file
+};
+/**
+ * Time zone assumed for events saved before events carried one (matches the server)
+ */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Get the browser's IANA time zone (e.g., "Europe/London")
+ */
+export const getBrowserTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+};
+
+/**
+ * Get the IANA time zones offered when creating events
+ * Falls back to a short list in browsers without Intl.supportedValuesOf
+ */
+export const getTimeZoneOptions = (): string[] => {
+  const supported = (Intl as any).supportedValuesOf?.('timeZone') as string[] | undefined;
+  const zones = supported && supported.length > 0 ? supported : [
+    'UTC', 'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Asia/Dubai', 'Asia/Riyadh',
+    'Asia/Beirut', 'Africa/Cairo', 'America/New_York', 'America/Chicago', 'America/Los_Angeles',
+    'Asia/Kolkata', 'Asia/Singapore', 'Australia/Sydney'
+  ];
+  const browserTimeZone = getBrowserTimeZone();
+  return zones.includes(browserTimeZone) ? zones : [browserTimeZone, ...zones];
+};
+
+/**
+ * Get a short label for a time zone at a date (e.g., "GMT+1", "EST")
+ */
+export const getTimeZoneLabel = (timeZone: string, date: Date = new Date()): string => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+    return parts.find(p => p.type === 'timeZoneName')?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+/**
+ * Get today's date (YYYY-MM-DD) in a time zone
+ */
+export const getTodayInTimeZone = (timeZone: string): string => {
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+};
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export const addDays = (dateString: string, days: number): string => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Count the days from one YYYY-MM-DD date string to another
+ */
+export const daysBetween = (fromDateString: string, toDateString: string): number => {
+  const from = new Date(`${fromDateString}T00:00:00Z`).getTime();
+  const to = new Date(`${toDateString}T00:00:00Z`).getTime();
+  return Math.round((to - from) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * Convert a local Date to a YYYY-MM-DD string (e.g., for calendar days)
+ */
+export const toDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Get the UTC offset (in ms) of a time zone at an instant
+ */
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a time zone to a Date
+ */
+export const zonedTimeToDate = (dateString: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  // Resolve the offset twice so times next to a daylight saving change land on the right side
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(firstGuess, timeZone));
+};
+
+/**
+ * Parse free-text durations like "3 hours" or "2 hours 30 minutes" into minutes
+ */
+const parseDurationMinutes = (duration: string): number | null => {
+  const text = (duration || '').toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : null;
+};
+
+type TimedEvent = Pick<Event, 'date' | 'time' | 'duration' | 'endDate' | 'endTime' | 'timeZone' | 'startsAt' | 'endsAt'>;
+
+/**
+ * Get the start and end of an event as Dates
+ * Uses the stored startsAt/endsAt, or derives them the same way the server does for unmigrated events
+ */
+export const getEventTimes = (event: TimedEvent): { start: Date; end: Date } => {
+  if (event.startsAt && event.endsAt) {
+    return { start: new Date(event.startsAt), end: new Date(event.endsAt) };
+  }
+
+  const timeZone = event.timeZone || DEFAULT_TIME_ZONE;
+  let lastDate = event.endDate || event.date;
+  let endTime = event.endTime;
+
+  if (!endTime) {
+    // Without an end time the free-text duration decides when the first day ends
+    const [hours, minutes] = (event.time || '00:00').split(':').map(Number);
+    const total = hours * 60 + minutes + (parseDurationMinutes(event.duration) || 60);
+    const dayOffset = Math.floor(total / (24 * 60));
+    const minuteOfDay = total - dayOffset * 24 * 60;
+    endTime = `${String(Math.floor(minuteOfDay / 60)).padStart(2, '0')}:${String(minuteOfDay % 60).padStart(2, '0')}`;
+    const durationEndDate = addDays(event.date, dayOffset);
+    if (durationEndDate > lastDate) lastDate = durationEndDate;
+  }
+
+  const start = zonedTimeToDate(event.date, event.time, timeZone);
+  let end = zonedTimeToDate(lastDate, endTime, timeZone);
+
+  // Ending at or before the start means the event runs past midnight
+  if (end <= start) {
+    end = zonedTimeToDate(addDays(lastDate, 1), endTime, timeZone);
+  }
+
+  return { start, end };
+};
+
+/**
+ * Get the start and end of a shift - shift times are on the event's start date, in its time zone
+ */
+export const getShiftTimes = (event: TimedEvent, shift: { startTime: string; endTime: string }): { start: Date; end: Date } => {
+  const timeZone = event.timeZone || DEFAULT_TIME_ZONE;
+  const start = zonedTimeToDate(event.date, shift.startTime, timeZone);
+  let end = zonedTimeToDate(event.date, shift.endTime, timeZone);
+  if (end <= start) {
+    end = zonedTimeToDate(addDays(event.date, 1), shift.endTime, timeZone);
+  }
+  return { start, end };
+};
+
+export type EventTiming = 'upcoming' | 'current' | 'past';
+
+/**
+ * Classify an event as upcoming (not started), current (in progress) or past (ended)
+ */
+export const getEventTiming = (event: TimedEvent, now: Date = new Date()): EventTiming => {
+  const { start, end } = getEventTimes(event);
+  if (now < start) return 'upcoming';
+  if (now < end) return 'current';
+  return 'past';
+};
+
+/**
+ * Format an event's time range in its own time zone (e.g., "18:00 – 21:00 GMT+1")
+ * The zone label is only shown when it differs from the viewer's
+ */
+export const formatEventTimeRange = (event: TimedEvent): string => {
+  const { start } = getEventTimes(event);
+  const range = event.endTime ? `${event.time} – ${event.endTime}` : event.time;
+  const timeZone = event.timeZone || DEFAULT_TIME_ZONE;
+  if (getTimeZoneOffset(start.getTime(), timeZone) === getTimeZoneOffset(start.getTime(), getBrowserTimeZone())) {
+    return range;
+  }
+  return `${range} ${getTimeZoneLabel(timeZone, start)}`;
+};
+
+/**
+ * Format the time (HH:MM) of an instant in a time zone
+ */
+export const formatTimeInTimeZone = (date: Date, timeZone: string): string => {
+  return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date);
+};
+
+/**
+ * Describe the daily length between a start and end time (e.g., "2 hours 30 minutes")
+ * End times before the start time run past midnight
+ */
+export const formatDuration = (startTime: string, endTime: string): string => {
+  if (!startTime || !endTime) return '';
+  const [startHours, startMinutes] = startTime.split(':').map(Number);
+  const [endHours, endMinutes] = endTime.split(':').map(Number);
+  const totalMinutes = ((endHours * 60 + endMinutes) - (startHours * 60 + startMinutes) + 24 * 60) % (24 * 60) || 24 * 60;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return [
+    hours > 0 ? `${hours} hour${hours !== 1 ? 's' : ''}` : '',
+    minutes > 0 ? `${minutes} minute${minutes !== 1 ? 's' : ''}` : ''
+  ].filter(Boolean).join(' ');
+};
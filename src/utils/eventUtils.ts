@@ -0,0 +1,176 @@
+/**
+ * Event utility functions for the application
+ */
+
+import type { Event, EventShift, ReliabilityRecord } from '../App';
+import { DEFAULT_TIME_ZONE, getTodayInTimeZone, getEventTimes, getShiftTimes } from './dateUtils';
+
+/**
+ * Anything staff can sign up for - a whole event or a single shift
+ */
+type SignUpSlot = Pick<Event, 'signedUpStaff' | 'waitlistedStaff' | 'signUpTimestamps'>;
+
+/**
+ * Check whether a staff member is on the waitlist of an event
+ */
+export const isOnWaitlist = (event: SignUpSlot, staffId: string): boolean => {
+  return event.waitlistedStaff?.includes(staffId) || false;
+};
+
+/**
+ * Get the waitlist in order (first come, first served)
+ */
+export const getOrderedWaitlist = (event: SignUpSlot): string[] => {
+  const timestamps = event.signUpTimestamps || {};
+  return [...(event.waitlistedStaff || [])].sort((a, b) =>
+    (timestamps[a] || '').localeCompare(timestamps[b] || '')
+  );
+};
+
+/**
+ * Get a staff member's 1-based waitlist position, or 0 if they are not waitlisted
+ */
+export const getWaitlistPosition = (event: SignUpSlot, staffId: string): number => {
+  return getOrderedWaitlist(event).indexOf(staffId) + 1;
+};
+
+/**
+ * Check whether an event has reached its capacity
+ */
+export const isEventFull = (event: Event): boolean => {
+  return !!event.capacity && event.capacity > 0 && event.signedUpStaff.length >= event.capacity;
+};
+
+/**
+ * Check whether an event is split into shifts
+ */
+export const hasShifts = (event: Event): boolean => {
+  return !!event.shifts && event.shifts.length > 0;
+};
+
+/**
+ * Check whether a shift has reached its headcount
+ */
+export const isShiftFull = (shift: EventShift): boolean => {
+  return shift.headcount > 0 && shift.signedUpStaff.length >= shift.headcount;
+};
+
+/**
+ * Get the shifts of an event a staff member is signed up for, waitlisted on, or selected for
+ */
+export const getStaffShifts = (
+  event: Event,
+  staffId: string,
+  list: 'signedUpStaff' | 'waitlistedStaff' | 'confirmedStaff' = 'signedUpStaff'
+): EventShift[] => {
+  return (event.shifts || []).filter(shift => shift[list]?.includes(staffId));
+};
+
+/**
+ * Get the staff expected on site - selected staff, or everyone signed up while no selection has been made
+ */
+export const getExpectedStaff = (event: Event): string[] => {
+  return event.confirmedStaff || event.signedUpStaff;
+};
+
+/**
+ * Check whether an event takes place today in its own time zone (multi-day events count on every day)
+ */
+export const isEventToday = (event: Event): boolean => {
+  const today = getTodayInTimeZone(event.timeZone || DEFAULT_TIME_ZONE);
+  return event.date <= today && (event.endDate || event.date) >= today;
+};
+
+/**
+ * Check whether a staff member has checked in to an event
+ */
+export const isCheckedIn = (event: Event, staffId: string): boolean => {
+  return !!event.checkIns?.[staffId];
+};
+
+/**
+ * Reliability of a staff member: the share of their commitments they kept
+ * Attended events count as kept, no-shows and late cancellations as broken
+ */
+export const getReliability = (
+  staffId: string,
+  events: Event[],
+  records: ReliabilityRecord[]
+): { attended: number; noShows: number; lateCancels: number; score: number | null } => {
+  const attended = events.filter(event => event.pointsAwarded?.includes(staffId)).length;
+  const staffRecords = records.filter(record => record.staffId === staffId);
+  const noShows = staffRecords.filter(record => record.type === 'no-show').length;
+  const lateCancels = staffRecords.filter(record => record.type === 'late-cancel').length;
+  const total = attended + noShows + lateCancels;
+
+  return {
+    attended,
+    noShows,
+    lateCancels,
+    score: total > 0 ? Math.round((attended / total) * 100) : null
+  };
+};
+
+/**
+ * A slot (event, or shift of an event) a staff member holds a spot in
+ */
+export interface StaffCommitment {
+  event: Event;
+  shift?: EventShift;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * List the slots a staff member holds a spot in, mirroring the server
+ * Once a slot has been closed only the selected staff hold it, before that everyone signed up does
+ */
+const getStaffCommitments = (staffId: string, events: Event[]): StaffCommitment[] => {
+  const holdsSpot = (slot: Pick<Event, 'signedUpStaff' | 'confirmedStaff'>) => slot.confirmedStaff
+    ? slot.confirmedStaff.includes(staffId)
+    : (slot.signedUpStaff || []).includes(staffId);
+
+  return events
+    .filter(event => event.status !== 'cancelled')
+    .flatMap(event => event.shifts && event.shifts.length > 0
+      ? event.shifts.filter(holdsSpot).map(shift => ({ event, shift, ...getShiftTimes(event, shift) }))
+      : holdsSpot(event) ? [{ event, ...getEventTimes(event) }] : []);
+};
+
+/**
+ * Find pairs of overlapping commitments for a staff member that have not ended yet
+ */
+export const findStaffOverlaps = (
+  staffId: string,
+  events: Event[],
+  now: Date = new Date()
+): [StaffCommitment, StaffCommitment][] => {
+  const commitments = getStaffCommitments(staffId, events)
+    .filter(commitment => commitment.end > now)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const pairs: [StaffCommitment, StaffCommitment][] = [];
+  commitments.forEach((first, index) => {
+    commitments.slice(index + 1)
+      .filter(second => second.start < first.end)
+      .forEach(second => pairs.push([first, second]));
+  });
+  return pairs;
+};
+
+// Badge colours, assigned by a level's position in the hierarchy
+const LEVEL_COLORS = [
+  'bg-blue-50 text-blue-700 border-blue-300',
+  'bg-purple-50 text-purple-700 border-purple-300',
+  'bg-green-50 text-green-700 border-green-300',
+  'bg-orange-50 text-orange-700 border-orange-300',
+  'bg-pink-50 text-pink-700 border-pink-300',
+];
+
+/**
+ * Get the colour classes for a level badge (levels sorted by order)
+ */
+export const getLevelColor = (levelName: string, sortedLevels: { name: string }[]): string => {
+  const levelIndex = sortedLevels.findIndex(l => l.name === levelName);
+  return LEVEL_COLORS[levelIndex % LEVEL_COLORS.length] || LEVEL_COLORS[0];
+};
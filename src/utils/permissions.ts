@@ -0,0 +1,53 @@
+/**
+ * Role permissions - what each role may do in the admin dashboard
+ *
+ * Kept in step with ROLE_PERMISSIONS in the server, which enforces them. The dashboard only
+ * uses these to decide which tabs and actions to show.
+ */
+
+import type { UserRole } from '../App';
+
+export type Permission =
+  | 'events:manage'     // create, edit, cancel and delete events and event templates
+  | 'staffing:manage'   // sign staff up, close events, confirm attendance, no-shows and check-in codes
+  | 'staff:manage'      // invite, edit and remove staff, password resets and Telegram chat IDs
+  | 'points:manage'     // adjust points by hand
+  | 'points:view'       // the points log
+  | 'reports:view'      // reliability records
+  | 'settings:manage'   // settings, levels, integrations, notifications and scheduled jobs
+  | 'roles:manage';     // invite team members and change anyone's role
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['events:manage', 'staffing:manage', 'staff:manage', 'points:manage', 'points:view', 'reports:view', 'settings:manage', 'roles:manage'],
+  coordinator: ['events:manage', 'staffing:manage', 'reports:view'],
+  viewer: ['points:view', 'reports:view'],
+  staff: [],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  coordinator: 'Event Coordinator',
+  viewer: 'Finance Viewer',
+  staff: 'Staff',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Everything, including settings, points adjustments and team roles',
+  coordinator: 'Manage events and staffing, and see reliability',
+  viewer: 'Read-only access to the points log and reliability',
+  staff: 'Sign up for events and manage their own profile',
+};
+
+/**
+ * Check whether a role may do something
+ */
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean => {
+  return (ROLE_PERMISSIONS[role || 'staff'] || []).includes(permission);
+};
+
+/**
+ * Everyone but staff works from the admin dashboard
+ */
+export const usesAdminDashboard = (role: UserRole | undefined): boolean => {
+  return !!role && role !== 'staff';
+};